@@ -0,0 +1,421 @@
+import { Request, Response, NextFunction } from 'express';
+import { FilterQuery } from 'mongoose';
+import Post from '../models/Post';
+import Comment from '../models/Comment';
+import User, { IUser, UserRole, AccountStatus } from '../models/User';
+import ModerationAction from '../models/ModerationAction';
+import { audit } from '../services/audit';
+import { revokeUserSessions } from '../utils/session';
+import { encodeCursor, decodeCursor, cursorFilter, parseLimit } from '../utils/pagination';
+import { markdownSource } from '../utils/markdown';
+import { avatarUrl } from '../utils/profile';
+import { escapeRegex } from '../utils/search';
+
+// Recent posts and comments shown on a user's admin page
+const RECENT_CONTENT_LIMIT = 20;
+
+const accountStatus = (user: IUser): AccountStatus => {
+    if (user.bannedAt) return 'banned';
+    if (user.suspendedUntil && user.suspendedUntil.getTime() > Date.now()) return 'suspended';
+    return 'active';
+};
+
+const serializeAdminUser = (user: IUser) => {
+    const status = accountStatus(user);
+
+    return {
+        id: user._id,
+        name: user.name,
+        email: user.email,
+        avatar: avatarUrl(user),
+        role: user.role,
+        isEmailVerified: user.isEmailVerified,
+        status,
+        // A lapsed suspension is not reported
+        suspendedUntil: status === 'suspended' ? user.suspendedUntil : null,
+        bannedAt: user.bannedAt ?? null,
+        restrictionReason: status === 'active' ? null : user.restrictionReason ?? null,
+        createdAt: user.createdAt,
+    };
+};
+
+const statusFilter = (status: AccountStatus): FilterQuery<IUser> => {
+    const now = new Date();
+    switch (status) {
+        case 'banned':
+            return { bannedAt: { $ne: null } };
+        case 'suspended':
+            return { bannedAt: null, suspendedUntil: { $gt: now } };
+        case 'active':
+            return { bannedAt: null, $or: [{ suspendedUntil: null }, { suspendedUntil: { $lte: now } }] };
+    }
+};
+
+/**
+ * Loads the user an account action targets. Sends the error response and
+ * returns null when the user is missing or is the acting admin - admins
+ * cannot lock themselves out or drop their own access.
+ */
+const loadTargetUser = async (req: Request, res: Response): Promise<IUser | null> => {
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+        res.status(404).json({
+            success: false,
+            error: 'User not found',
+        });
+        return null;
+    }
+
+    if (user._id.equals(req.user?._id)) {
+        res.status(400).json({
+            success: false,
+            error: 'You cannot change your own account here',
+        });
+        return null;
+    }
+
+    return user;
+};
+
+// @desc    All users, newest first, filtered by role, verification and status
+// @route   GET /api/v1/admin/users?q=&role=&verified=&status=&cursor=&limit=
+// @access  Private (Admin)
+export const getUsers = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { q, role, verified, status, cursor } = req.query;
+        const limit = parseLimit(req.query.limit);
+
+        const conditions: FilterQuery<IUser>[] = [];
+
+        if (q) {
+            // SECURITY: Escaped, so the search text is never treated as a pattern
+            const pattern = new RegExp(escapeRegex(q as string), 'i');
+            conditions.push({ $or: [{ name: pattern }, { email: pattern }] });
+        }
+        if (role) {
+            conditions.push({ role: role as UserRole });
+        }
+        if (verified !== undefined) {
+            conditions.push({ isEmailVerified: verified === 'true' });
+        }
+        if (status) {
+            conditions.push(statusFilter(status as AccountStatus));
+        }
+        if (cursor) {
+            const decoded = decodeCursor(cursor as string);
+            if (!decoded) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Invalid cursor',
+                });
+                return;
+            }
+            conditions.push(cursorFilter(decoded));
+        }
+
+        const users = await User.find(conditions.length > 0 ? { $and: conditions } : {})
+            .sort({ createdAt: -1, _id: -1 })
+            .limit(limit + 1);
+
+        const hasMore = users.length > limit;
+        const page = hasMore ? users.slice(0, limit) : users;
+        const last = page[page.length - 1];
+
+        res.status(200).json({
+            success: true,
+            count: page.length,
+            data: page.map(serializeAdminUser),
+            nextCursor: hasMore && last ? encodeCursor(last.createdAt, last._id) : null,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    A user's account details with their recent posts and comments
+// @route   GET /api/v1/admin/users/:id
+// @access  Private (Admin)
+export const getUserDetail = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const user = await User.findById(req.params.id);
+
+        if (!user) {
+            res.status(404).json({
+                success: false,
+                error: 'User not found',
+            });
+            return;
+        }
+
+        // Hidden content is included - admins need to see it
+        const [posts, comments, postCount, commentCount, moderationActions] = await Promise.all([
+            Post.find({ author: user._id })
+                .sort({ createdAt: -1 })
+                .limit(RECENT_CONTENT_LIMIT)
+                .select('title type likes commentCount hiddenAt createdAt'),
+            Comment.find({ user: user._id, deletedAt: { $exists: false } })
+                .sort({ createdAt: -1 })
+                .limit(RECENT_CONTENT_LIMIT)
+                .populate('post', 'title'),
+            Post.countDocuments({ author: user._id }),
+            Comment.countDocuments({ user: user._id, deletedAt: { $exists: false } }),
+            ModerationAction.countDocuments({ targetAuthor: user._id, action: { $ne: 'dismiss' } }),
+        ]);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                user: serializeAdminUser(user),
+                stats: {
+                    posts: postCount,
+                    comments: commentCount,
+                    moderationActions,
+                },
+                posts: posts.map(post => ({
+                    id: post._id,
+                    title: post.title,
+                    type: post.type,
+                    likes: post.likes,
+                    comments: post.commentCount,
+                    isHidden: Boolean(post.hiddenAt),
+                    createdAt: post.createdAt,
+                })),
+                // Comments on posts that have since been deleted are left out
+                comments: comments.flatMap(comment => {
+                    const post = comment.post as unknown as { _id: string; title: string } | null;
+                    if (!post) return [];
+
+                    return [{
+                        id: comment._id,
+                        text: markdownSource(comment.text, comment.isMarkdown),
+                        post: { id: post._id, title: post.title },
+                        isHidden: Boolean(comment.hiddenAt),
+                        createdAt: comment.createdAt,
+                    }];
+                }),
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Lock a user out until a date
+// @route   POST /api/v1/admin/users/:id/suspend
+// @access  Private (Admin)
+export const suspendUser = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const user = await loadTargetUser(req, res);
+        if (!user) return;
+
+        if (user.role === 'admin') {
+            res.status(400).json({
+                success: false,
+                error: 'Remove admin access before suspending this user',
+            });
+            return;
+        }
+
+        if (user.bannedAt) {
+            res.status(400).json({
+                success: false,
+                error: 'User is banned',
+            });
+            return;
+        }
+
+        const previousUntil = accountStatus(user) === 'suspended' ? user.suspendedUntil : null;
+
+        user.suspendedUntil = new Date(req.body.until);
+        user.restrictionReason = req.body.reason;
+        await user.save();
+
+        await audit(req, {
+            action: 'user.suspend',
+            targetType: 'user',
+            target: user._id,
+            targetLabel: user.email,
+            changes: { suspendedUntil: { from: previousUntil, to: user.suspendedUntil } },
+            details: req.body.reason,
+        });
+
+        // SECURITY: Sign the user out everywhere right away
+        await revokeUserSessions(user._id.toString());
+
+        res.status(200).json({
+            success: true,
+            data: serializeAdminUser(user),
+            message: 'User suspended',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Lock a user out until an admin reinstates them
+// @route   POST /api/v1/admin/users/:id/ban
+// @access  Private (Admin)
+export const banUser = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const user = await loadTargetUser(req, res);
+        if (!user) return;
+
+        if (user.role === 'admin') {
+            res.status(400).json({
+                success: false,
+                error: 'Remove admin access before banning this user',
+            });
+            return;
+        }
+
+        if (user.bannedAt) {
+            res.status(400).json({
+                success: false,
+                error: 'User is already banned',
+            });
+            return;
+        }
+
+        const previousStatus = accountStatus(user);
+
+        user.bannedAt = new Date();
+        user.suspendedUntil = undefined;
+        user.restrictionReason = req.body.reason;
+        await user.save();
+
+        await audit(req, {
+            action: 'user.ban',
+            targetType: 'user',
+            target: user._id,
+            targetLabel: user.email,
+            changes: { status: { from: previousStatus, to: 'banned' } },
+            details: req.body.reason,
+        });
+
+        // SECURITY: Sign the user out everywhere right away
+        await revokeUserSessions(user._id.toString());
+
+        res.status(200).json({
+            success: true,
+            data: serializeAdminUser(user),
+            message: 'User banned',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Lift a user's suspension or ban
+// @route   POST /api/v1/admin/users/:id/reinstate
+// @access  Private (Admin)
+export const reinstateUser = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const user = await loadTargetUser(req, res);
+        if (!user) return;
+
+        if (accountStatus(user) === 'active') {
+            res.status(400).json({
+                success: false,
+                error: 'User is not suspended or banned',
+            });
+            return;
+        }
+
+        const previousStatus = accountStatus(user);
+
+        user.bannedAt = undefined;
+        user.suspendedUntil = undefined;
+        user.restrictionReason = undefined;
+        await user.save();
+
+        await audit(req, {
+            action: 'user.reinstate',
+            targetType: 'user',
+            target: user._id,
+            targetLabel: user.email,
+            changes: { status: { from: previousStatus, to: 'active' } },
+        });
+
+        res.status(200).json({
+            success: true,
+            data: serializeAdminUser(user),
+            message: 'User reinstated',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Promote a user to admin, or return an admin to student
+// @route   PATCH /api/v1/admin/users/:id/role
+// @access  Private (Admin)
+export const updateUserRole = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const user = await loadTargetUser(req, res);
+        if (!user) return;
+
+        const role = req.body.role as UserRole;
+
+        if (user.role === role) {
+            res.status(400).json({
+                success: false,
+                error: `User is already ${role === 'admin' ? 'an admin' : 'a student'}`,
+            });
+            return;
+        }
+
+        if (role === 'admin' && accountStatus(user) !== 'active') {
+            res.status(400).json({
+                success: false,
+                error: 'Reinstate this user before making them an admin',
+            });
+            return;
+        }
+
+        const previousRole = user.role;
+
+        user.role = role;
+        await user.save();
+
+        await audit(req, {
+            action: 'user.role-change',
+            targetType: 'user',
+            target: user._id,
+            targetLabel: user.email,
+            changes: { role: { from: previousRole, to: role } },
+        });
+
+        res.status(200).json({
+            success: true,
+            data: serializeAdminUser(user),
+            message: role === 'admin' ? 'User is now an admin' : 'Admin access removed',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
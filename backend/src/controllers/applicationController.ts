@@ -0,0 +1,454 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose, { FilterQuery } from 'mongoose';
+import Application, { IApplication, ApplicationStage, APPLICATION_STAGES } from '../models/Application';
+import Post, { IPost, IInternshipPost, VISIBLE_POSTS, postAuthorId } from '../models/Post';
+import User, { IUser } from '../models/User';
+import { notify } from '../services/notifications';
+import { encodeCursor, decodeCursor, cursorFilter, parseLimit } from '../utils/pagination';
+import { avatarUrl, profileFields } from '../utils/profile';
+
+// A deadline is a calendar day; applications stay open until it ends
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The poster's view: everything, including private notes
+const serializeForPoster = (
+    application: IApplication,
+    noteAuthors: Map<string, Pick<IUser, '_id' | 'name'>>
+) => ({
+    id: application._id,
+    post: application.post,
+    applicant: application.applicant,
+    profile: application.profile,
+    coverNote: application.coverNote,
+    stage: application.stage,
+    stageChangedAt: application.stageChangedAt,
+    stageHistory: application.stageHistory,
+    notes: application.notes.map(note => {
+        const author = noteAuthors.get(note.author.toString());
+        return {
+            id: note._id,
+            author: author ? { id: author._id, name: author.name } : null,
+            text: note.text,
+            createdAt: note.createdAt,
+        };
+    }),
+    createdAt: application.createdAt,
+});
+
+// SECURITY: The applicant's view leaves out the poster's notes and who moved
+// the application between stages
+const serializeForApplicant = (application: IApplication, post?: IPost | null) => ({
+    id: application._id,
+    post: post
+        ? {
+            id: post._id,
+            title: post.title,
+            company: (post as IInternshipPost).company,
+        }
+        : null,
+    coverNote: application.coverNote,
+    stage: application.stage,
+    stageChangedAt: application.stageChangedAt,
+    createdAt: application.createdAt,
+});
+
+const loadNoteAuthors = async (applications: IApplication[]) => {
+    const ids = applications.flatMap(application => application.notes.map(note => note.author));
+    if (ids.length === 0) return new Map<string, Pick<IUser, '_id' | 'name'>>();
+    const users = await User.find({ _id: { $in: ids } }).select('name');
+    return new Map(users.map(user => [user._id.toString(), user]));
+};
+
+const isPosterOrAdmin = (post: IPost, user: IUser): boolean =>
+    postAuthorId(post).toString() === user._id.toString() || user.role === 'admin';
+
+/**
+ * Loads an application together with its post for the poster-only actions.
+ * SECURITY: Anyone but the poster or an admin gets the same 404 as a
+ * missing application, so application ids can't be probed.
+ */
+const findManagedApplication = async (applicationId: string, user: IUser) => {
+    const application = await Application.findById(applicationId);
+    if (!application) return null;
+
+    const post = await Post.findById(application.post).select('author title');
+    if (!post || !isPosterOrAdmin(post, user)) return null;
+
+    return { application, post };
+};
+
+// @desc    Apply to an internship
+// @route   POST /api/v1/posts/:id/applications
+// @access  Private
+export const applyToPost = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const post = await Post.findOne({ _id: req.params.id, ...VISIBLE_POSTS }).select('-commentsList');
+
+        if (!post) {
+            res.status(404).json({
+                success: false,
+                error: 'Post not found',
+            });
+            return;
+        }
+
+        if (post.type !== 'internship') {
+            res.status(400).json({
+                success: false,
+                error: 'Only internships accept applications',
+            });
+            return;
+        }
+
+        if (postAuthorId(post).toString() === req.user._id.toString()) {
+            res.status(400).json({
+                success: false,
+                error: 'You cannot apply to your own internship',
+            });
+            return;
+        }
+
+        const deadline = (post as IInternshipPost).applicationDeadline;
+        if (deadline && deadline.getTime() + DAY_MS < Date.now()) {
+            res.status(400).json({
+                success: false,
+                error: 'Applications for this internship have closed',
+            });
+            return;
+        }
+
+        const user = req.user;
+        let application: IApplication;
+        try {
+            application = await Application.create({
+                post: post._id,
+                applicant: user._id,
+                coverNote: req.body.coverNote,
+                profile: {
+                    name: user.name,
+                    email: user.email,
+                    avatar: avatarUrl(user),
+                    bio: user.bio,
+                    ...profileFields(user),
+                },
+                stageHistory: [{ stage: 'applied', changedBy: user._id }],
+            });
+        } catch (error) {
+            if ((error as { code?: number }).code !== 11000) throw error;
+            res.status(409).json({
+                success: false,
+                error: 'You have already applied to this internship',
+            });
+            return;
+        }
+
+        // The post may have stopped being an internship, or been hidden, while this was saved
+        if (!await Post.exists({ _id: post._id, type: 'internship', ...VISIBLE_POSTS })) {
+            await application.deleteOne();
+            res.status(400).json({
+                success: false,
+                error: 'Only internships accept applications',
+            });
+            return;
+        }
+
+        // The poster's account may have been deleted since
+        if (post.author) {
+            void notify({ recipient: post.author._id, actor: user._id, type: 'application', post: post._id });
+        }
+
+        res.status(201).json({
+            success: true,
+            data: serializeForApplicant(application, post),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    The current user's application to a post, if any
+// @route   GET /api/v1/posts/:id/applications/mine
+// @access  Private
+export const getMyApplicationForPost = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const application = await Application.findOne({ post: req.params.id, applicant: req.user._id });
+
+        res.status(200).json({
+            success: true,
+            data: application ? serializeForApplicant(application) : null,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Applicants to a post, newest first, with per-stage counts
+// @route   GET /api/v1/posts/:id/applications?stage=&limit=&cursor=
+// @access  Private (Poster or Admin)
+export const getPostApplications = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const post = await Post.findById(req.params.id).select('author type title');
+
+        if (!post) {
+            res.status(404).json({
+                success: false,
+                error: 'Post not found',
+            });
+            return;
+        }
+
+        // SECURITY: Students never see who else applied
+        if (!isPosterOrAdmin(post, req.user)) {
+            res.status(403).json({
+                success: false,
+                error: 'Not authorized to view these applications',
+            });
+            return;
+        }
+
+        const { stage, cursor } = req.query;
+        const limit = parseLimit(req.query.limit);
+
+        const conditions: FilterQuery<IApplication>[] = [{ post: post._id }];
+        if (stage) {
+            conditions.push({ stage: stage as ApplicationStage });
+        }
+        if (cursor) {
+            const decoded = decodeCursor(cursor as string);
+            if (!decoded) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Invalid cursor',
+                });
+                return;
+            }
+            conditions.push(cursorFilter(decoded));
+        }
+
+        const [applications, stageRows] = await Promise.all([
+            Application.find({ $and: conditions })
+                .sort({ createdAt: -1, _id: -1 })
+                .limit(limit + 1),
+            Application.aggregate<{ _id: ApplicationStage; count: number }>([
+                { $match: { post: post._id } },
+                { $group: { _id: '$stage', count: { $sum: 1 } } },
+            ]),
+        ]);
+
+        const hasMore = applications.length > limit;
+        const page = hasMore ? applications.slice(0, limit) : applications;
+        const last = page[page.length - 1];
+        const noteAuthors = await loadNoteAuthors(page);
+
+        const stageCounts = Object.fromEntries(APPLICATION_STAGES.map(name => [name, 0])) as Record<ApplicationStage, number>;
+        stageRows.forEach(row => {
+            stageCounts[row._id] = row.count;
+        });
+
+        res.status(200).json({
+            success: true,
+            count: page.length,
+            data: page.map(application => serializeForPoster(application, noteAuthors)),
+            stageCounts,
+            post: { id: post._id, title: post.title, type: post.type },
+            nextCursor: hasMore && last ? encodeCursor(last.createdAt, last._id) : null,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    The current user's applications, newest first
+// @route   GET /api/v1/applications/mine?limit=&cursor=
+// @access  Private
+export const getMyApplications = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const { cursor } = req.query;
+        const limit = parseLimit(req.query.limit);
+
+        // SECURITY: Always scoped to the current user's own applications
+        const conditions: FilterQuery<IApplication>[] = [{ applicant: req.user._id }];
+        if (cursor) {
+            const decoded = decodeCursor(cursor as string);
+            if (!decoded) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Invalid cursor',
+                });
+                return;
+            }
+            conditions.push(cursorFilter(decoded));
+        }
+
+        const applications = await Application.find({ $and: conditions })
+            .sort({ createdAt: -1, _id: -1 })
+            .limit(limit + 1);
+
+        const hasMore = applications.length > limit;
+        const page = hasMore ? applications.slice(0, limit) : applications;
+        const last = page[page.length - 1];
+
+        const posts = await Post.find({ _id: { $in: page.map(application => application.post) } })
+            .select('title type company');
+        const postsById = new Map(posts.map(post => [post._id.toString(), post]));
+
+        res.status(200).json({
+            success: true,
+            count: page.length,
+            data: page.map(application => serializeForApplicant(application, postsById.get(application.post.toString()))),
+            nextCursor: hasMore && last ? encodeCursor(last.createdAt, last._id) : null,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Move an application to another pipeline stage
+// @route   PATCH /api/v1/applications/:id
+// @access  Private (Poster or Admin)
+export const updateApplicationStage = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const managed = await findManagedApplication(req.params.id, req.user);
+
+        if (!managed) {
+            res.status(404).json({
+                success: false,
+                error: 'Application not found',
+            });
+            return;
+        }
+
+        const { application, post } = managed;
+        const stage = req.body.stage as ApplicationStage;
+
+        if (application.stage !== stage) {
+            application.stage = stage;
+            application.stageChangedAt = new Date();
+            application.stageHistory.push({ stage, changedBy: req.user._id, changedAt: application.stageChangedAt });
+            await application.save();
+
+            void notify({
+                recipient: application.applicant,
+                actor: req.user._id,
+                type: 'application-update',
+                post: post._id,
+            });
+        }
+
+        const noteAuthors = await loadNoteAuthors([application]);
+
+        res.status(200).json({
+            success: true,
+            data: serializeForPoster(application, noteAuthors),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Add a private note to an application
+// @route   POST /api/v1/applications/:id/notes
+// @access  Private (Poster or Admin)
+export const addApplicationNote = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const managed = await findManagedApplication(req.params.id, req.user);
+
+        if (!managed) {
+            res.status(404).json({
+                success: false,
+                error: 'Application not found',
+            });
+            return;
+        }
+
+        const { application } = managed;
+        application.notes.push({
+            _id: new mongoose.Types.ObjectId(),
+            author: req.user._id,
+            text: req.body.text,
+            createdAt: new Date(),
+        });
+        await application.save();
+
+        const noteAuthors = await loadNoteAuthors([application]);
+
+        res.status(201).json({
+            success: true,
+            data: serializeForPoster(application, noteAuthors),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from 'express';
+import { storeAttachment, serializeAttachment, toPostAttachment, AttachmentError } from '../services/attachments';
+
+// @desc    Upload a file to attach to a post
+// @route   POST /api/v1/posts/attachments
+// @access  Private
+// SECURITY: Type decided by sniffing the contents; the upload stays private
+// to its owner until it is saved with one of their posts
+export const uploadAttachment = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        if (!req.file) {
+            res.status(400).json({
+                success: false,
+                error: 'Please choose a file to upload',
+            });
+            return;
+        }
+
+        const attachment = await storeAttachment(req.user._id, req.file);
+
+        res.status(201).json({
+            success: true,
+            data: serializeAttachment(toPostAttachment(attachment)),
+        });
+    } catch (error) {
+        if (error instanceof AttachmentError) {
+            res.status(400).json({
+                success: false,
+                error: error.message,
+            });
+            return;
+        }
+        next(error);
+    }
+};
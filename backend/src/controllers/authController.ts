@@ -3,7 +3,8 @@
  * 
  * SECURITY OVERVIEW:
  * - Password hashing with bcrypt (handled in User model)
- * - JWT tokens for stateless authentication
+ * - Short-lived JWT access tokens bound to a server-side session
+ * - Rotating refresh tokens in an httpOnly cookie, revocable per session
  * - Generic error messages to prevent user enumeration
  * - Secure password reset with hashed tokens
  * - Email verification tokens
@@ -16,10 +17,21 @@
 import { Request, Response, NextFunction } from 'express';
 import crypto from 'crypto';
 import User, { IUser } from '../models/User';
-import { generateToken } from '../utils/jwt';
-
-// Environment detection for conditional logging
-const isProduction = process.env.NODE_ENV === 'production';
+import Session from '../models/Session';
+import {
+    startSession,
+    rotateSession,
+    revokeUserSessions,
+    getRefreshCookie,
+    clearRefreshCookie,
+    hashToken,
+    isWithinReuseGrace,
+} from '../utils/session';
+import { generateAccessToken } from '../utils/jwt';
+import { accountRestriction } from '../middlewares/auth';
+import { audit } from '../services/audit';
+import { sendMail, verificationEmail, passwordResetEmail, welcomeEmail } from '../services/mail';
+import { avatarUrl, profileFields } from '../utils/profile';
 
 // Extend Request to include user
 declare global {
@@ -68,15 +80,11 @@ export const register = async (
             isEmailVerified: false,
         });
 
-        // SECURITY: Only log verification tokens in development
-        // In production, these should be sent via email
-        if (!isProduction) {
-            console.log(`[Email Verification] Token for ${email}: ${emailVerificationToken}`);
-            console.log(`[Email Verification] Link: http://localhost:5173/verify-email/${emailVerificationToken}`);
-        }
+        // Queued for background delivery - never delays the response
+        sendMail({ to: user.email, ...verificationEmail(user.name, emailVerificationToken) });
 
-        // Generate JWT token for immediate login
-        const token = generateToken(user._id.toString());
+        // Start a session for immediate login (sets the refresh cookie)
+        const { accessToken: token } = await startSession(user._id.toString(), req, res);
 
         res.status(201).json({
             success: true,
@@ -87,7 +95,8 @@ export const register = async (
                 email: user.email,
                 role: user.role,
                 bio: user.bio,
-                avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${user.name}`,
+                ...profileFields(user),
+                avatar: avatarUrl(user),
                 isEmailVerified: user.isEmailVerified,
                 createdAt: user.createdAt,
             },
@@ -142,8 +151,37 @@ export const login = async (
             return;
         }
 
-        // Generate token
-        const token = generateToken(user._id.toString());
+        // SECURITY: Only after the password matched, so the response never
+        // reveals whether an account exists or is restricted
+        const restriction = accountRestriction(user);
+        if (restriction) {
+            res.status(403).json({
+                success: false,
+                ...restriction,
+            });
+            return;
+        }
+
+        // A device is new when none of the account's stored sessions (kept until
+        // their refresh token expires) came from the same user agent
+        const isKnownDevice = await Session.exists({
+            user: user._id,
+            userAgent: (req.headers['user-agent'] || '').slice(0, 512),
+        });
+
+        // Start a new session (sets the refresh cookie)
+        const { accessToken: token, session } = await startSession(user._id.toString(), req, res);
+
+        if (!isKnownDevice) {
+            await audit(req, {
+                action: 'auth.new-device-login',
+                actor: user._id,
+                targetType: 'user',
+                target: user._id,
+                targetLabel: user.email,
+                details: `${session.device}, ${session.location}`,
+            });
+        }
 
         res.status(200).json({
             success: true,
@@ -154,7 +192,8 @@ export const login = async (
                 email: user.email,
                 role: user.role,
                 bio: user.bio,
-                avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${user.name}`,
+                ...profileFields(user),
+                avatar: avatarUrl(user),
                 isEmailVerified: user.isEmailVerified,
                 createdAt: user.createdAt,
             },
@@ -191,7 +230,116 @@ export const getMe = async (
                 email: user.email,
                 role: user.role,
                 bio: user.bio,
-                avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${user.name}`,
+                ...profileFields(user),
+                avatar: avatarUrl(user),
+                isEmailVerified: user.isEmailVerified,
+                createdAt: user.createdAt,
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Exchange the refresh cookie for a new access token (rotates the refresh token)
+// @route   POST /api/v1/auth/refresh
+// @access  Public (requires refresh cookie)
+export const refresh = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const refreshToken = getRefreshCookie(req);
+
+        if (!refreshToken) {
+            res.status(401).json({
+                success: false,
+                error: 'No active session',
+            });
+            return;
+        }
+
+        const tokenHash = hashToken(refreshToken);
+        const session = await Session.findOne({
+            $or: [{ refreshTokenHash: tokenHash }, { previousTokenHash: tokenHash }],
+        }).select('+refreshTokenHash');
+
+        if (!session) {
+            clearRefreshCookie(res);
+            res.status(401).json({
+                success: false,
+                error: 'Invalid refresh token',
+            });
+            return;
+        }
+
+        const isCurrentToken = session.refreshTokenHash === tokenHash;
+
+        if (!isCurrentToken && !isWithinReuseGrace(session)) {
+            // SECURITY: A rotated-out token being replayed means it was copied.
+            // Revoke the session it belonged to so neither party can keep using it.
+            await Session.updateOne(
+                { _id: session._id, revokedAt: { $exists: false } },
+                { $set: { revokedAt: new Date() } }
+            );
+
+            clearRefreshCookie(res);
+            res.status(401).json({
+                success: false,
+                error: 'Invalid refresh token',
+            });
+            return;
+        }
+
+        const user = session.isActive() ? await User.findById(session.user) : null;
+
+        if (!user) {
+            clearRefreshCookie(res);
+            res.status(401).json({
+                success: false,
+                error: 'Session expired',
+            });
+            return;
+        }
+
+        const restriction = accountRestriction(user);
+        if (restriction) {
+            clearRefreshCookie(res);
+            res.status(403).json({
+                success: false,
+                ...restriction,
+            });
+            return;
+        }
+
+        let token = isCurrentToken ? await rotateSession(session, tokenHash, req, res) : null;
+
+        // Another tab refreshed the session a moment ago and its response already
+        // set the new cookie; this one only needs an access token
+        if (!token) {
+            if (!await Session.exists({ _id: session._id, revokedAt: { $exists: false } })) {
+                clearRefreshCookie(res);
+                res.status(401).json({
+                    success: false,
+                    error: 'Session expired',
+                });
+                return;
+            }
+            token = generateAccessToken(user._id.toString(), session._id.toString());
+        }
+
+        res.status(200).json({
+            success: true,
+            token,
+            user: {
+                id: user._id,
+                name: user.name,
+                email: user.email,
+                role: user.role,
+                bio: user.bio,
+                ...profileFields(user),
+                avatar: avatarUrl(user),
                 isEmailVerified: user.isEmailVerified,
                 createdAt: user.createdAt,
             },
@@ -201,6 +349,65 @@ export const getMe = async (
     }
 };
 
+// @desc    Log out the current session
+// @route   POST /api/v1/auth/logout
+// @access  Public (uses refresh cookie)
+export const logout = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const refreshToken = getRefreshCookie(req);
+
+        if (refreshToken) {
+            await Session.updateOne(
+                { refreshTokenHash: hashToken(refreshToken), revokedAt: { $exists: false } },
+                { revokedAt: new Date() }
+            );
+        }
+
+        // Always succeed so the client can finish signing out
+        clearRefreshCookie(res);
+        res.status(200).json({
+            success: true,
+            message: 'Logged out',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Log out every session of the current user
+// @route   POST /api/v1/auth/logout-all
+// @access  Private
+export const logoutAll = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const revoked = await revokeUserSessions(req.user._id.toString());
+
+        clearRefreshCookie(res);
+        res.status(200).json({
+            success: true,
+            message: 'Logged out of all sessions',
+            data: { revoked },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
 // @desc    Forgot password - send reset token
 // @route   POST /api/v1/auth/forgot-password
 // @access  Public
@@ -239,9 +446,8 @@ export const forgotPassword = async (
         user.passwordResetExpires = resetExpires;
         await user.save({ validateBeforeSave: false });
 
-        // Log the reset token (in production, send email)
-        console.log(`[Password Reset] Token for ${email}: ${resetToken}`);
-        console.log(`[Password Reset] Link: http://localhost:5173/reset-password/${resetToken}`);
+        // SECURITY: The raw token only ever leaves the server in the email
+        sendMail({ to: user.email, ...passwordResetEmail(user.name, resetToken) });
 
         res.status(200).json({
             success: true,
@@ -290,6 +496,17 @@ export const resetPassword = async (
         user.passwordResetExpires = undefined;
         await user.save();
 
+        // SECURITY: Sign out every device - whoever knew the old password loses access
+        await revokeUserSessions(user._id.toString());
+
+        await audit(req, {
+            action: 'auth.password-reset',
+            actor: null,
+            targetType: 'user',
+            target: user._id,
+            targetLabel: user.email,
+        });
+
         res.status(200).json({
             success: true,
             message: 'Password reset successful. You can now log in with your new password.',
@@ -326,6 +543,8 @@ export const verifyEmail = async (
         user.emailVerificationToken = undefined;
         await user.save({ validateBeforeSave: false });
 
+        sendMail({ to: user.email, ...welcomeEmail(user.name) });
+
         res.status(200).json({
             success: true,
             message: 'Email verified successfully!',
@@ -335,3 +554,45 @@ export const verifyEmail = async (
     }
 };
 
+
+// @desc    Resend the email verification link
+// @route   POST /api/v1/auth/resend-verification
+// @access  Private
+// SECURITY: Rate limited at route level - every call sends an email
+export const resendVerification = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        if (req.user.isEmailVerified) {
+            res.status(400).json({
+                success: false,
+                error: 'Email is already verified',
+            });
+            return;
+        }
+
+        // SECURITY: Issue a new token so any earlier links stop working
+        const emailVerificationToken = crypto.randomBytes(32).toString('hex');
+        req.user.emailVerificationToken = emailVerificationToken;
+        await req.user.save({ validateBeforeSave: false });
+
+        sendMail({ to: req.user.email, ...verificationEmail(req.user.name, emailVerificationToken) });
+
+        res.status(200).json({
+            success: true,
+            message: 'Verification email sent. Please check your inbox.',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,425 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose, { FilterQuery, PipelineStage } from 'mongoose';
+import Bookmark, { IBookmark } from '../models/Bookmark';
+import BookmarkCollection, { IBookmarkCollection, MAX_BOOKMARK_COLLECTIONS } from '../models/BookmarkCollection';
+import Post, { VISIBLE_POSTS } from '../models/Post';
+import { encodeCursor, decodeCursor, cursorFilter, parseLimit } from '../utils/pagination';
+import { markdownSource } from '../utils/markdown';
+import { serializePostDetails } from '../utils/postDetails';
+import { serializeAttachment } from '../services/attachments';
+
+// Query value for bookmarks that aren't in any collection
+const UNSORTED = 'none';
+
+const serializeCollection = (collection: IBookmarkCollection, count = 0) => ({
+    id: collection._id,
+    name: collection.name,
+    count,
+    createdAt: collection.createdAt,
+});
+
+/**
+ * SECURITY: Resolves a collection id from the body to one of the current
+ * user's collections. Someone else's collection is "not found".
+ */
+const findOwnCollection = (id: string, userId: mongoose.Types.ObjectId) =>
+    BookmarkCollection.findOne({ _id: id, user: userId });
+
+// Keeps bookmarks of posts that are neither trashed nor hidden. They are kept
+// rather than deleted, since both can be undone, but drop out of the saved
+// list, its ids and its counts until then.
+const ON_VISIBLE_POSTS: PipelineStage[] = [
+    {
+        $lookup: {
+            from: 'posts',
+            localField: 'post',
+            foreignField: '_id',
+            as: 'visiblePost',
+            pipeline: [{ $match: { deletedAt: { $exists: false }, ...VISIBLE_POSTS } }, { $project: { _id: 1 } }],
+        },
+    },
+    { $match: { visiblePost: { $ne: [] } } },
+];
+
+// @desc    Save a post, or move a saved post to another collection
+// @route   POST /api/v1/posts/:id/bookmark
+// @access  Private
+export const bookmarkPost = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        if (!await Post.exists({ _id: req.params.id, ...VISIBLE_POSTS })) {
+            res.status(404).json({
+                success: false,
+                error: 'Post not found',
+            });
+            return;
+        }
+
+        const { collection = null } = req.body;
+
+        if (collection && !await findOwnCollection(collection, req.user._id)) {
+            res.status(404).json({
+                success: false,
+                error: 'Collection not found',
+            });
+            return;
+        }
+
+        const bookmark = await Bookmark.findOneAndUpdate(
+            { user: req.user._id, post: req.params.id },
+            { $set: { bookmarkCollection: collection } },
+            { upsert: true, new: true, setDefaultsOnInsert: true }
+        );
+
+        res.status(200).json({
+            success: true,
+            data: {
+                bookmarked: true,
+                collection: bookmark.bookmarkCollection,
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Remove a post from the saved list
+// @route   DELETE /api/v1/posts/:id/bookmark
+// @access  Private
+export const removeBookmark = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        await Bookmark.deleteOne({ user: req.user._id, post: req.params.id });
+
+        res.status(200).json({
+            success: true,
+            data: {
+                bookmarked: false,
+                collection: null,
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Saved posts, most recently saved first
+// @route   GET /api/v1/users/me/bookmarks?collection=&limit=&cursor=
+// @access  Private
+export const getMyBookmarks = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const { collection, cursor } = req.query;
+        const limit = parseLimit(req.query.limit);
+
+        // SECURITY: Always scoped to the current user's own bookmarks
+        const conditions: FilterQuery<IBookmark>[] = [{ user: req.user._id }];
+        if (collection) {
+            conditions.push({ bookmarkCollection: collection === UNSORTED ? null : collection as string });
+        }
+        if (cursor) {
+            const decoded = decodeCursor(cursor as string);
+            if (!decoded) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Invalid cursor',
+                });
+                return;
+            }
+            conditions.push(cursorFilter(decoded));
+        }
+
+        const bookmarks = await Bookmark.find({ $and: conditions })
+            .sort({ createdAt: -1, _id: -1 })
+            .limit(limit + 1);
+
+        const hasMore = bookmarks.length > limit;
+        const page = hasMore ? bookmarks.slice(0, limit) : bookmarks;
+        const last = page[page.length - 1];
+
+        const posts = await Post.find({ _id: { $in: page.map(bookmark => bookmark.post) }, ...VISIBLE_POSTS }).select('-commentsList');
+        const postsById = new Map(posts.map(post => [post._id.toString(), post]));
+
+        // Keep the saved order; deleted or hidden posts are simply skipped
+        const data = page.flatMap(bookmark => {
+            const post = postsById.get(bookmark.post.toString());
+            if (!post) return [];
+            return [{
+                id: post._id,
+                type: post.type,
+                title: post.title,
+                description: markdownSource(post.description, post.isMarkdown),
+                tags: post.tags,
+                attachments: post.attachments.map(serializeAttachment),
+                details: serializePostDetails(post),
+                author: post.author,
+                likes: post.likes,
+                likedBy: post.likedBy || [],
+                comments: post.commentCount || 0,
+                createdAt: post.createdAt,
+                bookmark: {
+                    collection: bookmark.bookmarkCollection,
+                    savedAt: bookmark.createdAt,
+                },
+            }];
+        });
+
+        res.status(200).json({
+            success: true,
+            count: data.length,
+            data,
+            nextCursor: hasMore && last ? encodeCursor(last.createdAt, last._id) : null,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Ids of every saved post and its collection, for bookmark buttons
+// @route   GET /api/v1/users/me/bookmarks/ids
+// @access  Private
+export const getMyBookmarkIds = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const bookmarks = await Bookmark.aggregate<Pick<IBookmark, 'post' | 'bookmarkCollection'>>([
+            { $match: { user: req.user._id } },
+            ...ON_VISIBLE_POSTS,
+            { $project: { post: 1, bookmarkCollection: 1 } },
+        ]);
+
+        res.status(200).json({
+            success: true,
+            count: bookmarks.length,
+            data: bookmarks.map(bookmark => ({
+                post: bookmark.post,
+                collection: bookmark.bookmarkCollection,
+            })),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    The current user's collections with how many posts each holds
+// @route   GET /api/v1/users/me/bookmark-collections
+// @access  Private
+export const getMyCollections = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const [collections, countRows] = await Promise.all([
+            BookmarkCollection.find({ user: req.user._id }).sort({ name: 1 }).collation({ locale: 'en' }),
+            Bookmark.aggregate<{ _id: mongoose.Types.ObjectId | null; count: number }>([
+                { $match: { user: req.user._id } },
+                ...ON_VISIBLE_POSTS,
+                { $group: { _id: '$bookmarkCollection', count: { $sum: 1 } } },
+            ]),
+        ]);
+
+        const counts = new Map(countRows.map(row => [row._id ? row._id.toString() : UNSORTED, row.count]));
+
+        res.status(200).json({
+            success: true,
+            data: collections.map(collection => serializeCollection(collection, counts.get(collection._id.toString()))),
+            total: countRows.reduce((sum, row) => sum + row.count, 0),
+            unsorted: counts.get(UNSORTED) ?? 0,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Create a collection
+// @route   POST /api/v1/users/me/bookmark-collections
+// @access  Private
+export const createCollection = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        if (await BookmarkCollection.countDocuments({ user: req.user._id }) >= MAX_BOOKMARK_COLLECTIONS) {
+            res.status(400).json({
+                success: false,
+                error: `You can have up to ${MAX_BOOKMARK_COLLECTIONS} collections`,
+            });
+            return;
+        }
+
+        let collection: IBookmarkCollection;
+        try {
+            collection = await BookmarkCollection.create({ user: req.user._id, name: req.body.name });
+        } catch (error) {
+            if ((error as { code?: number }).code !== 11000) throw error;
+            res.status(409).json({
+                success: false,
+                error: 'You already have a collection with that name',
+            });
+            return;
+        }
+
+        res.status(201).json({
+            success: true,
+            data: serializeCollection(collection),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Rename a collection
+// @route   PATCH /api/v1/users/me/bookmark-collections/:id
+// @access  Private
+export const renameCollection = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const collection = await findOwnCollection(req.params.id, req.user._id);
+
+        if (!collection) {
+            res.status(404).json({
+                success: false,
+                error: 'Collection not found',
+            });
+            return;
+        }
+
+        collection.name = req.body.name;
+        try {
+            await collection.save();
+        } catch (error) {
+            if ((error as { code?: number }).code !== 11000) throw error;
+            res.status(409).json({
+                success: false,
+                error: 'You already have a collection with that name',
+            });
+            return;
+        }
+
+        const count = await Bookmark.countDocuments({ user: req.user._id, bookmarkCollection: collection._id });
+
+        res.status(200).json({
+            success: true,
+            data: serializeCollection(collection, count),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Delete a collection; its posts stay saved, outside any collection
+// @route   DELETE /api/v1/users/me/bookmark-collections/:id
+// @access  Private
+export const deleteCollection = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const collection = await findOwnCollection(req.params.id, req.user._id);
+
+        if (!collection) {
+            res.status(404).json({
+                success: false,
+                error: 'Collection not found',
+            });
+            return;
+        }
+
+        await Promise.all([
+            collection.deleteOne(),
+            Bookmark.updateMany(
+                { user: req.user._id, bookmarkCollection: collection._id },
+                { $set: { bookmarkCollection: null } }
+            ),
+        ]);
+
+        res.status(200).json({
+            success: true,
+            data: {},
+            message: 'Collection deleted',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
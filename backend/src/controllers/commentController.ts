@@ -0,0 +1,324 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose, { FilterQuery } from 'mongoose';
+import Post, { VISIBLE_POSTS, postAuthorId } from '../models/Post';
+import Comment, { IComment } from '../models/Comment';
+import { notify } from '../services/notifications';
+import { audit, auditLabel } from '../services/audit';
+import { publish, postRoom } from '../services/realtime';
+import { encodeCursor, decodeCursor, cursorFilter, parseLimit } from '../utils/pagination';
+import { markdownSource } from '../utils/markdown';
+
+// Deleted comments keep their place in the thread but expose nothing else;
+// hidden ones still show who wrote them
+const serializeComment = (comment: IComment) => {
+    const isDeleted = Boolean(comment.deletedAt);
+    const isHidden = !isDeleted && Boolean(comment.hiddenAt);
+
+    return {
+        _id: comment._id,
+        post: comment.post,
+        parentId: comment.parentId,
+        user: isDeleted ? null : comment.user,
+        text: isDeleted || isHidden ? '' : markdownSource(comment.text, comment.isMarkdown),
+        replyCount: comment.replyCount,
+        isDeleted,
+        isHidden,
+        editedAt: isDeleted ? null : comment.editedAt ?? null,
+        createdAt: comment.createdAt,
+    };
+};
+
+// A comment that isn't deleted, on a post that is neither trashed nor hidden
+const findPostComment = async (postId: string, commentId: string) => {
+    if (!await Post.exists({ _id: postId, ...VISIBLE_POSTS })) {
+        return null;
+    }
+    return Comment.findOne({ _id: commentId, post: postId, deletedAt: { $exists: false } });
+};
+
+// @desc    Get comments for a post (top-level, or replies to parentId)
+// @route   GET /api/v1/posts/:id/comments?parentId=&cursor=&limit=
+// @access  Public
+export const getComments = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { parentId, cursor } = req.query;
+        const limit = parseLimit(req.query.limit);
+
+        const post = await Post.findOne({ _id: req.params.id, ...VISIBLE_POSTS }).select('_id');
+
+        if (!post) {
+            res.status(404).json({
+                success: false,
+                error: 'Post not found',
+            });
+            return;
+        }
+
+        const conditions: FilterQuery<IComment>[] = [
+            { post: post._id, parentId: parentId ? new mongoose.Types.ObjectId(parentId as string) : null },
+        ];
+        if (cursor) {
+            const decoded = decodeCursor(cursor as string);
+            if (!decoded) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Invalid cursor',
+                });
+                return;
+            }
+            conditions.push(cursorFilter(decoded, 'asc'));
+        }
+
+        // Oldest first so conversations read top to bottom
+        const comments = await Comment.find({ $and: conditions })
+            .sort({ createdAt: 1, _id: 1 })
+            .limit(limit + 1)
+            .populate('user', 'name avatar');
+
+        const hasMore = comments.length > limit;
+        const page = hasMore ? comments.slice(0, limit) : comments;
+        const last = page[page.length - 1];
+
+        res.status(200).json({
+            success: true,
+            count: page.length,
+            data: page.map(serializeComment),
+            nextCursor: hasMore && last ? encodeCursor(last.createdAt, last._id) : null,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Add a comment or reply
+// @route   POST /api/v1/posts/:id/comments
+// @access  Private
+export const addComment = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const { text, parentId } = req.body;
+
+        if (!text || text.trim().length === 0) {
+            res.status(400).json({
+                success: false,
+                error: 'Comment text is required',
+            });
+            return;
+        }
+
+        const post = await Post.findOne({ _id: req.params.id, ...VISIBLE_POSTS }).select('author');
+
+        if (!post) {
+            res.status(404).json({
+                success: false,
+                error: 'Post not found',
+            });
+            return;
+        }
+
+        const parent = parentId ? await findPostComment(req.params.id, parentId) : null;
+        if (parentId && !parent) {
+            res.status(404).json({
+                success: false,
+                error: 'Parent comment not found',
+            });
+            return;
+        }
+
+        const comment = await Comment.create({
+            post: post._id,
+            parentId: parentId || null,
+            user: req.user._id,
+            text: text.trim(),
+            isMarkdown: true,
+        });
+
+        const [updatedPost, updatedParent] = await Promise.all([
+            Post.findByIdAndUpdate(post._id, { $inc: { commentCount: 1 } }, { new: true }).select('commentCount'),
+            parent ? Comment.findByIdAndUpdate(parent._id, { $inc: { replyCount: 1 } }, { new: true }) : null,
+        ]);
+
+        // Replies notify the parent's author; the post author hears about everything
+        // else, unless their account has been deleted
+        const postAuthor = postAuthorId(post);
+        if (parent) {
+            void notify({ recipient: parent.user._id, actor: req.user._id, type: 'reply', post: post._id, comment: comment._id });
+        }
+        if (post.author && (!parent || parent.user._id.toString() !== postAuthor.toString())) {
+            void notify({ recipient: postAuthor, actor: req.user._id, type: 'comment', post: post._id, comment: comment._id });
+        }
+
+        await comment.populate('user', 'name avatar');
+        const data = serializeComment(comment);
+
+        // Counts are absolute so clients can apply the event more than once safely
+        publish(postRoom(post._id), 'comment-added', {
+            postId: post._id,
+            comment: data,
+            commentCount: updatedPost?.commentCount ?? 0,
+            parentReplyCount: updatedParent?.replyCount ?? null,
+        });
+
+        res.status(201).json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Edit a comment
+// @route   PUT /api/v1/posts/:id/comments/:commentId
+// @access  Private (Author or Admin)
+export const updateComment = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const comment = await findPostComment(req.params.id, req.params.commentId);
+
+        if (!comment) {
+            res.status(404).json({
+                success: false,
+                error: 'Comment not found',
+            });
+            return;
+        }
+
+        // Check ownership or admin
+        const isOwner = comment.user.toString() === req.user._id.toString();
+        const isAdmin = req.user.role === 'admin';
+
+        if (!isOwner && !isAdmin) {
+            res.status(403).json({
+                success: false,
+                error: 'Not authorized to update this comment',
+            });
+            return;
+        }
+
+        const previousText = markdownSource(comment.text, comment.isMarkdown);
+
+        comment.text = req.body.text.trim();
+        comment.isMarkdown = true;
+        comment.editedAt = new Date();
+        await comment.save();
+
+        // SECURITY: Admin overrides are never silent
+        if (!isOwner) {
+            await audit(req, {
+                action: 'comment.update',
+                targetType: 'comment',
+                target: comment._id,
+                targetLabel: auditLabel(previousText),
+                targetOwner: comment.user as mongoose.Types.ObjectId,
+                changes: { text: { from: previousText, to: comment.text } },
+            });
+        }
+        await comment.populate('user', 'name avatar');
+
+        res.status(200).json({
+            success: true,
+            data: serializeComment(comment),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Delete a comment (replies are kept under a placeholder)
+// @route   DELETE /api/v1/posts/:id/comments/:commentId
+// @access  Private (Author or Admin)
+export const deleteComment = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const comment = await findPostComment(req.params.id, req.params.commentId);
+
+        if (!comment) {
+            res.status(404).json({
+                success: false,
+                error: 'Comment not found',
+            });
+            return;
+        }
+
+        // Check ownership or admin
+        const isOwner = comment.user.toString() === req.user._id.toString();
+        const isAdmin = req.user.role === 'admin';
+
+        if (!isOwner && !isAdmin) {
+            res.status(403).json({
+                success: false,
+                error: 'Not authorized to delete this comment',
+            });
+            return;
+        }
+
+        const previousText = markdownSource(comment.text, comment.isMarkdown);
+
+        comment.text = '';
+        comment.deletedAt = new Date();
+        comment.deletedBy = req.user._id;
+        await comment.save();
+
+        // SECURITY: Admin overrides are never silent
+        if (!isOwner) {
+            await audit(req, {
+                action: 'comment.delete',
+                targetType: 'comment',
+                target: comment._id,
+                targetLabel: auditLabel(previousText),
+                targetOwner: comment.user as mongoose.Types.ObjectId,
+            });
+        }
+
+        await Post.updateOne(
+            { _id: comment.post, commentCount: { $gt: 0 } },
+            { $inc: { commentCount: -1 } }
+        );
+
+        res.status(200).json({
+            success: true,
+            data: serializeComment(comment),
+            message: 'Comment deleted successfully',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
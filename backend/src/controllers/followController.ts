@@ -0,0 +1,297 @@
+import { Request, Response, NextFunction } from 'express';
+import { FilterQuery } from 'mongoose';
+import Follow, { MAX_FOLLOWED_USERS, MAX_FOLLOWED_TAGS } from '../models/Follow';
+import Post, { IPost, VISIBLE_POSTS } from '../models/Post';
+import User from '../models/User';
+import { encodeCursor, decodeCursor, cursorFilter, parseLimit } from '../utils/pagination';
+import { avatarUrl } from '../utils/profile';
+import { markdownSource } from '../utils/markdown';
+import { serializePostDetails } from '../utils/postDetails';
+import { serializeAttachment } from '../services/attachments';
+
+// @desc    Follow a user
+// @route   POST /api/v1/users/:id/follow
+// @access  Private
+export const followUser = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        if (req.user._id.toString() === req.params.id) {
+            res.status(400).json({
+                success: false,
+                error: 'You cannot follow yourself',
+            });
+            return;
+        }
+
+        const target = await User.exists({ _id: req.params.id });
+        if (!target) {
+            res.status(404).json({
+                success: false,
+                error: 'User not found',
+            });
+            return;
+        }
+
+        // Following someone twice is a no-op, so only new follows count towards the cap
+        const edge = { follower: req.user._id, followee: target._id };
+        if (!await Follow.exists(edge)) {
+            const followed = await Follow.countDocuments({ follower: req.user._id, followee: { $exists: true } });
+            if (followed >= MAX_FOLLOWED_USERS) {
+                res.status(400).json({
+                    success: false,
+                    error: `You can follow up to ${MAX_FOLLOWED_USERS} people`,
+                });
+                return;
+            }
+            await Follow.updateOne(edge, { $setOnInsert: edge }, { upsert: true });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: {
+                following: true,
+                followers: await Follow.countDocuments({ followee: target._id }),
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Unfollow a user
+// @route   DELETE /api/v1/users/:id/follow
+// @access  Private
+export const unfollowUser = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        await Follow.deleteOne({ follower: req.user._id, followee: req.params.id });
+
+        res.status(200).json({
+            success: true,
+            data: {
+                following: false,
+                followers: await Follow.countDocuments({ followee: req.params.id }),
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Follow a tag
+// @route   POST /api/v1/users/me/following/tags
+// @access  Private
+export const followTag = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const edge = { follower: req.user._id, tag: req.body.tag as string };
+        if (!await Follow.exists(edge)) {
+            const followed = await Follow.countDocuments({ follower: req.user._id, tag: { $exists: true } });
+            if (followed >= MAX_FOLLOWED_TAGS) {
+                res.status(400).json({
+                    success: false,
+                    error: `You can follow up to ${MAX_FOLLOWED_TAGS} tags`,
+                });
+                return;
+            }
+            await Follow.updateOne(edge, { $setOnInsert: edge }, { upsert: true });
+        }
+
+        res.status(200).json({
+            success: true,
+            data: {
+                tag: edge.tag,
+                following: true,
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Unfollow a tag
+// @route   DELETE /api/v1/users/me/following/tags/:tag
+// @access  Private
+export const unfollowTag = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        await Follow.deleteOne({ follower: req.user._id, tag: req.params.tag });
+
+        res.status(200).json({
+            success: true,
+            data: {
+                tag: req.params.tag,
+                following: false,
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    The people and tags the current user follows
+// @route   GET /api/v1/users/me/following
+// @access  Private
+export const getMyFollows = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const follows = await Follow.find({ follower: req.user._id }).sort({ createdAt: -1 });
+        const userIds = follows.flatMap(follow => (follow.followee ? [follow.followee] : []));
+        const users = await User.find({ _id: { $in: userIds } }).select('name avatar').sort({ name: 1 });
+
+        res.status(200).json({
+            success: true,
+            data: {
+                users: users.map(user => ({
+                    id: user._id,
+                    name: user.name,
+                    avatar: avatarUrl(user),
+                })),
+                tags: follows.flatMap(follow => (follow.tag ? [follow.tag] : [])),
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Posts by followed users or carrying followed tags (cursor paginated)
+// @route   GET /api/v1/posts/following?limit=&cursor=&type=
+// @access  Private
+export const getFollowingFeed = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const { type, cursor } = req.query;
+        const limit = parseLimit(req.query.limit);
+
+        const shared: FilterQuery<IPost>[] = [VISIBLE_POSTS];
+        if (type && type !== 'all') {
+            shared.push({ type: type as string });
+        }
+        if (cursor) {
+            const decoded = decodeCursor(cursor as string);
+            if (!decoded) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Invalid cursor',
+                });
+                return;
+            }
+            shared.push(cursorFilter(decoded));
+        }
+
+        const follows = await Follow.find({ follower: req.user._id }).select('followee tag');
+        const authors = follows.flatMap(follow => (follow.followee ? [follow.followee] : []));
+        const tags = follows.flatMap(follow => (follow.tag ? [follow.tag] : []));
+
+        // Each branch carries the type and cursor filters so it can walk its
+        // own { author | tags, createdAt, _id } index; only limit + 1 posts
+        // are ever read per page, however large the feed is.
+        const branches: FilterQuery<IPost>[] = [];
+        if (authors.length > 0) {
+            branches.push({ $and: [{ author: { $in: authors } }, ...shared] });
+        }
+        if (tags.length > 0) {
+            branches.push({ $and: [{ tags: { $in: tags } }, ...shared] });
+        }
+
+        const posts = branches.length === 0 ? [] : await Post.find({ $or: branches })
+            .select('-commentsList')
+            .sort({ createdAt: -1, _id: -1 })
+            .limit(limit + 1);
+
+        const hasMore = posts.length > limit;
+        const page = hasMore ? posts.slice(0, limit) : posts;
+        const last = page[page.length - 1];
+
+        const formattedPosts = page.map((post) => ({
+            id: post._id,
+            type: post.type,
+            title: post.title,
+            description: markdownSource(post.description, post.isMarkdown),
+            tags: post.tags,
+            attachments: post.attachments.map(serializeAttachment),
+            details: serializePostDetails(post),
+            author: post.author,
+            likes: post.likes,
+            likedBy: post.likedBy || [],
+            comments: post.commentCount || 0,
+            createdAt: post.createdAt,
+        }));
+
+        res.status(200).json({
+            success: true,
+            count: formattedPosts.length,
+            data: formattedPosts,
+            nextCursor: hasMore && last ? encodeCursor(last.createdAt, last._id) : null,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,500 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose, { FilterQuery } from 'mongoose';
+import Conversation, { IConversation, MAX_CONVERSATION_MEMBERS, directKeyFor } from '../models/Conversation';
+import Message, { IMessage } from '../models/Message';
+import User, { IUser } from '../models/User';
+import { publish, userRoom } from '../services/realtime';
+import { encodeCursor, decodeCursor, cursorFilter, parseLimit } from '../utils/pagination';
+import { avatarUrl } from '../utils/profile';
+
+type UserMap = Map<string, Pick<IUser, '_id' | 'name' | 'avatar'>>;
+
+const serializeUser = (user: Pick<IUser, '_id' | 'name' | 'avatar'>) => ({
+    id: user._id,
+    name: user.name,
+    avatar: avatarUrl(user),
+});
+
+const loadUsers = async (ids: mongoose.Types.ObjectId[]): Promise<UserMap> => {
+    const users = await User.find({ _id: { $in: ids } }).select('name avatar');
+    return new Map(users.map(user => [user._id.toString(), user]));
+};
+
+const serializeConversation = (
+    conversation: IConversation,
+    userId: mongoose.Types.ObjectId,
+    usersById: UserMap
+) => {
+    const self = conversation.members.find(member => member.user.equals(userId));
+
+    return {
+        id: conversation._id,
+        isGroup: conversation.isGroup,
+        name: conversation.name || null,
+        members: conversation.members.flatMap(member => {
+            const user = usersById.get(member.user.toString());
+            return user ? [{ ...serializeUser(user), lastReadAt: member.lastReadAt }] : [];
+        }),
+        lastMessage: conversation.lastMessage?.createdAt
+            ? {
+                text: conversation.lastMessage.text,
+                sender: conversation.lastMessage.sender,
+                createdAt: conversation.lastMessage.createdAt,
+            }
+            : null,
+        lastMessageAt: conversation.lastMessageAt,
+        unreadCount: self?.unreadCount ?? 0,
+        createdAt: conversation.createdAt,
+    };
+};
+
+const serializeMessage = (message: IMessage, usersById: UserMap) => {
+    const sender = usersById.get(message.sender.toString());
+
+    return {
+        id: message._id,
+        conversation: message.conversation,
+        sender: sender ? serializeUser(sender) : null,
+        text: message.text,
+        createdAt: message.createdAt,
+    };
+};
+
+// SECURITY: Non-members get the same 404 as a missing conversation
+const findMemberConversation = (conversationId: string, userId: mongoose.Types.ObjectId) =>
+    Conversation.findOne({ _id: conversationId, 'members.user': userId });
+
+// True when the user blocked any of the others, or any of them blocked the user
+const isBlockedBetween = async (
+    userId: mongoose.Types.ObjectId,
+    otherIds: mongoose.Types.ObjectId[]
+): Promise<boolean> => {
+    const blocked = await User.exists({
+        $or: [
+            { _id: userId, blockedUsers: { $in: otherIds } },
+            { _id: { $in: otherIds }, blockedUsers: userId },
+        ],
+    });
+    return Boolean(blocked);
+};
+
+const getUnreadTotal = async (userId: mongoose.Types.ObjectId): Promise<number> => {
+    const [totals] = await Conversation.aggregate<{ total: number }>([
+        { $match: { 'members.user': userId } },
+        { $unwind: '$members' },
+        { $match: { 'members.user': userId } },
+        { $group: { _id: null, total: { $sum: '$members.unreadCount' } } },
+    ]);
+    return totals?.total ?? 0;
+};
+
+// @desc    Get the current user's conversations, most recent activity first
+// @route   GET /api/v1/conversations?limit=&before=
+// @access  Private
+export const getConversations = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const userId = req.user._id;
+        const limit = parseLimit(req.query.limit);
+        const before = req.query.before ? new Date(req.query.before as string) : null;
+
+        // Conversations nobody has written in yet only show up for whoever started them
+        const filter: FilterQuery<IConversation> = {
+            'members.user': userId,
+            $or: [
+                { 'lastMessage.createdAt': { $exists: true } },
+                { createdBy: userId },
+            ],
+        };
+        if (before) {
+            filter.lastMessageAt = { $lt: before };
+        }
+
+        const conversations = await Conversation.find(filter)
+            .sort({ lastMessageAt: -1, _id: -1 })
+            .limit(limit + 1);
+
+        const hasMore = conversations.length > limit;
+        const page = hasMore ? conversations.slice(0, limit) : conversations;
+
+        const usersById = await loadUsers(page.flatMap(conversation => conversation.members.map(member => member.user)));
+        const unreadTotal = await getUnreadTotal(userId);
+        const last = page[page.length - 1];
+
+        res.status(200).json({
+            success: true,
+            count: page.length,
+            unreadTotal,
+            data: page.map(conversation => serializeConversation(conversation, userId, usersById)),
+            nextBefore: hasMore && last ? last.lastMessageAt : null,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Start a conversation (one-to-one conversations are reused)
+// @route   POST /api/v1/conversations
+// @access  Private
+export const createConversation = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const userId = req.user._id;
+        const { participantIds, name } = req.body;
+
+        const otherIds = [...new Set((participantIds as string[]).map(String))]
+            .filter(id => id !== userId.toString())
+            .map(id => new mongoose.Types.ObjectId(id));
+
+        if (otherIds.length === 0) {
+            res.status(400).json({
+                success: false,
+                error: 'Choose at least one other person to message',
+            });
+            return;
+        }
+
+        if (otherIds.length + 1 > MAX_CONVERSATION_MEMBERS) {
+            res.status(400).json({
+                success: false,
+                error: `A conversation can have at most ${MAX_CONVERSATION_MEMBERS} members`,
+            });
+            return;
+        }
+
+        const existingUsers = await User.countDocuments({ _id: { $in: otherIds } });
+        if (existingUsers !== otherIds.length) {
+            res.status(404).json({
+                success: false,
+                error: 'User not found',
+            });
+            return;
+        }
+
+        // SECURITY: Blocked users cannot be pulled into a conversation, in either direction
+        if (await isBlockedBetween(userId, otherIds)) {
+            res.status(403).json({
+                success: false,
+                error: 'You cannot message one or more of these users',
+            });
+            return;
+        }
+
+        const members = [userId, ...otherIds].map(user => ({ user, lastReadAt: null, unreadCount: 0 }));
+        let conversation: IConversation | null;
+        let created = false;
+
+        if (otherIds.length === 1) {
+            const directKey = directKeyFor(userId, otherIds[0]);
+            conversation = await Conversation.findOne({ directKey });
+
+            if (!conversation) {
+                try {
+                    conversation = await Conversation.create({ directKey, members, createdBy: userId });
+                    created = true;
+                } catch (error) {
+                    // Both users started the conversation at the same moment
+                    if ((error as { code?: number }).code !== 11000) {
+                        throw error;
+                    }
+                    conversation = await Conversation.findOne({ directKey });
+                }
+            }
+        } else {
+            conversation = await Conversation.create({
+                isGroup: true,
+                name: typeof name === 'string' && name ? name : undefined,
+                members,
+                createdBy: userId,
+            });
+            created = true;
+        }
+
+        if (!conversation) {
+            res.status(404).json({
+                success: false,
+                error: 'Conversation not found',
+            });
+            return;
+        }
+
+        const usersById = await loadUsers(conversation.members.map(member => member.user));
+
+        res.status(created ? 201 : 200).json({
+            success: true,
+            data: serializeConversation(conversation, userId, usersById),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Get a conversation with its members' read positions
+// @route   GET /api/v1/conversations/:id
+// @access  Private (members only)
+export const getConversation = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const userId = req.user._id;
+        const conversation = await findMemberConversation(req.params.id, userId);
+
+        if (!conversation) {
+            res.status(404).json({
+                success: false,
+                error: 'Conversation not found',
+            });
+            return;
+        }
+
+        const otherIds = conversation.members
+            .map(member => member.user)
+            .filter(id => !id.equals(userId));
+        const usersById = await loadUsers(conversation.members.map(member => member.user));
+
+        // Blocking only closes one-to-one conversations; groups stay open
+        const canMessage = conversation.isGroup || !(await isBlockedBetween(userId, otherIds));
+        const blockedByMe = !conversation.isGroup &&
+            req.user.blockedUsers.some(id => otherIds.some(otherId => otherId.equals(id)));
+
+        res.status(200).json({
+            success: true,
+            data: {
+                ...serializeConversation(conversation, userId, usersById),
+                canMessage,
+                blockedByMe,
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Get a conversation's messages, newest first
+// @route   GET /api/v1/conversations/:id/messages?cursor=&limit=
+// @access  Private (members only)
+export const getMessages = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const conversation = await findMemberConversation(req.params.id, req.user._id).select('_id');
+
+        if (!conversation) {
+            res.status(404).json({
+                success: false,
+                error: 'Conversation not found',
+            });
+            return;
+        }
+
+        const { cursor } = req.query;
+        const limit = parseLimit(req.query.limit);
+        const filter: FilterQuery<IMessage> = { conversation: conversation._id };
+
+        if (cursor) {
+            const decoded = decodeCursor(cursor as string);
+            if (!decoded) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Invalid cursor',
+                });
+                return;
+            }
+            Object.assign(filter, cursorFilter(decoded));
+        }
+
+        const messages = await Message.find(filter)
+            .sort({ createdAt: -1, _id: -1 })
+            .limit(limit + 1);
+
+        const hasMore = messages.length > limit;
+        const page = hasMore ? messages.slice(0, limit) : messages;
+        const usersById = await loadUsers(page.map(message => message.sender));
+        const last = page[page.length - 1];
+
+        res.status(200).json({
+            success: true,
+            count: page.length,
+            data: page.map(message => serializeMessage(message, usersById)),
+            nextCursor: hasMore && last ? encodeCursor(last.createdAt, last._id) : null,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Send a message
+// @route   POST /api/v1/conversations/:id/messages
+// @access  Private (members only)
+export const sendMessage = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const userId = req.user._id;
+        const conversation = await findMemberConversation(req.params.id, userId);
+
+        if (!conversation) {
+            res.status(404).json({
+                success: false,
+                error: 'Conversation not found',
+            });
+            return;
+        }
+
+        // SECURITY: A block on either side closes the one-to-one conversation
+        if (!conversation.isGroup) {
+            const otherIds = conversation.members
+                .map(member => member.user)
+                .filter(id => !id.equals(userId));
+
+            if (await isBlockedBetween(userId, otherIds)) {
+                res.status(403).json({
+                    success: false,
+                    error: 'You can no longer message this user',
+                });
+                return;
+            }
+        }
+
+        const message = await Message.create({
+            conversation: conversation._id,
+            sender: userId,
+            text: req.body.text,
+        });
+
+        // Sending counts as reading; everyone else gets one more unread message
+        await Conversation.updateOne(
+            { _id: conversation._id },
+            {
+                $set: {
+                    lastMessage: { text: message.text, sender: userId, createdAt: message.createdAt },
+                    lastMessageAt: message.createdAt,
+                    'members.$[sender].lastReadAt': message.createdAt,
+                },
+                $inc: { 'members.$[other].unreadCount': 1 },
+            },
+            { arrayFilters: [{ 'sender.user': userId }, { 'other.user': { $ne: userId } }] }
+        );
+
+        const data = serializeMessage(message, new Map([[userId.toString(), req.user]]));
+
+        conversation.members.forEach(member => {
+            publish(userRoom(member.user), 'message-created', { conversationId: conversation._id, message: data });
+        });
+
+        res.status(201).json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Mark a conversation as read up to now
+// @route   POST /api/v1/conversations/:id/read
+// @access  Private (members only)
+export const markConversationRead = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const userId = req.user._id;
+        const lastReadAt = new Date();
+        const conversation = await Conversation.findOneAndUpdate(
+            { _id: req.params.id, 'members.user': userId },
+            { $set: { 'members.$.lastReadAt': lastReadAt, 'members.$.unreadCount': 0 } },
+            { new: true }
+        );
+
+        if (!conversation) {
+            res.status(404).json({
+                success: false,
+                error: 'Conversation not found',
+            });
+            return;
+        }
+
+        // Other members see the read receipt; the reader's other tabs clear their badge
+        conversation.members.forEach(member => {
+            publish(userRoom(member.user), 'conversation-read', {
+                conversationId: conversation._id,
+                userId,
+                lastReadAt,
+            });
+        });
+
+        const unreadTotal = await getUnreadTotal(userId);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                lastReadAt,
+                unreadTotal,
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,426 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import Post, { postAuthorId } from '../models/Post';
+import Comment from '../models/Comment';
+import User, { IUser } from '../models/User';
+import Report, { IReport, ReportReason } from '../models/Report';
+import ModerationAction, { IModerationAction, ModerationActionType } from '../models/ModerationAction';
+import { notify } from '../services/notifications';
+import { trashPost } from '../services/posts';
+import { audit, auditLabel } from '../services/audit';
+import { encodeCursor, decodeCursor, cursorFilter, parseLimit } from '../utils/pagination';
+import { markdownSource } from '../utils/markdown';
+import { avatarUrl } from '../utils/profile';
+
+// Most recent reports shown with each queue item
+const RECENT_REPORTS_PER_ITEM = 5;
+
+const ACTION_MESSAGES: Record<ModerationActionType, string> = {
+    dismiss: 'Reports dismissed',
+    hide: 'Content hidden',
+    delete: 'Content deleted',
+    warn: 'Author warned',
+};
+
+type ModerationUser = Pick<IUser, '_id' | 'name' | 'avatar'>;
+
+const serializeUser = (user: ModerationUser | null | undefined) =>
+    user ? { id: user._id, name: user.name, avatar: avatarUrl(user) } : null;
+
+const countReasons = (reports: Pick<IReport, 'reason'>[]) =>
+    reports.reduce<Partial<Record<ReportReason, number>>>((counts, report) => {
+        counts[report.reason] = (counts[report.reason] ?? 0) + 1;
+        return counts;
+    }, {});
+
+/**
+ * Closes the open reports an action dealt with and writes the moderation
+ * record. Dismissing marks the reports dismissed; any other action marks
+ * them actioned.
+ */
+const recordAction = async (
+    req: Request,
+    target: {
+        post: mongoose.Types.ObjectId;
+        comment: mongoose.Types.ObjectId | null;
+        author: mongoose.Types.ObjectId;
+        excerpt: string;
+    },
+    reports: IReport[]
+): Promise<IModerationAction> => {
+    const action = req.body.action as ModerationActionType;
+
+    if (reports.length > 0) {
+        await Report.updateMany(
+            { _id: { $in: reports.map(report => report._id) } },
+            { $set: { status: action === 'dismiss' ? 'dismissed' : 'actioned', resolvedAt: new Date() } }
+        );
+    }
+
+    return ModerationAction.create({
+        moderator: req.user?._id,
+        action,
+        targetType: target.comment ? 'comment' : 'post',
+        post: target.post,
+        comment: target.comment,
+        targetAuthor: target.author,
+        excerpt: target.excerpt,
+        reports: countReasons(reports),
+        note: req.body.note,
+    });
+};
+
+const serializeAction = (record: IModerationAction, users: Map<string, ModerationUser>) => ({
+    id: record._id,
+    action: record.action,
+    targetType: record.targetType,
+    post: record.post,
+    comment: record.comment,
+    excerpt: record.excerpt,
+    reports: record.reports,
+    reportCount: Object.values(record.reports).reduce((sum, count) => sum + (count ?? 0), 0),
+    note: record.note,
+    moderator: serializeUser(users.get(record.moderator.toString())),
+    targetAuthor: serializeUser(users.get(record.targetAuthor.toString())),
+    createdAt: record.createdAt,
+});
+
+// @desc    Reported posts and comments, most reported first
+// @route   GET /api/v1/admin/reports?page=&limit=
+// @access  Private (Admin)
+export const getReportQueue = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const limit = parseLimit(req.query.limit);
+        const page = Math.max(1, parseInt((req.query.page as string) || '1', 10));
+
+        const groups = await Report.aggregate<{
+            _id: { post: mongoose.Types.ObjectId; comment: mongoose.Types.ObjectId | null };
+            count: number;
+            latestAt: Date;
+            reasons: ReportReason[];
+            recent: { reason: ReportReason; details?: string; createdAt: Date }[];
+        }>([
+            { $match: { status: 'open' } },
+            { $sort: { createdAt: -1 } },
+            {
+                $group: {
+                    _id: { post: '$post', comment: '$comment' },
+                    count: { $sum: 1 },
+                    latestAt: { $max: '$createdAt' },
+                    reasons: { $push: '$reason' },
+                    recent: { $push: { reason: '$reason', details: '$details', createdAt: '$createdAt' } },
+                },
+            },
+            // Content removed since it was reported drops out of the queue before
+            // paging, so pages stay full; a trashed post's reports come back if
+            // it is restored
+            {
+                $lookup: {
+                    from: 'posts',
+                    localField: '_id.post',
+                    foreignField: '_id',
+                    as: 'post',
+                    pipeline: [{ $match: { deletedAt: { $exists: false } } }, { $project: { _id: 1 } }],
+                },
+            },
+            {
+                $lookup: {
+                    from: 'comments',
+                    localField: '_id.comment',
+                    foreignField: '_id',
+                    as: 'comment',
+                    pipeline: [{ $match: { deletedAt: { $exists: false } } }, { $project: { _id: 1 } }],
+                },
+            },
+            { $match: { post: { $ne: [] }, $or: [{ '_id.comment': null }, { comment: { $ne: [] } }] } },
+            { $sort: { count: -1, latestAt: -1, _id: 1 } },
+            { $skip: (page - 1) * limit },
+            { $limit: limit + 1 },
+            {
+                $project: {
+                    count: 1,
+                    latestAt: 1,
+                    reasons: 1,
+                    recent: { $slice: ['$recent', RECENT_REPORTS_PER_ITEM] },
+                },
+            },
+        ]);
+
+        const hasMore = groups.length > limit;
+        const pageGroups = groups.slice(0, limit);
+
+        // Hidden posts and comments are included - moderators need to see them
+        const [posts, comments] = await Promise.all([
+            Post.find({ _id: { $in: pageGroups.map(group => group._id.post) } }).select('title type author hiddenAt'),
+            Comment.find({ _id: { $in: pageGroups.flatMap(group => (group._id.comment ? [group._id.comment] : [])) } })
+                .populate('user', 'name avatar'),
+        ]);
+        const postsById = new Map(posts.map(post => [post._id.toString(), post]));
+        const commentsById = new Map(comments.map(comment => [comment._id.toString(), comment]));
+
+        // Skips anything removed since the aggregation ran
+        const data = pageGroups.flatMap(group => {
+            const post = postsById.get(group._id.post.toString());
+            const comment = group._id.comment ? commentsById.get(group._id.comment.toString()) : null;
+            if (!post || comment === undefined || comment?.deletedAt) return [];
+
+            return [{
+                post: {
+                    id: post._id,
+                    title: post.title,
+                    type: post.type,
+                    author: serializeUser(post.author as IUser),
+                    isHidden: Boolean(post.hiddenAt),
+                },
+                comment: comment && {
+                    id: comment._id,
+                    text: markdownSource(comment.text, comment.isMarkdown),
+                    author: serializeUser(comment.user as IUser),
+                    isHidden: Boolean(comment.hiddenAt),
+                    createdAt: comment.createdAt,
+                },
+                reportCount: group.count,
+                reasons: countReasons(group.reasons.map(reason => ({ reason }))),
+                latestAt: group.latestAt,
+                recent: group.recent,
+            }];
+        });
+
+        res.status(200).json({
+            success: true,
+            count: data.length,
+            data,
+            page,
+            hasMore,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Dismiss the reports on a post, or hide, delete or warn its author
+// @route   POST /api/v1/admin/posts/:id/moderate
+// @access  Private (Admin)
+export const moderatePost = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const post = await Post.findById(req.params.id).select('title author hiddenAt');
+
+        if (!post) {
+            res.status(404).json({
+                success: false,
+                error: 'Post not found',
+            });
+            return;
+        }
+
+        const action = req.body.action as ModerationActionType;
+
+        if (action === 'hide' && post.hiddenAt) {
+            res.status(400).json({
+                success: false,
+                error: 'Post is already hidden',
+            });
+            return;
+        }
+
+        const reports = await Report.find({ post: post._id, comment: null, status: 'open' });
+
+        if (action === 'hide') {
+            await Post.updateOne({ _id: post._id }, { $set: { hiddenAt: new Date() } });
+        } else if (action === 'delete') {
+            await trashPost(post, req.user._id);
+        } else if (action === 'warn') {
+            // Nobody to warn once the author's account is gone
+            if (post.author) {
+                void notify({ recipient: post.author._id, actor: req.user._id, type: 'moderation-warning', post: post._id });
+            }
+        }
+
+        if (action === 'hide' || action === 'delete') {
+            await audit(req, {
+                action: action === 'hide' ? 'post.hide' : 'post.delete',
+                targetType: 'post',
+                target: post._id,
+                targetLabel: post.title,
+                targetOwner: postAuthorId(post),
+                details: req.body.note,
+            });
+        }
+
+        const record = await recordAction(req, {
+            post: post._id,
+            comment: null,
+            author: postAuthorId(post),
+            excerpt: post.title,
+        }, reports);
+
+        res.status(200).json({
+            success: true,
+            data: serializeAction(record, new Map([
+                [req.user._id.toString(), req.user],
+                ...(post.author ? [[post.author._id.toString(), post.author as IUser] as const] : []),
+            ])),
+            message: ACTION_MESSAGES[action],
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Dismiss the reports on a comment, or hide, delete or warn its author
+// @route   POST /api/v1/admin/comments/:id/moderate
+// @access  Private (Admin)
+export const moderateComment = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const comment = await Comment.findOne({ _id: req.params.id, deletedAt: { $exists: false } })
+            .populate('user', 'name avatar');
+
+        if (!comment) {
+            res.status(404).json({
+                success: false,
+                error: 'Comment not found',
+            });
+            return;
+        }
+
+        const action = req.body.action as ModerationActionType;
+
+        if (action === 'hide' && comment.hiddenAt) {
+            res.status(400).json({
+                success: false,
+                error: 'Comment is already hidden',
+            });
+            return;
+        }
+
+        const reports = await Report.find({ comment: comment._id, status: 'open' });
+        const excerpt = markdownSource(comment.text, comment.isMarkdown);
+
+        if (action === 'hide') {
+            await Comment.updateOne({ _id: comment._id }, { $set: { hiddenAt: new Date() } });
+        } else if (action === 'delete') {
+            // Same placeholder as an author deleting their own comment
+            await Comment.updateOne(
+                { _id: comment._id },
+                { $set: { text: '', deletedAt: new Date(), deletedBy: req.user._id } }
+            );
+            await Post.updateOne(
+                { _id: comment.post, commentCount: { $gt: 0 } },
+                { $inc: { commentCount: -1 } }
+            );
+        } else if (action === 'warn') {
+            void notify({
+                recipient: comment.user._id,
+                actor: req.user._id,
+                type: 'moderation-warning',
+                post: comment.post,
+                comment: comment._id,
+            });
+        }
+
+        if (action === 'hide' || action === 'delete') {
+            await audit(req, {
+                action: action === 'hide' ? 'comment.hide' : 'comment.delete',
+                targetType: 'comment',
+                target: comment._id,
+                targetLabel: auditLabel(excerpt),
+                targetOwner: comment.user._id,
+                details: req.body.note,
+            });
+        }
+
+        const record = await recordAction(req, {
+            post: comment.post,
+            comment: comment._id,
+            author: comment.user._id,
+            excerpt,
+        }, reports);
+
+        res.status(200).json({
+            success: true,
+            data: serializeAction(record, new Map([
+                [req.user._id.toString(), req.user],
+                [comment.user._id.toString(), comment.user as IUser],
+            ])),
+            message: ACTION_MESSAGES[action],
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Every moderation action taken, newest first
+// @route   GET /api/v1/admin/moderation-log?cursor=&limit=
+// @access  Private (Admin)
+export const getModerationLog = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { cursor } = req.query;
+        const limit = parseLimit(req.query.limit);
+
+        let filter = {};
+        if (cursor) {
+            const decoded = decodeCursor(cursor as string);
+            if (!decoded) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Invalid cursor',
+                });
+                return;
+            }
+            filter = cursorFilter(decoded);
+        }
+
+        const records = await ModerationAction.find(filter)
+            .sort({ createdAt: -1, _id: -1 })
+            .limit(limit + 1);
+
+        const hasMore = records.length > limit;
+        const page = hasMore ? records.slice(0, limit) : records;
+        const last = page[page.length - 1];
+
+        const userIds = page.flatMap(record => [record.moderator, record.targetAuthor]);
+        const users = await User.find({ _id: { $in: userIds } }).select('name avatar');
+        const usersById = new Map<string, ModerationUser>(users.map(user => [user._id.toString(), user]));
+
+        res.status(200).json({
+            success: true,
+            count: page.length,
+            data: page.map(record => serializeAction(record, usersById)),
+            nextCursor: hasMore && last ? encodeCursor(last.createdAt, last._id) : null,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
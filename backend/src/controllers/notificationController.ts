@@ -0,0 +1,196 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose, { FilterQuery, PipelineStage } from 'mongoose';
+import Notification, { INotification, NotificationType } from '../models/Notification';
+import Post from '../models/Post';
+import User from '../models/User';
+import { parseLimit } from '../utils/pagination';
+import { avatarUrl } from '../utils/profile';
+
+// Names shown per group ("Alex and Sam", "Alex and 4 others")
+const GROUP_ACTOR_PREVIEW = 2;
+
+interface NotificationGroupRow {
+    _id: { type: NotificationType; post: mongoose.Types.ObjectId };
+    count: number;
+    unread: number;
+    latestAt: Date;
+}
+
+interface GroupActorsRow {
+    _id: { type: NotificationType; post: mongoose.Types.ObjectId };
+    actors: mongoose.Types.ObjectId[];
+    actorCount: number;
+}
+
+// Keeps the rows whose post, at `field`, is neither trashed nor purged;
+// notifications about those are neither listed nor counted as unread
+const livePostStages = (field: string): PipelineStage[] => [
+    {
+        $lookup: {
+            from: 'posts',
+            localField: field,
+            foreignField: '_id',
+            as: 'livePost',
+            pipeline: [{ $match: { deletedAt: { $exists: false } } }, { $project: { _id: 1 } }],
+        },
+    },
+    { $match: { livePost: { $ne: [] } } },
+];
+
+const countUnread = async (recipient: mongoose.Types.ObjectId): Promise<number> => {
+    const [row] = await Notification.aggregate<{ count: number }>([
+        { $match: { recipient, readAt: null } },
+        { $group: { _id: '$post', count: { $sum: 1 } } },
+        ...livePostStages('_id'),
+        { $group: { _id: null, count: { $sum: '$count' } } },
+    ]);
+    return row?.count ?? 0;
+};
+
+// @desc    Get notifications grouped by post and type, newest first
+// @route   GET /api/v1/notifications?limit=&before=
+// @access  Private
+export const getNotifications = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const recipient = req.user._id;
+        const limit = parseLimit(req.query.limit);
+        const before = req.query.before ? new Date(req.query.before as string) : null;
+
+        // Only counts are kept per group, so memory stays flat however many
+        // notifications a group holds
+        const groups = await Notification.aggregate<NotificationGroupRow>([
+            { $match: { recipient } },
+            {
+                $group: {
+                    _id: { type: '$type', post: '$post' },
+                    count: { $sum: 1 },
+                    unread: { $sum: { $cond: [{ $eq: ['$readAt', null] }, 1, 0] } },
+                    latestAt: { $max: '$createdAt' },
+                },
+            },
+            ...(before ? [{ $match: { latestAt: { $lt: before } } }] : []),
+            ...livePostStages('_id.post'),
+            { $sort: { latestAt: -1 } },
+            { $limit: limit + 1 },
+        ]);
+
+        const hasMore = groups.length > limit;
+        const page = hasMore ? groups.slice(0, limit) : groups;
+
+        // Distinct actors of just this page's groups, most recent first
+        const actorRows = page.length === 0 ? [] : await Notification.aggregate<GroupActorsRow>([
+            { $match: { recipient, $or: page.map(group => group._id) } },
+            { $group: { _id: { type: '$type', post: '$post', actor: '$actor' }, latestAt: { $max: '$createdAt' } } },
+            { $sort: { latestAt: -1 } },
+            {
+                $group: {
+                    _id: { type: '$_id.type', post: '$_id.post' },
+                    actors: { $firstN: { input: '$_id.actor', n: GROUP_ACTOR_PREVIEW } },
+                    actorCount: { $sum: 1 },
+                },
+            },
+        ]);
+        const groupKey = (key: NotificationGroupRow['_id']) => `${key.type}:${key.post}`;
+        const actorsByGroup = new Map(actorRows.map(row => [groupKey(row._id), row]));
+
+        const previewIds = actorRows.flatMap(row => row.actors);
+        const [users, posts] = await Promise.all([
+            User.find({ _id: { $in: previewIds } }).select('name avatar'),
+            Post.find({ _id: { $in: page.map(group => group._id.post) } }).select('title type'),
+        ]);
+        const usersById = new Map(users.map(user => [user._id.toString(), user]));
+        const postsById = new Map(posts.map(post => [post._id.toString(), post]));
+
+        const data = page
+            .flatMap(group => {
+                const post = postsById.get(group._id.post.toString());
+                // Skip groups whose post was deleted after the list was read
+                if (!post) return [];
+
+                const actors = actorsByGroup.get(groupKey(group._id));
+                return [{
+                    id: `${group._id.type}:${post._id}`,
+                    type: group._id.type,
+                    post: { id: post._id, title: post.title, type: post.type },
+                    actors: (actors?.actors ?? []).flatMap(id => {
+                        const user = usersById.get(id.toString());
+                        return user
+                            ? [{ id: user._id, name: user.name, avatar: avatarUrl(user) }]
+                            : [];
+                    }),
+                    actorCount: actors?.actorCount ?? 0,
+                    count: group.count,
+                    unread: group.unread,
+                    read: group.unread === 0,
+                    latestAt: group.latestAt,
+                }];
+            });
+
+        const unreadCount = await countUnread(recipient);
+        const last = page[page.length - 1];
+
+        res.status(200).json({
+            success: true,
+            count: data.length,
+            unreadCount,
+            data,
+            nextBefore: hasMore && last ? last.latestAt : null,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Mark notifications as read: by id, by post and type, or all of them
+// @route   POST /api/v1/notifications/read
+// @access  Private
+export const markNotificationsRead = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const { ids, post, type } = req.body;
+
+        // SECURITY: Always scoped to the current user's notifications
+        const filter: FilterQuery<INotification> = { recipient: req.user._id, readAt: null };
+        if (Array.isArray(ids) && ids.length > 0) {
+            filter._id = { $in: ids };
+        }
+        if (post !== undefined) filter.post = post;
+        if (type !== undefined) filter.type = type;
+
+        const result = await Notification.updateMany(filter, { $set: { readAt: new Date() } });
+        const unreadCount = await countUnread(req.user._id);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                marked: result.modifiedCount,
+                unreadCount,
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
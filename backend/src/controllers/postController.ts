@@ -1,8 +1,74 @@
 import { Request, Response, NextFunction } from 'express';
-import Post from '../models/Post';
+import mongoose, { FilterQuery } from 'mongoose';
+import Post, {
+    IPost,
+    IHackathonPost,
+    PostType,
+    POST_DETAIL_FIELDS,
+    TRASHED_POSTS,
+    VISIBLE_POSTS,
+    postAuthorId,
+    teamMaxSize,
+} from '../models/Post';
+import User, { IUser } from '../models/User';
+import Application from '../models/Application';
+import Team from '../models/Team';
+import Like from '../models/Like';
+import { notify, removeLikeNotification } from '../services/notifications';
+import { trashPost, restorePost, purgeDate } from '../services/posts';
+import { audit, diffChanges } from '../services/audit';
+import { publish, postRoom, FEED_ROOM } from '../services/realtime';
+import { encodeCursor, decodeCursor, cursorFilter, parseLimit } from '../utils/pagination';
+import { markdownSource } from '../utils/markdown';
+import { serializePostDetails, pickPostDetails } from '../utils/postDetails';
+import { parseSearchQuery, highlight, escapeRegex, SEARCH_SNIPPET_LENGTH } from '../utils/search';
+import {
+    resolvePostAttachments,
+    claimAttachments,
+    releaseAttachments,
+    deleteAttachments,
+    serializeAttachment,
+    AttachmentError,
+} from '../services/attachments';
+
+// The fields an admin's edit of someone else's post is audited on
+const auditSnapshot = (post: IPost): Record<string, unknown> => ({
+    type: post.type,
+    title: post.title,
+    description: markdownSource(post.description, post.isMarkdown),
+    tags: [...post.tags],
+    details: serializePostDetails(post),
+    attachments: post.attachments.map(attachment => attachment.name),
+});
+
+// Why a post can't change type, if it can't
+const typeChangeConflict = async (post: IPost): Promise<string | null> => {
+    // Applicants would lose track of an application whose post stops being an internship
+    if (post.type === 'internship' && await Application.exists({ post: post._id })) {
+        return 'An internship that has received applications cannot change type';
+    }
+    // Teams are built around the hackathon's dates and team size
+    if (post.type === 'hackathon' && await Team.exists({ post: post._id })) {
+        return 'A hackathon that has teams cannot change type';
+    }
+    return null;
+};
+
+// Puts back the fields an update changed, as they were in `previous`
+const undoUpdate = (
+    previous: Record<string, unknown>,
+    update: { $set: Record<string, unknown>; $unset: Record<string, ''> }
+) => {
+    const undo = { $set: {} as Record<string, unknown>, $unset: {} as Record<string, ''> };
+    for (const field of [...Object.keys(update.$set), ...Object.keys(update.$unset)]) {
+        if (previous[field] !== undefined) undo.$set[field] = previous[field];
+        else undo.$unset[field] = '';
+    }
+    return undo;
+};
 
-// @desc    Get all posts
-// @route   GET /api/v1/posts
+// @desc    Get posts (cursor paginated)
+// @route   GET /api/v1/posts?limit=&cursor=&type=&tags=&author=&from=&to=
 // @access  Public
 export const getPosts = async (
     req: Request,
@@ -10,36 +76,159 @@ export const getPosts = async (
     next: NextFunction
 ): Promise<void> => {
     try {
-        const { type } = req.query;
+        const { type, tags, author, from, to, cursor } = req.query;
+        const limit = parseLimit(req.query.limit);
 
         // Build query
-        const query: Record<string, string> = {};
+        const conditions: FilterQuery<IPost>[] = [VISIBLE_POSTS];
         if (type && type !== 'all') {
-            query.type = type as string;
+            conditions.push({ type: type as string });
+        }
+        if (Array.isArray(tags) && tags.length > 0) {
+            // Matches posts carrying any of the requested tags
+            conditions.push({ tags: { $in: tags as string[] } });
+        }
+        if (author) {
+            conditions.push({ author: author as string });
+        }
+        if (from || to) {
+            const createdAt: { $gte?: Date; $lte?: Date } = {};
+            if (from) createdAt.$gte = new Date(from as string);
+            if (to) createdAt.$lte = new Date(to as string);
+            conditions.push({ createdAt });
+        }
+        if (cursor) {
+            const decoded = decodeCursor(cursor as string);
+            if (!decoded) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Invalid cursor',
+                });
+                return;
+            }
+            conditions.push(cursorFilter(decoded));
         }
 
-        const posts = await Post.find(query)
-            .sort({ createdAt: -1 })
-            .populate('commentsList.user', 'name avatar');
+        // Fetch one extra post to know whether another page exists.
+        // Embedded comments are excluded - the list only needs the count.
+        const posts = await Post.find({ $and: conditions })
+            .select('-commentsList')
+            .sort({ createdAt: -1, _id: -1 })
+            .limit(limit + 1);
+
+        const hasMore = posts.length > limit;
+        const page = hasMore ? posts.slice(0, limit) : posts;
+        const last = page[page.length - 1];
 
         // Transform posts to match frontend format
-        const formattedPosts = posts.map((post) => ({
+        const formattedPosts = page.map((post) => ({
+            id: post._id,
+            type: post.type,
+            title: post.title,
+            description: markdownSource(post.description, post.isMarkdown),
+            tags: post.tags,
+            attachments: post.attachments.map(serializeAttachment),
+            details: serializePostDetails(post),
+            author: post.author,
+            likes: post.likes,
+            likedBy: post.likedBy || [],
+            comments: post.commentCount || 0,
+            createdAt: post.createdAt,
+        }));
+
+        res.status(200).json({
+            success: true,
+            count: formattedPosts.length,
+            data: formattedPosts,
+            nextCursor: hasMore && last ? encodeCursor(last.createdAt, last._id) : null,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Full-text search posts
+// @route   GET /api/v1/posts/search?q=&limit=&page=
+// @access  Public
+export const searchPosts = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const parsed = parseSearchQuery(req.query.q as string);
+        const limit = parseLimit(req.query.limit);
+        const page = Math.max(1, parseInt((req.query.page as string) || '1', 10));
+
+        const conditions: FilterQuery<IPost>[] = [];
+        if (parsed.text) {
+            conditions.push({ $text: { $search: parsed.text } });
+        }
+        // Explicit type filter from the query string wins over the type: prefix
+        const type = req.query.type && req.query.type !== 'all' ? req.query.type as string : parsed.type;
+        if (type) {
+            conditions.push({ type });
+        }
+        if (parsed.tags.length > 0) {
+            conditions.push({ tags: { $all: parsed.tags.map(tag => new RegExp(`^${escapeRegex(tag)}$`, 'i')) } });
+        }
+        if (parsed.author) {
+            // author: accepts either a user ID or (part of) a display name
+            const authorIds = mongoose.Types.ObjectId.isValid(parsed.author)
+                ? [new mongoose.Types.ObjectId(parsed.author)]
+                : (await User.find({ name: new RegExp(escapeRegex(parsed.author), 'i') })
+                    .select('_id')
+                    .limit(50)).map(user => user._id);
+            conditions.push({ author: { $in: authorIds } });
+        }
+
+        if (conditions.length === 0) {
+            res.status(400).json({
+                success: false,
+                error: 'Search query is required',
+            });
+            return;
+        }
+
+        // Rank by text relevance when searching text, otherwise newest first
+        const posts = await Post.find(
+            { $and: [VISIBLE_POSTS, ...conditions] },
+            parsed.text ? { score: { $meta: 'textScore' } } : {}
+        )
+            .select('-commentsList')
+            .sort(parsed.text ? { score: { $meta: 'textScore' }, createdAt: -1 } : { createdAt: -1, _id: -1 })
+            .skip((page - 1) * limit)
+            .limit(limit + 1);
+
+        const hasMore = posts.length > limit;
+        const needles = [...parsed.phrases, ...parsed.terms];
+
+        const formattedPosts = posts.slice(0, limit).map((post) => ({
             id: post._id,
             type: post.type,
             title: post.title,
-            description: post.description,
+            description: markdownSource(post.description, post.isMarkdown),
             tags: post.tags,
+            attachments: post.attachments.map(serializeAttachment),
+            details: serializePostDetails(post),
             author: post.author,
             likes: post.likes,
             likedBy: post.likedBy || [],
-            comments: post.commentCount || post.commentsList?.length || 0,
+            comments: post.commentCount || 0,
             createdAt: post.createdAt,
+            score: (post.get('score') as number | undefined) ?? null,
+            highlights: {
+                title: highlight(post.title, needles),
+                description: highlight(markdownSource(post.description, post.isMarkdown), needles, SEARCH_SNIPPET_LENGTH),
+            },
         }));
 
         res.status(200).json({
             success: true,
             count: formattedPosts.length,
             data: formattedPosts,
+            page,
+            hasMore,
         });
     } catch (error) {
         next(error);
@@ -55,8 +244,8 @@ export const getPost = async (
     next: NextFunction
 ): Promise<void> => {
     try {
-        const post = await Post.findById(req.params.id)
-            .populate('commentsList.user', 'name avatar');
+        // Comments are loaded separately from /posts/:id/comments
+        const post = await Post.findOne({ _id: req.params.id, ...VISIBLE_POSTS }).select('-commentsList');
 
         if (!post) {
             res.status(404).json({
@@ -72,13 +261,14 @@ export const getPost = async (
                 id: post._id,
                 type: post.type,
                 title: post.title,
-                description: post.description,
+                description: markdownSource(post.description, post.isMarkdown),
                 tags: post.tags,
+                attachments: post.attachments.map(serializeAttachment),
+                details: serializePostDetails(post),
                 author: post.author,
                 likes: post.likes,
                 likedBy: post.likedBy || [],
-                comments: post.commentCount || post.commentsList?.length || 0,
-                commentsList: post.commentsList || [],
+                comments: post.commentCount || 0,
                 createdAt: post.createdAt,
             },
         });
@@ -96,7 +286,7 @@ export const createPost = async (
     next: NextFunction
 ): Promise<void> => {
     try {
-        const { type, title, description, tags } = req.body;
+        const { type, title, description, tags, attachments, details } = req.body;
 
         if (!req.user) {
             res.status(401).json({
@@ -106,36 +296,65 @@ export const createPost = async (
             return;
         }
 
-        const post = await Post.create({
-            type,
-            title,
-            description,
-            tags: tags || [],
-            author: req.user._id,
-            likedBy: [],
-            commentsList: [],
-            commentCount: 0,
-        });
+        // The id is needed up front to check and claim the attachments
+        const postId = new mongoose.Types.ObjectId();
+        const postAttachments = await resolvePostAttachments(attachments || [], req.user._id, postId);
+        const attachmentIds = postAttachments.map(attachment => attachment._id);
+        await claimAttachments(attachmentIds, postId);
+
+        // The type picks the discriminator the post is saved with
+        let post: IPost;
+        try {
+            post = await Post.create({
+                _id: postId,
+                type,
+                title,
+                description,
+                isMarkdown: true,
+                tags: tags || [],
+                attachments: postAttachments,
+                ...pickPostDetails(type, details),
+                author: req.user._id,
+                likedBy: [],
+                commentCount: 0,
+            });
+        } catch (error) {
+            await releaseAttachments(attachmentIds, postId);
+            throw error;
+        }
 
         // Populate author for response
         await post.populate('author', 'name email role avatar createdAt');
 
+        const data = {
+            id: post._id,
+            type: post.type,
+            title: post.title,
+            description: markdownSource(post.description, post.isMarkdown),
+            tags: post.tags,
+            attachments: post.attachments.map(serializeAttachment),
+            details: serializePostDetails(post),
+            author: post.author,
+            likes: post.likes,
+            likedBy: post.likedBy,
+            comments: 0,
+            createdAt: post.createdAt,
+        };
+
+        publish(FEED_ROOM, 'post-created', data);
+
         res.status(201).json({
             success: true,
-            data: {
-                id: post._id,
-                type: post.type,
-                title: post.title,
-                description: post.description,
-                tags: post.tags,
-                author: post.author,
-                likes: post.likes,
-                likedBy: post.likedBy,
-                comments: 0,
-                createdAt: post.createdAt,
-            },
+            data,
         });
     } catch (error) {
+        if (error instanceof AttachmentError) {
+            res.status(400).json({
+                success: false,
+                error: error.message,
+            });
+            return;
+        }
         next(error);
     }
 };
@@ -157,7 +376,7 @@ export const likePost = async (
             return;
         }
 
-        const post = await Post.findById(req.params.id);
+        const post = await Post.findOne({ _id: req.params.id, ...VISIBLE_POSTS });
 
         if (!post) {
             res.status(404).json({
@@ -193,6 +412,25 @@ export const likePost = async (
 
         await post.save();
 
+        if (liked) {
+            try {
+                await Like.create({ user: userId, post: post._id });
+            } catch (error) {
+                if ((error as { code?: number }).code !== 11000) throw error;
+            }
+        } else {
+            await Like.deleteOne({ user: userId, post: post._id });
+        }
+
+        // The author's account may have been deleted since
+        if (liked && post.author) {
+            void notify({ recipient: post.author._id, actor: userId, type: 'like', post: post._id });
+        } else if (!liked) {
+            void removeLikeNotification(userId, post._id);
+        }
+
+        publish(postRoom(post._id), 'like-changed', { postId: post._id, likes: post.likes });
+
         res.status(200).json({
             success: true,
             data: {
@@ -205,10 +443,10 @@ export const likePost = async (
     }
 };
 
-// @desc    Add a comment
-// @route   POST /api/v1/posts/:id/comments
-// @access  Private
-export const addComment = async (
+// @desc    Update a post
+// @route   PUT /api/v1/posts/:id
+// @access  Private (Author or Admin)
+export const updatePost = async (
     req: Request,
     res: Response,
     next: NextFunction
@@ -222,57 +460,229 @@ export const addComment = async (
             return;
         }
 
-        const { text } = req.body;
+        let post = await Post.findById(req.params.id);
 
-        if (!text || text.trim().length === 0) {
-            res.status(400).json({
+        if (!post) {
+            res.status(404).json({
                 success: false,
-                error: 'Comment text is required',
+                error: 'Post not found',
             });
             return;
         }
 
-        const post = await Post.findById(req.params.id);
+        // Check ownership or admin
+        const isOwner = postAuthorId(post).toString() === req.user._id.toString();
+        const isAdmin = req.user.role === 'admin';
 
-        if (!post) {
-            res.status(404).json({
+        if (!isOwner && !isAdmin) {
+            res.status(403).json({
                 success: false,
-                error: 'Post not found',
+                error: 'Not authorized to update this post',
             });
             return;
         }
 
-        // Initialize commentsList if it doesn't exist
-        if (!post.commentsList) {
-            post.commentsList = [];
+        const before = auditSnapshot(post);
+
+        const { type, title, description, tags, attachments, details } = req.body;
+        const isTypeChange = type !== undefined && type !== post.type;
+
+        if (isTypeChange && details === undefined) {
+            res.status(400).json({
+                success: false,
+                error: 'Details for the new post type are required',
+            });
+            return;
         }
 
-        const newComment = {
-            user: req.user._id,
-            text: text.trim(),
-        };
+        if (isTypeChange) {
+            const conflict = await typeChangeConflict(post);
+            if (conflict) {
+                res.status(400).json({
+                    success: false,
+                    error: conflict,
+                });
+                return;
+            }
+        }
 
-        post.commentsList.push(newComment as any);
-        post.commentCount = post.commentsList.length;
+        // Attachments are replaced as a whole; new ones must be the author's
+        // uploads, so admins can remove or reorder but not add
+        const nextAttachments = attachments !== undefined
+            ? await resolvePostAttachments(attachments, postAuthorId(post), post._id)
+            : undefined;
 
-        await post.save();
-        await post.populate('commentsList.user', 'name avatar');
+        // Update only provided fields
+        const edits: Record<string, unknown> = {};
+        if (title !== undefined) edits.title = title;
+        if (description !== undefined) {
+            edits.description = description;
+            edits.isMarkdown = true;
+        }
+        if (tags !== undefined) edits.tags = tags;
+
+        let removedAttachmentIds: mongoose.Types.ObjectId[] = [];
+        let addedAttachmentIds: mongoose.Types.ObjectId[] = [];
+        if (nextAttachments) {
+            const currentIds = new Set(post.attachments.map(attachment => attachment._id.toString()));
+            const keptIds = new Set(nextAttachments.map(attachment => attachment._id.toString()));
+            removedAttachmentIds = post.attachments
+                .filter(attachment => !keptIds.has(attachment._id.toString()))
+                .map(attachment => attachment._id);
+            addedAttachmentIds = nextAttachments
+                .filter(attachment => !currentIds.has(attachment._id.toString()))
+                .map(attachment => attachment._id);
+            edits.attachments = nextAttachments;
+        }
+
+        if (isTypeChange) {
+            // The type is the discriminator key, which can't be changed on a loaded
+            // document. Validate the post as the new type first, then switch it in
+            // a single write that also drops the old type's fields.
+            const TypeModel = Post.discriminators?.[type] as mongoose.Model<IPost>;
+            const candidate: IPost = new TypeModel({
+                ...post.toObject({ depopulate: true }),
+                author: postAuthorId(post),
+                ...edits,
+                ...pickPostDetails(type, details),
+                type,
+            });
+            await candidate.validate();
+
+            const switched = candidate.toObject() as Record<string, unknown>;
+            const fields = [...Object.keys(edits), ...POST_DETAIL_FIELDS[type as PostType]];
+            const update = {
+                $set: { type, updatedAt: new Date() } as Record<string, unknown>,
+                $unset: {} as Record<string, ''>,
+            };
+            for (const field of fields) {
+                if (switched[field] !== undefined) update.$set[field] = switched[field];
+                else update.$unset[field] = '';
+            }
+            for (const field of POST_DETAIL_FIELDS[post.type]) {
+                if (!fields.includes(field)) update.$unset[field] = '';
+            }
+
+            await claimAttachments(addedAttachmentIds, post._id);
+            let previous;
+            try {
+                previous = await Post.collection.findOneAndUpdate(
+                    { _id: post._id, type: post.type, deletedAt: { $exists: false } },
+                    update,
+                    { returnDocument: 'before' }
+                );
+            } catch (error) {
+                await releaseAttachments(addedAttachmentIds, post._id);
+                throw error;
+            }
+
+            if (!previous) {
+                await releaseAttachments(addedAttachmentIds, post._id);
+                res.status(409).json({
+                    success: false,
+                    error: 'The post was changed while you were editing it; reload it and try again',
+                });
+                return;
+            }
+
+            // An application or team created while the type was switching would
+            // be left on a post that no longer takes them; switch it back
+            const conflict = await typeChangeConflict(post);
+            if (conflict) {
+                await Post.collection.updateOne({ _id: post._id, type }, undoUpdate(previous, update));
+                await releaseAttachments(addedAttachmentIds, post._id);
+                res.status(400).json({
+                    success: false,
+                    error: conflict,
+                });
+                return;
+            }
+
+            post = await Post.findById(post._id);
+            if (!post) {
+                res.status(404).json({
+                    success: false,
+                    error: 'Post not found',
+                });
+                return;
+            }
+        } else {
+            post.set(edits);
+            if (details !== undefined) post.set(pickPostDetails(post.type, details));
+
+            // Teams that have formed take the hackathon's new team size, which
+            // can't be smaller than any of them already is
+            const maxTeamSize = post.type === 'hackathon' ? teamMaxSize(post as IHackathonPost) : undefined;
+            if (maxTeamSize !== undefined && await Team.exists({ post: post._id, [`members.${maxTeamSize}`]: { $exists: true } })) {
+                res.status(400).json({
+                    success: false,
+                    error: `A team for this hackathon already has more than ${maxTeamSize} members`,
+                });
+                return;
+            }
+
+            await claimAttachments(addedAttachmentIds, post._id);
+            try {
+                await post.save();
+            } catch (error) {
+                await releaseAttachments(addedAttachmentIds, post._id);
+                throw error;
+            }
+
+            if (maxTeamSize !== undefined) {
+                await Team.updateMany({ post: post._id, maxSize: { $ne: maxTeamSize } }, { $set: { maxSize: maxTeamSize } });
+            }
+        }
 
-        const addedComment = post.commentsList[post.commentsList.length - 1];
+        if (removedAttachmentIds.length > 0) {
+            void deleteAttachments({ _id: { $in: removedAttachmentIds } });
+        }
 
-        res.status(201).json({
+        // SECURITY: Admin overrides are never silent
+        if (!isOwner) {
+            await audit(req, {
+                action: 'post.update',
+                targetType: 'post',
+                target: post._id,
+                targetLabel: post.title,
+                targetOwner: postAuthorId(post),
+                changes: diffChanges(before, auditSnapshot(post)),
+            });
+        }
+
+        res.status(200).json({
             success: true,
-            data: addedComment,
+            data: {
+                id: post._id,
+                type: post.type,
+                title: post.title,
+                description: markdownSource(post.description, post.isMarkdown),
+                tags: post.tags,
+                attachments: post.attachments.map(serializeAttachment),
+                details: serializePostDetails(post),
+                author: post.author,
+                likes: post.likes,
+                likedBy: post.likedBy || [],
+                comments: post.commentCount || post.commentsList?.length || 0,
+                createdAt: post.createdAt,
+            },
         });
     } catch (error) {
+        if (error instanceof AttachmentError) {
+            res.status(400).json({
+                success: false,
+                error: error.message,
+            });
+            return;
+        }
         next(error);
     }
 };
 
-// @desc    Update a post
-// @route   PUT /api/v1/posts/:id
+// @desc    Move a post to the trash
+// @route   DELETE /api/v1/posts/:id
 // @access  Private (Author or Admin)
-export const updatePost = async (
+export const deletePost = async (
     req: Request,
     res: Response,
     next: NextFunction
@@ -297,51 +707,160 @@ export const updatePost = async (
         }
 
         // Check ownership or admin
-        const isOwner = post.author._id.toString() === req.user._id.toString();
+        const isOwner = postAuthorId(post).toString() === req.user._id.toString();
         const isAdmin = req.user.role === 'admin';
 
         if (!isOwner && !isAdmin) {
             res.status(403).json({
                 success: false,
-                error: 'Not authorized to update this post',
+                error: 'Not authorized to delete this post',
             });
             return;
         }
 
-        const { type, title, description, tags } = req.body;
-
-        // Update only provided fields
-        if (type !== undefined) post.type = type;
-        if (title !== undefined) post.title = title;
-        if (description !== undefined) post.description = description;
-        if (tags !== undefined) post.tags = tags;
+        await trashPost(post, req.user._id);
 
-        await post.save();
+        // Every deletion is audited, so an author's own can be told apart from an admin's
+        await audit(req, {
+            action: 'post.delete',
+            targetType: 'post',
+            target: post._id,
+            targetLabel: post.title,
+            targetOwner: postAuthorId(post),
+        });
 
         res.status(200).json({
             success: true,
-            data: {
+            data: {},
+            message: 'Post moved to trash',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// Authors may restore what they deleted themselves; what an admin removed
+// only an admin can bring back
+const canRestore = (
+    author: mongoose.Types.ObjectId,
+    deletedBy: mongoose.Types.ObjectId | undefined,
+    user: IUser
+): boolean =>
+    user.role === 'admin' || (
+        author.toString() === user._id.toString() &&
+        deletedBy?.toString() === user._id.toString()
+    );
+
+/**
+ * Trashed posts matching filter, most recently deleted first. The cursor
+ * encodes deletedAt rather than createdAt.
+ */
+const listTrash = async (
+    req: Request,
+    res: Response,
+    user: IUser,
+    filter: FilterQuery<IPost>
+): Promise<void> => {
+    const { cursor } = req.query;
+    const limit = parseLimit(req.query.limit);
+
+    const conditions: FilterQuery<IPost>[] = [filter];
+    if (cursor) {
+        const decoded = decodeCursor(cursor as string);
+        if (!decoded) {
+            res.status(400).json({
+                success: false,
+                error: 'Invalid cursor',
+            });
+            return;
+        }
+        conditions.push(cursorFilter(decoded, 'desc', 'deletedAt'));
+    }
+
+    // deletedAt is named at the top level so the model doesn't exclude trashed posts
+    const posts = await Post.find({ ...TRASHED_POSTS, $and: conditions })
+        .select('type title author deletedAt deletedBy hiddenAt createdAt')
+        .sort({ deletedAt: -1, _id: -1 })
+        .limit(limit + 1)
+        .populate('deletedBy', 'name');
+
+    const hasMore = posts.length > limit;
+    const page = hasMore ? posts.slice(0, limit) : posts;
+    const last = page[page.length - 1];
+
+    res.status(200).json({
+        success: true,
+        count: page.length,
+        data: page.map(post => {
+            const deletedBy = post.deletedBy as unknown as Pick<IUser, '_id' | 'name'> | null;
+            const deletedAt = post.deletedAt as Date;
+            return {
                 id: post._id,
                 type: post.type,
                 title: post.title,
-                description: post.description,
-                tags: post.tags,
                 author: post.author,
-                likes: post.likes,
-                likedBy: post.likedBy || [],
-                comments: post.commentCount || post.commentsList?.length || 0,
+                isHidden: Boolean(post.hiddenAt),
                 createdAt: post.createdAt,
-            },
-        });
+                deletedAt,
+                deletedBy: deletedBy ? { id: deletedBy._id, name: deletedBy.name } : null,
+                purgeAt: purgeDate(deletedAt),
+                canRestore: canRestore(postAuthorId(post), deletedBy?._id, user),
+            };
+        }),
+        nextCursor: hasMore && last?.deletedAt ? encodeCursor(last.deletedAt, last._id) : null,
+    });
+};
+
+// @desc    The current user's trashed posts
+// @route   GET /api/v1/posts/trash?cursor=&limit=
+// @access  Private
+export const getTrash = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        await listTrash(req, res, req.user, { author: req.user._id });
     } catch (error) {
         next(error);
     }
 };
 
-// @desc    Delete a post
-// @route   DELETE /api/v1/posts/:id
+// @desc    Everyone's trashed posts
+// @route   GET /api/v1/admin/trash?cursor=&limit=
+// @access  Private (Admin)
+export const getAllTrash = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        await listTrash(req, res, req.user, {});
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Restore a post from the trash
+// @route   POST /api/v1/posts/:id/restore
 // @access  Private (Author or Admin)
-export const deletePost = async (
+export const restoreFromTrash = async (
     req: Request,
     res: Response,
     next: NextFunction
@@ -355,34 +874,48 @@ export const deletePost = async (
             return;
         }
 
-        const post = await Post.findById(req.params.id);
+        const post = await Post.findOne({ _id: req.params.id, ...TRASHED_POSTS }).select('title author deletedBy');
 
         if (!post) {
             res.status(404).json({
                 success: false,
-                error: 'Post not found',
+                error: 'Post not found in trash',
             });
             return;
         }
 
-        // Check ownership or admin
-        const isOwner = post.author._id.toString() === req.user._id.toString();
-        const isAdmin = req.user.role === 'admin';
+        const isOwner = postAuthorId(post).toString() === req.user._id.toString();
 
-        if (!isOwner && !isAdmin) {
+        if (!isOwner && req.user.role !== 'admin') {
             res.status(403).json({
                 success: false,
-                error: 'Not authorized to delete this post',
+                error: 'Not authorized to restore this post',
+            });
+            return;
+        }
+
+        if (!canRestore(postAuthorId(post), post.deletedBy, req.user)) {
+            res.status(403).json({
+                success: false,
+                error: 'This post was removed by an admin and can only be restored by one',
             });
             return;
         }
 
-        await post.deleteOne();
+        await restorePost(post);
+
+        await audit(req, {
+            action: 'post.restore',
+            targetType: 'post',
+            target: post._id,
+            targetLabel: post.title,
+            targetOwner: postAuthorId(post),
+        });
 
         res.status(200).json({
             success: true,
-            data: {},
-            message: 'Post deleted successfully',
+            data: { id: post._id },
+            message: 'Post restored',
         });
     } catch (error) {
         next(error);
@@ -0,0 +1,137 @@
+import { Request, Response, NextFunction } from 'express';
+import Post, { VISIBLE_POSTS, postAuthorId } from '../models/Post';
+import Comment from '../models/Comment';
+import Report, { IReport } from '../models/Report';
+
+const serializeReport = (report: IReport) => ({
+    id: report._id,
+    post: report.post,
+    comment: report.comment,
+    reason: report.reason,
+    status: report.status,
+    createdAt: report.createdAt,
+});
+
+// Saves a report, answering 409 if the user already reported the same thing
+const fileReport = async (
+    res: Response,
+    fields: Pick<IReport, 'reporter' | 'post' | 'comment' | 'reason' | 'details'>,
+    alreadyReported: string
+): Promise<void> => {
+    let report: IReport;
+    try {
+        report = await Report.create(fields);
+    } catch (error) {
+        if ((error as { code?: number }).code !== 11000) throw error;
+        res.status(409).json({
+            success: false,
+            error: alreadyReported,
+        });
+        return;
+    }
+
+    res.status(201).json({
+        success: true,
+        data: serializeReport(report),
+        message: 'Thanks, a moderator will review your report',
+    });
+};
+
+// @desc    Report a post to moderators
+// @route   POST /api/v1/posts/:id/report
+// @access  Private
+export const reportPost = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const post = await Post.findOne({ _id: req.params.id, ...VISIBLE_POSTS }).select('author');
+
+        if (!post) {
+            res.status(404).json({
+                success: false,
+                error: 'Post not found',
+            });
+            return;
+        }
+
+        if (postAuthorId(post).equals(req.user._id)) {
+            res.status(400).json({
+                success: false,
+                error: 'You cannot report your own post',
+            });
+            return;
+        }
+
+        await fileReport(res, {
+            reporter: req.user._id,
+            post: post._id,
+            comment: null,
+            reason: req.body.reason,
+            details: req.body.details,
+        }, 'You have already reported this post');
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Report a comment to moderators
+// @route   POST /api/v1/posts/:id/comments/:commentId/report
+// @access  Private
+export const reportComment = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const comment = await Comment.findOne({
+            _id: req.params.commentId,
+            post: req.params.id,
+            deletedAt: { $exists: false },
+            hiddenAt: { $exists: false },
+        });
+
+        if (!comment || !await Post.exists({ _id: comment.post, ...VISIBLE_POSTS })) {
+            res.status(404).json({
+                success: false,
+                error: 'Comment not found',
+            });
+            return;
+        }
+
+        if (comment.user._id.equals(req.user._id)) {
+            res.status(400).json({
+                success: false,
+                error: 'You cannot report your own comment',
+            });
+            return;
+        }
+
+        await fileReport(res, {
+            reporter: req.user._id,
+            post: comment.post,
+            comment: comment._id,
+            reason: req.body.reason,
+            details: req.body.details,
+        }, 'You have already reported this comment');
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,208 @@
+import { Request, Response, NextFunction } from 'express';
+import { FilterQuery, Model, PipelineStage } from 'mongoose';
+import Post, { PostType } from '../models/Post';
+import Comment from '../models/Comment';
+import User from '../models/User';
+import Session from '../models/Session';
+import Like from '../models/Like';
+import { avatarUrl } from '../utils/profile';
+
+const STATS_BUCKETS = ['day', 'week'] as const;
+type StatsBucket = typeof STATS_BUCKETS[number];
+
+// Longest range one request may cover
+const MAX_STATS_RANGE_DAYS = 366;
+
+const DEFAULT_RANGE_DAYS = 30;
+const TOP_TAGS_LIMIT = 10;
+const TOP_POSTS_LIMIT = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Buckets are UTC days, or UTC weeks starting on Monday
+const truncate = (bucket: StatsBucket, field: string) => ({
+    $dateTrunc: { date: `$${field}`, unit: bucket, timezone: 'UTC', startOfWeek: 'monday' },
+});
+
+const startOfBucket = (date: Date, bucket: StatsBucket): Date => {
+    const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    if (bucket === 'week') {
+        // getUTCDay is 0 on Sunday; step back to Monday
+        start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+    }
+    return start;
+};
+
+/**
+ * Counts the documents created in each bucket of the range. Returns a map
+ * from bucket start (ISO string) to count; empty buckets are absent.
+ */
+const countByBucket = async <T>(
+    model: Model<T>,
+    match: FilterQuery<T>,
+    range: { from: Date; to: Date },
+    bucket: StatsBucket
+): Promise<Map<string, number>> => {
+    const pipeline: PipelineStage[] = [
+        { $match: { ...match, createdAt: { $gte: range.from, $lte: range.to } } },
+        { $group: { _id: truncate(bucket, 'createdAt'), count: { $sum: 1 } } },
+    ];
+    const rows = await model.aggregate<{ _id: Date; count: number }>(pipeline);
+    return new Map(rows.map(row => [row._id.toISOString(), row.count]));
+};
+
+const countActiveUsers = async (since: Date): Promise<number> => {
+    const [row] = await Session.aggregate<{ count: number }>([
+        { $match: { lastUsedAt: { $gte: since } } },
+        { $group: { _id: '$user' } },
+        { $count: 'count' },
+    ]);
+    return row?.count ?? 0;
+};
+
+// @desc    Platform analytics for a date range
+// @route   GET /api/v1/admin/stats?from=&to=&bucket=
+// @access  Private (Admin)
+export const getStats = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const to = req.query.to ? new Date(req.query.to as string) : new Date();
+        const from = req.query.from
+            ? new Date(req.query.from as string)
+            : new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+        const bucket = (req.query.bucket as StatsBucket | undefined) ?? 'day';
+
+        if (from > to) {
+            res.status(400).json({
+                success: false,
+                error: 'From must be before to',
+            });
+            return;
+        }
+
+        if (to.getTime() - from.getTime() > MAX_STATS_RANGE_DAYS * DAY_MS) {
+            res.status(400).json({
+                success: false,
+                error: `Range cannot exceed ${MAX_STATS_RANGE_DAYS} days`,
+            });
+            return;
+        }
+
+        const range = { from, to };
+        const inRange = { createdAt: { $gte: from, $lte: to } };
+        const now = Date.now();
+
+        const [
+            signups,
+            posts,
+            comments,
+            // Likes still standing, by when they were made
+            likes,
+            totalUsers,
+            verifiedUsers,
+            totalComments,
+            postTotals,
+            dailyActive,
+            weeklyActive,
+            topTags,
+            topPosts,
+        ] = await Promise.all([
+            countByBucket(User, {}, range, bucket),
+            countByBucket(Post, {}, range, bucket),
+            countByBucket(Comment, { deletedAt: { $exists: false } }, range, bucket),
+            countByBucket(Like, {}, range, bucket),
+            User.countDocuments(),
+            User.countDocuments({ isEmailVerified: true }),
+            Comment.countDocuments({ deletedAt: { $exists: false } }),
+            Post.aggregate<{ _id: PostType; count: number; likes: number }>([
+                { $group: { _id: '$type', count: { $sum: 1 }, likes: { $sum: '$likes' } } },
+            ]),
+            countActiveUsers(new Date(now - DAY_MS)),
+            countActiveUsers(new Date(now - 7 * DAY_MS)),
+            Post.aggregate<{ _id: string; count: number }>([
+                { $match: inRange },
+                { $unwind: '$tags' },
+                { $group: { _id: '$tags', count: { $sum: 1 } } },
+                { $sort: { count: -1, _id: 1 } },
+                { $limit: TOP_TAGS_LIMIT },
+            ]),
+            Post.aggregate<{
+                _id: string;
+                title: string;
+                type: PostType;
+                likes: number;
+                commentCount: number;
+                hiddenAt?: Date;
+                author: { _id: string; name: string; avatar?: string } | null;
+            }>([
+                { $match: inRange },
+                { $addFields: { engagement: { $add: [{ $ifNull: ['$likes', 0] }, { $ifNull: ['$commentCount', 0] }] } } },
+                { $sort: { engagement: -1, createdAt: -1 } },
+                { $limit: TOP_POSTS_LIMIT },
+                { $lookup: { from: 'users', localField: 'author', foreignField: '_id', as: 'author', pipeline: [{ $project: { name: 1, avatar: 1 } }] } },
+                { $project: { title: 1, type: 1, likes: 1, commentCount: 1, hiddenAt: 1, author: { $first: '$author' } } },
+            ]),
+        ]);
+
+        // Every bucket in the range, empty ones included, so charts have no gaps
+        const series = [];
+        const step = bucket === 'week' ? 7 * DAY_MS : DAY_MS;
+        for (let start = startOfBucket(from, bucket); start <= to; start = new Date(start.getTime() + step)) {
+            const key = start.toISOString();
+            series.push({
+                date: key,
+                signups: signups.get(key) ?? 0,
+                posts: posts.get(key) ?? 0,
+                comments: comments.get(key) ?? 0,
+                likes: likes.get(key) ?? 0,
+            });
+        }
+
+        const postsByType: Record<PostType, number> = { project: 0, hackathon: 0, internship: 0 };
+        for (const row of postTotals) {
+            postsByType[row._id] = row.count;
+        }
+
+        res.status(200).json({
+            success: true,
+            data: {
+                range: { from, to, bucket },
+                totals: {
+                    users: totalUsers,
+                    posts: postTotals.reduce((sum, row) => sum + row.count, 0),
+                    postsByType,
+                    comments: totalComments,
+                    likes: postTotals.reduce((sum, row) => sum + row.likes, 0),
+                },
+                series,
+                // Measured from session activity, so always the last 24 hours and 7 days
+                activeUsers: {
+                    daily: dailyActive,
+                    weekly: weeklyActive,
+                },
+                verification: {
+                    verified: verifiedUsers,
+                    total: totalUsers,
+                    rate: totalUsers > 0 ? verifiedUsers / totalUsers : 0,
+                },
+                topTags: topTags.map(row => ({ tag: row._id, count: row.count })),
+                topPosts: topPosts.map(post => ({
+                    id: post._id,
+                    title: post.title,
+                    type: post.type,
+                    likes: post.likes ?? 0,
+                    comments: post.commentCount ?? 0,
+                    isHidden: Boolean(post.hiddenAt),
+                    author: post.author
+                        ? { id: post.author._id, name: post.author.name, avatar: avatarUrl(post.author) }
+                        : null,
+                })),
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,785 @@
+import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import Team, { ITeam, IJoinRequest } from '../models/Team';
+import Post, { IHackathonPost, VISIBLE_POSTS, teamMaxSize } from '../models/Post';
+import User, { IUser } from '../models/User';
+import { notify } from '../services/notifications';
+import { avatarUrl } from '../utils/profile';
+
+// Hackathon dates are calendar days; teams can form until the last one ends
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type TeamUser = Pick<IUser, '_id' | 'name' | 'avatar'>;
+
+const loadUsers = async (ids: mongoose.Types.ObjectId[]) => {
+    if (ids.length === 0) return new Map<string, TeamUser>();
+    const users = await User.find({ _id: { $in: ids } }).select('name avatar');
+    return new Map<string, TeamUser>(users.map(user => [user._id.toString(), user]));
+};
+
+const serializeUser = (id: mongoose.Types.ObjectId, users: Map<string, TeamUser>) => {
+    const user = users.get(id.toString());
+    return user ? { id: user._id, name: user.name, avatar: avatarUrl(user) } : null;
+};
+
+const serializeTeam = (team: ITeam, users: Map<string, TeamUser>) => ({
+    id: team._id,
+    post: team.post,
+    name: team.name,
+    description: team.description,
+    lead: team.lead,
+    members: team.members.map(member => ({
+        user: serializeUser(member.user, users),
+        role: member.role,
+        isLead: member.user.equals(team.lead),
+        joinedAt: member.joinedAt,
+    })),
+    maxSize: team.maxSize,
+    spotsLeft: Math.max(0, team.maxSize - team.members.length),
+    openRoles: team.openRoles,
+    // SECURITY: Only the count is public; who asked is for the lead to see
+    pendingRequests: team.joinRequests.filter(request => request.status === 'pending').length,
+    createdAt: team.createdAt,
+});
+
+const serializeRequest = (request: IJoinRequest, users: Map<string, TeamUser>) => ({
+    id: request._id,
+    user: serializeUser(request.user, users),
+    role: request.role,
+    message: request.message,
+    status: request.status,
+    createdAt: request.createdAt,
+});
+
+const teamUserIds = (teams: ITeam[]) => teams.flatMap(team => team.members.map(member => member.user));
+
+const isLead = (team: ITeam, user: IUser): boolean => team.lead.equals(user._id);
+
+const isMember = (team: ITeam, userId: mongoose.Types.ObjectId): boolean =>
+    team.members.some(member => member.user.equals(userId));
+
+// The unique index on members.user rejects a second team for the same hackathon
+const isDuplicateMember = (error: unknown): boolean => (error as { code?: number }).code === 11000;
+
+const hasEnded = (post: IHackathonPost): boolean =>
+    Boolean(post.endDate && post.endDate.getTime() + DAY_MS < Date.now());
+
+// One team per hackathon: once a student is on a team, their other requests no longer apply
+const withdrawPendingRequests = (post: mongoose.Types.ObjectId, user: mongoose.Types.ObjectId) =>
+    Team.updateMany(
+        { post },
+        { $set: { 'joinRequests.$[request].status': 'withdrawn', 'joinRequests.$[request].decidedAt': new Date() } },
+        { arrayFilters: [{ 'request.user': user, 'request.status': 'pending' }] }
+    );
+
+// Trashed and hidden posts are left out
+const findHackathon = async (postId: string | mongoose.Types.ObjectId) => {
+    const post = await Post.findOne({ _id: postId, ...VISIBLE_POSTS }).select('author type title startDate endDate teamSize');
+    return post as IHackathonPost | null;
+};
+
+// @desc    Teams forming for a hackathon, oldest first
+// @route   GET /api/v1/posts/:id/teams
+// @access  Public
+export const getPostTeams = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const post = await findHackathon(req.params.id);
+
+        if (!post) {
+            res.status(404).json({
+                success: false,
+                error: 'Post not found',
+            });
+            return;
+        }
+
+        if (post.type !== 'hackathon') {
+            res.status(400).json({
+                success: false,
+                error: 'Only hackathons have teams',
+            });
+            return;
+        }
+
+        const teams = await Team.find({ post: post._id }).sort({ createdAt: 1, _id: 1 });
+        const users = await loadUsers(teamUserIds(teams));
+
+        res.status(200).json({
+            success: true,
+            count: teams.length,
+            data: teams.map(team => serializeTeam(team, users)),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    The current user's team and pending join requests for a hackathon
+// @route   GET /api/v1/posts/:id/teams/mine
+// @access  Private
+export const getMyTeamStatus = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const userId = req.user._id;
+        const [team, requested] = await Promise.all([
+            Team.findOne({ post: req.params.id, 'members.user': userId }).select('_id'),
+            Team.find({
+                post: req.params.id,
+                joinRequests: { $elemMatch: { user: userId, status: 'pending' } },
+            }).select('joinRequests'),
+        ]);
+
+        const requests = requested.flatMap(candidate => candidate.joinRequests
+            .filter(request => request.user.equals(userId) && request.status === 'pending')
+            .map(request => ({ team: candidate._id, id: request._id, role: request.role, createdAt: request.createdAt })));
+
+        res.status(200).json({
+            success: true,
+            data: {
+                team: team ? team._id : null,
+                requests,
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Start a team for a hackathon, led by the current user
+// @route   POST /api/v1/posts/:id/teams
+// @access  Private
+export const createTeam = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const post = await findHackathon(req.params.id);
+
+        if (!post) {
+            res.status(404).json({
+                success: false,
+                error: 'Post not found',
+            });
+            return;
+        }
+
+        if (post.type !== 'hackathon') {
+            res.status(400).json({
+                success: false,
+                error: 'Only hackathons have teams',
+            });
+            return;
+        }
+
+        if (hasEnded(post)) {
+            res.status(400).json({
+                success: false,
+                error: 'This hackathon has ended',
+            });
+            return;
+        }
+
+        // A student competes with one team per hackathon
+        if (await Team.exists({ post: post._id, 'members.user': req.user._id })) {
+            res.status(409).json({
+                success: false,
+                error: 'You are already on a team for this hackathon',
+            });
+            return;
+        }
+
+        const { name, description, role, openRoles = [] } = req.body;
+        const maxSize = teamMaxSize(post);
+
+        if (openRoles.length > maxSize - 1) {
+            res.status(400).json({
+                success: false,
+                error: `A team of ${maxSize} has room for at most ${maxSize - 1} open roles`,
+            });
+            return;
+        }
+
+        let team: ITeam;
+        try {
+            team = await Team.create({
+                post: post._id,
+                name,
+                description,
+                lead: req.user._id,
+                members: [{ user: req.user._id, role }],
+                maxSize,
+                openRoles,
+            });
+        } catch (error) {
+            if (!isDuplicateMember(error)) throw error;
+            res.status(409).json({
+                success: false,
+                error: 'You are already on a team for this hackathon',
+            });
+            return;
+        }
+
+        // The post may have stopped being a hackathon while this was saved
+        if (!await Post.exists({ _id: post._id, type: 'hackathon' })) {
+            await team.deleteOne();
+            res.status(400).json({
+                success: false,
+                error: 'Only hackathons have teams',
+            });
+            return;
+        }
+
+        await withdrawPendingRequests(post._id, req.user._id);
+
+        const users = await loadUsers([req.user._id]);
+
+        res.status(201).json({
+            success: true,
+            data: serializeTeam(team, users),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Rename a team or change its open roles
+// @route   PATCH /api/v1/teams/:id
+// @access  Private (Team lead)
+export const updateTeam = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const team = await Team.findById(req.params.id);
+
+        if (!team) {
+            res.status(404).json({
+                success: false,
+                error: 'Team not found',
+            });
+            return;
+        }
+
+        if (!isLead(team, req.user)) {
+            res.status(403).json({
+                success: false,
+                error: 'Only the team lead can edit the team',
+            });
+            return;
+        }
+
+        const { name, description, openRoles } = req.body;
+        const spotsLeft = team.maxSize - team.members.length;
+
+        if (openRoles !== undefined && openRoles.length > spotsLeft) {
+            res.status(400).json({
+                success: false,
+                error: `The team has room for ${spotsLeft} more ${spotsLeft === 1 ? 'member' : 'members'}`,
+            });
+            return;
+        }
+
+        if (name !== undefined) team.name = name;
+        if (description !== undefined) team.description = description;
+        if (openRoles !== undefined) team.openRoles = openRoles;
+        await team.save();
+
+        const users = await loadUsers(teamUserIds([team]));
+
+        res.status(200).json({
+            success: true,
+            data: serializeTeam(team, users),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Disband a team
+// @route   DELETE /api/v1/teams/:id
+// @access  Private (Team lead or Admin)
+export const deleteTeam = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const team = await Team.findById(req.params.id);
+
+        if (!team) {
+            res.status(404).json({
+                success: false,
+                error: 'Team not found',
+            });
+            return;
+        }
+
+        if (!isLead(team, req.user) && req.user.role !== 'admin') {
+            res.status(403).json({
+                success: false,
+                error: 'Only the team lead can disband the team',
+            });
+            return;
+        }
+
+        await team.deleteOne();
+
+        res.status(200).json({
+            success: true,
+            data: {},
+            message: 'Team disbanded',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Ask to join a team, optionally for one of its open roles
+// @route   POST /api/v1/teams/:id/requests
+// @access  Private
+export const requestToJoin = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const team = await Team.findById(req.params.id);
+
+        if (!team) {
+            res.status(404).json({
+                success: false,
+                error: 'Team not found',
+            });
+            return;
+        }
+
+        const post = await findHackathon(team.post);
+
+        if (!post || post.type !== 'hackathon') {
+            res.status(404).json({
+                success: false,
+                error: 'Hackathon not found',
+            });
+            return;
+        }
+
+        if (hasEnded(post)) {
+            res.status(400).json({
+                success: false,
+                error: 'This hackathon has ended',
+            });
+            return;
+        }
+
+        const userId = req.user._id;
+
+        if (await Team.exists({ post: team.post, 'members.user': userId })) {
+            res.status(409).json({
+                success: false,
+                error: 'You are already on a team for this hackathon',
+            });
+            return;
+        }
+
+        if (team.joinRequests.some(request => request.user.equals(userId) && request.status === 'pending')) {
+            res.status(409).json({
+                success: false,
+                error: 'You have already asked to join this team',
+            });
+            return;
+        }
+
+        if (team.members.length >= team.maxSize) {
+            res.status(400).json({
+                success: false,
+                error: 'This team is full',
+            });
+            return;
+        }
+
+        const { role, message } = req.body;
+
+        if (role !== undefined && !team.openRoles.includes(role)) {
+            res.status(400).json({
+                success: false,
+                error: 'That role is not open on this team',
+            });
+            return;
+        }
+
+        const request = {
+            _id: new mongoose.Types.ObjectId(),
+            user: userId,
+            role,
+            message,
+            status: 'pending' as const,
+            createdAt: new Date(),
+        };
+        team.joinRequests.push(request);
+        await team.save();
+
+        void notify({ recipient: team.lead, actor: userId, type: 'team-request', post: team.post });
+
+        const users = await loadUsers([userId]);
+
+        res.status(201).json({
+            success: true,
+            data: serializeRequest(request, users),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Withdraw the current user's pending request to join a team
+// @route   DELETE /api/v1/teams/:id/requests/mine
+// @access  Private
+export const withdrawJoinRequest = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const userId = req.user._id;
+        const result = await Team.updateOne(
+            { _id: req.params.id },
+            { $set: { 'joinRequests.$[request].status': 'withdrawn', 'joinRequests.$[request].decidedAt': new Date() } },
+            { arrayFilters: [{ 'request.user': userId, 'request.status': 'pending' }] }
+        );
+
+        if (result.modifiedCount === 0) {
+            res.status(404).json({
+                success: false,
+                error: 'Join request not found',
+            });
+            return;
+        }
+
+        res.status(200).json({
+            success: true,
+            data: {},
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Pending requests to join a team
+// @route   GET /api/v1/teams/:id/requests
+// @access  Private (Team lead)
+export const getJoinRequests = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const team = await Team.findById(req.params.id);
+
+        if (!team) {
+            res.status(404).json({
+                success: false,
+                error: 'Team not found',
+            });
+            return;
+        }
+
+        if (!isLead(team, req.user)) {
+            res.status(403).json({
+                success: false,
+                error: 'Only the team lead can review join requests',
+            });
+            return;
+        }
+
+        const pending = team.joinRequests.filter(request => request.status === 'pending');
+        const users = await loadUsers(pending.map(request => request.user));
+
+        res.status(200).json({
+            success: true,
+            count: pending.length,
+            data: pending.map(request => serializeRequest(request, users)),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Approve or decline a join request
+// @route   PATCH /api/v1/teams/:id/requests/:requestId
+// @access  Private (Team lead)
+export const decideJoinRequest = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        let team: ITeam | null = await Team.findById(req.params.id);
+
+        if (!team) {
+            res.status(404).json({
+                success: false,
+                error: 'Team not found',
+            });
+            return;
+        }
+
+        if (!isLead(team, req.user)) {
+            res.status(403).json({
+                success: false,
+                error: 'Only the team lead can review join requests',
+            });
+            return;
+        }
+
+        const post = await findHackathon(team.post);
+
+        if (!post || post.type !== 'hackathon') {
+            res.status(404).json({
+                success: false,
+                error: 'Hackathon not found',
+            });
+            return;
+        }
+
+        if (hasEnded(post)) {
+            res.status(400).json({
+                success: false,
+                error: 'This hackathon has ended',
+            });
+            return;
+        }
+
+        const request = team.joinRequests.find(candidate => candidate._id.equals(req.params.requestId));
+
+        if (!request || request.status !== 'pending') {
+            res.status(404).json({
+                success: false,
+                error: 'Join request not found',
+            });
+            return;
+        }
+
+        const status = req.body.status as 'approved' | 'declined';
+
+        if (status === 'approved') {
+            if (team.members.length >= team.maxSize) {
+                res.status(400).json({
+                    success: false,
+                    error: 'This team is full',
+                });
+                return;
+            }
+
+            // They may have joined another team since asking
+            if (isMember(team, request.user) || await Team.exists({ post: team.post, 'members.user': request.user })) {
+                res.status(409).json({
+                    success: false,
+                    error: 'This student is already on a team for this hackathon',
+                });
+                return;
+            }
+
+            // The slot they asked for is filled; a role closed since then is ignored
+            const slot = request.role ? team.openRoles.indexOf(request.role) : -1;
+            const openRoles = team.openRoles.filter((_, index) => index !== slot);
+
+            // Only while the team still has room, the request is still pending and
+            // (when a slot is filled) the open roles are as read above
+            let approved: ITeam | null;
+            try {
+                approved = await Team.findOneAndUpdate(
+                    {
+                        _id: team._id,
+                        $expr: { $lt: [{ $size: '$members' }, '$maxSize'] },
+                        joinRequests: { $elemMatch: { _id: request._id, status: 'pending' } },
+                        ...(slot !== -1 && { openRoles: team.openRoles }),
+                    },
+                    {
+                        $push: { members: { user: request.user, role: slot !== -1 ? request.role : undefined, joinedAt: new Date() } },
+                        $set: {
+                            openRoles,
+                            'joinRequests.$[request].status': 'approved',
+                            'joinRequests.$[request].decidedAt': new Date(),
+                        },
+                    },
+                    { new: true, arrayFilters: [{ 'request._id': request._id }] }
+                );
+            } catch (error) {
+                if (!isDuplicateMember(error)) throw error;
+                res.status(409).json({
+                    success: false,
+                    error: 'This student is already on a team for this hackathon',
+                });
+                return;
+            }
+
+            if (!approved) {
+                res.status(409).json({
+                    success: false,
+                    error: 'The team changed while you were deciding; reload it and try again',
+                });
+                return;
+            }
+
+            await withdrawPendingRequests(team.post, request.user);
+            team = approved;
+        } else {
+            request.status = status;
+            request.decidedAt = new Date();
+            await team.save();
+        }
+
+        void notify({ recipient: request.user, actor: req.user._id, type: 'team-update', post: team.post });
+
+        const users = await loadUsers(teamUserIds([team]));
+
+        res.status(200).json({
+            success: true,
+            data: serializeTeam(team, users),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Leave a team, or remove a member from it
+// @route   DELETE /api/v1/teams/:id/members/:userId
+// @access  Private (The member themselves, the team lead or an Admin)
+export const removeTeamMember = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const team = await Team.findById(req.params.id);
+
+        if (!team) {
+            res.status(404).json({
+                success: false,
+                error: 'Team not found',
+            });
+            return;
+        }
+
+        const isSelf = req.user._id.equals(req.params.userId);
+
+        if (!isSelf && !isLead(team, req.user) && req.user.role !== 'admin') {
+            res.status(403).json({
+                success: false,
+                error: 'Not authorized to remove this member',
+            });
+            return;
+        }
+
+        if (team.lead.equals(req.params.userId)) {
+            res.status(400).json({
+                success: false,
+                error: 'The team lead cannot leave; disband the team instead',
+            });
+            return;
+        }
+
+        const index = team.members.findIndex(member => member.user.equals(req.params.userId));
+
+        if (index === -1) {
+            res.status(404).json({
+                success: false,
+                error: 'Member not found',
+            });
+            return;
+        }
+
+        team.members.splice(index, 1);
+        await team.save();
+
+        const users = await loadUsers(teamUserIds([team]));
+
+        res.status(200).json({
+            success: true,
+            data: serializeTeam(team, users),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
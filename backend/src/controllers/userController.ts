@@ -13,7 +13,18 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
-import User from '../models/User';
+import mongoose, { FilterQuery } from 'mongoose';
+import User, { IUser, PROFILE_LINK_KEYS } from '../models/User';
+import Post, { PostType } from '../models/Post';
+import Comment, { IComment } from '../models/Comment';
+import Session from '../models/Session';
+import Follow from '../models/Follow';
+import { revokeUserSessions } from '../utils/session';
+import { encodeCursor, decodeCursor, cursorFilter, parseLimit } from '../utils/pagination';
+import { avatarUrl, profileFields } from '../utils/profile';
+import { escapeRegex } from '../utils/search';
+import { markdownSource } from '../utils/markdown';
+import { storeAvatar, deleteAvatar, InvalidImageError, DEFAULT_AVATAR_SIZE } from '../services/avatars';
 
 // @desc    Update current user profile
 // @route   PUT /api/v1/users/me
@@ -33,23 +44,58 @@ export const updateMe = async (
             return;
         }
 
-        const { name, bio } = req.body;
+        const { name, bio, skills, university, major, graduationYear, links, availability } = req.body;
 
         // SECURITY: Build update object with only allowed fields
         // This prevents mass assignment attacks even if validation is bypassed
-        const updateData: { name?: string; bio?: string } = {};
+        const updateData: Record<string, unknown> = {};
+        // Optional fields sent empty are removed rather than stored blank
+        const unsetData: Record<string, ''> = {};
+
         if (name !== undefined) {
             updateData.name = name.trim();
         }
         if (bio !== undefined) {
             updateData.bio = bio.trim();
         }
+        if (skills !== undefined) {
+            // Case-insensitive de-duplication, keeping the first spelling
+            const seen = new Set<string>();
+            updateData.skills = (skills as string[]).filter(skill => {
+                const key = skill.toLowerCase();
+                if (seen.has(key)) return false;
+                seen.add(key);
+                return true;
+            });
+        }
+        for (const [field, value] of Object.entries({ university, major, graduationYear, availability })) {
+            if (value === undefined) continue;
+            if (value === '' || value === null) {
+                unsetData[field] = '';
+            } else {
+                updateData[field] = value;
+            }
+        }
+        if (links !== undefined) {
+            for (const key of PROFILE_LINK_KEYS) {
+                const value = links[key];
+                if (value === undefined) continue;
+                if (value) {
+                    updateData[`links.${key}`] = value;
+                } else {
+                    unsetData[`links.${key}`] = '';
+                }
+            }
+        }
 
         // SECURITY: Update only the authenticated user's document
         // Using req.user._id ensures users cannot modify other users' data
         const user = await User.findByIdAndUpdate(
             req.user._id,
-            updateData,
+            {
+                $set: updateData,
+                ...(Object.keys(unsetData).length > 0 && { $unset: unsetData }),
+            },
             { new: true, runValidators: true }
         );
 
@@ -69,7 +115,8 @@ export const updateMe = async (
                 email: user.email,
                 role: user.role,
                 bio: user.bio,
-                avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${user.name}`,
+                ...profileFields(user),
+                avatar: avatarUrl(user),
                 isEmailVerified: user.isEmailVerified,
                 createdAt: user.createdAt,
             },
@@ -79,6 +126,474 @@ export const updateMe = async (
     }
 };
 
+// @desc    Upload a new avatar for the current user
+// @route   POST /api/v1/users/me/avatar
+// @access  Private
+// SECURITY: Contents verified by decoding; only re-encoded images are stored
+export const uploadAvatar = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        if (!req.file) {
+            res.status(400).json({
+                success: false,
+                error: 'Please choose a JPEG, PNG, WebP or GIF image',
+            });
+            return;
+        }
+
+        const userId = req.user._id;
+        const { keyPrefix, urls } = await storeAvatar(userId.toString(), req.file.buffer);
+
+        const previous = await User.findByIdAndUpdate(
+            userId,
+            { avatar: urls[DEFAULT_AVATAR_SIZE], avatarKey: keyPrefix }
+        ).select('+avatarKey');
+
+        if (previous?.avatarKey) {
+            void deleteAvatar(previous.avatarKey);
+        }
+
+        res.status(200).json({
+            success: true,
+            data: {
+                avatar: urls[DEFAULT_AVATAR_SIZE],
+                sizes: urls,
+            },
+        });
+    } catch (error) {
+        if (error instanceof InvalidImageError) {
+            res.status(400).json({
+                success: false,
+                error: error.message,
+            });
+            return;
+        }
+        next(error);
+    }
+};
+
+// @desc    Remove the current user's avatar
+// @route   DELETE /api/v1/users/me/avatar
+// @access  Private
+export const removeAvatar = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const previous = await User.findByIdAndUpdate(
+            req.user._id,
+            { $unset: { avatar: '', avatarKey: '' } }
+        ).select('name +avatarKey');
+
+        if (previous?.avatarKey) {
+            void deleteAvatar(previous.avatarKey);
+        }
+
+        res.status(200).json({
+            success: true,
+            data: {
+                avatar: avatarUrl({ name: previous?.name ?? req.user.name }),
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    List active sessions of the current user
+// @route   GET /api/v1/users/me/sessions
+// @access  Private
+// SECURITY: Only the user's own sessions; token hashes are never selected
+export const getMySessions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const sessions = await Session.find({
+            user: req.user._id,
+            revokedAt: { $exists: false },
+            expiresAt: { $gt: new Date() },
+        }).sort({ lastUsedAt: -1 });
+
+        const formattedSessions = sessions.map((session) => ({
+            id: session._id,
+            device: session.device,
+            userAgent: session.userAgent,
+            ip: session.ip,
+            location: session.location,
+            lastUsedAt: session.lastUsedAt,
+            createdAt: session.createdAt,
+            current: session._id.toString() === req.sessionId,
+        }));
+
+        res.status(200).json({
+            success: true,
+            count: formattedSessions.length,
+            data: formattedSessions,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Revoke one of the current user's sessions
+// @route   DELETE /api/v1/users/me/sessions/:id
+// @access  Private
+// SECURITY: Scoped to req.user so users cannot revoke other users' sessions
+export const revokeMySession = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const session = await Session.findOneAndUpdate(
+            { _id: req.params.id, user: req.user._id, revokedAt: { $exists: false } },
+            { revokedAt: new Date() }
+        );
+
+        if (!session) {
+            res.status(404).json({
+                success: false,
+                error: 'Session not found',
+            });
+            return;
+        }
+
+        res.status(200).json({
+            success: true,
+            data: {},
+            message: 'Session revoked',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Revoke every session except the current one ("sign out everywhere else")
+// @route   DELETE /api/v1/users/me/sessions
+// @access  Private
+export const revokeOtherSessions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const revoked = await revokeUserSessions(req.user._id.toString(), req.sessionId);
+
+        res.status(200).json({
+            success: true,
+            data: { revoked },
+            message: 'Signed out of all other sessions',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Get a user's public profile with post, like and follow totals
+// @route   GET /api/v1/users/:id
+// @access  Private
+// SECURITY: Email is only included when users view their own profile
+export const getUserProfile = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const user = await User.findById(req.params.id)
+            .select('name email role bio avatar skills university major graduationYear links availability createdAt');
+
+        if (!user) {
+            res.status(404).json({
+                success: false,
+                error: 'User not found',
+            });
+            return;
+        }
+
+        const [postTotals, commentCount, followers, following, isFollowing] = await Promise.all([
+            Post.aggregate<{ _id: PostType; count: number; likes: number }>([
+                { $match: { author: user._id } },
+                { $group: { _id: '$type', count: { $sum: 1 }, likes: { $sum: '$likes' } } },
+            ]),
+            Comment.countDocuments({ user: user._id, deletedAt: null }),
+            Follow.countDocuments({ followee: user._id }),
+            Follow.countDocuments({ follower: user._id, followee: { $exists: true } }),
+            Follow.exists({ follower: req.user._id, followee: user._id }),
+        ]);
+
+        const postsByType: Record<PostType, number> = { project: 0, hackathon: 0, internship: 0 };
+        postTotals.forEach(total => {
+            postsByType[total._id] = total.count;
+        });
+
+        const isSelf = user._id.equals(req.user._id);
+
+        res.status(200).json({
+            success: true,
+            data: {
+                id: user._id,
+                name: user.name,
+                ...(isSelf && { email: user.email }),
+                role: user.role,
+                bio: user.bio,
+                ...profileFields(user),
+                avatar: avatarUrl(user),
+                createdAt: user.createdAt,
+                ...(!isSelf && { isFollowing: Boolean(isFollowing) }),
+                stats: {
+                    posts: postTotals.reduce((sum, total) => sum + total.count, 0),
+                    postsByType,
+                    likesReceived: postTotals.reduce((sum, total) => sum + total.likes, 0),
+                    comments: commentCount,
+                    followers,
+                    following,
+                },
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Get a user's recent comments, newest first
+// @route   GET /api/v1/users/:id/comments?cursor=&limit=
+// @access  Private
+// SECURITY: Deleted and hidden comments are never listed
+export const getUserComments = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const { cursor } = req.query;
+        const limit = parseLimit(req.query.limit);
+        const filter: FilterQuery<IComment> = {
+            user: new mongoose.Types.ObjectId(req.params.id),
+            deletedAt: null,
+            hiddenAt: null,
+        };
+
+        if (cursor) {
+            const decoded = decodeCursor(cursor as string);
+            if (!decoded) {
+                res.status(400).json({
+                    success: false,
+                    error: 'Invalid cursor',
+                });
+                return;
+            }
+            Object.assign(filter, cursorFilter(decoded));
+        }
+
+        const comments = await Comment.find(filter)
+            .sort({ createdAt: -1, _id: -1 })
+            .limit(limit + 1);
+
+        const hasMore = comments.length > limit;
+        const page = hasMore ? comments.slice(0, limit) : comments;
+        const last = page[page.length - 1];
+
+        const posts = await Post.find({ _id: { $in: page.map(comment => comment.post) } }).select('title type');
+        const postsById = new Map(posts.map(post => [post._id.toString(), post]));
+
+        const data = page.flatMap(comment => {
+            const post = postsById.get(comment.post.toString());
+            return post
+                ? [{
+                    _id: comment._id,
+                    text: markdownSource(comment.text, comment.isMarkdown),
+                    parentId: comment.parentId,
+                    post: { id: post._id, title: post.title, type: post.type },
+                    createdAt: comment.createdAt,
+                }]
+                : [];
+        });
+
+        res.status(200).json({
+            success: true,
+            count: data.length,
+            data,
+            nextCursor: hasMore && last ? encodeCursor(last.createdAt, last._id) : null,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    List users the current user has blocked
+// @route   GET /api/v1/users/me/blocked
+// @access  Private
+export const getBlockedUsers = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        const users = await User.find({ _id: { $in: req.user.blockedUsers } })
+            .select('name avatar')
+            .sort({ name: 1 });
+
+        const formattedUsers = users.map((user) => ({
+            id: user._id,
+            name: user.name,
+            avatar: avatarUrl(user),
+        }));
+
+        res.status(200).json({
+            success: true,
+            count: formattedUsers.length,
+            data: formattedUsers,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Block a user from direct messaging the current user
+// @route   POST /api/v1/users/:id/block
+// @access  Private
+export const blockUser = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        if (req.user._id.toString() === req.params.id) {
+            res.status(400).json({
+                success: false,
+                error: 'You cannot block yourself',
+            });
+            return;
+        }
+
+        const target = await User.exists({ _id: req.params.id });
+        if (!target) {
+            res.status(404).json({
+                success: false,
+                error: 'User not found',
+            });
+            return;
+        }
+
+        await User.updateOne({ _id: req.user._id }, { $addToSet: { blockedUsers: target._id } });
+
+        res.status(200).json({
+            success: true,
+            data: {},
+            message: 'User blocked',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+// @desc    Unblock a user
+// @route   DELETE /api/v1/users/:id/block
+// @access  Private
+export const unblockUser = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        if (!req.user) {
+            res.status(401).json({
+                success: false,
+                error: 'Not authenticated',
+            });
+            return;
+        }
+
+        await User.updateOne({ _id: req.user._id }, { $pull: { blockedUsers: req.params.id } });
+
+        res.status(200).json({
+            success: true,
+            data: {},
+            message: 'User unblocked',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
 // @desc    Search users
 // @route   GET /api/v1/users?search=
 // @access  Private
@@ -97,27 +612,42 @@ export const searchUsers = async (
             return;
         }
 
-        const { search } = req.query;
+        const { search, skills, university, graduationYear, availability } = req.query;
 
         // Build query
-        let query = {};
+        const query: FilterQuery<IUser> = {};
         if (search && typeof search === 'string' && search.trim()) {
             // SECURITY: The search term is already sanitized by the validation middleware
             // which escapes regex special characters to prevent ReDoS attacks
             // and limits the query length to prevent DoS
             const searchRegex = new RegExp(search.trim(), 'i');
-            query = {
-                $or: [
-                    { name: searchRegex },
-                    { email: searchRegex },
-                ],
-            };
+            query.$or = [
+                { name: searchRegex },
+                { email: searchRegex },
+            ];
+        }
+
+        // Profile filters - every listed skill must match (case-insensitive)
+        if (typeof skills === 'string' && skills.trim()) {
+            const skillList = skills.split(',').map(skill => skill.trim()).filter(Boolean).slice(0, 10);
+            if (skillList.length > 0) {
+                query.skills = { $all: skillList.map(skill => new RegExp(`^${escapeRegex(skill)}$`, 'i')) };
+            }
+        }
+        if (typeof university === 'string' && university.trim()) {
+            query.university = new RegExp(escapeRegex(university.trim()), 'i');
+        }
+        if (graduationYear) {
+            query.graduationYear = parseInt(graduationYear as string, 10);
+        }
+        if (availability) {
+            query.availability = availability as string;
         }
 
         // SECURITY: Only return non-sensitive fields
         // Password, tokens, and other sensitive data are excluded
         const users = await User.find(query)
-            .select('name email role bio createdAt')
+            .select('name email role bio avatar skills university major graduationYear links availability createdAt')
             .limit(20) // SECURITY: Limit results to prevent data scraping
             .sort({ name: 1 });
 
@@ -127,7 +657,8 @@ export const searchUsers = async (
             email: user.email,
             role: user.role,
             bio: user.bio,
-            avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${user.name}`,
+            ...profileFields(user),
+            avatar: avatarUrl(user),
             createdAt: user.createdAt,
         }));
 
@@ -4,6 +4,7 @@
  * SECURITY OVERVIEW:
  * - JWT token verification for protected routes
  * - User lookup to ensure account still exists
+ * - Suspended and banned accounts are turned away
  * - Role-based access control for admin endpoints
  * - Generic error messages to prevent information disclosure
  * 
@@ -14,17 +15,107 @@
 
 import { Request, Response, NextFunction } from 'express';
 import User, { IUser } from '../models/User';
+import Session, { ISession } from '../models/Session';
 import { verifyToken } from '../utils/jwt';
 
-// Extend Request to include user
+// Error code the frontend uses to prompt for email verification
+export const EMAIL_NOT_VERIFIED = 'EMAIL_NOT_VERIFIED';
+
+// Error codes the frontend uses to sign out a suspended or banned account
+export const ACCOUNT_SUSPENDED = 'ACCOUNT_SUSPENDED';
+export const ACCOUNT_BANNED = 'ACCOUNT_BANNED';
+
+// Only persist lastUsedAt when it is older than this, to avoid a write per request
+const LAST_USED_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+// Extend Request to include user and the session the access token belongs to
 declare global {
     namespace Express {
         interface Request {
             user?: IUser;
+            sessionId?: string;
         }
     }
 }
 
+// ============================================================
+// Access Token Verification
+// ============================================================
+
+export interface AuthenticatedToken {
+    user: IUser;
+    session: ISession;
+}
+
+/**
+ * SECURITY: Resolves an access token to its user and live session.
+ * Shared by 'protect' and the realtime channel so both accept exactly the
+ * same tokens. Returns null when the token is invalid, its session has been
+ * revoked or expired, or the user no longer exists.
+ */
+export const authenticateAccessToken = async (token: string): Promise<AuthenticatedToken | null> => {
+    let decoded: ReturnType<typeof verifyToken>;
+    try {
+        // SECURITY: Verify token signature and expiration
+        // This throws if token is invalid, expired, or tampered with
+        decoded = verifyToken(token);
+    } catch {
+        return null;
+    }
+
+    // SECURITY: Server-side revocation - access tokens die with their session
+    const session = decoded.sessionId ? await Session.findById(decoded.sessionId) : null;
+    if (!session || !session.isActive() || session.user.toString() !== decoded.userId) {
+        return null;
+    }
+
+    // SECURITY: Look up user to ensure account still exists
+    // This handles cases where user was deleted after token was issued
+    const user = await User.findById(decoded.userId);
+    if (!user) {
+        return null;
+    }
+
+    return { user, session };
+};
+
+// ============================================================
+// Account Restrictions
+// ============================================================
+
+export interface AccountRestriction {
+    error: string;
+    code: typeof ACCOUNT_SUSPENDED | typeof ACCOUNT_BANNED;
+    suspendedUntil?: Date;
+    reason?: string;
+}
+
+/**
+ * SECURITY: Why an admin has locked this account out, or null when it may
+ * sign in. Checked on login, token refresh, every protected request and the
+ * realtime channel. A suspension lapses on its own once suspendedUntil passes.
+ */
+export const accountRestriction = (user: IUser): AccountRestriction | null => {
+    if (user.bannedAt) {
+        return {
+            error: 'This account has been banned',
+            code: ACCOUNT_BANNED,
+            reason: user.restrictionReason,
+        };
+    }
+
+    if (user.suspendedUntil && user.suspendedUntil.getTime() > Date.now()) {
+        return {
+            error: `This account is suspended until ${user.suspendedUntil.toISOString()}`,
+            code: ACCOUNT_SUSPENDED,
+            suspendedUntil: user.suspendedUntil,
+            reason: user.restrictionReason,
+        };
+    }
+
+    return null;
+};
+
 // ============================================================
 // JWT Authentication Middleware
 // ============================================================
@@ -35,8 +126,10 @@ declare global {
  * Flow:
  * 1. Extract token from Authorization header (Bearer scheme)
  * 2. Verify token signature and expiration
- * 3. Look up user in database to ensure they still exist
- * 4. Attach user to request for downstream handlers
+ * 3. Check the token's session has not been revoked (logout, logout-all)
+ * 4. Look up user in database to ensure they still exist
+ * 5. Reject suspended and banned accounts with their specific error
+ * 6. Attach user and session ID to request for downstream handlers
  */
 export const protect = async (
     req: Request,
@@ -64,36 +157,39 @@ export const protect = async (
             return;
         }
 
-        try {
-            // SECURITY: Verify token signature and expiration
-            // This throws if token is invalid, expired, or tampered with
-            const decoded = verifyToken(token);
-
-            // SECURITY: Look up user to ensure account still exists
-            // This handles cases where user was deleted after token was issued
-            const user = await User.findById(decoded.userId);
-
-            if (!user) {
-                // SECURITY: Generic message prevents user enumeration
-                res.status(401).json({
-                    success: false,
-                    error: 'User not found',
-                });
-                return;
-            }
-
-            // Attach user to request for use in route handlers
-            req.user = user;
-            next();
-        } catch (error) {
-            // SECURITY: Generic error for any token verification failure
-            // Don't reveal whether token was expired, invalid, or malformed
+        const authenticated = await authenticateAccessToken(token);
+
+        // SECURITY: Generic error for any token verification failure
+        // Don't reveal whether token was expired, revoked, or malformed
+        if (!authenticated) {
             res.status(401).json({
                 success: false,
                 error: 'Not authorized to access this route',
             });
             return;
         }
+
+        const { user, session } = authenticated;
+
+        // SECURITY: Access tokens issued before a suspension or ban stop working at once
+        const restriction = accountRestriction(user);
+        if (restriction) {
+            res.status(403).json({
+                success: false,
+                ...restriction,
+            });
+            return;
+        }
+
+        if (Date.now() - session.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+            session.lastUsedAt = new Date();
+            await session.save();
+        }
+
+        // Attach user to request for use in route handlers
+        req.user = user;
+        req.sessionId = session._id.toString();
+        next();
     } catch (error) {
         next(error);
     }
@@ -133,3 +229,42 @@ export const adminOnly = (
     next();
 };
 
+
+// ============================================================
+// Email Verification Gate
+// ============================================================
+
+/**
+ * SECURITY: Blocks unverified accounts from creating content when
+ * REQUIRE_EMAIL_VERIFICATION=true (spam and throwaway-account prevention).
+ * Admins are exempt. Must be used after the 'protect' middleware.
+ */
+export const requireVerifiedEmail = (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): void => {
+    if (process.env.REQUIRE_EMAIL_VERIFICATION !== 'true') {
+        next();
+        return;
+    }
+
+    if (!req.user) {
+        res.status(401).json({
+            success: false,
+            error: 'Not authenticated',
+        });
+        return;
+    }
+
+    if (!req.user.isEmailVerified && req.user.role !== 'admin') {
+        res.status(403).json({
+            success: false,
+            error: 'Please verify your email address to continue',
+            code: EMAIL_NOT_VERIFIED,
+        });
+        return;
+    }
+
+    next();
+};
@@ -115,6 +115,9 @@ export const generalLimiter = rateLimit({
 export const authLimiter = rateLimit({
     ...baseConfig,
     max: MAX_AUTH,
+    // Token refresh and logout carry no credentials to guess and run on every
+    // page load, so they only count toward the general limit
+    skip: (req: Request): boolean => req.path === '/refresh' || req.path === '/logout',
     // SECURITY: Always use IP for auth endpoints since user isn't authenticated yet
     keyGenerator: (req: Request): string => {
         const forwarded = req.headers['x-forwarded-for'];
@@ -168,3 +171,35 @@ export const createLimiter = rateLimit({
         'Too many items created. Please slow down and try again later.'
     ),
 });
+
+/**
+ * Direct message rate limiter
+ * Applied to sending messages - looser than createLimiter since chat is bursty
+ * 
+ * SECURITY: Prevents message flooding
+ * Default: 60 messages per 15 minutes per user
+ */
+export const messageLimiter = rateLimit({
+    ...baseConfig,
+    max: 60,
+    keyGenerator,
+    handler: createRateLimitHandler(
+        'Too many messages sent. Please slow down and try again later.'
+    ),
+});
+
+/**
+ * File upload rate limiter
+ * Applied to post attachment uploads (each file is its own request)
+ * 
+ * SECURITY: Bounds storage and image-processing work per user
+ * Default: 60 uploads per 15 minutes per user
+ */
+export const uploadLimiter = rateLimit({
+    ...baseConfig,
+    max: 60,
+    keyGenerator,
+    handler: createRateLimitHandler(
+        'Too many files uploaded. Please slow down and try again later.'
+    ),
+});
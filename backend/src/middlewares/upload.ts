@@ -0,0 +1,67 @@
+/**
+ * File Upload Middleware
+ *
+ * SECURITY:
+ * - Files are buffered in memory and never touch disk unprocessed
+ * - Size and file-count limits stop oversized bodies while they stream in
+ * - The declared MIME type is at most a first filter; handlers must verify
+ *   the actual contents (see services/avatars and services/attachments)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { ATTACHMENT_MAX_BYTES } from '../services/attachments';
+
+export const AVATAR_MAX_BYTES = 5 * 1024 * 1024; // 5MB
+
+const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+const avatarMulter = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: AVATAR_MAX_BYTES, files: 1, fields: 0 },
+    fileFilter: (req, file, callback) => {
+        callback(null, IMAGE_MIME_TYPES.includes(file.mimetype));
+    },
+}).single('avatar');
+
+// Any declared type is let through; the contents are sniffed after upload
+const attachmentMulter = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: ATTACHMENT_MAX_BYTES, files: 1, fields: 0 },
+}).single('file');
+
+const uploadErrorMessages: Record<string, string> = {
+    LIMIT_FILE_COUNT: 'Only one file can be uploaded',
+    LIMIT_FIELD_COUNT: 'Unexpected form field',
+    LIMIT_UNEXPECTED_FILE: 'Unexpected file field',
+};
+
+// Turns multer's errors into 400 responses in the API's error format
+const handleUpload = (
+    upload: ReturnType<multer.Multer['single']>,
+    maxBytes: number
+) => (req: Request, res: Response, next: NextFunction): void => {
+    upload(req, res, (error: unknown) => {
+        if (error instanceof multer.MulterError) {
+            res.status(400).json({
+                success: false,
+                error: error.code === 'LIMIT_FILE_SIZE'
+                    ? `File must be ${maxBytes / (1024 * 1024)}MB or smaller`
+                    : uploadErrorMessages[error.code] || 'Invalid upload',
+            });
+            return;
+        }
+        next(error);
+    });
+};
+
+/**
+ * Parses a single `avatar` image from a multipart body into req.file.
+ * Files with a non-image type are dropped, so handlers see no file.
+ */
+export const avatarUpload = handleUpload(avatarMulter, AVATAR_MAX_BYTES);
+
+/**
+ * Parses a single post attachment (`file`) from a multipart body into req.file.
+ */
+export const attachmentUpload = handleUpload(attachmentMulter, ATTACHMENT_MAX_BYTES);
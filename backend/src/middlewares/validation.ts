@@ -13,9 +13,41 @@
  * - A07:2021 Input Validation
  */
 
-import { body, param, query, validationResult, ValidationChain } from 'express-validator';
+import { body, param, query, validationResult, ValidationChain, Meta } from 'express-validator';
 import { Request, Response, NextFunction } from 'express';
 import mongoose from 'mongoose';
+import {
+    AVAILABILITY_STATUSES,
+    MAX_SKILLS,
+    PROFILE_LINK_KEYS,
+    USER_ROLES,
+    ACCOUNT_STATUSES,
+    MAX_RESTRICTION_REASON_LENGTH,
+    MAX_SUSPENSION_DAYS,
+} from '../models/User';
+import { MAX_POST_ATTACHMENTS } from '../models/Attachment';
+import { APPLICATION_STAGES, MAX_COVER_NOTE_LENGTH, MAX_APPLICATION_NOTE_LENGTH } from '../models/Application';
+import { MAX_COLLECTION_NAME_LENGTH } from '../models/BookmarkCollection';
+import { REPORT_REASONS, MAX_REPORT_DETAILS_LENGTH } from '../models/Report';
+import { MODERATION_ACTIONS, MAX_MODERATION_NOTE_LENGTH } from '../models/ModerationAction';
+import { AUDIT_ACTIONS } from '../models/AuditLog';
+import { NOTIFICATION_TYPES } from '../models/Notification';
+import {
+    MAX_TEAM_NAME_LENGTH,
+    MAX_TEAM_DESCRIPTION_LENGTH,
+    MAX_TEAM_ROLE_LENGTH,
+    MAX_JOIN_MESSAGE_LENGTH,
+} from '../models/Team';
+import {
+    POST_TYPES,
+    POST_DETAIL_FIELDS,
+    PROJECT_STATUSES,
+    WORK_MODES,
+    STIPEND_PERIODS,
+    MAX_TECH_STACK,
+    MAX_TEAM_SIZE,
+    PostType,
+} from '../models/Post';
 
 // ============================================================
 // Validation Error Handler
@@ -182,18 +214,213 @@ export const loginValidation = [
 // Post Validation Rules
 // ============================================================
 
+// Type-specific post fields (project, hackathon and internship details)
+
+// Runs a chain only when the request carries details for posts of this type
+const forDetailsOf = (type: PostType) =>
+    (_value: unknown, { req }: Meta) =>
+        req.body.type === type && req.body.details !== undefined;
+
+const isHttpUrl = { protocols: ['http', 'https'], require_protocol: true };
+
+/**
+ * SECURITY: Type-aware validation of `details`:
+ * - The post type must be sent alongside so the right fields are checked
+ * - Keys outside the type's fields are rejected
+ * - http(s) URLs only, text fields HTML sanitized, numbers range-checked
+ */
+const postDetailsValidation = [
+    body('details')
+        .optional()
+        .isObject()
+        .withMessage('Details must be an object')
+        .bail()
+        .custom((details: Record<string, unknown>, { req }) => {
+            const type = req.body.type as PostType;
+            if (!POST_TYPES.includes(type)) {
+                throw new Error('Post type is required when sending details');
+            }
+            const unknownKeys = Object.keys(details).filter(key => !POST_DETAIL_FIELDS[type].includes(key));
+            if (unknownKeys.length > 0) {
+                throw new Error(`Unknown ${type} details: ${unknownKeys.join(', ')}`);
+            }
+            return true;
+        }),
+
+    // Projects
+    body('details.repoUrl')
+        .if(forDetailsOf('project'))
+        .optional({ values: 'falsy' })
+        .isURL(isHttpUrl)
+        .withMessage('Repository URL must be a valid http(s) URL')
+        .isLength({ max: 300 })
+        .withMessage('Repository URL cannot exceed 300 characters'),
+    body('details.techStack')
+        .if(forDetailsOf('project'))
+        .optional()
+        .isArray({ max: MAX_TECH_STACK })
+        .withMessage(`Up to ${MAX_TECH_STACK} technologies allowed`),
+    body('details.techStack.*')
+        .if(forDetailsOf('project'))
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: 30 })
+        .withMessage('Each technology must be between 1 and 30 characters')
+        .customSanitizer(sanitizeHtml),
+    body('details.status')
+        .if(forDetailsOf('project'))
+        .optional({ values: 'falsy' })
+        .isIn(PROJECT_STATUSES)
+        .withMessage(`Project status must be one of: ${PROJECT_STATUSES.join(', ')}`),
+
+    // Hackathons
+    body('details.startDate')
+        .if(forDetailsOf('hackathon'))
+        .notEmpty()
+        .withMessage('Start date is required')
+        .bail()
+        .isISO8601()
+        .withMessage('Start date must be a valid date')
+        .toDate(),
+    body('details.endDate')
+        .if(forDetailsOf('hackathon'))
+        .notEmpty()
+        .withMessage('End date is required')
+        .bail()
+        .isISO8601()
+        .withMessage('End date must be a valid date')
+        .toDate()
+        .custom((endDate: Date, { req }) => !(endDate < req.body.details.startDate))
+        .withMessage('End date cannot be before the start date'),
+    body('details.isOnline')
+        .if(forDetailsOf('hackathon'))
+        .optional()
+        .isBoolean()
+        .withMessage('isOnline must be true or false')
+        .toBoolean(true),
+    body('details.location')
+        .if(forDetailsOf('hackathon'))
+        .custom((location: unknown, { req }) =>
+            req.body.details.isOnline === true || (typeof location === 'string' && location.trim().length > 0))
+        .withMessage('Location is required unless the hackathon is online'),
+    body('details.teamSize')
+        .if(forDetailsOf('hackathon'))
+        .optional()
+        .isObject()
+        .withMessage('Team size must be an object'),
+    body(['details.teamSize.min', 'details.teamSize.max'])
+        .if(forDetailsOf('hackathon'))
+        .optional({ values: 'null' })
+        .isInt({ min: 1, max: MAX_TEAM_SIZE })
+        .withMessage(`Team size must be between 1 and ${MAX_TEAM_SIZE}`)
+        .toInt(),
+    body('details.teamSize.max')
+        .if(forDetailsOf('hackathon'))
+        .optional({ values: 'null' })
+        .custom((max: number, { req }) => {
+            const min = req.body.details.teamSize.min;
+            return typeof min !== 'number' || max >= min;
+        })
+        .withMessage('Maximum team size cannot be below the minimum'),
+    body('details.registrationUrl')
+        .if(forDetailsOf('hackathon'))
+        .optional({ values: 'falsy' })
+        .isURL(isHttpUrl)
+        .withMessage('Registration URL must be a valid http(s) URL')
+        .isLength({ max: 300 })
+        .withMessage('Registration URL cannot exceed 300 characters'),
+
+    // Internships
+    body('details.company')
+        .if(forDetailsOf('internship'))
+        .isString()
+        .withMessage('Company is required')
+        .trim()
+        .notEmpty()
+        .withMessage('Company is required')
+        .isLength({ max: 100 })
+        .withMessage('Company cannot exceed 100 characters')
+        .customSanitizer(sanitizeHtml),
+    body('details.workMode')
+        .if(forDetailsOf('internship'))
+        .isIn(WORK_MODES)
+        .withMessage(`Work mode must be one of: ${WORK_MODES.join(', ')}`),
+    body('details.location')
+        .if(forDetailsOf('internship'))
+        .custom((location: unknown, { req }) =>
+            req.body.details.workMode === 'remote' || (typeof location === 'string' && location.trim().length > 0))
+        .withMessage('Location is required unless the internship is remote'),
+    body('details.stipend')
+        .if(forDetailsOf('internship'))
+        .optional()
+        .isObject()
+        .withMessage('Stipend must be an object'),
+    body(['details.stipend.min', 'details.stipend.max'])
+        .if(forDetailsOf('internship'))
+        .optional({ values: 'null' })
+        .isInt({ min: 0, max: 10_000_000 })
+        .withMessage('Stipend amounts must be whole numbers of at least 0')
+        .toInt(),
+    body('details.stipend.max')
+        .if(forDetailsOf('internship'))
+        .optional({ values: 'null' })
+        .custom((max: number, { req }) => {
+            const min = req.body.details.stipend.min;
+            return typeof min !== 'number' || max >= min;
+        })
+        .withMessage('Maximum stipend cannot be below the minimum'),
+    body('details.stipend.currency')
+        .if(forDetailsOf('internship'))
+        .optional({ values: 'falsy' })
+        .isString()
+        .trim()
+        .isLength({ min: 3, max: 3 })
+        .isAlpha()
+        .withMessage('Currency must be a 3-letter code')
+        .toUpperCase(),
+    body('details.stipend.period')
+        .if(forDetailsOf('internship'))
+        .optional({ values: 'falsy' })
+        .isIn(STIPEND_PERIODS)
+        .withMessage(`Stipend period must be one of: ${STIPEND_PERIODS.join(', ')}`),
+    body('details.durationMonths')
+        .if(forDetailsOf('internship'))
+        .optional({ values: 'null' })
+        .isInt({ min: 1, max: 24 })
+        .withMessage('Duration must be between 1 and 24 months')
+        .toInt(),
+    body('details.applicationDeadline')
+        .if(forDetailsOf('internship'))
+        .optional({ values: 'falsy' })
+        .isISO8601()
+        .withMessage('Application deadline must be a valid date')
+        .toDate(),
+
+    // Shared by hackathons and internships; other types reject the key above
+    body('details.location')
+        .optional({ values: 'falsy' })
+        .isString()
+        .trim()
+        .isLength({ max: 100 })
+        .withMessage('Location cannot exceed 100 characters')
+        .customSanitizer(sanitizeHtml),
+];
+
 /**
  * SECURITY: Post creation validation with:
  * - Strict type enumeration
- * - HTML sanitization for title/description
+ * - HTML sanitization for title and tags
+ * - Description kept as Markdown source (rendered through an allow-list
+ *   sanitizer on the client, never as raw HTML)
  * - Tag array limits and per-tag length limits
+ * - Type-specific details, required for hackathons and internships
  */
 export const createPostValidation = [
-    rejectUnknownFields(['type', 'title', 'description', 'tags']),
+    rejectUnknownFields(['type', 'title', 'description', 'tags', 'attachments', 'details']),
     body('type')
         .notEmpty()
         .withMessage('Post type is required')
-        .isIn(['project', 'hackathon', 'internship'])
+        .isIn(POST_TYPES)
         .withMessage('Type must be project, hackathon, or internship'),
     body('title')
         .trim()
@@ -207,8 +434,7 @@ export const createPostValidation = [
         .notEmpty()
         .withMessage('Description is required')
         .isLength({ max: 1000 })
-        .withMessage('Description cannot exceed 1000 characters')
-        .customSanitizer(sanitizeHtml),
+        .withMessage('Description cannot exceed 1000 characters'),
     body('tags')
         .optional()
         .isArray({ max: 5 })
@@ -222,17 +448,31 @@ export const createPostValidation = [
         .isLength({ min: 1, max: 30 })
         .withMessage('Each tag must be 1-30 characters')
         .customSanitizer(sanitizeHtml),
+    // SECURITY: Attachment ids only; ownership is checked when the post is saved
+    body('attachments')
+        .optional()
+        .isArray({ max: MAX_POST_ATTACHMENTS })
+        .withMessage(`Maximum ${MAX_POST_ATTACHMENTS} attachments allowed`),
+    body('attachments.*')
+        .isMongoId()
+        .withMessage('Invalid attachment ID'),
+    body('details')
+        .if(body('type').isIn(['hackathon', 'internship']))
+        .exists()
+        .withMessage('Details are required for hackathon and internship posts'),
+    ...postDetailsValidation,
     handleValidationErrors,
 ];
 
 /**
- * SECURITY: Post update validation (all fields optional)
+ * SECURITY: Post update validation (all fields optional). Details replace
+ * the post's current ones and need the type sent alongside.
  */
 export const updatePostValidation = [
-    rejectUnknownFields(['type', 'title', 'description', 'tags']),
+    rejectUnknownFields(['type', 'title', 'description', 'tags', 'attachments', 'details']),
     body('type')
         .optional()
-        .isIn(['project', 'hackathon', 'internship'])
+        .isIn(POST_TYPES)
         .withMessage('Type must be project, hackathon, or internship'),
     body('title')
         .optional()
@@ -244,8 +484,7 @@ export const updatePostValidation = [
         .optional()
         .trim()
         .isLength({ max: 1000 })
-        .withMessage('Description cannot exceed 1000 characters')
-        .customSanitizer(sanitizeHtml),
+        .withMessage('Description cannot exceed 1000 characters'),
     body('tags')
         .optional()
         .isArray({ max: 5 })
@@ -257,6 +496,15 @@ export const updatePostValidation = [
         .isLength({ min: 1, max: 30 })
         .withMessage('Each tag must be 1-30 characters')
         .customSanitizer(sanitizeHtml),
+    // SECURITY: Attachment ids only; ownership is checked when the post is saved
+    body('attachments')
+        .optional()
+        .isArray({ max: MAX_POST_ATTACHMENTS })
+        .withMessage(`Maximum ${MAX_POST_ATTACHMENTS} attachments allowed`),
+    body('attachments.*')
+        .isMongoId()
+        .withMessage('Invalid attachment ID'),
+    ...postDetailsValidation,
     handleValidationErrors,
 ];
 
@@ -264,21 +512,594 @@ export const updatePostValidation = [
 // Comment Validation Rules
 // ============================================================
 
+// Comment text is Markdown source, rendered like post descriptions
+const commentTextValidation = () =>
+    body('text')
+        .trim()
+        .notEmpty()
+        .withMessage('Comment text is required')
+        .isLength({ min: 1, max: 500 })
+        .withMessage('Comment must be between 1 and 500 characters');
+
 /**
  * SECURITY: Comment validation with XSS prevention
  */
 export const commentValidation = [
+    rejectUnknownFields(['text', 'parentId']),
+    commentTextValidation(),
+    body('parentId')
+        .optional({ values: 'null' })
+        .isMongoId()
+        .withMessage('Invalid parent comment ID'),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Comment edit validation - only the text can change
+ */
+export const updateCommentValidation = [
+    rejectUnknownFields(['text']),
+    commentTextValidation(),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Validates :id and :commentId parameters on comment routes
+ */
+export const validateCommentParams = [
+    ...validateObjectId('id'),
+    ...validateObjectId('commentId'),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Comment list query validation
+ */
+export const commentListQueryValidation = [
+    query('parentId')
+        .optional()
+        .isMongoId()
+        .withMessage('Invalid parent comment ID'),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 50 })
+        .withMessage('Limit must be between 1 and 50'),
+    query('cursor')
+        .optional()
+        .isString()
+        .isLength({ max: 200 })
+        .withMessage('Invalid cursor'),
+    handleValidationErrors,
+];
+
+// ============================================================
+// Application Validation Rules
+// ============================================================
+
+/**
+ * SECURITY: Application validation - the cover note is Markdown source like
+ * comments; the profile snapshot is taken server-side, never from the body
+ */
+export const applicationValidation = [
+    rejectUnknownFields(['coverNote']),
+    body('coverNote')
+        .isString()
+        .withMessage('Cover note is required')
+        .trim()
+        .notEmpty()
+        .withMessage('Cover note is required')
+        .isLength({ max: MAX_COVER_NOTE_LENGTH })
+        .withMessage(`Cover note cannot exceed ${MAX_COVER_NOTE_LENGTH} characters`),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Applicant list query validation
+ */
+export const applicationListQueryValidation = [
+    query('stage')
+        .optional()
+        .isIn(APPLICATION_STAGES)
+        .withMessage(`Stage must be one of: ${APPLICATION_STAGES.join(', ')}`),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 50 })
+        .withMessage('Limit must be between 1 and 50'),
+    query('cursor')
+        .optional()
+        .isString()
+        .isLength({ max: 200 })
+        .withMessage('Invalid cursor'),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Pipeline stage change validation
+ */
+export const applicationStageValidation = [
+    rejectUnknownFields(['stage']),
+    body('stage')
+        .isIn(APPLICATION_STAGES)
+        .withMessage(`Stage must be one of: ${APPLICATION_STAGES.join(', ')}`),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Private note validation (plain text, HTML sanitized)
+ */
+export const applicationNoteValidation = [
     rejectUnknownFields(['text']),
     body('text')
+        .isString()
+        .withMessage('Note text is required')
         .trim()
         .notEmpty()
-        .withMessage('Comment text is required')
-        .isLength({ min: 1, max: 500 })
-        .withMessage('Comment must be between 1 and 500 characters')
+        .withMessage('Note text is required')
+        .isLength({ max: MAX_APPLICATION_NOTE_LENGTH })
+        .withMessage(`Note cannot exceed ${MAX_APPLICATION_NOTE_LENGTH} characters`)
+        .customSanitizer(sanitizeHtml),
+    handleValidationErrors,
+];
+
+// ============================================================
+// Team Validation Rules
+// ============================================================
+
+const openRolesValidation = [
+    body('openRoles')
+        .optional()
+        .isArray({ max: MAX_TEAM_SIZE })
+        .withMessage(`Up to ${MAX_TEAM_SIZE} open roles allowed`),
+    body('openRoles.*')
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: MAX_TEAM_ROLE_LENGTH })
+        .withMessage(`Each role must be between 1 and ${MAX_TEAM_ROLE_LENGTH} characters`)
+        .customSanitizer(sanitizeHtml),
+];
+
+const teamDescriptionValidation = body('description')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: MAX_TEAM_DESCRIPTION_LENGTH })
+    .withMessage(`Description cannot exceed ${MAX_TEAM_DESCRIPTION_LENGTH} characters`)
+    .customSanitizer(sanitizeHtml);
+
+/**
+ * SECURITY: Team creation validation - the lead and size come from the
+ * request's user and the hackathon, never from the body
+ */
+export const createTeamValidation = [
+    rejectUnknownFields(['name', 'description', 'role', 'openRoles']),
+    body('name')
+        .isString()
+        .withMessage('Team name is required')
+        .trim()
+        .isLength({ min: 1, max: MAX_TEAM_NAME_LENGTH })
+        .withMessage(`Team name must be between 1 and ${MAX_TEAM_NAME_LENGTH} characters`)
+        .customSanitizer(sanitizeHtml),
+    teamDescriptionValidation,
+    body('role')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: MAX_TEAM_ROLE_LENGTH })
+        .withMessage(`Role must be between 1 and ${MAX_TEAM_ROLE_LENGTH} characters`)
+        .customSanitizer(sanitizeHtml),
+    ...openRolesValidation,
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Team update validation (lead only, enforced in the controller)
+ */
+export const updateTeamValidation = [
+    rejectUnknownFields(['name', 'description', 'openRoles']),
+    body('name')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: MAX_TEAM_NAME_LENGTH })
+        .withMessage(`Team name must be between 1 and ${MAX_TEAM_NAME_LENGTH} characters`)
+        .customSanitizer(sanitizeHtml),
+    teamDescriptionValidation,
+    ...openRolesValidation,
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Join request validation (plain text, HTML sanitized)
+ */
+export const joinRequestValidation = [
+    rejectUnknownFields(['role', 'message']),
+    body('role')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: MAX_TEAM_ROLE_LENGTH })
+        .withMessage(`Role must be between 1 and ${MAX_TEAM_ROLE_LENGTH} characters`)
+        .customSanitizer(sanitizeHtml),
+    body('message')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ max: MAX_JOIN_MESSAGE_LENGTH })
+        .withMessage(`Message cannot exceed ${MAX_JOIN_MESSAGE_LENGTH} characters`)
+        .customSanitizer(sanitizeHtml),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Join request decision validation
+ */
+export const joinDecisionValidation = [
+    rejectUnknownFields(['status']),
+    body('status')
+        .isIn(['approved', 'declined'])
+        .withMessage('Status must be one of: approved, declined'),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Validate :id and :requestId parameters
+ */
+export const validateJoinRequestParams = [
+    ...validateObjectId('id'),
+    ...validateObjectId('requestId'),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Validate :id and :userId parameters
+ */
+export const validateTeamMemberParams = [
+    ...validateObjectId('id'),
+    ...validateObjectId('userId'),
+    handleValidationErrors,
+];
+
+// ============================================================
+// Bookmark Validation Rules
+// ============================================================
+
+/**
+ * SECURITY: Bookmark validation - the collection must be an ObjectId (or
+ * null for no collection); ownership is checked in the controller
+ */
+export const bookmarkValidation = [
+    rejectUnknownFields(['collection']),
+    body('collection')
+        .optional({ values: 'null' })
+        .isMongoId()
+        .withMessage('Invalid collection ID'),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Saved list query validation
+ */
+export const bookmarkListQueryValidation = [
+    query('collection')
+        .optional()
+        .custom((value) => value === 'none' || mongoose.Types.ObjectId.isValid(value))
+        .withMessage('Invalid collection ID'),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 50 })
+        .withMessage('Limit must be between 1 and 50'),
+    query('cursor')
+        .optional()
+        .isString()
+        .isLength({ max: 200 })
+        .withMessage('Invalid cursor'),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Collection name validation (plain text, HTML sanitized)
+ */
+export const bookmarkCollectionValidation = [
+    rejectUnknownFields(['name']),
+    body('name')
+        .isString()
+        .withMessage('Collection name is required')
+        .trim()
+        .isLength({ min: 1, max: MAX_COLLECTION_NAME_LENGTH })
+        .withMessage(`Collection name must be between 1 and ${MAX_COLLECTION_NAME_LENGTH} characters`)
+        .customSanitizer(sanitizeHtml),
+    handleValidationErrors,
+];
+
+// ============================================================
+// Follow Validation Rules
+// ============================================================
+
+/**
+ * SECURITY: A followed tag is held to the same rules as a post's tags
+ */
+const followedTag = (chain: ValidationChain) =>
+    chain
+        .isString()
+        .withMessage('Tag is required')
+        .trim()
+        .isLength({ min: 1, max: 30 })
+        .withMessage('Tag must be 1-30 characters')
+        .customSanitizer(sanitizeHtml);
+
+export const followTagValidation = [
+    rejectUnknownFields(['tag']),
+    followedTag(body('tag')),
+    handleValidationErrors,
+];
+
+export const validateTagParam = [
+    followedTag(param('tag')),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Following feed query validation
+ */
+export const followingFeedQueryValidation = [
+    query('type')
+        .optional()
+        .isIn(['all', 'project', 'hackathon', 'internship'])
+        .withMessage('Invalid post type filter'),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 50 })
+        .withMessage('Limit must be between 1 and 50'),
+    query('cursor')
+        .optional()
+        .isString()
+        .isLength({ max: 200 })
+        .withMessage('Invalid cursor'),
+    handleValidationErrors,
+];
+
+// ============================================================
+// Report & Moderation Validation Rules
+// ============================================================
+
+/**
+ * SECURITY: Report validation - a known reason plus optional plain-text details
+ */
+export const reportValidation = [
+    rejectUnknownFields(['reason', 'details']),
+    body('reason')
+        .isIn(REPORT_REASONS)
+        .withMessage(`Reason must be one of: ${REPORT_REASONS.join(', ')}`),
+    body('details')
+        .optional()
+        .isString()
+        .withMessage('Details must be text')
+        .trim()
+        .isLength({ max: MAX_REPORT_DETAILS_LENGTH })
+        .withMessage(`Details cannot exceed ${MAX_REPORT_DETAILS_LENGTH} characters`)
         .customSanitizer(sanitizeHtml),
     handleValidationErrors,
 ];
 
+/**
+ * SECURITY: Moderation action validation (:id plus the action and an optional note)
+ */
+export const moderationValidation = [
+    ...validateObjectId('id'),
+    rejectUnknownFields(['action', 'note']),
+    body('action')
+        .isIn(MODERATION_ACTIONS)
+        .withMessage(`Action must be one of: ${MODERATION_ACTIONS.join(', ')}`),
+    body('note')
+        .optional()
+        .isString()
+        .withMessage('Note must be text')
+        .trim()
+        .isLength({ max: MAX_MODERATION_NOTE_LENGTH })
+        .withMessage(`Note cannot exceed ${MAX_MODERATION_NOTE_LENGTH} characters`)
+        .customSanitizer(sanitizeHtml),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Report queue query validation
+ */
+export const reportQueueQueryValidation = [
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 50 })
+        .withMessage('Limit must be between 1 and 50'),
+    query('page')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Page must be between 1 and 100'),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Moderation log query validation
+ */
+export const moderationLogQueryValidation = [
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 50 })
+        .withMessage('Limit must be between 1 and 50'),
+    query('cursor')
+        .optional()
+        .isString()
+        .isLength({ max: 200 })
+        .withMessage('Invalid cursor'),
+    handleValidationErrors,
+];
+
+// ============================================================
+// Admin User Validation Rules
+// ============================================================
+
+const restrictionReason = () =>
+    body('reason')
+        .optional()
+        .isString()
+        .withMessage('Reason must be text')
+        .trim()
+        .isLength({ max: MAX_RESTRICTION_REASON_LENGTH })
+        .withMessage(`Reason cannot exceed ${MAX_RESTRICTION_REASON_LENGTH} characters`)
+        .customSanitizer(sanitizeHtml);
+
+/**
+ * SECURITY: Admin user list query validation
+ */
+export const adminUsersQueryValidation = [
+    query('q')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ max: 100 })
+        .withMessage('Search cannot exceed 100 characters'),
+    query('role')
+        .optional()
+        .isIn(USER_ROLES)
+        .withMessage(`Role must be one of: ${USER_ROLES.join(', ')}`),
+    query('verified')
+        .optional()
+        .isIn(['true', 'false'])
+        .withMessage('Verified must be true or false'),
+    query('status')
+        .optional()
+        .isIn(ACCOUNT_STATUSES)
+        .withMessage(`Status must be one of: ${ACCOUNT_STATUSES.join(', ')}`),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 50 })
+        .withMessage('Limit must be between 1 and 50'),
+    query('cursor')
+        .optional()
+        .isString()
+        .isLength({ max: 200 })
+        .withMessage('Invalid cursor'),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Suspension validation - a future end date within the cap plus an optional reason
+ */
+export const suspendUserValidation = [
+    ...validateObjectId('id'),
+    rejectUnknownFields(['until', 'reason']),
+    body('until')
+        .isISO8601()
+        .withMessage('Suspension end must be a valid date')
+        .custom((value: string) => {
+            const until = new Date(value).getTime();
+            if (until <= Date.now()) {
+                throw new Error('Suspension end must be in the future');
+            }
+            if (until > Date.now() + MAX_SUSPENSION_DAYS * 24 * 60 * 60 * 1000) {
+                throw new Error(`Suspensions cannot exceed ${MAX_SUSPENSION_DAYS} days; ban the user instead`);
+            }
+            return true;
+        }),
+    restrictionReason(),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Ban validation (:id plus an optional reason)
+ */
+export const banUserValidation = [
+    ...validateObjectId('id'),
+    rejectUnknownFields(['reason']),
+    restrictionReason(),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Role change validation (:id plus a known role)
+ */
+export const updateUserRoleValidation = [
+    ...validateObjectId('id'),
+    rejectUnknownFields(['role']),
+    body('role')
+        .isIn(USER_ROLES)
+        .withMessage(`Role must be one of: ${USER_ROLES.join(', ')}`),
+    handleValidationErrors,
+];
+
+// ============================================================
+// Audit Log Validation Rules
+// ============================================================
+
+const auditLogFilters = [
+    query('action')
+        .optional()
+        .isIn(AUDIT_ACTIONS)
+        .withMessage(`Action must be one of: ${AUDIT_ACTIONS.join(', ')}`),
+    query('actor')
+        .optional()
+        .isMongoId()
+        .withMessage('Invalid actor ID'),
+    query('target')
+        .optional()
+        .isMongoId()
+        .withMessage('Invalid target ID'),
+    query('from')
+        .optional()
+        .isISO8601()
+        .withMessage('From must be a valid date'),
+    query('to')
+        .optional()
+        .isISO8601()
+        .withMessage('To must be a valid date'),
+];
+
+/**
+ * SECURITY: Audit log query validation
+ */
+export const auditLogQueryValidation = [
+    ...auditLogFilters,
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 50 })
+        .withMessage('Limit must be between 1 and 50'),
+    query('cursor')
+        .optional()
+        .isString()
+        .isLength({ max: 200 })
+        .withMessage('Invalid cursor'),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Audit log export validation (same filters, no paging)
+ */
+export const auditLogExportValidation = [
+    ...auditLogFilters,
+    handleValidationErrors,
+];
+
+// ============================================================
+// Admin Stats Validation Rules
+// ============================================================
+
+/**
+ * SECURITY: Stats query validation (range length is checked in the controller)
+ */
+export const statsQueryValidation = [
+    query('from')
+        .optional()
+        .isISO8601()
+        .withMessage('From must be a valid date'),
+    query('to')
+        .optional()
+        .isISO8601()
+        .withMessage('To must be a valid date'),
+    query('bucket')
+        .optional()
+        .isIn(['day', 'week'])
+        .withMessage('Bucket must be day or week'),
+    handleValidationErrors,
+];
+
 // ============================================================
 // Profile Validation Rules
 // ============================================================
@@ -287,7 +1108,16 @@ export const commentValidation = [
  * SECURITY: Profile update validation with limited fields
  */
 export const updateProfileValidation = [
-    rejectUnknownFields(['name', 'bio']),
+    rejectUnknownFields([
+        'name',
+        'bio',
+        'skills',
+        'university',
+        'major',
+        'graduationYear',
+        'links',
+        'availability',
+    ]),
     body('name')
         .optional()
         .trim()
@@ -300,6 +1130,75 @@ export const updateProfileValidation = [
         .isLength({ max: 200 })
         .withMessage('Bio cannot exceed 200 characters')
         .customSanitizer(sanitizeHtml),
+    body('skills')
+        .optional()
+        .isArray({ max: MAX_SKILLS })
+        .withMessage(`Up to ${MAX_SKILLS} skills allowed`),
+    body('skills.*')
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: 30 })
+        .withMessage('Each skill must be between 1 and 30 characters')
+        .customSanitizer(sanitizeHtml),
+    body(['university', 'major'])
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ max: 100 })
+        .withMessage('University and major cannot exceed 100 characters')
+        .customSanitizer(sanitizeHtml),
+    body('graduationYear')
+        .optional({ values: 'falsy' })
+        .isInt({ min: 1950, max: 2100 })
+        .withMessage('Graduation year must be between 1950 and 2100')
+        .toInt(),
+    body('links')
+        .optional()
+        .isObject()
+        .withMessage('Links must be an object')
+        .custom((links: Record<string, unknown>) => {
+            const unknownKeys = Object.keys(links).filter(key => !(PROFILE_LINK_KEYS as readonly string[]).includes(key));
+            if (unknownKeys.length > 0) {
+                throw new Error(`Unknown links: ${unknownKeys.join(', ')}`);
+            }
+            return true;
+        }),
+    // SECURITY: http(s) only, so javascript: and data: URLs can never reach an href
+    body('links.github')
+        .optional({ values: 'falsy' })
+        .isURL({ protocols: ['http', 'https'], require_protocol: true, host_whitelist: ['github.com', 'www.github.com'] })
+        .withMessage('GitHub link must be a github.com URL'),
+    body('links.linkedin')
+        .optional({ values: 'falsy' })
+        .isURL({ protocols: ['http', 'https'], require_protocol: true, host_whitelist: ['linkedin.com', 'www.linkedin.com'] })
+        .withMessage('LinkedIn link must be a linkedin.com URL'),
+    body(['links.portfolio', 'links.resume'])
+        .optional({ values: 'falsy' })
+        .isURL({ protocols: ['http', 'https'], require_protocol: true })
+        .withMessage('Links must be valid http(s) URLs')
+        .isLength({ max: 300 })
+        .withMessage('Links cannot exceed 300 characters'),
+    body('availability')
+        .optional({ values: 'falsy' })
+        .isIn(AVAILABILITY_STATUSES)
+        .withMessage(`Availability must be one of: ${AVAILABILITY_STATUSES.join(', ')}`),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: User comment activity query validation
+ */
+export const userCommentsQueryValidation = [
+    ...validateObjectId('id'),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 50 })
+        .withMessage('Limit must be between 1 and 50'),
+    query('cursor')
+        .optional()
+        .isString()
+        .isLength({ max: 200 })
+        .withMessage('Invalid cursor'),
     handleValidationErrors,
 ];
 
@@ -359,18 +1258,232 @@ export const searchValidation = [
             // SECURITY: Escape regex special characters to prevent ReDoS
             return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
         }),
+    query('skills')
+        .optional()
+        .isString()
+        .isLength({ max: 200 })
+        .withMessage('Skills filter too long'),
+    query('university')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ max: 100 })
+        .withMessage('University filter too long'),
+    query('graduationYear')
+        .optional()
+        .isInt({ min: 1950, max: 2100 })
+        .withMessage('Graduation year must be between 1950 and 2100'),
+    query('availability')
+        .optional()
+        .isIn(AVAILABILITY_STATUSES)
+        .withMessage(`Availability must be one of: ${AVAILABILITY_STATUSES.join(', ')}`),
     handleValidationErrors,
 ];
 
 /**
- * SECURITY: Post type query validation
+ * SECURITY: Post search query validation
+ * The query is never turned into a RegExp as-is; filter values are escaped
+ * by the controller and free text goes through the MongoDB text index.
  */
-export const postTypeQueryValidation = [
+export const postSearchValidation = [
+    query('q')
+        .trim()
+        .notEmpty()
+        .withMessage('Search query is required')
+        .isLength({ max: 200 })
+        .withMessage('Search query too long'),
     query('type')
         .optional()
         .isIn(['all', 'project', 'hackathon', 'internship'])
         .withMessage('Invalid post type filter'),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 50 })
+        .withMessage('Limit must be between 1 and 50'),
+    query('page')
+        .optional()
+        .isInt({ min: 1, max: 100 })
+        .withMessage('Page must be between 1 and 100'),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Post list query validation
+ * - Type checked against allowed values
+ * - Tags given as a comma-separated list, escaped like stored tags
+ * - Author must be a valid ObjectId, dates must be ISO 8601
+ * - Cursor is opaque; its contents are verified by the controller
+ */
+export const postListQueryValidation = [
+    query('type')
+        .optional()
+        .isIn(['all', 'project', 'hackathon', 'internship'])
+        .withMessage('Invalid post type filter'),
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 50 })
+        .withMessage('Limit must be between 1 and 50'),
+    query('cursor')
+        .optional()
+        .isString()
+        .isLength({ max: 200 })
+        .withMessage('Invalid cursor'),
+    query('tags')
+        .optional()
+        .isString()
+        .withMessage('Tags must be a comma-separated list')
+        .customSanitizer((value: string) =>
+            value
+                .split(',')
+                .map(tag => sanitizeHtml(tag.trim()))
+                .filter(tag => tag.length > 0)
+        )
+        .custom((tags: string[]) => {
+            if (tags.length > 5 || tags.some(tag => tag.length > 30)) {
+                throw new Error('Up to 5 tags of 1-30 characters allowed');
+            }
+            return true;
+        }),
+    query('author')
+        .optional()
+        .isMongoId()
+        .withMessage('Invalid author ID'),
+    query('from')
+        .optional()
+        .isISO8601()
+        .withMessage('From must be a valid date'),
+    query('to')
+        .optional()
+        .isISO8601()
+        .withMessage('To must be a valid date'),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Trash list query validation
+ */
+export const trashQueryValidation = [
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 50 })
+        .withMessage('Limit must be between 1 and 50'),
+    query('cursor')
+        .optional()
+        .isString()
+        .isLength({ max: 200 })
+        .withMessage('Invalid cursor'),
     handleValidationErrors,
 ];
 
+// ============================================================
+// Notification Validation Rules
+// ============================================================
 
+/**
+ * SECURITY: Notification list query validation
+ */
+export const notificationListQueryValidation = [
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 50 })
+        .withMessage('Limit must be between 1 and 50'),
+    query('before')
+        .optional()
+        .isISO8601()
+        .withMessage('Before must be a valid date'),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Mark-as-read validation - ids and post must be ObjectIds (NoSQL injection prevention)
+ */
+export const markNotificationsReadValidation = [
+    rejectUnknownFields(['ids', 'post', 'type']),
+    body('ids')
+        .optional()
+        .isArray({ max: 100 })
+        .withMessage('Up to 100 notification IDs allowed'),
+    body('ids.*')
+        .isMongoId()
+        .withMessage('Invalid notification ID'),
+    body('post')
+        .optional()
+        .isMongoId()
+        .withMessage('Invalid post ID'),
+    body('type')
+        .optional()
+        .isIn(NOTIFICATION_TYPES)
+        .withMessage('Invalid notification type'),
+    handleValidationErrors,
+];
+
+// ============================================================
+// Messaging Validation Rules
+// ============================================================
+
+/**
+ * SECURITY: Conversation list query validation
+ */
+export const conversationListQueryValidation = [
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 50 })
+        .withMessage('Limit must be between 1 and 50'),
+    query('before')
+        .optional()
+        .isISO8601()
+        .withMessage('Before must be a valid date'),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: New conversation validation - participants must be ObjectIds,
+ * group name HTML sanitized
+ */
+export const createConversationValidation = [
+    rejectUnknownFields(['participantIds', 'name']),
+    body('participantIds')
+        .isArray({ min: 1, max: 20 })
+        .withMessage('Choose between 1 and 20 participants'),
+    body('participantIds.*')
+        .isMongoId()
+        .withMessage('Invalid user ID'),
+    body('name')
+        .optional()
+        .trim()
+        .isLength({ max: 50 })
+        .withMessage('Conversation name cannot exceed 50 characters')
+        .customSanitizer(sanitizeHtml),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Message validation with XSS prevention
+ */
+export const messageValidation = [
+    rejectUnknownFields(['text']),
+    body('text')
+        .trim()
+        .notEmpty()
+        .withMessage('Message text is required')
+        .isLength({ min: 1, max: 2000 })
+        .withMessage('Message must be between 1 and 2000 characters')
+        .customSanitizer(sanitizeHtml),
+    handleValidationErrors,
+];
+
+/**
+ * SECURITY: Message history query validation
+ */
+export const messageListQueryValidation = [
+    query('limit')
+        .optional()
+        .isInt({ min: 1, max: 50 })
+        .withMessage('Limit must be between 1 and 50'),
+    query('cursor')
+        .optional()
+        .isString()
+        .isLength({ max: 200 })
+        .withMessage('Invalid cursor'),
+    handleValidationErrors,
+];
@@ -0,0 +1,143 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { Availability, IUserLinks } from './User';
+
+export const APPLICATION_STAGES = ['applied', 'shortlisted', 'interviewing', 'offered', 'rejected'] as const;
+export type ApplicationStage = typeof APPLICATION_STAGES[number];
+
+export const MAX_COVER_NOTE_LENGTH = 2000;
+export const MAX_APPLICATION_NOTE_LENGTH = 1000;
+
+/**
+ * The applicant's profile as it was when they applied, so the poster reviews
+ * what was submitted even if the profile changes later.
+ */
+export interface IApplicantSnapshot {
+    name: string;
+    email: string;
+    avatar: string;
+    bio?: string;
+    skills: string[];
+    university?: string;
+    major?: string;
+    graduationYear?: number;
+    links?: IUserLinks;
+    availability?: Availability;
+}
+
+export interface IStageChange {
+    stage: ApplicationStage;
+    changedBy: mongoose.Types.ObjectId;
+    changedAt: Date;
+}
+
+// Private to the poster and admins; never shown to the applicant
+export interface IApplicationNote {
+    _id: mongoose.Types.ObjectId;
+    author: mongoose.Types.ObjectId;
+    text: string;
+    createdAt: Date;
+}
+
+export interface IApplication extends Document {
+    _id: mongoose.Types.ObjectId;
+    post: mongoose.Types.ObjectId;
+    applicant: mongoose.Types.ObjectId;
+    coverNote: string;
+    profile: IApplicantSnapshot;
+    stage: ApplicationStage;
+    stageHistory: IStageChange[];
+    stageChangedAt: Date;
+    notes: IApplicationNote[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const stageChangeSchema = new Schema<IStageChange>(
+    {
+        stage: { type: String, enum: APPLICATION_STAGES, required: true },
+        changedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        changedAt: { type: Date, default: Date.now },
+    },
+    { _id: false }
+);
+
+const applicationNoteSchema = new Schema<IApplicationNote>(
+    {
+        author: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        text: {
+            type: String,
+            required: true,
+            maxlength: [MAX_APPLICATION_NOTE_LENGTH, `Note cannot exceed ${MAX_APPLICATION_NOTE_LENGTH} characters`],
+        },
+    },
+    { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+const applicationSchema = new Schema<IApplication>(
+    {
+        post: {
+            type: Schema.Types.ObjectId,
+            ref: 'Post',
+            required: true,
+        },
+        applicant: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        coverNote: {
+            type: String,
+            required: [true, 'Cover note is required'],
+            maxlength: [MAX_COVER_NOTE_LENGTH, `Cover note cannot exceed ${MAX_COVER_NOTE_LENGTH} characters`],
+        },
+        profile: {
+            name: { type: String, required: true },
+            email: { type: String, required: true },
+            avatar: { type: String, required: true },
+            bio: String,
+            skills: { type: [String], default: [] },
+            university: String,
+            major: String,
+            graduationYear: Number,
+            links: {
+                github: String,
+                linkedin: String,
+                portfolio: String,
+                resume: String,
+            },
+            availability: String,
+        },
+        stage: {
+            type: String,
+            enum: APPLICATION_STAGES,
+            default: 'applied',
+        },
+        stageHistory: {
+            type: [stageChangeSchema],
+            default: [],
+        },
+        stageChangedAt: {
+            type: Date,
+            default: Date.now,
+        },
+        notes: {
+            type: [applicationNoteSchema],
+            default: [],
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// One application per student and post
+applicationSchema.index({ post: 1, applicant: 1 }, { unique: true });
+// The poster's pipeline, optionally filtered by stage
+applicationSchema.index({ post: 1, stage: 1, createdAt: -1, _id: -1 });
+applicationSchema.index({ post: 1, createdAt: -1, _id: -1 });
+// "My applications"
+applicationSchema.index({ applicant: 1, createdAt: -1, _id: -1 });
+
+const Application = mongoose.model<IApplication>('Application', applicationSchema);
+
+export default Application;
@@ -0,0 +1,82 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type AttachmentKind = 'image' | 'document';
+
+// Per-post cap; uploads beyond it are refused when the post is saved
+export const MAX_POST_ATTACHMENTS = 6;
+
+/**
+ * An uploaded file. Uploads start unattached (post: null) and are claimed
+ * by the post they are saved with; unclaimed uploads are purged after a
+ * grace period. Posts keep a copy of the public fields (IPostAttachment) so
+ * listing posts never needs a second query.
+ */
+export interface IAttachment extends Document {
+    _id: mongoose.Types.ObjectId;
+    owner: mongoose.Types.ObjectId;
+    post: mongoose.Types.ObjectId | null;
+    key: string;
+    url: string;
+    name: string;
+    mimeType: string;
+    size: number;
+    kind: AttachmentKind;
+    width?: number;
+    height?: number;
+    createdAt: Date;
+}
+
+export type IPostAttachment = Pick<IAttachment, '_id' | 'url' | 'name' | 'mimeType' | 'size' | 'kind' | 'width' | 'height'>;
+
+const attachmentSchema = new Schema<IAttachment>(
+    {
+        owner: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        post: {
+            type: Schema.Types.ObjectId,
+            ref: 'Post',
+            default: null,
+        },
+        key: {
+            type: String,
+            required: true,
+        },
+        url: {
+            type: String,
+            required: true,
+        },
+        name: {
+            type: String,
+            required: true,
+            maxlength: [120, 'File name cannot exceed 120 characters'],
+        },
+        mimeType: {
+            type: String,
+            required: true,
+        },
+        size: {
+            type: Number,
+            required: true,
+        },
+        kind: {
+            type: String,
+            enum: ['image', 'document'],
+            required: true,
+        },
+        width: Number,
+        height: Number,
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+// Backs claiming by post and the sweep of unclaimed uploads
+attachmentSchema.index({ post: 1, createdAt: 1 });
+
+const Attachment = mongoose.model<IAttachment>('Attachment', attachmentSchema);
+
+export default Attachment;
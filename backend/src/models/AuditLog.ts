@@ -0,0 +1,130 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Append-only record of administrative and security events: admins editing,
+ * hiding or deleting other people's content, every post deletion and
+ * restore, account restrictions and role changes, password resets and
+ * sign-ins from devices the account has not used before. Entries are written
+ * once and never updated or deleted - the schema rejects any attempt to.
+ */
+
+export const AUDIT_ACTIONS = [
+    'post.update',
+    'post.hide',
+    'post.delete',
+    'post.restore',
+    'comment.update',
+    'comment.hide',
+    'comment.delete',
+    'user.role-change',
+    'user.suspend',
+    'user.ban',
+    'user.reinstate',
+    'auth.password-reset',
+    'auth.new-device-login',
+] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export const AUDIT_TARGET_TYPES = ['post', 'comment', 'user'] as const;
+export type AuditTargetType = typeof AUDIT_TARGET_TYPES[number];
+
+// A changed field's value before and after the action
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface IAuditLog extends Document {
+    _id: mongoose.Types.ObjectId;
+    // null when nobody was signed in, e.g. a password reset by emailed link
+    actor: mongoose.Types.ObjectId | null;
+    action: AuditAction;
+    targetType: AuditTargetType;
+    target: mongoose.Types.ObjectId;
+    // Title, name or email at the time, so the entry still reads once the target is gone
+    targetLabel: string;
+    // Who the target belongs to, e.g. a post's author; tells an author's own
+    // deletion apart from an admin's
+    targetOwner: mongoose.Types.ObjectId | null;
+    changes?: AuditChanges;
+    // Free-form context such as the device of a new sign-in or a suspension reason
+    details?: string;
+    ip: string;
+    userAgent: string;
+    createdAt: Date;
+}
+
+const auditLogSchema = new Schema<IAuditLog>(
+    {
+        actor: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            default: null,
+        },
+        action: {
+            type: String,
+            enum: AUDIT_ACTIONS,
+            required: true,
+        },
+        targetType: {
+            type: String,
+            enum: AUDIT_TARGET_TYPES,
+            required: true,
+        },
+        target: {
+            type: Schema.Types.ObjectId,
+            required: true,
+        },
+        targetLabel: {
+            type: String,
+            default: '',
+        },
+        targetOwner: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            default: null,
+        },
+        changes: {
+            type: Schema.Types.Mixed,
+        },
+        details: {
+            type: String,
+        },
+        ip: {
+            type: String,
+            default: 'unknown',
+        },
+        userAgent: {
+            type: String,
+            default: '',
+            maxlength: 512,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+const IMMUTABLE_ERROR = 'Audit log entries cannot be changed or removed';
+
+auditLogSchema.pre('save', function (next) {
+    if (!this.isNew) {
+        return next(new Error(IMMUTABLE_ERROR));
+    }
+    next();
+});
+
+auditLogSchema.pre(
+    ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+    { document: true, query: true },
+    function () {
+        throw new Error(IMMUTABLE_ERROR);
+    }
+);
+
+// Backs the admin view: newest first, optionally narrowed to one action, actor or target
+auditLogSchema.index({ createdAt: -1, _id: -1 });
+auditLogSchema.index({ action: 1, createdAt: -1 });
+auditLogSchema.index({ actor: 1, createdAt: -1 });
+auditLogSchema.index({ target: 1, createdAt: -1 });
+
+const AuditLog = mongoose.model<IAuditLog>('AuditLog', auditLogSchema);
+
+export default AuditLog;
@@ -0,0 +1,50 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * A post a user saved for later, optionally filed in one of their
+ * collections. Only ever read by the user who saved it.
+ */
+export interface IBookmark extends Document {
+    _id: mongoose.Types.ObjectId;
+    user: mongoose.Types.ObjectId;
+    post: mongoose.Types.ObjectId;
+    // null when the bookmark isn't in a collection
+    bookmarkCollection: mongoose.Types.ObjectId | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const bookmarkSchema = new Schema<IBookmark>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        post: {
+            type: Schema.Types.ObjectId,
+            ref: 'Post',
+            required: true,
+        },
+        bookmarkCollection: {
+            type: Schema.Types.ObjectId,
+            ref: 'BookmarkCollection',
+            default: null,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// One bookmark per user and post
+bookmarkSchema.index({ user: 1, post: 1 }, { unique: true });
+// The saved list, newest first, optionally narrowed to a collection
+bookmarkSchema.index({ user: 1, createdAt: -1, _id: -1 });
+bookmarkSchema.index({ user: 1, bookmarkCollection: 1, createdAt: -1, _id: -1 });
+// Removing a deleted post from everyone's saved lists
+bookmarkSchema.index({ post: 1 });
+
+const Bookmark = mongoose.model<IBookmark>('Bookmark', bookmarkSchema);
+
+export default Bookmark;
@@ -0,0 +1,45 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const MAX_BOOKMARK_COLLECTIONS = 20;
+export const MAX_COLLECTION_NAME_LENGTH = 50;
+
+/**
+ * A named group of a user's bookmarks ("Summer internships"). Private to
+ * its owner like the bookmarks themselves.
+ */
+export interface IBookmarkCollection extends Document {
+    _id: mongoose.Types.ObjectId;
+    user: mongoose.Types.ObjectId;
+    name: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const bookmarkCollectionSchema = new Schema<IBookmarkCollection>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        name: {
+            type: String,
+            required: [true, 'Collection name is required'],
+            trim: true,
+            maxlength: [MAX_COLLECTION_NAME_LENGTH, `Collection name cannot exceed ${MAX_COLLECTION_NAME_LENGTH} characters`],
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// Names are unique per user, ignoring case
+bookmarkCollectionSchema.index(
+    { user: 1, name: 1 },
+    { unique: true, collation: { locale: 'en', strength: 2 } }
+);
+
+const BookmarkCollection = mongoose.model<IBookmarkCollection>('BookmarkCollection', bookmarkCollectionSchema);
+
+export default BookmarkCollection;
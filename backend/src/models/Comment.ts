@@ -0,0 +1,82 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IUser } from './User';
+
+/**
+ * A comment on a post. Replies point at their parent through parentId, so a
+ * thread is every comment sharing the same root. Deleted comments are kept
+ * as placeholders (text cleared, deletedAt set) so their replies stay intact.
+ * Comments hidden by a moderator keep their text but it is never served.
+ */
+export interface IComment extends Document {
+    _id: mongoose.Types.ObjectId;
+    post: mongoose.Types.ObjectId;
+    parentId: mongoose.Types.ObjectId | null;
+    user: mongoose.Types.ObjectId | IUser;
+    text: string;
+    // Unset on comments written before text was stored as Markdown
+    isMarkdown?: boolean;
+    replyCount: number;
+    editedAt?: Date;
+    deletedAt?: Date;
+    deletedBy?: mongoose.Types.ObjectId;
+    hiddenAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const commentSchema = new Schema<IComment>(
+    {
+        post: {
+            type: Schema.Types.ObjectId,
+            ref: 'Post',
+            required: true,
+        },
+        parentId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Comment',
+            default: null,
+        },
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        text: {
+            type: String,
+            maxlength: [500, 'Comment cannot exceed 500 characters'],
+            default: '',
+        },
+        isMarkdown: {
+            type: Boolean,
+        },
+        replyCount: {
+            type: Number,
+            default: 0,
+        },
+        editedAt: {
+            type: Date,
+        },
+        deletedAt: {
+            type: Date,
+        },
+        deletedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+        hiddenAt: {
+            type: Date,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// Backs paginated loading of a post's top-level comments and of each thread's replies
+commentSchema.index({ post: 1, parentId: 1, createdAt: 1, _id: 1 });
+// Backs a user's comment activity on their profile
+commentSchema.index({ user: 1, createdAt: -1, _id: -1 });
+
+const Comment = mongoose.model<IComment>('Comment', commentSchema);
+
+export default Comment;
@@ -0,0 +1,108 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Group conversations are capped so they stay "small groups", not channels
+export const MAX_CONVERSATION_MEMBERS = 10;
+
+/**
+ * A participant's view of a conversation. Unread counts are kept per member
+ * so the conversation list never has to count messages.
+ */
+export interface IConversationMember {
+    user: mongoose.Types.ObjectId;
+    lastReadAt: Date | null;
+    unreadCount: number;
+}
+
+export interface IConversation extends Document {
+    _id: mongoose.Types.ObjectId;
+    isGroup: boolean;
+    name?: string;
+    // Sorted member ids of a one-to-one conversation, so each pair has only one
+    directKey?: string;
+    members: IConversationMember[];
+    createdBy: mongoose.Types.ObjectId;
+    lastMessage?: {
+        text: string;
+        sender: mongoose.Types.ObjectId;
+        createdAt: Date;
+    };
+    lastMessageAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const memberSchema = new Schema<IConversationMember>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        lastReadAt: {
+            type: Date,
+            default: null,
+        },
+        unreadCount: {
+            type: Number,
+            default: 0,
+            min: 0,
+        },
+    },
+    { _id: false }
+);
+
+const conversationSchema = new Schema<IConversation>(
+    {
+        isGroup: {
+            type: Boolean,
+            default: false,
+        },
+        name: {
+            type: String,
+            trim: true,
+            maxlength: [50, 'Conversation name cannot exceed 50 characters'],
+        },
+        directKey: {
+            type: String,
+        },
+        members: {
+            type: [memberSchema],
+            validate: {
+                validator: (members: IConversationMember[]) =>
+                    members.length >= 2 && members.length <= MAX_CONVERSATION_MEMBERS,
+                message: `A conversation needs between 2 and ${MAX_CONVERSATION_MEMBERS} members`,
+            },
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        lastMessage: {
+            text: String,
+            sender: {
+                type: Schema.Types.ObjectId,
+                ref: 'User',
+            },
+            createdAt: Date,
+        },
+        lastMessageAt: {
+            type: Date,
+            default: Date.now,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// Backs the conversation list (most recent activity first)
+conversationSchema.index({ 'members.user': 1, lastMessageAt: -1 });
+conversationSchema.index({ directKey: 1 }, { unique: true, sparse: true });
+
+export const directKeyFor = (a: mongoose.Types.ObjectId, b: mongoose.Types.ObjectId): string =>
+    [a.toString(), b.toString()].sort().join(':');
+
+const Conversation = mongoose.model<IConversation>('Conversation', conversationSchema);
+
+export default Conversation;
@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Caps keep the Following feed query's $in lists small
+export const MAX_FOLLOWED_USERS = 500;
+export const MAX_FOLLOWED_TAGS = 50;
+
+/**
+ * An edge in the follow graph: a user following either another user
+ * (followee) or a tag. Exactly one of the two is set.
+ */
+export interface IFollow extends Document {
+    _id: mongoose.Types.ObjectId;
+    follower: mongoose.Types.ObjectId;
+    followee?: mongoose.Types.ObjectId;
+    tag?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const followSchema = new Schema<IFollow>(
+    {
+        follower: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        followee: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+        tag: {
+            type: String,
+            trim: true,
+            maxlength: 30,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+followSchema.pre('validate', function (next) {
+    if (Boolean(this.followee) === Boolean(this.tag)) {
+        next(new Error('A follow targets either a user or a tag'));
+        return;
+    }
+    next();
+});
+
+// One follow per pair; the user index also answers follower counts
+followSchema.index(
+    { followee: 1, follower: 1 },
+    { unique: true, partialFilterExpression: { followee: { $exists: true } } }
+);
+followSchema.index(
+    { follower: 1, tag: 1 },
+    { unique: true, partialFilterExpression: { tag: { $exists: true } } }
+);
+// Everything a user follows, for the feed and following counts
+followSchema.index({ follower: 1, createdAt: -1 });
+
+const Follow = mongoose.model<IFollow>('Follow', followSchema);
+
+export default Follow;
@@ -0,0 +1,44 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * When a user liked a post, kept alongside the post's likedBy list so
+ * admin stats can chart likes over time. Unliking removes it. Likes from
+ * before these were recorded are backfilled by `npm run migrate`, dated at
+ * the post's creation.
+ */
+export interface ILike extends Document {
+    _id: mongoose.Types.ObjectId;
+    user: mongoose.Types.ObjectId;
+    post: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const likeSchema = new Schema<ILike>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        post: {
+            type: Schema.Types.ObjectId,
+            ref: 'Post',
+            required: true,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// One like per user and post
+likeSchema.index({ user: 1, post: 1 }, { unique: true });
+// Removing a deleted post's likes
+likeSchema.index({ post: 1 });
+// Likes per day or week in the admin stats
+likeSchema.index({ createdAt: 1 });
+
+const Like = mongoose.model<ILike>('Like', likeSchema);
+
+export default Like;
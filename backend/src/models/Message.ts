@@ -0,0 +1,44 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * A direct message. Read receipts are derived from each member's
+ * lastReadAt on the conversation rather than stored per message.
+ */
+export interface IMessage extends Document {
+    _id: mongoose.Types.ObjectId;
+    conversation: mongoose.Types.ObjectId;
+    sender: mongoose.Types.ObjectId;
+    text: string;
+    createdAt: Date;
+}
+
+const messageSchema = new Schema<IMessage>(
+    {
+        conversation: {
+            type: Schema.Types.ObjectId,
+            ref: 'Conversation',
+            required: true,
+        },
+        sender: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        text: {
+            type: String,
+            required: [true, 'Message text is required'],
+            trim: true,
+            maxlength: [2000, 'Message cannot exceed 2000 characters'],
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+// Backs cursor-paginated history, newest first
+messageSchema.index({ conversation: 1, createdAt: -1, _id: -1 });
+
+const Message = mongoose.model<IMessage>('Message', messageSchema);
+
+export default Message;
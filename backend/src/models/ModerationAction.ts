@@ -0,0 +1,85 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { ReportReason } from './Report';
+
+export const MODERATION_ACTIONS = ['dismiss', 'hide', 'delete', 'warn'] as const;
+export type ModerationActionType = typeof MODERATION_ACTIONS[number];
+
+export const MAX_MODERATION_NOTE_LENGTH = 500;
+
+/**
+ * A record of a moderator acting on a post or comment. Written once and
+ * never changed; the target is snapshotted since it may be deleted.
+ */
+export interface IModerationAction extends Document {
+    _id: mongoose.Types.ObjectId;
+    moderator: mongoose.Types.ObjectId;
+    action: ModerationActionType;
+    targetType: 'post' | 'comment';
+    post: mongoose.Types.ObjectId;
+    comment: mongoose.Types.ObjectId | null;
+    targetAuthor: mongoose.Types.ObjectId;
+    // Post title or comment text at the time of the action
+    excerpt: string;
+    // Open reports the action resolved, by reason
+    reports: Partial<Record<ReportReason, number>>;
+    note?: string;
+    createdAt: Date;
+}
+
+const moderationActionSchema = new Schema<IModerationAction>(
+    {
+        moderator: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        action: {
+            type: String,
+            enum: MODERATION_ACTIONS,
+            required: true,
+        },
+        targetType: {
+            type: String,
+            enum: ['post', 'comment'],
+            required: true,
+        },
+        post: {
+            type: Schema.Types.ObjectId,
+            ref: 'Post',
+            required: true,
+        },
+        comment: {
+            type: Schema.Types.ObjectId,
+            ref: 'Comment',
+            default: null,
+        },
+        targetAuthor: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        excerpt: {
+            type: String,
+            default: '',
+        },
+        reports: {
+            type: Schema.Types.Mixed,
+            default: {},
+        },
+        note: {
+            type: String,
+            trim: true,
+            maxlength: [MAX_MODERATION_NOTE_LENGTH, `Note cannot exceed ${MAX_MODERATION_NOTE_LENGTH} characters`],
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+// The moderation log, newest first
+moderationActionSchema.index({ createdAt: -1, _id: -1 });
+
+const ModerationAction = mongoose.model<IModerationAction>('ModerationAction', moderationActionSchema);
+
+export default ModerationAction;
@@ -0,0 +1,82 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// 'application' goes to the poster of an internship; 'application-update'
+// tells an applicant their application moved to another stage. 'team-request'
+// goes to a hackathon team's lead; 'team-update' answers the student who asked.
+// 'moderation-warning' comes from a moderator about a post or comment
+export const NOTIFICATION_TYPES = [
+    'like',
+    'comment',
+    'reply',
+    'mention',
+    'application',
+    'application-update',
+    'team-request',
+    'team-update',
+    'moderation-warning',
+] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+// Notifications are pruned automatically after this many days
+export const NOTIFICATION_TTL_DAYS = 90;
+
+/**
+ * Something that happened to a user's content. One document per actor and
+ * event; the API groups them per post and type for display.
+ */
+export interface INotification extends Document {
+    _id: mongoose.Types.ObjectId;
+    recipient: mongoose.Types.ObjectId;
+    actor: mongoose.Types.ObjectId;
+    type: NotificationType;
+    post: mongoose.Types.ObjectId;
+    comment?: mongoose.Types.ObjectId;
+    readAt: Date | null;
+    createdAt: Date;
+}
+
+const notificationSchema = new Schema<INotification>(
+    {
+        recipient: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        actor: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        type: {
+            type: String,
+            enum: NOTIFICATION_TYPES,
+            required: true,
+        },
+        post: {
+            type: Schema.Types.ObjectId,
+            ref: 'Post',
+            required: true,
+        },
+        comment: {
+            type: Schema.Types.ObjectId,
+            ref: 'Comment',
+        },
+        readAt: {
+            type: Date,
+            default: null,
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+    }
+);
+
+// Backs the notification list and the unread count
+notificationSchema.index({ recipient: 1, createdAt: -1 });
+notificationSchema.index({ recipient: 1, readAt: 1 });
+
+notificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: NOTIFICATION_TTL_DAYS * 24 * 60 * 60 });
+
+const Notification = mongoose.model<INotification>('Notification', notificationSchema);
+
+export default Notification;
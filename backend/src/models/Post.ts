@@ -1,9 +1,25 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, FilterQuery, Schema } from 'mongoose';
 import { IUser } from './User';
+import { IPostAttachment, MAX_POST_ATTACHMENTS } from './Attachment';
 
-export type PostType = 'project' | 'hackathon' | 'internship';
+export const POST_TYPES = ['project', 'hackathon', 'internship'] as const;
+export type PostType = typeof POST_TYPES[number];
 
-export interface IComment {
+export const PROJECT_STATUSES = ['idea', 'in-progress', 'completed'] as const;
+export type ProjectStatus = typeof PROJECT_STATUSES[number];
+
+export const WORK_MODES = ['on-site', 'remote', 'hybrid'] as const;
+export type WorkMode = typeof WORK_MODES[number];
+
+export const STIPEND_PERIODS = ['month', 'total'] as const;
+export type StipendPeriod = typeof STIPEND_PERIODS[number];
+
+export const MAX_TECH_STACK = 10;
+export const MAX_TEAM_SIZE = 20;
+
+// Comments used to be embedded in posts. They now live in the Comment
+// collection; this shape is only read to migrate posts created before that.
+export interface ILegacyComment {
     _id: mongoose.Types.ObjectId;
     user: mongoose.Types.ObjectId | IUser;
     text: string;
@@ -15,16 +31,62 @@ export interface IPost extends Document {
     type: PostType;
     title: string;
     description: string;
+    // Unset on posts written before descriptions were stored as Markdown
+    isMarkdown?: boolean;
     tags: string[];
+    attachments: IPostAttachment[];
     author: mongoose.Types.ObjectId | IUser;
     likes: number;
     likedBy: mongoose.Types.ObjectId[];
     commentCount: number;
-    commentsList: IComment[];
+    commentsList?: ILegacyComment[];
+    // Set when a moderator hides the post from everyone
+    hiddenAt?: Date;
+    // Set while the post is in the trash; it is purged after POST_TRASH_RETENTION_DAYS
+    deletedAt?: Date;
+    deletedBy?: mongoose.Types.ObjectId;
     createdAt: Date;
 }
 
-const commentSchema = new Schema<IComment>(
+// Type-specific fields live on discriminators keyed by `type`. They are all
+// optional in the schema because posts written before they existed have none;
+// the API requires the essential ones when a post is created or edited.
+
+export interface IProjectPost extends IPost {
+    type: 'project';
+    repoUrl?: string;
+    techStack: string[];
+    status?: ProjectStatus;
+}
+
+export interface IHackathonPost extends IPost {
+    type: 'hackathon';
+    startDate?: Date;
+    endDate?: Date;
+    isOnline?: boolean;
+    location?: string;
+    teamSize?: { min?: number; max?: number };
+    registrationUrl?: string;
+}
+
+export interface IInternshipPost extends IPost {
+    type: 'internship';
+    company?: string;
+    location?: string;
+    workMode?: WorkMode;
+    stipend?: { min?: number; max?: number; currency?: string; period?: StipendPeriod };
+    durationMonths?: number;
+    applicationDeadline?: Date;
+}
+
+// The fields each type adds, in the order they are returned to clients
+export const POST_DETAIL_FIELDS: Record<PostType, readonly string[]> = {
+    project: ['repoUrl', 'techStack', 'status'],
+    hackathon: ['startDate', 'endDate', 'isOnline', 'location', 'teamSize', 'registrationUrl'],
+    internship: ['company', 'location', 'workMode', 'stipend', 'durationMonths', 'applicationDeadline'],
+};
+
+const legacyCommentSchema = new Schema<ILegacyComment>(
     {
         user: {
             type: Schema.Types.ObjectId,
@@ -42,11 +104,24 @@ const commentSchema = new Schema<IComment>(
     }
 );
 
+// Copy of the attachment's public fields; _id is the Attachment's id
+const postAttachmentSchema = new Schema<IPostAttachment>(
+    {
+        url: { type: String, required: true },
+        name: { type: String, required: true },
+        mimeType: { type: String, required: true },
+        size: { type: Number, required: true },
+        kind: { type: String, enum: ['image', 'document'], required: true },
+        width: Number,
+        height: Number,
+    }
+);
+
 const postSchema = new Schema<IPost>(
     {
         type: {
             type: String,
-            enum: ['project', 'hackathon', 'internship'],
+            enum: POST_TYPES,
             required: [true, 'Post type is required'],
         },
         title: {
@@ -60,6 +135,9 @@ const postSchema = new Schema<IPost>(
             required: [true, 'Description is required'],
             maxlength: [1000, 'Description cannot exceed 1000 characters'],
         },
+        isMarkdown: {
+            type: Boolean,
+        },
         tags: {
             type: [String],
             default: [],
@@ -70,6 +148,14 @@ const postSchema = new Schema<IPost>(
                 message: 'Cannot have more than 5 tags',
             },
         },
+        attachments: {
+            type: [postAttachmentSchema],
+            default: [],
+            validate: {
+                validator: (attachments: IPostAttachment[]) => attachments.length <= MAX_POST_ATTACHMENTS,
+                message: `Cannot have more than ${MAX_POST_ATTACHMENTS} attachments`,
+            },
+        },
         author: {
             type: Schema.Types.ObjectId,
             ref: 'User',
@@ -87,16 +173,87 @@ const postSchema = new Schema<IPost>(
             type: Number,
             default: 0,
         },
+        // Legacy embedded comments - see ILegacyComment
         commentsList: {
-            type: [commentSchema],
-            default: [],
+            type: [legacyCommentSchema],
+            default: undefined,
+        },
+        hiddenAt: {
+            type: Date,
+        },
+        deletedAt: {
+            type: Date,
+        },
+        deletedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
         },
     },
     {
         timestamps: true,
+        discriminatorKey: 'type',
     }
 );
 
+// Indexes backing cursor pagination ({ createdAt: -1, _id: -1 }) and the feed filters
+postSchema.index({ createdAt: -1, _id: -1 });
+postSchema.index({ type: 1, createdAt: -1, _id: -1 });
+postSchema.index({ tags: 1, createdAt: -1, _id: -1 });
+postSchema.index({ author: 1, createdAt: -1, _id: -1 });
+
+// The trash (newest deletion first) and the purge of expired entries
+postSchema.index(
+    { deletedAt: -1, _id: -1 },
+    { partialFilterExpression: { deletedAt: { $exists: true } } }
+);
+
+// Full-text index for /posts/search - title matches rank above tags and description
+postSchema.index(
+    { title: 'text', tags: 'text', description: 'text' },
+    { name: 'post_text_search', weights: { title: 10, tags: 5, description: 1 } }
+);
+
+// Posts anyone can see; merge into every query that serves posts to users
+export const VISIBLE_POSTS: FilterQuery<IPost> = { hiddenAt: { $exists: false } };
+
+/**
+ * The author's ID. Posts populate their author by default, and the populated
+ * author is null once the account has been deleted; the stored ID survives.
+ */
+export const postAuthorId = (post: IPost): mongoose.Types.ObjectId =>
+    (post.populated('author') as mongoose.Types.ObjectId | undefined) ?? post.author._id;
+
+// The largest team a hackathon allows: its own maximum, or the largest any hackathon allows
+export const teamMaxSize = (post: IHackathonPost): number => post.teamSize?.max ?? MAX_TEAM_SIZE;
+
+// Posts in the trash; queries must name deletedAt to reach them (see below)
+export const TRASHED_POSTS: FilterQuery<IPost> = { deletedAt: { $exists: true } };
+
+const NOT_TRASHED: FilterQuery<IPost> = { deletedAt: { $exists: false } };
+
+// Trashed posts are left out of every query by default. Queries that filter
+// on deletedAt themselves - the trash, restore and purge - are left alone.
+postSchema.pre(['find', 'findOne', 'findOneAndUpdate', 'countDocuments', 'updateOne', 'updateMany'], function (next) {
+    if (!('deletedAt' in this.getFilter())) {
+        this.where(NOT_TRASHED);
+    }
+    next();
+});
+
+postSchema.pre('aggregate', function (next) {
+    const pipeline = this.pipeline();
+    const first = pipeline[0];
+    // Merged into a leading $match, which must stay first when it holds $text
+    if (first && '$match' in first) {
+        if (!('deletedAt' in first.$match)) {
+            first.$match = { ...first.$match, ...NOT_TRASHED };
+        }
+    } else {
+        pipeline.unshift({ $match: NOT_TRASHED });
+    }
+    next();
+});
+
 // Populate author by default
 postSchema.pre(/^find/, function (next) {
     (this as mongoose.Query<IPost[], IPost>).populate({
@@ -108,4 +265,83 @@ postSchema.pre(/^find/, function (next) {
 
 const Post = mongoose.model<IPost>('Post', postSchema);
 
+export const ProjectPost = Post.discriminator<IProjectPost>('project', new Schema<IProjectPost>({
+    repoUrl: {
+        type: String,
+        trim: true,
+        maxlength: [300, 'Repository URL cannot exceed 300 characters'],
+    },
+    techStack: {
+        type: [{ type: String, trim: true, maxlength: [30, 'Technology cannot exceed 30 characters'] }],
+        default: [],
+        validate: {
+            validator: (techStack: string[]) => techStack.length <= MAX_TECH_STACK,
+            message: `Cannot list more than ${MAX_TECH_STACK} technologies`,
+        },
+    },
+    status: {
+        type: String,
+        enum: PROJECT_STATUSES,
+    },
+}));
+
+export const HackathonPost = Post.discriminator<IHackathonPost>('hackathon', new Schema<IHackathonPost>({
+    startDate: Date,
+    endDate: {
+        type: Date,
+        validate: {
+            validator: function (this: IHackathonPost, endDate: Date) {
+                return !this.startDate || endDate >= this.startDate;
+            },
+            message: 'End date cannot be before the start date',
+        },
+    },
+    isOnline: {
+        type: Boolean,
+    },
+    location: {
+        type: String,
+        trim: true,
+        maxlength: [100, 'Location cannot exceed 100 characters'],
+    },
+    teamSize: {
+        min: { type: Number, min: 1, max: MAX_TEAM_SIZE },
+        max: { type: Number, min: 1, max: MAX_TEAM_SIZE },
+    },
+    registrationUrl: {
+        type: String,
+        trim: true,
+        maxlength: [300, 'Registration URL cannot exceed 300 characters'],
+    },
+}));
+
+export const InternshipPost = Post.discriminator<IInternshipPost>('internship', new Schema<IInternshipPost>({
+    company: {
+        type: String,
+        trim: true,
+        maxlength: [100, 'Company cannot exceed 100 characters'],
+    },
+    location: {
+        type: String,
+        trim: true,
+        maxlength: [100, 'Location cannot exceed 100 characters'],
+    },
+    workMode: {
+        type: String,
+        enum: WORK_MODES,
+    },
+    stipend: {
+        min: { type: Number, min: 0 },
+        max: { type: Number, min: 0 },
+        currency: { type: String, uppercase: true, trim: true },
+        period: { type: String, enum: STIPEND_PERIODS },
+    },
+    durationMonths: {
+        type: Number,
+        min: [1, 'Duration must be at least 1 month'],
+        max: [24, 'Duration cannot exceed 24 months'],
+    },
+    applicationDeadline: Date,
+}));
+
 export default Post;
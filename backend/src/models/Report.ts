@@ -0,0 +1,79 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const REPORT_REASONS = ['spam', 'harassment', 'hate', 'inappropriate', 'misinformation', 'other'] as const;
+export type ReportReason = typeof REPORT_REASONS[number];
+
+// 'open' reports are in the moderation queue until a moderator dismisses
+// them or acts on the reported content
+export const REPORT_STATUSES = ['open', 'dismissed', 'actioned'] as const;
+export type ReportStatus = typeof REPORT_STATUSES[number];
+
+export const MAX_REPORT_DETAILS_LENGTH = 500;
+
+/**
+ * A user flagging a post, or a comment on it, for moderators. Each user
+ * can report a given post or comment once.
+ */
+export interface IReport extends Document {
+    _id: mongoose.Types.ObjectId;
+    reporter: mongoose.Types.ObjectId;
+    post: mongoose.Types.ObjectId;
+    // null when the post itself is reported
+    comment: mongoose.Types.ObjectId | null;
+    reason: ReportReason;
+    details?: string;
+    status: ReportStatus;
+    resolvedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const reportSchema = new Schema<IReport>(
+    {
+        reporter: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        post: {
+            type: Schema.Types.ObjectId,
+            ref: 'Post',
+            required: true,
+        },
+        comment: {
+            type: Schema.Types.ObjectId,
+            ref: 'Comment',
+            default: null,
+        },
+        reason: {
+            type: String,
+            enum: REPORT_REASONS,
+            required: true,
+        },
+        details: {
+            type: String,
+            trim: true,
+            maxlength: [MAX_REPORT_DETAILS_LENGTH, `Details cannot exceed ${MAX_REPORT_DETAILS_LENGTH} characters`],
+        },
+        status: {
+            type: String,
+            enum: REPORT_STATUSES,
+            default: 'open',
+        },
+        resolvedAt: {
+            type: Date,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// One report per user and post or comment
+reportSchema.index({ reporter: 1, post: 1, comment: 1 }, { unique: true });
+// The moderation queue groups open reports by what they point at
+reportSchema.index({ status: 1, post: 1, comment: 1 });
+
+const Report = mongoose.model<IReport>('Report', reportSchema);
+
+export default Report;
@@ -0,0 +1,92 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * A signed-in device. Each session owns one rotating refresh token; access
+ * tokens carry the session ID so revoking the session invalidates them too.
+ */
+export interface ISession extends Document {
+    _id: mongoose.Types.ObjectId;
+    user: mongoose.Types.ObjectId;
+    refreshTokenHash: string;
+    // Hash of the token that was rotated out, kept to detect refresh token reuse
+    previousTokenHash?: string;
+    // When previousTokenHash was rotated out; it is honoured for a short grace period
+    rotatedAt?: Date;
+    userAgent: string;
+    device: string;
+    ip: string;
+    location: string;
+    lastUsedAt: Date;
+    expiresAt: Date;
+    revokedAt?: Date;
+    createdAt: Date;
+    isActive(): boolean;
+}
+
+const sessionSchema = new Schema<ISession>(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+            index: true,
+        },
+        refreshTokenHash: {
+            type: String,
+            required: true,
+            unique: true,
+            select: false,
+        },
+        previousTokenHash: {
+            type: String,
+            select: false,
+            index: true,
+        },
+        rotatedAt: {
+            type: Date,
+        },
+        userAgent: {
+            type: String,
+            default: '',
+            maxlength: 512,
+        },
+        device: {
+            type: String,
+            default: 'Unknown device',
+        },
+        ip: {
+            type: String,
+            default: 'unknown',
+        },
+        location: {
+            type: String,
+            default: 'Unknown location',
+        },
+        lastUsedAt: {
+            type: Date,
+            default: Date.now,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+        revokedAt: {
+            type: Date,
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// MongoDB removes sessions once their refresh token has expired
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Active = not revoked and refresh token not yet expired
+sessionSchema.methods.isActive = function (): boolean {
+    return !this.revokedAt && this.expiresAt > new Date();
+};
+
+const Session = mongoose.model<ISession>('Session', sessionSchema);
+
+export default Session;
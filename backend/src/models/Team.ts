@@ -0,0 +1,121 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const JOIN_REQUEST_STATUSES = ['pending', 'approved', 'declined', 'withdrawn'] as const;
+export type JoinRequestStatus = typeof JOIN_REQUEST_STATUSES[number];
+
+export const MAX_TEAM_NAME_LENGTH = 60;
+export const MAX_TEAM_DESCRIPTION_LENGTH = 500;
+export const MAX_TEAM_ROLE_LENGTH = 40;
+export const MAX_JOIN_MESSAGE_LENGTH = 500;
+
+export interface ITeamMember {
+    user: mongoose.Types.ObjectId;
+    // What they do on the team, e.g. "Designer"; the lead is marked by `lead`
+    role?: string;
+    joinedAt: Date;
+}
+
+export interface IJoinRequest {
+    _id: mongoose.Types.ObjectId;
+    user: mongoose.Types.ObjectId;
+    // One of the team's open roles, when the request is for a specific slot
+    role?: string;
+    message?: string;
+    status: JoinRequestStatus;
+    createdAt: Date;
+    decidedAt?: Date;
+}
+
+/**
+ * A team forming for a hackathon post. The creator leads it and decides on
+ * join requests; `openRoles` are the slots still looking for someone.
+ */
+export interface ITeam extends Document {
+    _id: mongoose.Types.ObjectId;
+    post: mongoose.Types.ObjectId;
+    name: string;
+    description?: string;
+    lead: mongoose.Types.ObjectId;
+    members: ITeamMember[];
+    // The hackathon's team size, updated when the post's changes
+    maxSize: number;
+    openRoles: string[];
+    joinRequests: IJoinRequest[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const teamMemberSchema = new Schema<ITeamMember>(
+    {
+        user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        role: { type: String, maxlength: MAX_TEAM_ROLE_LENGTH },
+        joinedAt: { type: Date, default: Date.now },
+    },
+    { _id: false }
+);
+
+const joinRequestSchema = new Schema<IJoinRequest>(
+    {
+        user: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        role: { type: String, maxlength: MAX_TEAM_ROLE_LENGTH },
+        message: { type: String, maxlength: MAX_JOIN_MESSAGE_LENGTH },
+        status: { type: String, enum: JOIN_REQUEST_STATUSES, default: 'pending' },
+        decidedAt: Date,
+    },
+    { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+const teamSchema = new Schema<ITeam>(
+    {
+        post: {
+            type: Schema.Types.ObjectId,
+            ref: 'Post',
+            required: true,
+        },
+        name: {
+            type: String,
+            required: [true, 'Team name is required'],
+            trim: true,
+            maxlength: [MAX_TEAM_NAME_LENGTH, `Team name cannot exceed ${MAX_TEAM_NAME_LENGTH} characters`],
+        },
+        description: {
+            type: String,
+            trim: true,
+            maxlength: [MAX_TEAM_DESCRIPTION_LENGTH, `Description cannot exceed ${MAX_TEAM_DESCRIPTION_LENGTH} characters`],
+        },
+        lead: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        members: {
+            type: [teamMemberSchema],
+            default: [],
+        },
+        maxSize: {
+            type: Number,
+            required: true,
+            min: 1,
+        },
+        openRoles: {
+            type: [{ type: String, maxlength: MAX_TEAM_ROLE_LENGTH }],
+            default: [],
+        },
+        joinRequests: {
+            type: [joinRequestSchema],
+            default: [],
+        },
+    },
+    {
+        timestamps: true,
+    }
+);
+
+// A hackathon's teams, oldest first
+teamSchema.index({ post: 1, createdAt: 1 });
+// A student is on at most one team per hackathon
+teamSchema.index({ post: 1, 'members.user': 1 }, { unique: true });
+
+const Team = mongoose.model<ITeam>('Team', teamSchema);
+
+export default Team;
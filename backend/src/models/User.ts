@@ -1,7 +1,22 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
 
-export type UserRole = 'student' | 'admin';
+export const USER_ROLES = ['student', 'admin'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+// Derived from suspendedUntil and bannedAt, never stored
+export const ACCOUNT_STATUSES = ['active', 'suspended', 'banned'] as const;
+export type AccountStatus = typeof ACCOUNT_STATUSES[number];
+
+export const AVAILABILITY_STATUSES = ['open-to-internships', 'looking-for-team', 'not-looking'] as const;
+export type Availability = typeof AVAILABILITY_STATUSES[number];
+
+export const MAX_SKILLS = 20;
+export const MAX_RESTRICTION_REASON_LENGTH = 500;
+export const MAX_SUSPENSION_DAYS = 365;
+
+export const PROFILE_LINK_KEYS = ['github', 'linkedin', 'portfolio', 'resume'] as const;
+export type IUserLinks = Partial<Record<typeof PROFILE_LINK_KEYS[number], string>>;
 
 export interface IUser extends Document {
     _id: mongoose.Types.ObjectId;
@@ -10,10 +25,22 @@ export interface IUser extends Document {
     password: string;
     role: UserRole;
     bio?: string;
+    avatar?: string;
+    avatarKey?: string;
+    skills: string[];
+    university?: string;
+    major?: string;
+    graduationYear?: number;
+    links?: IUserLinks;
+    availability?: Availability;
     passwordResetToken?: string;
     passwordResetExpires?: Date;
     isEmailVerified: boolean;
     emailVerificationToken?: string;
+    blockedUsers: mongoose.Types.ObjectId[];
+    suspendedUntil?: Date;
+    bannedAt?: Date;
+    restrictionReason?: string;
     createdAt: Date;
     comparePassword(candidatePassword: string): Promise<boolean>;
 }
@@ -42,7 +69,7 @@ const userSchema = new Schema<IUser>(
         },
         role: {
             type: String,
-            enum: ['student', 'admin'],
+            enum: USER_ROLES,
             default: 'student',
         },
         bio: {
@@ -50,6 +77,48 @@ const userSchema = new Schema<IUser>(
             trim: true,
             maxlength: [200, 'Bio cannot exceed 200 characters'],
         },
+        // Public URL of the uploaded avatar; unset means the generated default
+        avatar: {
+            type: String,
+        },
+        // Storage key prefix of the avatar's resized variants, used to delete them
+        avatarKey: {
+            type: String,
+            select: false,
+        },
+        skills: {
+            type: [{ type: String, trim: true, maxlength: [30, 'Skill cannot exceed 30 characters'] }],
+            default: [],
+            validate: {
+                validator: (skills: string[]) => skills.length <= MAX_SKILLS,
+                message: `Cannot list more than ${MAX_SKILLS} skills`,
+            },
+        },
+        university: {
+            type: String,
+            trim: true,
+            maxlength: [100, 'University cannot exceed 100 characters'],
+        },
+        major: {
+            type: String,
+            trim: true,
+            maxlength: [100, 'Major cannot exceed 100 characters'],
+        },
+        graduationYear: {
+            type: Number,
+            min: [1950, 'Graduation year is too early'],
+            max: [2100, 'Graduation year is too late'],
+        },
+        links: {
+            github: { type: String, trim: true },
+            linkedin: { type: String, trim: true },
+            portfolio: { type: String, trim: true },
+            resume: { type: String, trim: true },
+        },
+        availability: {
+            type: String,
+            enum: AVAILABILITY_STATUSES,
+        },
         passwordResetToken: {
             type: String,
             select: false,
@@ -66,6 +135,25 @@ const userSchema = new Schema<IUser>(
             type: String,
             select: false,
         },
+        // Users who may not start or continue direct conversations with this user
+        blockedUsers: {
+            type: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+            default: [],
+        },
+        // Set by an admin; the account is locked out until this moment passes
+        suspendedUntil: {
+            type: Date,
+        },
+        // Set by an admin; the account stays locked out until an admin reinstates it
+        bannedAt: {
+            type: Date,
+        },
+        // Shown to the user when a suspension or ban turns them away
+        restrictionReason: {
+            type: String,
+            trim: true,
+            maxlength: [MAX_RESTRICTION_REASON_LENGTH, `Reason cannot exceed ${MAX_RESTRICTION_REASON_LENGTH} characters`],
+        },
     },
     {
         timestamps: true,
@@ -90,6 +178,13 @@ userSchema.methods.comparePassword = async function (
     return bcrypt.compare(candidatePassword, this.password);
 };
 
+// Backs profile filters in user search
+userSchema.index({ skills: 1 });
+userSchema.index({ availability: 1 });
+
+// Backs the admin user list, newest first
+userSchema.index({ createdAt: -1, _id: -1 });
+
 const User = mongoose.model<IUser>('User', userSchema);
 
 export default User;
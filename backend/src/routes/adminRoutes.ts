@@ -0,0 +1,112 @@
+/**
+ * Admin Routes
+ *
+ * SECURITY:
+ * - Every route requires an authenticated admin
+ * - Moderation actions are recorded and the records are never modified
+ * - Admins cannot suspend, ban or change the role of their own account
+ * - The audit log is read-only; entries are written by the audited actions
+ * - CSV exports are capped and defuse spreadsheet formulas
+ * - Input validation on params, body and query
+ */
+
+import express from 'express';
+import {
+    getReportQueue,
+    moderatePost,
+    moderateComment,
+    getModerationLog,
+} from '../controllers/moderationController';
+import {
+    getUsers,
+    getUserDetail,
+    suspendUser,
+    banUser,
+    reinstateUser,
+    updateUserRole,
+} from '../controllers/adminUserController';
+import { getAuditLog, exportAuditLog } from '../controllers/auditController';
+import { getStats } from '../controllers/statsController';
+import { getAllTrash } from '../controllers/postController';
+import { protect, adminOnly } from '../middlewares/auth';
+import {
+    moderationValidation,
+    reportQueueQueryValidation,
+    moderationLogQueryValidation,
+    adminUsersQueryValidation,
+    suspendUserValidation,
+    banUserValidation,
+    updateUserRoleValidation,
+    validateIdParam,
+    auditLogQueryValidation,
+    auditLogExportValidation,
+    statsQueryValidation,
+    trashQueryValidation,
+} from '../middlewares/validation';
+
+const router = express.Router();
+
+// ============================================================
+// All routes require an admin
+// ============================================================
+router.use(protect, adminOnly);
+
+// GET /admin/stats - Signups, posts, comments and likes over time, active users,
+// top tags, most engaged posts and verification rate
+// SECURITY: Admin only + dates validated + range capped at 366 days
+router.get('/stats', statsQueryValidation, getStats);
+
+// GET /admin/reports - Reported posts and comments, most reported first
+// SECURITY: Admin only + limit and page capped
+router.get('/reports', reportQueueQueryValidation, getReportQueue);
+
+// POST /admin/posts/:id/moderate - Dismiss reports, hide, delete or warn the author
+// SECURITY: Admin only + ObjectId validated + action checked against allowed values
+router.post('/posts/:id/moderate', moderationValidation, moderatePost);
+
+// POST /admin/comments/:id/moderate - Dismiss reports, hide, delete or warn the author
+// SECURITY: Admin only + ObjectId validated + action checked against allowed values
+router.post('/comments/:id/moderate', moderationValidation, moderateComment);
+
+// GET /admin/moderation-log - Every moderation action, newest first (cursor paginated)
+// SECURITY: Admin only + limit capped
+router.get('/moderation-log', moderationLogQueryValidation, getModerationLog);
+
+// GET /admin/trash - Everyone's deleted posts, most recently deleted first (cursor paginated)
+// SECURITY: Admin only + limit capped; restoring goes through POST /posts/:id/restore
+router.get('/trash', trashQueryValidation, getAllTrash);
+
+// GET /admin/users - All users, filtered by search, role, verification and status (cursor paginated)
+// SECURITY: Admin only + filters checked against allowed values + limit capped
+router.get('/users', adminUsersQueryValidation, getUsers);
+
+// GET /admin/users/:id - Account details with recent posts and comments, hidden ones included
+// SECURITY: Admin only + ObjectId validated
+router.get('/users/:id', validateIdParam, getUserDetail);
+
+// POST /admin/users/:id/suspend - Lock the user out until a date
+// SECURITY: Admin only + ObjectId validated + end date capped + sessions revoked
+router.post('/users/:id/suspend', suspendUserValidation, suspendUser);
+
+// POST /admin/users/:id/ban - Lock the user out until reinstated
+// SECURITY: Admin only + ObjectId validated + sessions revoked
+router.post('/users/:id/ban', banUserValidation, banUser);
+
+// POST /admin/users/:id/reinstate - Lift a suspension or ban
+// SECURITY: Admin only + ObjectId validated
+router.post('/users/:id/reinstate', validateIdParam, reinstateUser);
+
+// PATCH /admin/users/:id/role - Promote to admin or return to student
+// SECURITY: Admin only + ObjectId validated + role checked against allowed values
+router.patch('/users/:id/role', updateUserRoleValidation, updateUserRole);
+
+// GET /admin/audit-log - Audit log entries, newest first (cursor paginated);
+// target matches entries about the target and entries about content it owns
+// SECURITY: Admin only + filters validated + limit capped
+router.get('/audit-log', auditLogQueryValidation, getAuditLog);
+
+// GET /admin/audit-log/export - The filtered audit log as a CSV download
+// SECURITY: Admin only + filters validated + row count capped
+router.get('/audit-log/export', auditLogExportValidation, exportAuditLog);
+
+export default router;
@@ -0,0 +1,45 @@
+/**
+ * Application Routes (internship applications)
+ *
+ * SECURITY:
+ * - All routes require authentication
+ * - Applicants only ever see their own applications, without the poster's notes
+ * - Stage changes and notes are limited to the post's author and admins
+ *   (404 for everyone else)
+ * - Input validation on params, query and body
+ */
+
+import express from 'express';
+import {
+    getMyApplications,
+    updateApplicationStage,
+    addApplicationNote,
+} from '../controllers/applicationController';
+import { protect } from '../middlewares/auth';
+import {
+    validateIdParam,
+    applicationListQueryValidation,
+    applicationStageValidation,
+    applicationNoteValidation,
+} from '../middlewares/validation';
+
+const router = express.Router();
+
+// ============================================================
+// All routes require authentication
+// ============================================================
+router.use(protect);
+
+// GET /applications/mine - The current user's applications and their stages
+// SECURITY: Authenticated + scoped to the current user + limit capped
+router.get('/mine', applicationListQueryValidation, getMyApplications);
+
+// PATCH /applications/:id - Move an application to another stage
+// SECURITY: Authenticated + ObjectId validated + poster/admin only
+router.patch('/:id', validateIdParam, applicationStageValidation, updateApplicationStage);
+
+// POST /applications/:id/notes - Add a private note for the poster
+// SECURITY: Authenticated + ObjectId validated + poster/admin only + XSS sanitized
+router.post('/:id/notes', validateIdParam, applicationNoteValidation, addApplicationNote);
+
+export default router;
@@ -3,14 +3,26 @@
  * 
  * SECURITY:
  * - Stricter rate limiting on login/register (brute force prevention)
- * - Very strict rate limiting on password reset (abuse prevention)
+ * - Very strict rate limiting on password reset and verification emails (abuse prevention)
  * - Input validation on all endpoints
  * - Token parameter validation
+ * - Refresh tokens only accepted from the httpOnly cookie
  * - Database connection check to prevent request timeouts
  */
 
 import express from 'express';
-import { register, login, getMe, forgotPassword, resetPassword, verifyEmail } from '../controllers/authController';
+import {
+    register,
+    login,
+    getMe,
+    refresh,
+    logout,
+    logoutAll,
+    forgotPassword,
+    resetPassword,
+    verifyEmail,
+    resendVerification,
+} from '../controllers/authController';
 import { protect } from '../middlewares/auth';
 import {
     registerValidation,
@@ -35,6 +47,14 @@ router.post('/register', requireDBConnection, registerValidation, register);
 // SECURITY: Rate limited at server level + generic error messages + DB check
 router.post('/login', requireDBConnection, loginValidation, login);
 
+// POST /auth/refresh - Rotate the refresh cookie and issue a new access token
+// SECURITY: httpOnly cookie only + reuse detection + DB check
+router.post('/refresh', requireDBConnection, refresh);
+
+// POST /auth/logout - Revoke the current session
+// SECURITY: Revokes server-side so the refresh token and its access tokens stop working
+router.post('/logout', requireDBConnection, logout);
+
 // POST /auth/forgot-password - Request password reset
 // SECURITY: Very strict rate limit + no user enumeration + DB check
 router.post('/forgot-password', requireDBConnection, sensitiveLimiter, forgotPasswordValidation, forgotPassword);
@@ -55,6 +75,14 @@ router.get('/verify-email/:token', requireDBConnection, verifyEmail);
 // SECURITY: Requires valid JWT token + DB check
 router.get('/me', requireDBConnection, protect, getMe);
 
+// POST /auth/logout-all - Revoke every session of the current user
+// SECURITY: Requires valid JWT token + DB check
+router.post('/logout-all', requireDBConnection, protect, logoutAll);
+
+// POST /auth/resend-verification - Send a fresh verification email
+// SECURITY: Requires valid JWT token + very strict rate limit (sends email) + DB check
+router.post('/resend-verification', requireDBConnection, protect, sensitiveLimiter, resendVerification);
+
 export default router;
 
 
@@ -0,0 +1,69 @@
+/**
+ * Conversation Routes (direct messaging)
+ *
+ * SECURITY:
+ * - All routes require authentication
+ * - Conversations are only visible to their members (404 otherwise)
+ * - Blocked users cannot start or continue one-to-one conversations
+ * - Sending is rate limited and gated on email verification (when enabled)
+ * - Input validation on params, query and body
+ */
+
+import express from 'express';
+import {
+    getConversations,
+    createConversation,
+    getConversation,
+    getMessages,
+    sendMessage,
+    markConversationRead,
+} from '../controllers/messageController';
+import { protect, requireVerifiedEmail } from '../middlewares/auth';
+import { messageLimiter } from '../middlewares/rateLimiter';
+import {
+    validateIdParam,
+    conversationListQueryValidation,
+    createConversationValidation,
+    messageValidation,
+    messageListQueryValidation,
+} from '../middlewares/validation';
+
+const router = express.Router();
+
+// ============================================================
+// All routes require authentication
+// ============================================================
+router.use(protect);
+
+// GET /conversations - The current user's conversations plus total unread
+// SECURITY: Authenticated + scoped to the current user + limit capped
+router.get('/', conversationListQueryValidation, getConversations);
+
+// POST /conversations - Start (or reopen) a conversation
+// SECURITY: Authenticated + verified + participant ids validated + block check
+router.post('/', requireVerifiedEmail, createConversationValidation, createConversation);
+
+// GET /conversations/:id - Conversation details and read receipts
+// SECURITY: Authenticated + ObjectId validated + members only
+router.get('/:id', validateIdParam, getConversation);
+
+// GET /conversations/:id/messages - Paginated message history
+// SECURITY: Authenticated + ObjectId validated + members only
+router.get('/:id/messages', validateIdParam, messageListQueryValidation, getMessages);
+
+// POST /conversations/:id/messages - Send a message
+// SECURITY: Authenticated + verified + rate limited + XSS sanitized + members only
+router.post(
+    '/:id/messages',
+    requireVerifiedEmail,
+    messageLimiter,
+    validateIdParam,
+    messageValidation,
+    sendMessage
+);
+
+// POST /conversations/:id/read - Mark the conversation read
+// SECURITY: Authenticated + ObjectId validated + members only
+router.post('/:id/read', validateIdParam, markConversationRead);
+
+export default router;
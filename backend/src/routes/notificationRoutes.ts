@@ -0,0 +1,30 @@
+/**
+ * Notification Routes
+ *
+ * SECURITY:
+ * - All routes require authentication
+ * - Every query is scoped to the authenticated user
+ * - Input validation on query parameters and body
+ */
+
+import express from 'express';
+import { getNotifications, markNotificationsRead } from '../controllers/notificationController';
+import { protect } from '../middlewares/auth';
+import { notificationListQueryValidation, markNotificationsReadValidation } from '../middlewares/validation';
+
+const router = express.Router();
+
+// ============================================================
+// All routes require authentication
+// ============================================================
+router.use(protect);
+
+// GET /notifications - Grouped notifications plus the unread count
+// SECURITY: Authenticated + scoped to the current user + limit capped
+router.get('/', notificationListQueryValidation, getNotifications);
+
+// POST /notifications/read - Mark some (ids, or a post and type) or all notifications as read
+// SECURITY: Authenticated + ids and post validated as ObjectIds + scoped to the current user
+router.post('/read', markNotificationsReadValidation, markNotificationsRead);
+
+export default router;
@@ -6,27 +6,66 @@
  * - Input validation and sanitization on all mutation endpoints
  * - Authentication required for create/update/delete
  * - Rate limiting applied at server level + endpoint-specific limits
+ * - Attachment uploads are size-limited and their type is sniffed from the contents
+ * - Internship applicants are only visible to the post's author and admins
+ * - Hackathon teams are public; who asked to join one is only shown to its lead
+ * - The Following feed is built from the current user's own follows
+ * - Reports are limited to one per user and post or comment, and only admins see them
  */
 
 import express from 'express';
 import {
     getPosts,
+    searchPosts,
     getPost,
     createPost,
     updatePost,
     deletePost,
     likePost,
-    addComment,
+    getTrash,
+    restoreFromTrash,
 } from '../controllers/postController';
-import { protect } from '../middlewares/auth';
+import {
+    getComments,
+    addComment,
+    updateComment,
+    deleteComment,
+} from '../controllers/commentController';
+import { uploadAttachment } from '../controllers/attachmentController';
+import {
+    applyToPost,
+    getMyApplicationForPost,
+    getPostApplications,
+} from '../controllers/applicationController';
+import { bookmarkPost, removeBookmark } from '../controllers/bookmarkController';
+import { getFollowingFeed } from '../controllers/followController';
+import { reportPost, reportComment } from '../controllers/reportController';
+import {
+    getPostTeams,
+    getMyTeamStatus,
+    createTeam,
+} from '../controllers/teamController';
+import { protect, requireVerifiedEmail } from '../middlewares/auth';
 import {
     createPostValidation,
     updatePostValidation,
     commentValidation,
+    updateCommentValidation,
+    commentListQueryValidation,
+    validateCommentParams,
+    reportValidation,
     validateIdParam,
-    postTypeQueryValidation,
+    postListQueryValidation,
+    postSearchValidation,
+    followingFeedQueryValidation,
+    applicationValidation,
+    applicationListQueryValidation,
+    createTeamValidation,
+    bookmarkValidation,
+    trashQueryValidation,
 } from '../middlewares/validation';
-import { createLimiter } from '../middlewares/rateLimiter';
+import { createLimiter, uploadLimiter } from '../middlewares/rateLimiter';
+import { attachmentUpload } from '../middlewares/upload';
 
 const router = express.Router();
 
@@ -34,37 +73,109 @@ const router = express.Router();
 // Public Routes
 // ============================================================
 
-// GET /posts - List all posts with optional type filter
-// SECURITY: Query parameter validated against allowed values
-router.get('/', postTypeQueryValidation, getPosts);
+// GET /posts - List posts (cursor paginated) with type/tags/author/date filters
+// SECURITY: Query parameters validated and limit capped
+router.get('/', postListQueryValidation, getPosts);
+
+// GET /posts/search - Full-text search with relevance ranking
+// SECURITY: Query length capped; must be registered before /:id
+router.get('/search', postSearchValidation, searchPosts);
+
+// GET /posts/following - Posts by followed users or with followed tags (cursor paginated)
+// SECURITY: Authenticated + query parameters validated; must be registered before /:id
+router.get('/following', protect, followingFeedQueryValidation, getFollowingFeed);
+
+// GET /posts/trash - The current user's deleted posts, until they are purged (cursor paginated)
+// SECURITY: Authenticated + scoped to the current user's posts; must be registered before /:id
+router.get('/trash', protect, trashQueryValidation, getTrash);
 
 // GET /posts/:id - Get single post by ID
 // SECURITY: ObjectId format validated to prevent NoSQL injection
 router.get('/:id', validateIdParam, getPost);
 
+// GET /posts/:id/comments - Top-level comments, or replies with ?parentId= (cursor paginated)
+// SECURITY: ObjectIds validated + limit capped
+router.get('/:id/comments', validateIdParam, commentListQueryValidation, getComments);
+
+// GET /posts/:id/teams - Teams forming for a hackathon, with their open roles
+// SECURITY: ObjectId validated; join requests are not included
+router.get('/:id/teams', validateIdParam, getPostTeams);
+
 // ============================================================
 // Protected Routes (require authentication)
 // ============================================================
 
 // POST /posts - Create new post
-// SECURITY: Authenticated + validated input + rate limited
-router.post('/', protect, createLimiter, createPostValidation, createPost);
+// SECURITY: Authenticated + verified email (if required) + validated input + rate limited
+router.post('/', protect, requireVerifiedEmail, createLimiter, createPostValidation, createPost);
+
+// POST /posts/attachments - Upload a file to attach to a post (multipart field "file")
+// SECURITY: Authenticated + verified email (if required) + rate limited + size-limited + type sniffed
+router.post('/attachments', protect, requireVerifiedEmail, uploadLimiter, attachmentUpload, uploadAttachment);
 
 // PUT /posts/:id - Update post
 // SECURITY: Authenticated + owner/admin check + validated input
 router.put('/:id', protect, validateIdParam, updatePostValidation, updatePost);
 
-// DELETE /posts/:id - Delete post
+// DELETE /posts/:id - Move post to the trash
 // SECURITY: Authenticated + owner/admin check
 router.delete('/:id', protect, validateIdParam, deletePost);
 
+// POST /posts/:id/restore - Restore a post from the trash
+// SECURITY: Authenticated + owner/admin check; posts removed by an admin need an admin
+router.post('/:id/restore', protect, validateIdParam, restoreFromTrash);
+
 // POST /posts/:id/like - Like/unlike a post
 // SECURITY: Authenticated + ObjectId validated
 router.post('/:id/like', protect, validateIdParam, likePost);
 
-// POST /posts/:id/comments - Add a comment
-// SECURITY: Authenticated + ObjectId validated + comment text sanitized
-router.post('/:id/comments', protect, validateIdParam, commentValidation, addComment);
+// POST /posts/:id/bookmark - Save a post, optionally to one of the user's collections
+// SECURITY: Authenticated + ObjectIds validated + collection ownership checked
+router.post('/:id/bookmark', protect, validateIdParam, bookmarkValidation, bookmarkPost);
+
+// DELETE /posts/:id/bookmark - Remove a post from the saved list
+// SECURITY: Authenticated + ObjectId validated + only touches the current user's bookmark
+router.delete('/:id/bookmark', protect, validateIdParam, removeBookmark);
+
+// POST /posts/:id/comments - Add a comment, or a reply with parentId
+// SECURITY: Authenticated + verified email (if required) + ObjectId validated + comment text sanitized
+router.post('/:id/comments', protect, requireVerifiedEmail, validateIdParam, commentValidation, addComment);
+
+// PUT /posts/:id/comments/:commentId - Edit a comment
+// SECURITY: Authenticated + owner/admin check + comment text sanitized
+router.put('/:id/comments/:commentId', protect, validateCommentParams, updateCommentValidation, updateComment);
+
+// DELETE /posts/:id/comments/:commentId - Soft delete a comment (replies are kept)
+// SECURITY: Authenticated + owner/admin check
+router.delete('/:id/comments/:commentId', protect, validateCommentParams, deleteComment);
+
+// POST /posts/:id/report - Report a post to moderators
+// SECURITY: Authenticated + rate limited + ObjectId validated + one report per user + details sanitized
+router.post('/:id/report', protect, createLimiter, validateIdParam, reportValidation, reportPost);
+
+// POST /posts/:id/comments/:commentId/report - Report a comment to moderators
+// SECURITY: Authenticated + rate limited + ObjectIds validated + one report per user + details sanitized
+router.post('/:id/comments/:commentId/report', protect, createLimiter, validateCommentParams, reportValidation, reportComment);
+
+// POST /posts/:id/applications - Apply to an internship with a cover note
+// SECURITY: Authenticated + verified email (if required) + rate limited + one application per post
+router.post('/:id/applications', protect, requireVerifiedEmail, createLimiter, validateIdParam, applicationValidation, applyToPost);
+
+// GET /posts/:id/applications/mine - The current user's application to this post
+// SECURITY: Authenticated + scoped to the current user
+router.get('/:id/applications/mine', protect, validateIdParam, getMyApplicationForPost);
+
+// GET /posts/:id/applications - Applicants and their pipeline stages
+// SECURITY: Authenticated + post author/admin only + limit capped
+router.get('/:id/applications', protect, validateIdParam, applicationListQueryValidation, getPostApplications);
+
+// POST /posts/:id/teams - Start a team for a hackathon
+// SECURITY: Authenticated + verified email (if required) + rate limited + one team per student and hackathon
+router.post('/:id/teams', protect, requireVerifiedEmail, createLimiter, validateIdParam, createTeamValidation, createTeam);
+
+// GET /posts/:id/teams/mine - The current user's team and pending join requests
+// SECURITY: Authenticated + scoped to the current user
+router.get('/:id/teams/mine', protect, validateIdParam, getMyTeamStatus);
 
 export default router;
 
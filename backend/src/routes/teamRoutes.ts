@@ -0,0 +1,67 @@
+/**
+ * Team Routes (hackathon team formation)
+ *
+ * SECURITY:
+ * - All routes require authentication
+ * - Editing a team and deciding on join requests are limited to its lead
+ * - Members can leave; the lead and admins can remove members or disband
+ * - Input validation on params and body
+ */
+
+import express from 'express';
+import {
+    updateTeam,
+    deleteTeam,
+    requestToJoin,
+    withdrawJoinRequest,
+    getJoinRequests,
+    decideJoinRequest,
+    removeTeamMember,
+} from '../controllers/teamController';
+import { protect, requireVerifiedEmail } from '../middlewares/auth';
+import { createLimiter } from '../middlewares/rateLimiter';
+import {
+    validateIdParam,
+    updateTeamValidation,
+    joinRequestValidation,
+    joinDecisionValidation,
+    validateJoinRequestParams,
+    validateTeamMemberParams,
+} from '../middlewares/validation';
+
+const router = express.Router();
+
+// ============================================================
+// All routes require authentication
+// ============================================================
+router.use(protect);
+
+// PATCH /teams/:id - Rename the team or change its open roles
+// SECURITY: Authenticated + ObjectId validated + lead only + XSS sanitized
+router.patch('/:id', validateIdParam, updateTeamValidation, updateTeam);
+
+// DELETE /teams/:id - Disband the team
+// SECURITY: Authenticated + ObjectId validated + lead/admin only
+router.delete('/:id', validateIdParam, deleteTeam);
+
+// GET /teams/:id/requests - Pending join requests
+// SECURITY: Authenticated + ObjectId validated + lead only
+router.get('/:id/requests', validateIdParam, getJoinRequests);
+
+// POST /teams/:id/requests - Ask to join the team
+// SECURITY: Authenticated + verified email (if required) + rate limited + XSS sanitized
+router.post('/:id/requests', requireVerifiedEmail, createLimiter, validateIdParam, joinRequestValidation, requestToJoin);
+
+// DELETE /teams/:id/requests/mine - Withdraw the current user's pending request
+// SECURITY: Authenticated + scoped to the current user
+router.delete('/:id/requests/mine', validateIdParam, withdrawJoinRequest);
+
+// PATCH /teams/:id/requests/:requestId - Approve or decline a join request
+// SECURITY: Authenticated + ObjectIds validated + lead only
+router.patch('/:id/requests/:requestId', validateJoinRequestParams, joinDecisionValidation, decideJoinRequest);
+
+// DELETE /teams/:id/members/:userId - Leave the team, or remove a member
+// SECURITY: Authenticated + ObjectIds validated + self, lead or admin
+router.delete('/:id/members/:userId', validateTeamMemberParams, removeTeamMember);
+
+export default router;
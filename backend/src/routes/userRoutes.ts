@@ -5,12 +5,54 @@
  * - All routes require authentication
  * - Input validation and sanitization
  * - Search query sanitization to prevent NoSQL injection
+ * - Avatar uploads are size-limited and re-encoded server-side
+ * - Bookmarks and collections are private to their owner
+ * - Who a user follows is private; profiles only show follow counts
  */
 
 import express from 'express';
-import { updateMe, searchUsers } from '../controllers/userController';
+import {
+    updateMe,
+    uploadAvatar,
+    removeAvatar,
+    getMySessions,
+    revokeMySession,
+    revokeOtherSessions,
+    getBlockedUsers,
+    blockUser,
+    unblockUser,
+    getUserProfile,
+    getUserComments,
+    searchUsers,
+} from '../controllers/userController';
+import {
+    getMyBookmarks,
+    getMyBookmarkIds,
+    getMyCollections,
+    createCollection,
+    renameCollection,
+    deleteCollection,
+} from '../controllers/bookmarkController';
+import {
+    followUser,
+    unfollowUser,
+    followTag,
+    unfollowTag,
+    getMyFollows,
+} from '../controllers/followController';
 import { protect } from '../middlewares/auth';
-import { updateProfileValidation, searchValidation } from '../middlewares/validation';
+import { createLimiter } from '../middlewares/rateLimiter';
+import { avatarUpload } from '../middlewares/upload';
+import {
+    updateProfileValidation,
+    searchValidation,
+    validateIdParam,
+    userCommentsQueryValidation,
+    bookmarkListQueryValidation,
+    bookmarkCollectionValidation,
+    followTagValidation,
+    validateTagParam,
+} from '../middlewares/validation';
 
 const router = express.Router();
 
@@ -23,6 +65,90 @@ router.use(protect);
 // SECURITY: Authenticated + validated input + limited fields
 router.put('/me', updateProfileValidation, updateMe);
 
+// POST /users/me/avatar - Upload a new avatar (multipart field "avatar")
+// SECURITY: Authenticated + rate limited + size-limited + contents verified by decoding
+router.post('/me/avatar', createLimiter, avatarUpload, uploadAvatar);
+
+// DELETE /users/me/avatar - Go back to the generated avatar
+// SECURITY: Authenticated + only modifies the current user
+router.delete('/me/avatar', removeAvatar);
+
+// GET /users/me/sessions - List devices the user is signed in on
+// SECURITY: Authenticated + scoped to the current user
+router.get('/me/sessions', getMySessions);
+
+// DELETE /users/me/sessions - Sign out of every other session
+// SECURITY: Authenticated + keeps the session making the request
+router.delete('/me/sessions', revokeOtherSessions);
+
+// DELETE /users/me/sessions/:id - Revoke a single session
+// SECURITY: Authenticated + ObjectId validated + ownership enforced in query
+router.delete('/me/sessions/:id', validateIdParam, revokeMySession);
+
+// GET /users/me/blocked - Users the current user has blocked
+// SECURITY: Authenticated + scoped to the current user
+router.get('/me/blocked', getBlockedUsers);
+
+// GET /users/me/bookmarks - Saved posts, optionally one collection (?collection=<id>|none)
+// SECURITY: Authenticated + scoped to the current user + limit capped
+router.get('/me/bookmarks', bookmarkListQueryValidation, getMyBookmarks);
+
+// GET /users/me/bookmarks/ids - Which posts are saved, and where
+// SECURITY: Authenticated + scoped to the current user
+router.get('/me/bookmarks/ids', getMyBookmarkIds);
+
+// GET /users/me/bookmark-collections - Collections with post counts
+// SECURITY: Authenticated + scoped to the current user
+router.get('/me/bookmark-collections', getMyCollections);
+
+// POST /users/me/bookmark-collections - Create a collection
+// SECURITY: Authenticated + rate limited + capped per user + XSS sanitized
+router.post('/me/bookmark-collections', createLimiter, bookmarkCollectionValidation, createCollection);
+
+// PATCH /users/me/bookmark-collections/:id - Rename a collection
+// SECURITY: Authenticated + ObjectId validated + ownership enforced in query + XSS sanitized
+router.patch('/me/bookmark-collections/:id', validateIdParam, bookmarkCollectionValidation, renameCollection);
+
+// DELETE /users/me/bookmark-collections/:id - Delete a collection, keeping its posts saved
+// SECURITY: Authenticated + ObjectId validated + ownership enforced in query
+router.delete('/me/bookmark-collections/:id', validateIdParam, deleteCollection);
+
+// GET /users/me/following - People and tags the current user follows
+// SECURITY: Authenticated + scoped to the current user
+router.get('/me/following', getMyFollows);
+
+// POST /users/me/following/tags - Follow a tag
+// SECURITY: Authenticated + capped per user + XSS sanitized
+router.post('/me/following/tags', followTagValidation, followTag);
+
+// DELETE /users/me/following/tags/:tag - Unfollow a tag
+// SECURITY: Authenticated + tag validated + only modifies the current user
+router.delete('/me/following/tags/:tag', validateTagParam, unfollowTag);
+
+// POST /users/:id/follow - Follow a user
+// SECURITY: Authenticated + ObjectId validated + capped per user
+router.post('/:id/follow', validateIdParam, followUser);
+
+// DELETE /users/:id/follow - Unfollow a user
+// SECURITY: Authenticated + ObjectId validated + only modifies the current user
+router.delete('/:id/follow', validateIdParam, unfollowUser);
+
+// POST /users/:id/block - Block a user from direct messaging
+// SECURITY: Authenticated + ObjectId validated + only modifies the current user
+router.post('/:id/block', validateIdParam, blockUser);
+
+// DELETE /users/:id/block - Unblock a user
+// SECURITY: Authenticated + ObjectId validated + only modifies the current user
+router.delete('/:id/block', validateIdParam, unblockUser);
+
+// GET /users/:id - Public profile with post and like totals
+// SECURITY: Authenticated + ObjectId validated + email only shown to the profile owner
+router.get('/:id', validateIdParam, getUserProfile);
+
+// GET /users/:id/comments - A user's recent comments
+// SECURITY: Authenticated + ObjectId validated + deleted comments excluded
+router.get('/:id/comments', userCommentsQueryValidation, getUserComments);
+
 // GET /users - Search users
 // SECURITY: Authenticated + search query sanitized to prevent ReDoS/injection
 router.get('/', searchValidation, searchUsers);
@@ -0,0 +1,164 @@
+/**
+ * Upgrades an existing database. Safe to run more than once - each step
+ * skips documents it has already migrated.
+ *
+ * - Comments: moves comments embedded in older posts into the Comment
+ *   collection, keeping their ids
+ * - Markdown: rewrites post descriptions and comments that were stored
+ *   HTML-escaped (before Markdown support) as plain Markdown source and
+ *   marks them isMarkdown
+ * - Likes: records a Like for every existing likedBy entry so admin stats
+ *   can chart them. When these likes were made was never stored; they are
+ *   dated at the post's creation.
+ *
+ * Usage: npm run migrate
+ */
+
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import connectDB from '../config/db';
+import Post, { ILegacyComment } from '../models/Post';
+import Comment from '../models/Comment';
+import Like from '../models/Like';
+import { unescapeLegacyHtml } from '../utils/markdown';
+
+dotenv.config();
+
+const BATCH_SIZE = 500;
+
+// Collects bulk writes and sends them in batches; returns how many were sent
+const bulkWriter = (collection: mongoose.Collection) => {
+    let written = 0;
+    let batch: mongoose.mongo.AnyBulkWriteOperation[] = [];
+
+    const flush = async () => {
+        if (batch.length === 0) return;
+        await collection.bulkWrite(batch, { ordered: false });
+        written += batch.length;
+        batch = [];
+    };
+
+    return {
+        add: async (operation: mongoose.mongo.AnyBulkWriteOperation) => {
+            batch.push(operation);
+            if (batch.length >= BATCH_SIZE) {
+                await flush();
+            }
+        },
+        done: async (): Promise<number> => {
+            await flush();
+            return written;
+        },
+    };
+};
+
+// The steps work on the raw collections: no find hooks (the Post author
+// populate, hiding trashed posts), no hydration and no schema defaults
+
+const migrateMarkdown = async (
+    collection: mongoose.Collection,
+    field: 'description' | 'text'
+): Promise<number> => {
+    const writer = bulkWriter(collection);
+    const cursor = collection.find({ isMarkdown: { $ne: true } }, { projection: { [field]: 1 } });
+
+    for await (const doc of cursor) {
+        const value = doc[field];
+        const update: Record<string, unknown> = { isMarkdown: true };
+        if (typeof value === 'string') {
+            update[field] = unescapeLegacyHtml(value);
+        }
+
+        await writer.add({ updateOne: { filter: { _id: doc._id }, update: { $set: update } } });
+    }
+
+    return writer.done();
+};
+
+// Runs before the Markdown step, which then converts the moved comments
+const moveLegacyComments = async (): Promise<number> => {
+    let posts = 0;
+    const cursor = Post.collection.find(
+        { 'commentsList.0': { $exists: true } },
+        { projection: { commentsList: 1 } }
+    );
+
+    for await (const post of cursor) {
+        const legacyComments = post.commentsList as ILegacyComment[];
+        try {
+            await Comment.insertMany(
+                legacyComments.map(legacy => ({
+                    _id: legacy._id,
+                    post: post._id,
+                    parentId: null,
+                    user: legacy.user,
+                    text: legacy.text,
+                    createdAt: legacy.createdAt,
+                })),
+                { ordered: false }
+            );
+        } catch (error) {
+            // Moved by an earlier, interrupted run - keeping _id makes this safe
+            if ((error as { code?: number }).code !== 11000) {
+                throw error;
+            }
+        }
+
+        await Post.collection.updateOne(
+            { _id: post._id },
+            { $unset: { commentsList: 1 }, $max: { commentCount: legacyComments.length } }
+        );
+        posts++;
+    }
+
+    return posts;
+};
+
+// Counts posts whose likes were checked, not Likes created
+const backfillLikes = async (): Promise<number> => {
+    const writer = bulkWriter(Like.collection);
+    let posts = 0;
+    const cursor = Post.collection.find(
+        { 'likedBy.0': { $exists: true } },
+        { projection: { likedBy: 1, createdAt: 1 } }
+    );
+
+    for await (const post of cursor) {
+        posts++;
+        for (const user of post.likedBy as mongoose.Types.ObjectId[]) {
+            await writer.add({
+                updateOne: {
+                    filter: { user, post: post._id },
+                    update: { $setOnInsert: { createdAt: post.createdAt, updatedAt: post.createdAt } },
+                    upsert: true,
+                },
+            });
+        }
+    }
+
+    await writer.done();
+    return posts;
+};
+
+const run = async (): Promise<void> => {
+    await connectDB();
+
+    const moved = await moveLegacyComments();
+    console.log(`✅ [Migrate] Moved the comments of ${moved} posts`);
+
+    const posts = await migrateMarkdown(Post.collection, 'description');
+    console.log(`✅ [Migrate] Converted ${posts} posts to Markdown`);
+
+    const comments = await migrateMarkdown(Comment.collection, 'text');
+    console.log(`✅ [Migrate] Converted ${comments} comments to Markdown`);
+
+    const liked = await backfillLikes();
+    console.log(`✅ [Migrate] Recorded likes on ${liked} posts`);
+};
+
+run()
+    .catch((error) => {
+        console.error('❌ [Migrate] Migration failed:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
@@ -4,21 +4,33 @@
  * SECURITY OVERVIEW:
  * - Helmet.js for HTTP security headers
  * - Rate limiting (IP + user-based) on all endpoints
- * - CORS with strict origin validation
+ * - CORS with strict origin validation (also applied to the realtime WebSocket)
  * - Body size limits to prevent DoS
  * - Centralized error handling with production sanitization
  */
 
+import path from 'path';
 import express, { Application } from 'express';
 import cors from 'cors';
+import cookieParser from 'cookie-parser';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
 import connectDB from './config/db';
 import authRoutes from './routes/authRoutes';
 import postRoutes from './routes/postRoutes';
 import userRoutes from './routes/userRoutes';
+import notificationRoutes from './routes/notificationRoutes';
+import conversationRoutes from './routes/conversationRoutes';
+import applicationRoutes from './routes/applicationRoutes';
+import teamRoutes from './routes/teamRoutes';
+import adminRoutes from './routes/adminRoutes';
 import errorHandler from './middlewares/errorHandler';
 import { generalLimiter, authLimiter } from './middlewares/rateLimiter';
+import { attachRealtime, REALTIME_PATH } from './services/realtime';
+import { isLocalStorage, getLocalUploadDir } from './services/storage';
+import { isDocumentKey, scheduleOrphanCleanup } from './services/attachments';
+import { scheduleTrashPurge } from './services/posts';
+import { getTransport } from './services/mail';
 
 // SECURITY: Load environment variables before any other code runs
 dotenv.config();
@@ -39,6 +51,31 @@ const app: Application = express();
 // - Strict-Transport-Security (HTTPS enforcement in production)
 app.use(helmet());
 
+// ============================================================
+// Uploaded Files (local storage driver only)
+// ============================================================
+// Mounted before CORS: <img> requests carry no Origin header.
+// SECURITY: Only server-generated images and sniffed documents are written
+// here; nosniff (from Helmet) still applies, directory listings are disabled
+// and documents are always served as downloads, never rendered inline.
+// Cross-Origin-Resource-Policy is relaxed so the frontend origin can embed them.
+if (isLocalStorage()) {
+    const uploadDir = getLocalUploadDir();
+    app.use('/uploads', express.static(uploadDir, {
+        index: false,
+        dotfiles: 'deny',
+        immutable: true,
+        maxAge: '365d',
+        setHeaders: (res, filePath) => {
+            res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+            const key = path.relative(uploadDir, filePath).split(path.sep).join('/');
+            if (isDocumentKey(key)) {
+                res.setHeader('Content-Disposition', 'attachment');
+            }
+        },
+    }));
+}
+
 // ============================================================
 // SECURITY: Rate Limiting
 // ============================================================
@@ -59,6 +96,9 @@ app.use('/api/', generalLimiter);
 app.use(express.json({ limit: '10kb' }));
 app.use(express.urlencoded({ extended: true, limit: '10kb' }));
 
+// Cookies carry the httpOnly refresh token for /api/v1/auth/refresh
+app.use(cookieParser());
+
 // ============================================================
 // SECURITY: CORS Configuration
 // ============================================================
@@ -68,15 +108,19 @@ const allowedOrigins = isProduction
     ? [process.env.FRONTEND_URL || 'https://your-frontend.vercel.app']
     : ['http://localhost:5173', 'http://localhost:3000', 'http://localhost:8080'];
 
+// Shared with the realtime WebSocket server
+const isAllowedOrigin = (origin: string | undefined): boolean => {
+    // SECURITY: Allow requests with no origin (mobile apps, Postman)
+    // only in development mode
+    if (!origin) {
+        return !isProduction;
+    }
+    return allowedOrigins.includes(origin);
+};
+
 app.use(cors({
     origin: (origin, callback) => {
-        // SECURITY: Allow requests with no origin (mobile apps, Postman)
-        // only in development mode
-        if (!origin && !isProduction) {
-            return callback(null, true);
-        }
-
-        if (origin && allowedOrigins.includes(origin)) {
+        if (isAllowedOrigin(origin)) {
             return callback(null, true);
         }
 
@@ -105,6 +149,11 @@ app.get('/api/v1/health', (req, res) => {
 app.use('/api/v1/auth', authRoutes);
 app.use('/api/v1/posts', postRoutes);
 app.use('/api/v1/users', userRoutes);
+app.use('/api/v1/notifications', notificationRoutes);
+app.use('/api/v1/conversations', conversationRoutes);
+app.use('/api/v1/applications', applicationRoutes);
+app.use('/api/v1/teams', teamRoutes);
+app.use('/api/v1/admin', adminRoutes);
 
 // ============================================================
 // Error Handler
@@ -122,6 +171,15 @@ const PORT = process.env.PORT || 5000;
 // NOTE: Start HTTP server FIRST, then connect to database
 // This ensures the server is reachable even if DB connection is slow
 const startServer = async (): Promise<void> => {
+    // SECURITY: Refuse to start in production without a mail transport, rather
+    // than silently writing verification and reset links to disk
+    try {
+        getTransport();
+    } catch (error) {
+        console.error('❌ Mail configuration error:', error instanceof Error ? error.message : error);
+        process.exit(1);
+    }
+
     // Start listening IMMEDIATELY so frontend can reach the server
     // Bind to 0.0.0.0 to ensure accessibility across network interfaces
     const server = app.listen(Number(PORT), '0.0.0.0', () => {
@@ -130,14 +188,24 @@ const startServer = async (): Promise<void> => {
         console.log(`📡 Accessible at: http://localhost:${PORT}`);
         console.log(`📍 Environment: ${isProduction ? 'production' : 'development'}`);
         console.log(`🔗 Health check: http://localhost:${PORT}/api/v1/health`);
+        console.log(`⚡ Realtime: ws://localhost:${PORT}${REALTIME_PATH}`);
         console.log(`========================================\n`);
     });
 
+    // Realtime updates share the HTTP server (and port) with the API
+    attachRealtime(server, isAllowedOrigin);
+
     // Connect to database in the background
     // If DB fails, routes will return errors but server stays up
     try {
         await connectDB();
         console.log('✅ Database connected successfully');
+
+        // Deletes uploads that were never saved with a post
+        scheduleOrphanCleanup();
+
+        // Permanently deletes posts that have been in the trash past the retention period
+        scheduleTrashPurge();
     } catch (error) {
         console.error('❌ Database connection failed:', error);
         console.error('⚠️  Server is running but database features will not work');
@@ -0,0 +1,303 @@
+/**
+ * Post Attachments
+ *
+ * SECURITY:
+ * - The file type is decided by sniffing the contents; the client's
+ *   Content-Type and file extension are ignored
+ * - Images are re-encoded with sharp, which strips EXIF/GPS metadata and
+ *   guarantees the stored file is the image we decoded
+ * - Documents are stored as downloads (Content-Disposition: attachment) so
+ *   they never render inline on the API's origin
+ * - Storage keys are generated here; client file names are only used for
+ *   display and the download name
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import mongoose from 'mongoose';
+import sharp, { OutputInfo } from 'sharp';
+import Attachment, { IAttachment, IPostAttachment } from '../models/Attachment';
+import { getStorage } from './storage';
+
+export const ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024; // 10MB
+
+// Images are scaled down to fit this box; smaller images keep their size
+const MAX_IMAGE_DIMENSION = 2048;
+const MAX_INPUT_PIXELS = 40_000_000;
+
+// Uploads not saved with a post within this window are deleted
+const ORPHAN_TTL_MS = 24 * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Accepted document types, with the extension they are stored under
+const DOCUMENT_TYPES: Record<string, string> = {
+    'application/pdf': 'pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+    'text/plain': 'txt',
+};
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+export class AttachmentError extends Error {}
+
+// ============================================================
+// Content Sniffing
+// ============================================================
+
+const startsWith = (buffer: Buffer, signature: number[], offset = 0): boolean =>
+    buffer.length >= offset + signature.length &&
+    signature.every((byte, index) => buffer[offset + index] === byte);
+
+const ascii = (value: string): number[] => [...value].map(char => char.charCodeAt(0));
+
+// Office Open XML files are ZIP archives; the folder of their main part
+// appears in plain text in the archive's local file headers
+const sniffOfficeDocument = (buffer: Buffer): string | null => {
+    const head = buffer.subarray(0, 64 * 1024).toString('latin1');
+    if (!head.includes('[Content_Types].xml')) return null;
+    if (head.includes('word/')) return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    if (head.includes('ppt/')) return 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+    if (head.includes('xl/')) return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+    return null;
+};
+
+// Control characters other than tab, line feed, form feed and carriage return
+const isControlCode = (code: number): boolean =>
+    (code < 0x20 && code !== 0x09 && code !== 0x0A && code !== 0x0C && code !== 0x0D) || code === 0x7F;
+
+// Plain text has no signature: accept valid UTF-8 without control bytes
+const isPlainText = (buffer: Buffer): boolean => {
+    try {
+        new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    } catch {
+        return false;
+    }
+    return !buffer.some(isControlCode);
+};
+
+/**
+ * Detects the MIME type of an upload from its leading bytes. Returns null
+ * for anything that is not an accepted image or document type.
+ */
+export const sniffMimeType = (buffer: Buffer): string | null => {
+    if (startsWith(buffer, [0xFF, 0xD8, 0xFF])) return 'image/jpeg';
+    if (startsWith(buffer, [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])) return 'image/png';
+    if (startsWith(buffer, ascii('GIF87a')) || startsWith(buffer, ascii('GIF89a'))) return 'image/gif';
+    if (startsWith(buffer, ascii('RIFF')) && startsWith(buffer, ascii('WEBP'), 8)) return 'image/webp';
+    if (startsWith(buffer, ascii('%PDF-'))) return 'application/pdf';
+    if (startsWith(buffer, [0x50, 0x4B, 0x03, 0x04])) return sniffOfficeDocument(buffer);
+    if (buffer.length > 0 && isPlainText(buffer)) return 'text/plain';
+    return null;
+};
+
+// ============================================================
+// Storing Uploads
+// ============================================================
+
+// Keeps the display name readable but free of paths and control characters
+const cleanFileName = (originalName: string): string => {
+    const base = [...path.basename(originalName.replace(/\\/g, '/'))]
+        .filter(char => char.charCodeAt(0) >= 0x20 && char.charCodeAt(0) !== 0x7F)
+        .join('')
+        .trim();
+    return (base || 'file').slice(0, 120);
+};
+
+// A file-system and URL safe version of the name for document keys
+const keySafeName = (name: string, extension: string): string => {
+    const stem = path.parse(name).name
+        .normalize('NFKD')
+        .replace(/[^\w.-]+/g, '-')
+        .replace(/^[-.]+|[-.]+$/g, '')
+        .slice(0, 60);
+    return `${stem || 'file'}.${extension}`;
+};
+
+/**
+ * Sniffs, processes and stores an upload, recording it as an unattached
+ * Attachment owned by the uploader.
+ */
+export const storeAttachment = async (
+    ownerId: mongoose.Types.ObjectId,
+    file: { buffer: Buffer; originalname: string }
+): Promise<IAttachment> => {
+    const mimeType = sniffMimeType(file.buffer);
+    if (!mimeType) {
+        throw new AttachmentError('Unsupported file type. Upload an image (JPEG, PNG, GIF, WebP) or a PDF, Word, PowerPoint, Excel or text document');
+    }
+
+    const name = cleanFileName(file.originalname);
+    const id = crypto.randomBytes(12).toString('hex');
+    const storage = getStorage();
+
+    if (IMAGE_TYPES.includes(mimeType)) {
+        let output: { data: Buffer; info: OutputInfo };
+        try {
+            output = await sharp(file.buffer, { animated: mimeType === 'image/gif', limitInputPixels: MAX_INPUT_PIXELS })
+                .rotate() // apply EXIF orientation before it is stripped
+                .resize(MAX_IMAGE_DIMENSION, MAX_IMAGE_DIMENSION, { fit: 'inside', withoutEnlargement: true })
+                .webp({ quality: 85 })
+                .toBuffer({ resolveWithObject: true });
+        } catch {
+            throw new AttachmentError('Image could not be processed');
+        }
+
+        const key = `attachments/${ownerId}/images/${id}.webp`;
+        const url = await storage.put(key, output.data, 'image/webp');
+
+        return Attachment.create({
+            owner: ownerId,
+            key,
+            url,
+            name,
+            mimeType: 'image/webp',
+            size: output.data.length,
+            kind: 'image',
+            width: output.info.width,
+            // Animated images report the height of the whole frame strip
+            height: output.info.pageHeight || output.info.height,
+        });
+    }
+
+    const extension = DOCUMENT_TYPES[mimeType];
+    const downloadName = keySafeName(name, extension);
+    const key = `attachments/${ownerId}/documents/${id}/${downloadName}`;
+    const url = await storage.put(key, file.buffer, mimeType, { downloadName });
+
+    return Attachment.create({
+        owner: ownerId,
+        key,
+        url,
+        name,
+        mimeType,
+        size: file.buffer.length,
+        kind: 'document',
+    });
+};
+
+// Local storage serves /uploads statically; documents must be downloads
+export const isDocumentKey = (key: string): boolean =>
+    /^attachments\/[^/]+\/documents\//.test(key);
+
+// ============================================================
+// Claiming and Removing
+// ============================================================
+
+export const toPostAttachment = (attachment: IAttachment): IPostAttachment => ({
+    _id: attachment._id,
+    url: attachment.url,
+    name: attachment.name,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+    kind: attachment.kind,
+    width: attachment.width,
+    height: attachment.height,
+});
+
+export const serializeAttachment = (attachment: IPostAttachment) => ({
+    id: attachment._id,
+    url: attachment.url,
+    name: attachment.name,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+    kind: attachment.kind,
+    width: attachment.width,
+    height: attachment.height,
+});
+
+/**
+ * Resolves attachment ids sent with a post, in the order given. Each must
+ * be an upload by the post's author that is unclaimed or already on this
+ * post. Throws AttachmentError otherwise.
+ */
+export const resolvePostAttachments = async (
+    ids: string[],
+    authorId: mongoose.Types.ObjectId,
+    postId: mongoose.Types.ObjectId
+): Promise<IPostAttachment[]> => {
+    const uniqueIds = [...new Set(ids)];
+    if (uniqueIds.length === 0) return [];
+
+    const attachments = await Attachment.find({
+        _id: { $in: uniqueIds },
+        owner: authorId,
+        post: { $in: [null, postId] },
+    });
+
+    const byId = new Map(attachments.map(attachment => [attachment._id.toString(), attachment]));
+    if (uniqueIds.some(id => !byId.has(id))) {
+        throw new AttachmentError('One or more attachments are missing or already in use');
+    }
+
+    return uniqueIds.map(id => toPostAttachment(byId.get(id) as IAttachment));
+};
+
+/**
+ * Marks unclaimed uploads as belonging to a post. Called before the post is
+ * saved; release them again if the save fails.
+ *
+ * SECURITY: Only uploads no post has claimed are taken, so two requests
+ * racing to attach the same upload can't both get it - the loser's claim is
+ * undone and it gets an AttachmentError.
+ */
+export const claimAttachments = async (
+    ids: mongoose.Types.ObjectId[],
+    postId: mongoose.Types.ObjectId
+): Promise<void> => {
+    if (ids.length === 0) return;
+
+    const result = await Attachment.updateMany({ _id: { $in: ids }, post: null }, { $set: { post: postId } });
+
+    if (result.modifiedCount !== ids.length) {
+        await releaseAttachments(ids, postId);
+        throw new AttachmentError('One or more attachments are missing or already in use');
+    }
+};
+
+/**
+ * Undoes claimAttachments for uploads the post never ended up using.
+ */
+export const releaseAttachments = async (
+    ids: mongoose.Types.ObjectId[],
+    postId: mongoose.Types.ObjectId
+): Promise<void> => {
+    if (ids.length === 0) return;
+    await Attachment.updateMany({ _id: { $in: ids }, post: postId }, { $set: { post: null } });
+};
+
+/**
+ * Deletes attachments and their stored files. Failures are logged rather
+ * than thrown, so callers can run it in the background.
+ */
+export const deleteAttachments = async (filter: mongoose.FilterQuery<IAttachment>): Promise<void> => {
+    try {
+        const attachments = await Attachment.find(filter).select('key');
+        if (attachments.length === 0) return;
+
+        const storage = getStorage();
+        const results = await Promise.allSettled(attachments.map(attachment => storage.delete(attachment.key)));
+        results.forEach((result, index) => {
+            if (result.status === 'rejected') {
+                console.error(`❌ [Storage] Failed to delete ${attachments[index].key}:`, result.reason);
+            }
+        });
+
+        await Attachment.deleteMany({ _id: { $in: attachments.map(attachment => attachment._id) } });
+    } catch (error) {
+        console.error('❌ [Attachments] Failed to delete attachments:', error);
+    }
+};
+
+/**
+ * Periodically removes uploads that were never saved with a post.
+ */
+export const scheduleOrphanCleanup = (): void => {
+    const sweep = () => {
+        void deleteAttachments({ post: null, createdAt: { $lt: new Date(Date.now() - ORPHAN_TTL_MS) } });
+    };
+
+    // unref() so the timer never keeps the process alive on shutdown
+    setInterval(sweep, CLEANUP_INTERVAL_MS).unref();
+};
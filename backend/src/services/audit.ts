@@ -0,0 +1,64 @@
+/**
+ * Audit log writer
+ *
+ * Called from controllers after the audited action has succeeded. Failures
+ * are logged and swallowed - the action already happened, and a missing
+ * entry must not turn it into an error response.
+ */
+
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import AuditLog, { AuditAction, AuditChanges, AuditTargetType } from '../models/AuditLog';
+import { getClientIp } from '../utils/session';
+
+interface AuditOptions {
+    action: AuditAction;
+    targetType: AuditTargetType;
+    target: mongoose.Types.ObjectId;
+    targetLabel: string;
+    targetOwner?: mongoose.Types.ObjectId | null;
+    changes?: AuditChanges;
+    details?: string;
+    // Defaults to the signed-in user; set for events that happen before sign-in
+    actor?: mongoose.Types.ObjectId | null;
+}
+
+export const audit = async (req: Request, options: AuditOptions): Promise<void> => {
+    const { actor, ...entry } = options;
+
+    try {
+        await AuditLog.create({
+            ...entry,
+            actor: actor !== undefined ? actor : req.user?._id ?? null,
+            ip: getClientIp(req),
+            userAgent: (req.headers['user-agent'] || '').slice(0, 512),
+        });
+    } catch (error) {
+        console.error('❌ [Audit] Failed to write audit log entry:', error);
+    }
+};
+
+// Longest comment text kept as an entry's label
+const LABEL_LENGTH = 100;
+
+export const auditLabel = (text: string): string =>
+    text.length > LABEL_LENGTH ? `${text.slice(0, LABEL_LENGTH - 1)}…` : text;
+
+/**
+ * The fields whose values differ between two snapshots, as { from, to }.
+ * Values are compared by their JSON form so arrays and nested objects work.
+ */
+export const diffChanges = (
+    before: Record<string, unknown>,
+    after: Record<string, unknown>
+): AuditChanges | undefined => {
+    const changes: AuditChanges = {};
+
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+        if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+            changes[key] = { from: before[key] ?? null, to: after[key] ?? null };
+        }
+    }
+
+    return Object.keys(changes).length > 0 ? changes : undefined;
+};
@@ -0,0 +1,80 @@
+/**
+ * Avatar Images
+ *
+ * Uploads are decoded with sharp, so the stored files are always images we
+ * produced ourselves: the client's bytes and metadata (EXIF, GPS, ...) are
+ * never served back. Each upload is resized into square WebP variants stored
+ * under a fresh key prefix, which keeps URLs cacheable forever.
+ */
+
+import sharp from 'sharp';
+import { getStorage } from './storage';
+
+export const AVATAR_SIZES = { sm: 64, md: 256, lg: 512 } as const;
+export type AvatarSize = keyof typeof AVATAR_SIZES;
+
+// The size stored on the user and rendered across the app
+export const DEFAULT_AVATAR_SIZE: AvatarSize = 'md';
+
+const ALLOWED_FORMATS = ['jpeg', 'png', 'webp', 'gif'];
+
+// SECURITY: Refuse decompression bombs before sharp allocates the pixels
+const MAX_INPUT_PIXELS = 40_000_000;
+
+export class InvalidImageError extends Error {}
+
+const variantKey = (prefix: string, size: AvatarSize): string => `${prefix}-${size}.webp`;
+
+/**
+ * Validates and resizes an uploaded image, stores every variant and returns
+ * the key prefix together with the public URL of each size.
+ */
+export const storeAvatar = async (
+    userId: string,
+    input: Buffer
+): Promise<{ keyPrefix: string; urls: Record<AvatarSize, string> }> => {
+    // SECURITY: Trust the decoded format, not the client's Content-Type
+    let format: string | undefined;
+    try {
+        format = (await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).metadata()).format;
+    } catch {
+        throw new InvalidImageError('File is not a valid image');
+    }
+    if (!format || !ALLOWED_FORMATS.includes(format)) {
+        throw new InvalidImageError('Avatar must be a JPEG, PNG, WebP or GIF image');
+    }
+
+    const keyPrefix = `avatars/${userId}/${Date.now()}`;
+    const storage = getStorage();
+    const sizes = Object.keys(AVATAR_SIZES) as AvatarSize[];
+
+    const stored = await Promise.all(sizes.map(async (size) => {
+        const body = await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS })
+            .rotate() // apply EXIF orientation before it is stripped
+            .resize(AVATAR_SIZES[size], AVATAR_SIZES[size], { fit: 'cover' })
+            .webp({ quality: 82 })
+            .toBuffer();
+        return [size, await storage.put(variantKey(keyPrefix, size), body, 'image/webp')] as const;
+    }));
+
+    return {
+        keyPrefix,
+        urls: Object.fromEntries(stored) as Record<AvatarSize, string>,
+    };
+};
+
+/**
+ * Removes every variant stored under a key prefix. Failures are logged
+ * rather than thrown; a leftover file is harmless.
+ */
+export const deleteAvatar = async (keyPrefix: string): Promise<void> => {
+    const storage = getStorage();
+    const sizes = Object.keys(AVATAR_SIZES) as AvatarSize[];
+
+    const results = await Promise.allSettled(sizes.map(size => storage.delete(variantKey(keyPrefix, size))));
+    for (const result of results) {
+        if (result.status === 'rejected') {
+            console.error(`❌ [Storage] Failed to delete avatar under ${keyPrefix}:`, result.reason);
+        }
+    }
+};
@@ -0,0 +1,89 @@
+/**
+ * Mailer
+ *
+ * Messages are queued in memory and delivered in the background with
+ * exponential backoff, so a slow or failing mail server never blocks an
+ * HTTP response. Transport is chosen by MAIL_TRANSPORT:
+ * - smtp:   deliver through SMTP_HOST (default when SMTP_HOST is set)
+ * - outbox: write JSON files to MAIL_OUTBOX_DIR (development and tests)
+ *
+ * In production one of them must be configured explicitly; falling back to
+ * the outbox there would write reset links to disk instead of sending them.
+ */
+
+import path from 'path';
+import { MailMessage, MailTransport } from './types';
+import { SmtpTransport, OutboxTransport } from './transports';
+
+export * from './types';
+export * from './templates';
+
+// Read on use, like the transport, so dotenv has run first
+const maxAttempts = (): number => parseInt(process.env.MAIL_MAX_ATTEMPTS || '5', 10);
+const BASE_RETRY_DELAY_MS = 2000;
+
+interface QueuedMail {
+    message: MailMessage;
+    attempts: number;
+}
+
+let transport: MailTransport | null = null;
+
+const createTransport = (): MailTransport => {
+    const from = process.env.MAIL_FROM || 'MiniHub <no-reply@minihub.local>';
+    if (process.env.NODE_ENV === 'production' && !process.env.MAIL_TRANSPORT && !process.env.SMTP_HOST) {
+        throw new Error('No mail transport configured: set SMTP_HOST or MAIL_TRANSPORT');
+    }
+
+    const kind = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'outbox');
+
+    if (kind === 'smtp') {
+        return new SmtpTransport(from);
+    }
+
+    return new OutboxTransport(
+        path.resolve(process.env.MAIL_OUTBOX_DIR || 'outbox'),
+        from
+    );
+};
+
+// Created lazily so dotenv has run before the transport reads its settings
+export const getTransport = (): MailTransport => {
+    if (!transport) {
+        transport = createTransport();
+    }
+    return transport;
+};
+
+// Lets tests swap in a recording transport
+export const setTransport = (next: MailTransport | null): void => {
+    transport = next;
+};
+
+const deliver = async (item: QueuedMail): Promise<void> => {
+    item.attempts += 1;
+
+    try {
+        await getTransport().send(item.message);
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+
+        if (item.attempts >= maxAttempts()) {
+            console.error(`❌ [Mail] Giving up on "${item.message.subject}" after ${item.attempts} attempts: ${reason}`);
+            return;
+        }
+
+        const delay = BASE_RETRY_DELAY_MS * 2 ** (item.attempts - 1);
+        console.warn(`⚠️  [Mail] Attempt ${item.attempts} failed for "${item.message.subject}", retrying in ${delay}ms: ${reason}`);
+
+        // unref() so pending retries never keep the process alive on shutdown
+        setTimeout(() => { void deliver(item); }, delay).unref();
+    }
+};
+
+/**
+ * Queues a message for background delivery and returns immediately.
+ */
+export const sendMail = (message: MailMessage): void => {
+    setImmediate(() => { void deliver({ message, attempts: 0 }); });
+};
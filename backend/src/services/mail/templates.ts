@@ -0,0 +1,119 @@
+/**
+ * Email templates
+ *
+ * Every template returns a subject plus matching HTML and plain-text bodies.
+ * SECURITY: All interpolated values are HTML-escaped in the HTML body.
+ */
+
+export interface MailTemplate {
+    subject: string;
+    html: string;
+    text: string;
+}
+
+// Links in emails always point at the frontend, never the API
+export const getFrontendUrl = (): string => {
+    return (process.env.FRONTEND_URL || 'http://localhost:5173').replace(/\/+$/, '');
+};
+
+// Stored names are already entity-escaped by the validation middleware;
+// decode first so they are neither double-escaped in HTML nor garbled in text
+const decodeEntities = (value: string): string => {
+    return value
+        .replace(/&quot;/g, '"')
+        .replace(/&#x27;/g, "'")
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&');
+};
+
+const escapeHtml = (value: string): string => {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#x27;');
+};
+
+const layout = (title: string, body: string): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+</head>
+<body style="margin:0;padding:24px;background:#f4f4f7;font-family:Arial,Helvetica,sans-serif;color:#1f2937;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;">
+<tr><td style="padding:32px;">
+<h1 style="margin:0 0 16px;font-size:22px;">MiniHub</h1>
+${body}
+<p style="margin:32px 0 0;font-size:12px;color:#6b7280;">You received this email because of activity on your MiniHub account.</p>
+</td></tr>
+</table>
+</body>
+</html>`;
+
+const button = (url: string, label: string): string =>
+    `<p style="margin:24px 0;"><a href="${escapeHtml(url)}" style="display:inline-block;padding:12px 20px;background:#6d28d9;color:#ffffff;text-decoration:none;border-radius:8px;font-weight:bold;">${escapeHtml(label)}</a></p>
+<p style="font-size:13px;color:#6b7280;">Or paste this link into your browser:<br>${escapeHtml(url)}</p>`;
+
+export const verificationEmail = (name: string, token: string): MailTemplate => {
+    const displayName = decodeEntities(name);
+    const url = `${getFrontendUrl()}/verify-email/${token}`;
+
+    return {
+        subject: 'Verify your MiniHub email address',
+        html: layout('Verify your email', `
+<p>Hi ${escapeHtml(displayName)},</p>
+<p>Thanks for signing up! Please confirm your email address to finish setting up your account.</p>
+${button(url, 'Verify email')}`),
+        text: `Hi ${displayName},
+
+Thanks for signing up! Please confirm your email address to finish setting up your account:
+
+${url}
+`,
+    };
+};
+
+export const passwordResetEmail = (name: string, token: string): MailTemplate => {
+    const displayName = decodeEntities(name);
+    const url = `${getFrontendUrl()}/reset-password/${token}`;
+
+    return {
+        subject: 'Reset your MiniHub password',
+        html: layout('Reset your password', `
+<p>Hi ${escapeHtml(displayName)},</p>
+<p>We received a request to reset your password. This link expires in 1 hour.</p>
+${button(url, 'Reset password')}
+<p>If you didn't ask for this, you can ignore this email - your password won't change.</p>`),
+        text: `Hi ${displayName},
+
+We received a request to reset your password. This link expires in 1 hour:
+
+${url}
+
+If you didn't ask for this, you can ignore this email - your password won't change.
+`,
+    };
+};
+
+export const welcomeEmail = (name: string): MailTemplate => {
+    const displayName = decodeEntities(name);
+    const url = `${getFrontendUrl()}/feed`;
+
+    return {
+        subject: 'Welcome to MiniHub!',
+        html: layout('Welcome to MiniHub', `
+<p>Hi ${escapeHtml(displayName)},</p>
+<p>Your email is verified and your account is all set. Share a project, find a hackathon team or discover your next internship.</p>
+${button(url, 'Explore the feed')}`),
+        text: `Hi ${displayName},
+
+Your email is verified and your account is all set. Share a project, find a hackathon team or discover your next internship:
+
+${url}
+`,
+    };
+};
@@ -0,0 +1,62 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import nodemailer, { Transporter } from 'nodemailer';
+import { MailMessage, MailTransport } from './types';
+
+// ============================================================
+// SMTP Transport
+// ============================================================
+
+export class SmtpTransport implements MailTransport {
+    readonly name = 'smtp';
+    private transporter: Transporter;
+
+    constructor(private from: string) {
+        const port = parseInt(process.env.SMTP_PORT || '587', 10);
+
+        this.transporter = nodemailer.createTransport({
+            host: process.env.SMTP_HOST,
+            port,
+            // Port 465 speaks TLS from the start; others upgrade with STARTTLS
+            secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+            auth: process.env.SMTP_USER
+                ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+                : undefined,
+        });
+    }
+
+    async send(message: MailMessage): Promise<void> {
+        await this.transporter.sendMail({ from: this.from, ...message });
+    }
+}
+
+// ============================================================
+// Outbox Transport (development and tests)
+// ============================================================
+
+/**
+ * Writes each message to a JSON file instead of sending it, so links can be
+ * opened locally and tests can assert on what would have been sent.
+ */
+export class OutboxTransport implements MailTransport {
+    readonly name = 'outbox';
+
+    constructor(private directory: string, private from: string) {}
+
+    async send(message: MailMessage): Promise<void> {
+        await fs.mkdir(this.directory, { recursive: true });
+
+        const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.json`;
+        const filePath = path.join(this.directory, fileName);
+
+        await fs.writeFile(
+            filePath,
+            JSON.stringify({ from: this.from, ...message, createdAt: new Date().toISOString() }, null, 2)
+        );
+
+        if (process.env.NODE_ENV !== 'production') {
+            console.log(`📬 [Mail] "${message.subject}" to ${message.to} written to ${filePath}`);
+        }
+    }
+}
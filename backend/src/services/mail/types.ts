@@ -0,0 +1,15 @@
+export interface MailMessage {
+    to: string;
+    subject: string;
+    html: string;
+    text: string;
+}
+
+/**
+ * A delivery mechanism for outgoing email. Implementations throw on failure
+ * so the queue can retry.
+ */
+export interface MailTransport {
+    readonly name: string;
+    send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,52 @@
+/**
+ * Notification writers
+ *
+ * Called from controllers after the triggering action has succeeded.
+ * Failures are logged and swallowed - a missing notification must never
+ * fail the like or comment that caused it.
+ */
+
+import mongoose from 'mongoose';
+import Notification, { NotificationType } from '../models/Notification';
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+interface NotifyOptions {
+    recipient: ObjectIdLike;
+    actor: ObjectIdLike;
+    type: NotificationType;
+    post: ObjectIdLike;
+    comment?: ObjectIdLike;
+}
+
+export const notify = async ({ recipient, actor, type, post, comment }: NotifyOptions): Promise<void> => {
+    // Nobody needs to hear about their own activity
+    if (recipient.toString() === actor.toString()) {
+        return;
+    }
+
+    try {
+        if (type === 'like') {
+            // Liking, unliking and liking again should not stack up notifications
+            await Notification.updateOne(
+                { recipient, actor, type, post },
+                { $setOnInsert: { recipient, actor, type, post, readAt: null } },
+                { upsert: true }
+            );
+            return;
+        }
+
+        await Notification.create({ recipient, actor, type, post, comment });
+    } catch (error) {
+        console.error('❌ [Notifications] Failed to create notification:', error);
+    }
+};
+
+// Withdraws the like notification when a post is unliked
+export const removeLikeNotification = async (actor: ObjectIdLike, post: ObjectIdLike): Promise<void> => {
+    try {
+        await Notification.deleteOne({ actor, type: 'like', post });
+    } catch (error) {
+        console.error('❌ [Notifications] Failed to remove notification:', error);
+    }
+};
@@ -0,0 +1,97 @@
+/**
+ * Post removal
+ *
+ * Authors deleting their own posts and moderators deleting reported ones
+ * move the post to the trash, where it keeps its comments, applications,
+ * teams and everything else and can be restored. Trashed posts are purged
+ * for good once the retention period has passed; everything that only
+ * exists for the post goes with it, and stored files are removed in the
+ * background.
+ */
+
+import mongoose from 'mongoose';
+import Post, { IPost, TRASHED_POSTS } from '../models/Post';
+import Comment from '../models/Comment';
+import Notification from '../models/Notification';
+import Application from '../models/Application';
+import Team from '../models/Team';
+import Bookmark from '../models/Bookmark';
+import Like from '../models/Like';
+import Report from '../models/Report';
+import { deleteAttachments } from './attachments';
+
+// Days a post stays in the trash before it is purged. Read on use, since
+// this module is loaded before server.ts loads .env.
+const retentionDays = (): number => parseInt(process.env.POST_TRASH_RETENTION_DAYS || '30', 10);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Most posts purged per sweep; the rest wait for the next one
+const PURGE_BATCH_SIZE = 100;
+
+// When a post deleted at deletedAt will be purged
+export const purgeDate = (deletedAt: Date): Date =>
+    new Date(deletedAt.getTime() + retentionDays() * DAY_MS);
+
+export const trashPost = async (post: IPost, deletedBy: mongoose.Types.ObjectId): Promise<void> => {
+    await Post.updateOne(
+        { _id: post._id, deletedAt: { $exists: false } },
+        { $set: { deletedAt: new Date(), deletedBy } }
+    );
+};
+
+export const restorePost = async (post: IPost): Promise<void> => {
+    await Post.updateOne(
+        { _id: post._id, ...TRASHED_POSTS },
+        { $unset: { deletedAt: 1, deletedBy: 1 } }
+    );
+};
+
+/**
+ * Deletes a post permanently, with its comments, applications, teams,
+ * bookmarks, likes, notifications, reports and attachments.
+ */
+export const removePost = async (post: IPost): Promise<void> => {
+    await Promise.all([
+        Post.deleteOne({ _id: post._id }),
+        Comment.deleteMany({ post: post._id }),
+        Application.deleteMany({ post: post._id }),
+        Team.deleteMany({ post: post._id }),
+        Bookmark.deleteMany({ post: post._id }),
+        Like.deleteMany({ post: post._id }),
+        Notification.deleteMany({ post: post._id }),
+        Report.deleteMany({ post: post._id }),
+    ]);
+
+    void deleteAttachments({ post: post._id });
+};
+
+/**
+ * Periodically purges posts that have been in the trash longer than
+ * POST_TRASH_RETENTION_DAYS.
+ */
+export const scheduleTrashPurge = (): void => {
+    const sweep = async () => {
+        try {
+            const days = retentionDays();
+            const expired = await Post.find({ deletedAt: { $lt: new Date(Date.now() - days * DAY_MS) } })
+                .select('_id')
+                .limit(PURGE_BATCH_SIZE);
+
+            for (const post of expired) {
+                await removePost(post);
+            }
+
+            if (expired.length > 0) {
+                console.log(`🗑️  [Trash] Purged ${expired.length} post(s) deleted over ${days} days ago`);
+            }
+        } catch (error) {
+            console.error('❌ [Trash] Failed to purge trashed posts:', error);
+        }
+    };
+
+    void sweep();
+    // unref() so the timer never keeps the process alive on shutdown
+    setInterval(() => { void sweep(); }, PURGE_INTERVAL_MS).unref();
+};
@@ -0,0 +1,250 @@
+/**
+ * Realtime Channel
+ *
+ * SECURITY OVERVIEW:
+ * - WebSocket endpoint on the API server at /api/v1/realtime
+ * - Origin checked against the same allow-list as CORS
+ * - Clients authenticate with their access token in the first message, so the
+ *   token never appears in URLs or access logs
+ * - Tokens are verified exactly like 'protect' (signature, live session, user)
+ * - Sessions are re-checked periodically - revoked sessions are disconnected
+ * - Only 'feed' and 'post:<ObjectId>' rooms can be joined, with a per-socket cap
+ * - Each socket is placed in its own 'user:<id>' room on authentication; user
+ *   rooms can never be joined by subscribing
+ * - Inbound messages are size-limited
+ *
+ * Protocol (JSON messages):
+ *   client -> { type: 'auth', token } | { type: 'subscribe', room } | { type: 'unsubscribe', room }
+ *   server -> { type: 'ready' } | { type: 'event', room, event, data }
+ */
+
+import http from 'http';
+import mongoose from 'mongoose';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import Session from '../models/Session';
+import { authenticateAccessToken, accountRestriction } from '../middlewares/auth';
+
+export const REALTIME_PATH = '/api/v1/realtime';
+export const FEED_ROOM = 'feed';
+
+export type RealtimeEvent =
+    | 'post-created'
+    | 'like-changed'
+    | 'comment-added'
+    | 'message-created'
+    | 'conversation-read';
+
+// Close codes in the 4000-4999 application range
+const CLOSE_UNAUTHORIZED = 4001;
+const CLOSE_POLICY = 4008;
+
+const AUTH_TIMEOUT_MS = 10_000;
+const HEARTBEAT_INTERVAL_MS = 30_000;
+const SESSION_RECHECK_MS = 5 * 60 * 1000;
+const MAX_ROOMS_PER_CLIENT = 200;
+const MAX_MESSAGE_BYTES = 4 * 1024;
+
+interface ClientState {
+    userId?: string;
+    sessionId?: string;
+    rooms: Set<string>;
+    isAlive: boolean;
+}
+
+const clients = new Map<WebSocket, ClientState>();
+const rooms = new Map<string, Set<WebSocket>>();
+
+export const postRoom = (postId: mongoose.Types.ObjectId | string): string => `post:${postId.toString()}`;
+export const userRoom = (userId: mongoose.Types.ObjectId | string): string => `user:${userId.toString()}`;
+
+const isValidRoom = (room: unknown): room is string => {
+    if (typeof room !== 'string') return false;
+    if (room === FEED_ROOM) return true;
+    return room.startsWith('post:') && mongoose.Types.ObjectId.isValid(room.slice(5));
+};
+
+const send = (socket: WebSocket, message: object): void => {
+    if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+    }
+};
+
+const join = (socket: WebSocket, state: ClientState, room: string): void => {
+    if (state.rooms.has(room)) return;
+    if (state.rooms.size >= MAX_ROOMS_PER_CLIENT) {
+        socket.close(CLOSE_POLICY, 'Too many subscriptions');
+        return;
+    }
+    state.rooms.add(room);
+    let members = rooms.get(room);
+    if (!members) {
+        members = new Set();
+        rooms.set(room, members);
+    }
+    members.add(socket);
+};
+
+const leave = (socket: WebSocket, state: ClientState, room: string): void => {
+    state.rooms.delete(room);
+    const members = rooms.get(room);
+    if (!members) return;
+    members.delete(socket);
+    if (members.size === 0) {
+        rooms.delete(room);
+    }
+};
+
+const disconnect = (socket: WebSocket): void => {
+    const state = clients.get(socket);
+    if (state) {
+        state.rooms.forEach(room => leave(socket, state, room));
+    }
+    clients.delete(socket);
+};
+
+const handleMessage = async (socket: WebSocket, state: ClientState, raw: RawData): Promise<void> => {
+    let message: { type?: unknown; token?: unknown; room?: unknown };
+    try {
+        message = JSON.parse(raw.toString());
+    } catch {
+        return;
+    }
+
+    if (message.type === 'auth') {
+        const authenticated = typeof message.token === 'string'
+            ? await authenticateAccessToken(message.token)
+            : null;
+
+        if (!authenticated || accountRestriction(authenticated.user)) {
+            socket.close(CLOSE_UNAUTHORIZED, 'Not authorized');
+            return;
+        }
+
+        // Re-authenticating as someone else must not keep the previous user's room
+        if (state.userId) {
+            leave(socket, state, userRoom(state.userId));
+        }
+        state.userId = authenticated.user._id.toString();
+        state.sessionId = authenticated.session._id.toString();
+        join(socket, state, userRoom(state.userId));
+        send(socket, { type: 'ready' });
+        return;
+    }
+
+    // SECURITY: Nothing but 'auth' is accepted before authentication
+    if (!state.userId) {
+        socket.close(CLOSE_UNAUTHORIZED, 'Not authorized');
+        return;
+    }
+
+    if (message.type === 'subscribe' && isValidRoom(message.room)) {
+        join(socket, state, message.room);
+    } else if (message.type === 'unsubscribe' && isValidRoom(message.room)) {
+        leave(socket, state, message.room);
+    }
+};
+
+// Drops sockets whose session was revoked (logout, logout-all, password reset)
+const recheckSessions = async (): Promise<void> => {
+    const sessionIds = [...clients.values()]
+        .map(state => state.sessionId)
+        .filter((id): id is string => Boolean(id));
+    if (sessionIds.length === 0) return;
+
+    const active = await Session.find({
+        _id: { $in: sessionIds },
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+    }).select('_id');
+    const activeIds = new Set(active.map(session => session._id.toString()));
+
+    clients.forEach((state, socket) => {
+        if (state.sessionId && !activeIds.has(state.sessionId)) {
+            socket.close(CLOSE_UNAUTHORIZED, 'Session expired');
+        }
+    });
+};
+
+/**
+ * Attaches the WebSocket server to the HTTP server Express listens on.
+ */
+export const attachRealtime = (
+    server: http.Server,
+    isAllowedOrigin: (origin: string | undefined) => boolean
+): WebSocketServer => {
+    const wss = new WebSocketServer({
+        server,
+        path: REALTIME_PATH,
+        maxPayload: MAX_MESSAGE_BYTES,
+        // SECURITY: Browsers always send Origin - reject cross-site connections
+        verifyClient: ({ origin }: { origin?: string }) => isAllowedOrigin(origin),
+    });
+
+    wss.on('connection', (socket) => {
+        const state: ClientState = { rooms: new Set(), isAlive: true };
+        clients.set(socket, state);
+
+        // SECURITY: Unauthenticated sockets don't get to linger
+        const authTimer = setTimeout(() => {
+            if (!state.userId) {
+                socket.close(CLOSE_UNAUTHORIZED, 'Authentication timeout');
+            }
+        }, AUTH_TIMEOUT_MS);
+
+        socket.on('pong', () => {
+            state.isAlive = true;
+        });
+        socket.on('message', (raw) => {
+            handleMessage(socket, state, raw).catch((error) => {
+                console.error('❌ [Realtime] Failed to handle message:', error);
+            });
+        });
+        socket.on('close', () => {
+            clearTimeout(authTimer);
+            disconnect(socket);
+        });
+        socket.on('error', () => disconnect(socket));
+    });
+
+    // Terminate connections that stopped answering pings (e.g. dropped networks)
+    const heartbeat = setInterval(() => {
+        clients.forEach((state, socket) => {
+            if (!state.isAlive) {
+                socket.terminate();
+                disconnect(socket);
+                return;
+            }
+            state.isAlive = false;
+            socket.ping();
+        });
+    }, HEARTBEAT_INTERVAL_MS);
+
+    const sessionCheck = setInterval(() => {
+        recheckSessions().catch((error) => {
+            console.error('❌ [Realtime] Session re-check failed:', error);
+        });
+    }, SESSION_RECHECK_MS);
+
+    wss.on('close', () => {
+        clearInterval(heartbeat);
+        clearInterval(sessionCheck);
+    });
+
+    return wss;
+};
+
+/**
+ * Sends an event to every socket in a room. Safe to call when nobody is
+ * connected or the realtime server was never attached.
+ */
+export const publish = (room: string, event: RealtimeEvent, data: object): void => {
+    const members = rooms.get(room);
+    if (!members || members.size === 0) return;
+
+    const payload = JSON.stringify({ type: 'event', room, event, data });
+    members.forEach(socket => {
+        if (socket.readyState === WebSocket.OPEN) {
+            socket.send(payload);
+        }
+    });
+};
@@ -0,0 +1,86 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { S3Client, PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { PutOptions, StorageAdapter } from './types';
+
+const joinUrl = (base: string, key: string): string =>
+    `${base.replace(/\/+$/, '')}/${key}`;
+
+// ============================================================
+// Local Disk Storage (development and single-server deployments)
+// ============================================================
+
+/**
+ * Writes objects under a directory that server.ts serves statically at
+ * /uploads. Downloads are recognised there by their key (see
+ * services/attachments), so PutOptions are not stored.
+ */
+export class LocalStorage implements StorageAdapter {
+    readonly name = 'local';
+
+    constructor(private directory: string, private publicBaseUrl: string) {}
+
+    // SECURITY: Keys are server-generated, but refuse anything that would
+    // resolve outside the upload directory all the same
+    private resolve(key: string): string {
+        const filePath = path.resolve(this.directory, key);
+        if (!filePath.startsWith(this.directory + path.sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return filePath;
+    }
+
+    async put(key: string, body: Buffer): Promise<string> {
+        const filePath = this.resolve(key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, body);
+        return joinUrl(this.publicBaseUrl, key);
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(this.resolve(key), { force: true });
+    }
+}
+
+// ============================================================
+// S3-Compatible Storage (AWS S3, Cloudflare R2, MinIO, ...)
+// ============================================================
+
+export class S3Storage implements StorageAdapter {
+    readonly name = 's3';
+    private client: S3Client;
+
+    constructor(private bucket: string, private publicBaseUrl: string) {
+        this.client = new S3Client({
+            region: process.env.S3_REGION || 'us-east-1',
+            endpoint: process.env.S3_ENDPOINT || undefined,
+            // MinIO and most self-hosted services need path-style URLs
+            forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+            credentials: process.env.S3_ACCESS_KEY_ID
+                ? {
+                    accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+                }
+                : undefined,
+        });
+    }
+
+    async put(key: string, body: Buffer, contentType: string, options: PutOptions = {}): Promise<string> {
+        await this.client.send(new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            Body: body,
+            ContentType: contentType,
+            ContentDisposition: options.downloadName
+                ? `attachment; filename*=UTF-8''${encodeURIComponent(options.downloadName)}`
+                : undefined,
+            // Keys change on every upload, so objects never need revalidating
+            CacheControl: 'public, max-age=31536000, immutable',
+        }));
+        return joinUrl(this.publicBaseUrl, key);
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+    }
+}
@@ -0,0 +1,52 @@
+/**
+ * File Storage
+ *
+ * Uploaded files are written through a storage adapter chosen by
+ * STORAGE_DRIVER:
+ * - local: write to UPLOAD_DIR, served by the API at /uploads (default)
+ * - s3:    write to S3_BUCKET on any S3-compatible service, served from
+ *          S3_PUBLIC_URL (a CDN or the bucket's public endpoint)
+ */
+
+import path from 'path';
+import { StorageAdapter } from './types';
+import { LocalStorage, S3Storage } from './adapters';
+
+export * from './types';
+
+let storage: StorageAdapter | null = null;
+
+export const isLocalStorage = (): boolean =>
+    (process.env.STORAGE_DRIVER || 'local') === 'local';
+
+export const getLocalUploadDir = (): string =>
+    path.resolve(process.env.UPLOAD_DIR || 'uploads');
+
+const createStorage = (): StorageAdapter => {
+    if (!isLocalStorage()) {
+        const bucket = process.env.S3_BUCKET;
+        const publicUrl = process.env.S3_PUBLIC_URL;
+        if (!bucket || !publicUrl) {
+            throw new Error('S3_BUCKET and S3_PUBLIC_URL are required when STORAGE_DRIVER=s3');
+        }
+        return new S3Storage(bucket, publicUrl);
+    }
+
+    return new LocalStorage(
+        getLocalUploadDir(),
+        process.env.UPLOADS_PUBLIC_URL || `http://localhost:${process.env.PORT || 5000}/uploads`
+    );
+};
+
+// Created lazily so dotenv has run before the adapter reads its settings
+export const getStorage = (): StorageAdapter => {
+    if (!storage) {
+        storage = createStorage();
+    }
+    return storage;
+};
+
+// Lets tests swap in an in-memory adapter
+export const setStorage = (next: StorageAdapter | null): void => {
+    storage = next;
+};
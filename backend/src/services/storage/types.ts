@@ -0,0 +1,16 @@
+export interface PutOptions {
+    /** Serve the object as a download with this file name instead of inline. */
+    downloadName?: string;
+}
+
+/**
+ * A place to keep uploaded files. Keys are forward-slash paths generated by
+ * the server (never taken from the client); implementations throw on failure.
+ */
+export interface StorageAdapter {
+    readonly name: string;
+    /** Stores the object and returns the public URL it is served from. */
+    put(key: string, body: Buffer, contentType: string, options?: PutOptions): Promise<string>;
+    /** Removes the object. Deleting a missing key is not an error. */
+    delete(key: string): Promise<void>;
+}
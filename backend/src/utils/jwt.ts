@@ -2,26 +2,29 @@ import jwt from 'jsonwebtoken';
 
 interface TokenPayload {
     userId: string;
+    sessionId: string;
 }
 
-export const generateToken = (userId: string): string => {
+// Access tokens are short-lived; sessions are kept alive by rotating refresh tokens.
+// Read on use, since this module is loaded before server.ts loads .env.
+const accessTokenExpiresIn = (): string => process.env.JWT_ACCESS_EXPIRES_IN || '15m';
+
+const getSecret = (): string => {
     const secret = process.env.JWT_SECRET;
 
     if (!secret) {
         throw new Error('JWT_SECRET is not defined in environment variables');
     }
 
-    return jwt.sign({ userId }, secret, {
-        expiresIn: '24h',
-    });
+    return secret;
 };
 
-export const verifyToken = (token: string): TokenPayload => {
-    const secret = process.env.JWT_SECRET;
-
-    if (!secret) {
-        throw new Error('JWT_SECRET is not defined in environment variables');
-    }
+export const generateAccessToken = (userId: string, sessionId: string): string => {
+    return jwt.sign({ userId, sessionId }, getSecret(), {
+        expiresIn: accessTokenExpiresIn(),
+    } as jwt.SignOptions);
+};
 
-    return jwt.verify(token, secret) as TokenPayload;
+export const verifyToken = (token: string): TokenPayload => {
+    return jwt.verify(token, getSecret()) as TokenPayload;
 };
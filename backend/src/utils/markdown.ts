@@ -0,0 +1,21 @@
+/**
+ * Post descriptions and comments are stored as Markdown source and rendered
+ * through an allow-list sanitizer on the client. Content written before that
+ * was HTML-escaped on the way in; it is unescaped when read until
+ * `npm run migrate` has rewritten it (see scripts/migrate).
+ */
+
+const LEGACY_ENTITIES: Record<string, string> = {
+    '&amp;': '&',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&quot;': '"',
+    '&#x27;': '\'',
+};
+
+// Reverses the old sanitizeHtml in a single pass, so "&amp;lt;" becomes "&lt;"
+export const unescapeLegacyHtml = (value: string): string =>
+    value.replace(/&(?:amp|lt|gt|quot|#x27);/g, entity => LEGACY_ENTITIES[entity]);
+
+export const markdownSource = (text: string, isMarkdown?: boolean): string =>
+    isMarkdown ? text : unescapeLegacyHtml(text);
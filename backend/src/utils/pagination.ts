@@ -0,0 +1,75 @@
+import mongoose from 'mongoose';
+
+/**
+ * Opaque cursor helpers for keyset pagination.
+ *
+ * A cursor encodes the sort key (createdAt) plus the _id tiebreaker of the
+ * last item on a page. Clients treat it as an opaque string and pass it back
+ * unchanged to fetch the next page.
+ */
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 50;
+
+export interface CursorPayload {
+    createdAt: Date;
+    id: mongoose.Types.ObjectId;
+}
+
+export const encodeCursor = (createdAt: Date, id: mongoose.Types.ObjectId): string => {
+    return Buffer.from(
+        JSON.stringify({ c: createdAt.toISOString(), i: id.toString() })
+    ).toString('base64url');
+};
+
+/**
+ * Returns null for anything that is not a cursor we issued, so callers can
+ * treat a tampered cursor the same as a malformed one.
+ */
+export const decodeCursor = (cursor: string): CursorPayload | null => {
+    try {
+        const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        const createdAt = new Date(parsed?.c);
+
+        if (
+            typeof parsed?.c !== 'string' ||
+            Number.isNaN(createdAt.getTime()) ||
+            typeof parsed?.i !== 'string' ||
+            !mongoose.Types.ObjectId.isValid(parsed.i)
+        ) {
+            return null;
+        }
+
+        return { createdAt, id: new mongoose.Types.ObjectId(parsed.i) };
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Builds the filter that selects items strictly after the cursor when sorting
+ * by { createdAt: -1, _id: -1 } (or { createdAt: 1, _id: 1 } for 'asc').
+ * Lists sorted by another date, such as the trash by deletedAt, pass its name
+ * as field and encode that date in their cursors.
+ */
+export const cursorFilter = (
+    cursor: CursorPayload,
+    direction: 'asc' | 'desc' = 'desc',
+    field = 'createdAt'
+) => {
+    const op = direction === 'asc' ? '$gt' : '$lt';
+    return {
+        $or: [
+            { [field]: { [op]: cursor.createdAt } },
+            { [field]: cursor.createdAt, _id: { [op]: cursor.id } },
+        ],
+    };
+};
+
+export const parseLimit = (value: unknown): number => {
+    const limit = parseInt(String(value ?? ''), 10);
+    if (Number.isNaN(limit) || limit < 1) {
+        return DEFAULT_PAGE_LIMIT;
+    }
+    return Math.min(limit, MAX_PAGE_LIMIT);
+};
@@ -0,0 +1,27 @@
+import { IPost, PostType, POST_DETAIL_FIELDS } from '../models/Post';
+
+/**
+ * The type-specific fields of a post (dates, company, repo URL...), keyed by
+ * field name. Fields the post doesn't have are left out.
+ */
+export const serializePostDetails = (post: IPost): Record<string, unknown> => {
+    const source = post.toObject() as Record<string, unknown>;
+    const details: Record<string, unknown> = {};
+    for (const field of POST_DETAIL_FIELDS[post.type]) {
+        if (source[field] !== undefined) {
+            details[field] = source[field];
+        }
+    }
+    return details;
+};
+
+/**
+ * Maps validated request details onto the fields of the given type. Every
+ * field of the type is included, so fields missing from the request are
+ * cleared when the result is applied to an existing post.
+ */
+export const pickPostDetails = (
+    type: PostType,
+    details: Record<string, unknown> = {}
+): Record<string, unknown> =>
+    Object.fromEntries(POST_DETAIL_FIELDS[type].map(field => [field, details[field]]));
@@ -0,0 +1,26 @@
+import { IUser } from '../models/User';
+
+/**
+ * The avatar to show for a user: their uploaded image, or a DiceBear
+ * avatar generated from their name.
+ */
+export const avatarUrl = (user: Pick<IUser, 'name' | 'avatar'>): string =>
+    user.avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${encodeURIComponent(user.name)}`;
+
+/**
+ * The optional profile fields shared by every user payload (auth, profile
+ * and search responses). None of them are sensitive.
+ */
+export const profileFields = (user: IUser) => ({
+    skills: user.skills || [],
+    university: user.university,
+    major: user.major,
+    graduationYear: user.graduationYear,
+    links: {
+        github: user.links?.github,
+        linkedin: user.links?.linkedin,
+        portfolio: user.links?.portfolio,
+        resume: user.links?.resume,
+    },
+    availability: user.availability,
+});
@@ -0,0 +1,112 @@
+/**
+ * Post search query parsing and match highlighting.
+ *
+ * Query syntax:
+ * - Free words are matched against the text index (title, description, tags)
+ * - "quoted phrases" must appear verbatim
+ * - type:<project|hackathon|internship>, tag:<tag> and author:<name or id>
+ *   narrow the results without affecting relevance
+ */
+
+import { PostType } from '../models/Post';
+
+const POST_TYPES: PostType[] = ['project', 'hackathon', 'internship'];
+export const SEARCH_SNIPPET_LENGTH = 160;
+
+export interface ParsedSearchQuery {
+    // String passed to MongoDB $text.$search (phrases keep their quotes)
+    text: string;
+    terms: string[];
+    phrases: string[];
+    type?: PostType;
+    tags: string[];
+    author?: string;
+}
+
+export interface HighlightSegment {
+    text: string;
+    match: boolean;
+}
+
+// Escape user input before embedding it in a RegExp
+export const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const truncate = (text: string, maxLength: number): string =>
+    text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+
+export const parseSearchQuery = (raw: string): ParsedSearchQuery => {
+    const parsed: ParsedSearchQuery = { text: '', terms: [], phrases: [], tags: [] };
+
+    // Tokens are quoted phrases, prefix:"quoted values", or bare words
+    const tokenPattern = /(\w+):"([^"]*)"|(\w+):(\S+)|"([^"]+)"|(\S+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = tokenPattern.exec(raw)) !== null) {
+        const prefix = (match[1] || match[3])?.toLowerCase();
+        const value = (match[2] ?? match[4])?.trim();
+
+        if (prefix && value) {
+            if (prefix === 'type' && POST_TYPES.includes(value.toLowerCase() as PostType)) {
+                parsed.type = value.toLowerCase() as PostType;
+                continue;
+            }
+            if (prefix === 'tag') {
+                parsed.tags.push(value);
+                continue;
+            }
+            if (prefix === 'author') {
+                parsed.author = value;
+                continue;
+            }
+            // Unknown prefixes are searched as plain text
+            parsed.terms.push(`${prefix}:${value}`);
+            continue;
+        }
+
+        if (match[5]) {
+            parsed.phrases.push(match[5].trim());
+        } else if (match[6]) {
+            parsed.terms.push(match[6]);
+        }
+    }
+
+    parsed.text = [
+        ...parsed.phrases.map(phrase => `"${phrase.replace(/"/g, '')}"`),
+        ...parsed.terms,
+    ].join(' ');
+
+    return parsed;
+};
+
+/**
+ * Splits text into matched/unmatched segments for the given terms and phrases.
+ * When maxLength is set, the result is trimmed to a window around the first match.
+ */
+export const highlight = (
+    value: string,
+    needles: string[],
+    maxLength?: number
+): HighlightSegment[] => {
+    const words = needles.map(n => n.trim()).filter(n => n.length > 1);
+    let text = value;
+
+    if (words.length === 0) {
+        return [{ text: maxLength ? truncate(text, maxLength) : text, match: false }];
+    }
+
+    const pattern = new RegExp(`(${words.map(escapeRegex).join('|')})`, 'gi');
+
+    if (maxLength && text.length > maxLength) {
+        const first = text.search(pattern);
+        // Start the window a little before the first match so it has context
+        const lead = Math.floor(maxLength / 4);
+        const start = first > lead ? first - lead : 0;
+        const end = Math.min(text.length, start + maxLength);
+        text = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < value.length ? '…' : ''}`;
+    }
+
+    return text
+        .split(pattern)
+        .filter(part => part.length > 0)
+        .map(part => ({ text: part, match: words.some(w => w.toLowerCase() === part.toLowerCase()) }));
+};
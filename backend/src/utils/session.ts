@@ -0,0 +1,225 @@
+/**
+ * Session and refresh token helpers
+ *
+ * SECURITY:
+ * - Refresh tokens are 256-bit random values, stored only as SHA-256 hashes
+ * - Delivered in an httpOnly cookie scoped to the auth routes, so page
+ *   scripts can never read them
+ * - Every refresh rotates the token; presenting a rotated-out token
+ *   revokes the session (likely token theft), except within a few seconds
+ *   of the rotation, when it is another tab that refreshed at the same time
+ */
+
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import Session, { ISession } from '../models/Session';
+import { generateAccessToken } from './jwt';
+
+// Settings are read on use, since this module is loaded before server.ts loads .env
+const isProduction = (): boolean => process.env.NODE_ENV === 'production';
+
+export const REFRESH_COOKIE_NAME = 'minihub_refresh';
+const refreshTokenTtlMs = (): number =>
+    parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30', 10) * 24 * 60 * 60 * 1000;
+
+// How long a rotated-out refresh token is still accepted
+const REFRESH_REUSE_GRACE_MS = 10 * 1000;
+
+export const hashToken = (token: string): string => {
+    return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * SECURITY: x-forwarded-for is used when behind a proxy (common in production)
+ */
+export const getClientIp = (req: Request): string => {
+    const forwarded = req.headers['x-forwarded-for'];
+    return typeof forwarded === 'string'
+        ? forwarded.split(',')[0].trim()
+        : req.ip || req.socket.remoteAddress || 'unknown';
+};
+
+/**
+ * Produces a short human readable label such as "Chrome on Windows"
+ */
+export const describeUserAgent = (userAgent: string): string => {
+    const browsers: [RegExp, string][] = [
+        [/Edg\//, 'Edge'],
+        [/OPR\//, 'Opera'],
+        [/Firefox\//, 'Firefox'],
+        [/Chrome\//, 'Chrome'],
+        [/Safari\//, 'Safari'],
+        [/PostmanRuntime/, 'Postman'],
+    ];
+    const platforms: [RegExp, string][] = [
+        [/Android/, 'Android'],
+        [/iPhone|iPad|iPod/, 'iOS'],
+        [/Windows/, 'Windows'],
+        [/Mac OS X|Macintosh/, 'macOS'],
+        [/Linux/, 'Linux'],
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const platform = platforms.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && platform) return `${browser} on ${platform}`;
+    return browser || platform || 'Unknown device';
+};
+
+// Decoded geo header value; a malformed encoding is shown as sent rather than failing the request
+const geoHeader = (req: Request, name: string): string | undefined => {
+    const value = req.headers[name];
+    if (typeof value !== 'string' || value.length === 0) return undefined;
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+};
+
+/**
+ * Approximate location for display on the sessions page.
+ * Uses the geo headers set by common edge proxies (Vercel, Cloudflare,
+ * App Engine); we never call out to a third-party lookup service.
+ *
+ * SECURITY: Clients can send these headers themselves, so they are only
+ * read when TRUST_GEO_HEADERS=true says a proxy that sets them is in front.
+ */
+export const describeLocation = (req: Request, ip: string): string => {
+    if (process.env.TRUST_GEO_HEADERS === 'true') {
+        const city = geoHeader(req, 'x-vercel-ip-city') || geoHeader(req, 'x-appengine-city');
+        const country = geoHeader(req, 'x-vercel-ip-country')
+            || geoHeader(req, 'cf-ipcountry')
+            || geoHeader(req, 'x-appengine-country');
+
+        if (city && country) return `${city}, ${country}`;
+        if (country && country !== 'XX') return country;
+    }
+
+    // Loopback and RFC 1918 private ranges (IPv4-mapped addresses included)
+    const address = ip.replace(/^::ffff:/, '');
+    if (/^(::1$|127\.|10\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.)/.test(address)) {
+        return 'Local network';
+    }
+
+    return 'Unknown location';
+};
+
+const refreshCookieOptions = () => ({
+    httpOnly: true,
+    secure: isProduction(),
+    // Frontend and API live on different sites in production
+    sameSite: (isProduction() ? 'none' : 'lax') as 'none' | 'lax',
+    path: '/api/v1/auth',
+});
+
+export const setRefreshCookie = (res: Response, refreshToken: string, expiresAt: Date): void => {
+    res.cookie(REFRESH_COOKIE_NAME, refreshToken, {
+        ...refreshCookieOptions(),
+        expires: expiresAt,
+    });
+};
+
+export const clearRefreshCookie = (res: Response): void => {
+    res.clearCookie(REFRESH_COOKIE_NAME, refreshCookieOptions());
+};
+
+export const getRefreshCookie = (req: Request): string | undefined => {
+    const token = req.cookies?.[REFRESH_COOKIE_NAME];
+    return typeof token === 'string' && token.length > 0 ? token : undefined;
+};
+
+/**
+ * Starts a new session for the user, sets the refresh cookie and
+ * returns a fresh access token.
+ */
+export const startSession = async (
+    userId: string,
+    req: Request,
+    res: Response
+): Promise<{ accessToken: string; session: ISession }> => {
+    const refreshToken = crypto.randomBytes(32).toString('hex');
+    const userAgent = (req.headers['user-agent'] || '').slice(0, 512);
+    const ip = getClientIp(req);
+    const expiresAt = new Date(Date.now() + refreshTokenTtlMs());
+
+    const session = await Session.create({
+        user: userId,
+        refreshTokenHash: hashToken(refreshToken),
+        userAgent,
+        device: describeUserAgent(userAgent),
+        ip,
+        location: describeLocation(req, ip),
+        lastUsedAt: new Date(),
+        expiresAt,
+    });
+
+    setRefreshCookie(res, refreshToken, expiresAt);
+
+    return {
+        accessToken: generateAccessToken(userId, session._id.toString()),
+        session,
+    };
+};
+
+/**
+ * True while a session's rotated-out refresh token may still be presented:
+ * tabs that refresh together all send the same cookie, and only the first
+ * of them rotates it.
+ */
+export const isWithinReuseGrace = (session: ISession): boolean =>
+    Boolean(session.rotatedAt && Date.now() - session.rotatedAt.getTime() < REFRESH_REUSE_GRACE_MS);
+
+/**
+ * Swaps the session's refresh token for a new one (sliding expiry)
+ * and returns a fresh access token.
+ *
+ * SECURITY: The swap only happens if tokenHash is still the current token,
+ * so concurrent refreshes rotate once. Returns null for the ones that lose.
+ */
+export const rotateSession = async (
+    session: ISession,
+    tokenHash: string,
+    req: Request,
+    res: Response
+): Promise<string | null> => {
+    const refreshToken = crypto.randomBytes(32).toString('hex');
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + refreshTokenTtlMs());
+    const ip = getClientIp(req);
+
+    const rotated = await Session.findOneAndUpdate(
+        { _id: session._id, refreshTokenHash: tokenHash, revokedAt: { $exists: false } },
+        {
+            $set: {
+                previousTokenHash: tokenHash,
+                refreshTokenHash: hashToken(refreshToken),
+                rotatedAt: now,
+                lastUsedAt: now,
+                ip,
+                location: describeLocation(req, ip),
+                expiresAt,
+            },
+        }
+    );
+
+    if (!rotated) {
+        return null;
+    }
+
+    setRefreshCookie(res, refreshToken, expiresAt);
+
+    return generateAccessToken(session.user.toString(), session._id.toString());
+};
+
+/**
+ * Revokes every active session of a user, optionally keeping one.
+ */
+export const revokeUserSessions = async (userId: string, exceptSessionId?: string): Promise<number> => {
+    const filter: Record<string, unknown> = { user: userId, revokedAt: { $exists: false } };
+    if (exceptSessionId) {
+        filter._id = { $ne: exceptSessionId };
+    }
+    const result = await Session.updateMany(filter, { revokedAt: new Date() });
+    return result.modifiedCount;
+};
@@ -17,7 +17,14 @@ import Profile from "@/pages/Profile";
 import NotFound from "@/pages/NotFound";
 import ForgotPassword from "@/pages/ForgotPassword";
 import ResetPassword from "@/pages/ResetPassword";
+import VerifyEmail from "@/pages/VerifyEmail";
 import PostDetail from "@/pages/PostDetail";
+import Messages from "@/pages/Messages";
+import UserProfile from "@/pages/UserProfile";
+import Applicants from "@/pages/Applicants";
+import MyApplications from "@/pages/MyApplications";
+import Saved from "@/pages/Saved";
+import Trash from "@/pages/Trash";
 
 const queryClient = new QueryClient();
 
@@ -41,6 +48,7 @@ const App = () => (
               <Route path="/feed" element={<Feed />} />
               <Route path="/forgot-password" element={<ForgotPassword />} />
               <Route path="/reset-password/:token" element={<ResetPassword />} />
+              <Route path="/verify-email/:token" element={<VerifyEmail />} />
               <Route path="/post/:id" element={<PostDetail />} />
               <Route
                 path="/profile"
@@ -50,6 +58,46 @@ const App = () => (
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/post/:id/applicants"
+                element={
+                  <ProtectedRoute>
+                    <Applicants />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/saved"
+                element={
+                  <ProtectedRoute>
+                    <Saved />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/trash"
+                element={
+                  <ProtectedRoute>
+                    <Trash />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/applications"
+                element={
+                  <ProtectedRoute>
+                    <MyApplications />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/u/:id"
+                element={
+                  <ProtectedRoute>
+                    <UserProfile />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/create"
                 element={
@@ -58,6 +106,14 @@ const App = () => (
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/messages/:conversationId?"
+                element={
+                  <ProtectedRoute>
+                    <Messages />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/admin"
                 element={
@@ -0,0 +1,140 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { usersApi } from '@/lib/api';
+import { UserSession } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { toast } from 'sonner';
+import { Loader2, Monitor, Smartphone, MapPin, Clock, LogOut } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+const isMobileDevice = (device: string) => /Android|iOS/.test(device);
+
+export function ActiveSessions() {
+    const queryClient = useQueryClient();
+
+    const { data: sessions = [], isPending, error } = useQuery({
+        queryKey: ['sessions'],
+        queryFn: async (): Promise<UserSession[]> => {
+            const response = await usersApi.getSessions();
+            return response.data || [];
+        },
+    });
+
+    const revokeSession = useMutation({
+        mutationFn: (id: string) => usersApi.revokeSession(id),
+        onSuccess: () => {
+            toast.success('Session signed out');
+            queryClient.invalidateQueries({ queryKey: ['sessions'] });
+        },
+        onError: (err) => {
+            toast.error(err instanceof Error ? err.message : 'Failed to revoke session');
+        },
+    });
+
+    const revokeOthers = useMutation({
+        mutationFn: () => usersApi.revokeOtherSessions(),
+        onSuccess: (response) => {
+            const revoked = response.data?.revoked ?? 0;
+            toast.success(revoked === 1 ? 'Signed out of 1 other session' : `Signed out of ${revoked} other sessions`);
+            queryClient.invalidateQueries({ queryKey: ['sessions'] });
+        },
+        onError: (err) => {
+            toast.error(err instanceof Error ? err.message : 'Failed to sign out other sessions');
+        },
+    });
+
+    const otherSessions = sessions.filter(session => !session.current);
+
+    return (
+        <Card className="gradient-card border-border/50">
+            <CardHeader>
+                <CardTitle className="text-lg">Active Sessions</CardTitle>
+                <CardDescription>
+                    Devices where you're signed in. Sign out of any you don't recognise.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {isPending ? (
+                    <div className="flex items-center justify-center py-8">
+                        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                    </div>
+                ) : error ? (
+                    <p className="text-sm text-destructive">
+                        {error instanceof Error ? error.message : 'Failed to load sessions'}
+                    </p>
+                ) : (
+                    <div className="space-y-3">
+                        {sessions.map((session, i) => {
+                            const DeviceIcon = isMobileDevice(session.device) ? Smartphone : Monitor;
+                            const isRevoking = revokeSession.isPending && revokeSession.variables === session.id;
+
+                            return (
+                                <div key={session.id}>
+                                    {i > 0 && <Separator className="mb-3" />}
+                                    <div className="flex items-start gap-3">
+                                        <div className="p-2 rounded-lg bg-primary/10">
+                                            <DeviceIcon className="h-5 w-5 text-primary" />
+                                        </div>
+                                        <div className="flex-1 min-w-0 space-y-1">
+                                            <div className="flex items-center gap-2">
+                                                <p className="font-medium text-foreground">{session.device}</p>
+                                                {session.current && (
+                                                    <Badge variant="outline" className="bg-success/10 text-success border-success/20">
+                                                        This device
+                                                    </Badge>
+                                                )}
+                                            </div>
+                                            <p className="text-xs text-muted-foreground truncate" title={session.userAgent}>
+                                                {session.userAgent || 'Unknown browser'}
+                                            </p>
+                                            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                                                <span className="flex items-center gap-1">
+                                                    <MapPin className="h-3 w-3" />
+                                                    {session.location} · {session.ip}
+                                                </span>
+                                                <span className="flex items-center gap-1">
+                                                    <Clock className="h-3 w-3" />
+                                                    Active {formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}
+                                                </span>
+                                            </div>
+                                        </div>
+                                        {!session.current && (
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                                                onClick={() => revokeSession.mutate(session.id)}
+                                                disabled={isRevoking}
+                                                aria-label={`Sign out ${session.device}`}
+                                            >
+                                                {isRevoking ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Revoke'}
+                                            </Button>
+                                        )}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+
+                {otherSessions.length > 0 && (
+                    <Button
+                        variant="outline"
+                        className="w-full gap-2"
+                        onClick={() => revokeOthers.mutate()}
+                        disabled={revokeOthers.isPending}
+                    >
+                        {revokeOthers.isPending ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                            <LogOut className="h-4 w-4" />
+                        )}
+                        Sign out everywhere else
+                    </Button>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
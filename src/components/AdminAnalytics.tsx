@@ -0,0 +1,363 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { adminApi } from '@/lib/api';
+import { avatarFor } from '@/lib/profile';
+import { AdminStats, AdminStatsFilters, StatsBucket } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+    ChartConfig,
+    ChartContainer,
+    ChartLegend,
+    ChartLegendContent,
+    ChartTooltip,
+    ChartTooltipContent,
+} from '@/components/ui/chart';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Activity, BadgeCheck, FileText, Heart, Loader2, MessageSquare, Users } from 'lucide-react';
+import { differenceInCalendarDays, format, parseISO, subDays } from 'date-fns';
+
+// Mirrors the server's cap on a single request
+const MAX_RANGE_DAYS = 366;
+
+const PRESETS = [7, 30, 90, 365];
+
+const BUCKET_LABELS: Record<StatsBucket, string> = {
+    day: 'Daily',
+    week: 'Weekly',
+};
+
+const growthConfig = {
+    signups: { label: 'Signups', color: 'hsl(var(--primary))' },
+    posts: { label: 'Posts', color: 'hsl(var(--warning))' },
+} satisfies ChartConfig;
+
+const engagementConfig = {
+    comments: { label: 'Comments', color: 'hsl(var(--success))' },
+    likes: { label: 'Likes', color: 'hsl(var(--destructive))' },
+} satisfies ChartConfig;
+
+const tagsConfig = {
+    count: { label: 'Posts', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const toDateInput = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Buckets start at UTC midnight; read the date part so the label doesn't shift a day west of UTC
+const bucketLabel = (date: string) => format(parseISO(date.slice(0, 10)), 'MMM d');
+
+function StatCard({
+    label,
+    value,
+    hint,
+    icon: Icon,
+    color,
+}: {
+    label: string;
+    value: string | number;
+    hint?: string;
+    icon: typeof Users;
+    color: string;
+}) {
+    return (
+        <Card className="gradient-card border-border/50">
+            <CardContent className="pt-6">
+                <div className="flex items-center justify-between">
+                    <div>
+                        <p className="text-sm text-muted-foreground">{label}</p>
+                        <p className="text-3xl font-bold text-foreground">{value}</p>
+                        {hint && <p className="text-xs text-muted-foreground mt-1">{hint}</p>}
+                    </div>
+                    <Icon className={`h-8 w-8 ${color} opacity-80`} />
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
+
+function SeriesChart({
+    stats,
+    config,
+}: {
+    stats: AdminStats;
+    config: typeof growthConfig | typeof engagementConfig;
+}) {
+    return (
+        <ChartContainer config={config} className="h-[240px] w-full">
+            <LineChart data={stats.series} margin={{ left: -16, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickFormatter={bucketLabel} tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={bucketLabel} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {Object.keys(config).map(key => (
+                    <Line
+                        key={key}
+                        dataKey={key}
+                        type="monotone"
+                        stroke={`var(--color-${key})`}
+                        strokeWidth={2}
+                        dot={false}
+                    />
+                ))}
+            </LineChart>
+        </ChartContainer>
+    );
+}
+
+/**
+ * Platform overview for admins: totals, activity over a chosen date range,
+ * active users, top tags, the most engaged posts and the verification rate.
+ * Everything is counted on the server.
+ */
+export function AdminAnalytics() {
+    const [from, setFrom] = useState(() => toDateInput(subDays(new Date(), 29)));
+    const [to, setTo] = useState(() => toDateInput(new Date()));
+    const [bucket, setBucket] = useState<StatsBucket>('day');
+
+    const rangeDays = from && to ? differenceInCalendarDays(parseISO(to), parseISO(from)) + 1 : 0;
+    const rangeError = !from || !to
+        ? 'Pick a start and end date'
+        : rangeDays < 1
+            ? 'The start date must be before the end date'
+            : rangeDays > MAX_RANGE_DAYS
+                ? `Pick a range of at most ${MAX_RANGE_DAYS} days`
+                : null;
+
+    // Date inputs are whole local days
+    const filters: AdminStatsFilters = {
+        from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+        to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+        bucket,
+    };
+
+    const statsQuery = useQuery({
+        queryKey: ['admin', 'stats', filters],
+        queryFn: () => adminApi.getStats(filters),
+        enabled: !rangeError,
+        placeholderData: (previous) => previous,
+    });
+
+    const stats = statsQuery.data?.data;
+
+    const applyPreset = (days: number) => {
+        const today = new Date();
+        setFrom(toDateInput(subDays(today, days - 1)));
+        setTo(toDateInput(today));
+        // A year of daily points is too dense to read
+        if (days > 90) setBucket('week');
+    };
+
+    const inRange = (key: 'signups' | 'posts' | 'comments' | 'likes') =>
+        stats ? stats.series.reduce((sum, point) => sum + point[key], 0) : 0;
+
+    return (
+        <div className="space-y-6">
+            <Card className="gradient-card border-border/50">
+                <CardContent className="pt-6">
+                    <div className="flex flex-col lg:flex-row lg:items-end gap-4">
+                        <div className="flex flex-wrap gap-2">
+                            {PRESETS.map(days => (
+                                <Button
+                                    key={days}
+                                    variant={rangeDays === days && to === toDateInput(new Date()) ? 'secondary' : 'outline'}
+                                    size="sm"
+                                    onClick={() => applyPreset(days)}
+                                >
+                                    {days === 365 ? '1 year' : `${days} days`}
+                                </Button>
+                            ))}
+                        </div>
+                        <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+                            <div className="space-y-1">
+                                <Label htmlFor="statsFrom" className="text-xs text-muted-foreground">From</Label>
+                                <Input id="statsFrom" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor="statsTo" className="text-xs text-muted-foreground">To</Label>
+                                <Input id="statsTo" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+                            </div>
+                            <div className="space-y-1 sm:w-32">
+                                <Label htmlFor="statsBucket" className="text-xs text-muted-foreground">Group by</Label>
+                                <Select value={bucket} onValueChange={(value) => setBucket(value as StatsBucket)}>
+                                    <SelectTrigger id="statsBucket">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {(Object.entries(BUCKET_LABELS) as [StatsBucket, string][]).map(([value, label]) => (
+                                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+                        {statsQuery.isFetching && stats && (
+                            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground lg:mb-3" />
+                        )}
+                    </div>
+                    {rangeError && <p className="text-sm text-destructive mt-2">{rangeError}</p>}
+                </CardContent>
+            </Card>
+
+            {statsQuery.isPending && !rangeError ? (
+                <div className="flex items-center justify-center py-8">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+            ) : statsQuery.error ? (
+                <p className="text-sm text-destructive">
+                    {statsQuery.error instanceof Error ? statsQuery.error.message : 'Failed to load stats'}
+                </p>
+            ) : stats && (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4">
+                        <StatCard
+                            label="Users"
+                            value={stats.totals.users}
+                            hint={`+${inRange('signups')} in range`}
+                            icon={Users}
+                            color="text-primary"
+                        />
+                        <StatCard
+                            label="Posts"
+                            value={stats.totals.posts}
+                            hint={`${stats.totals.postsByType.project} projects · ${stats.totals.postsByType.hackathon} hackathons · ${stats.totals.postsByType.internship} internships`}
+                            icon={FileText}
+                            color="text-warning"
+                        />
+                        <StatCard
+                            label="Comments"
+                            value={stats.totals.comments}
+                            hint={`+${inRange('comments')} in range`}
+                            icon={MessageSquare}
+                            color="text-success"
+                        />
+                        <StatCard
+                            label="Likes"
+                            value={stats.totals.likes}
+                            hint={`+${inRange('likes')} in range`}
+                            icon={Heart}
+                            color="text-destructive"
+                        />
+                        <StatCard
+                            label="Active users"
+                            value={stats.activeUsers.daily}
+                            hint={`${stats.activeUsers.weekly} in the last 7 days`}
+                            icon={Activity}
+                            color="text-primary"
+                        />
+                        <StatCard
+                            label="Verified"
+                            value={`${Math.round(stats.verification.rate * 100)}%`}
+                            hint={`${stats.verification.verified} of ${stats.verification.total} accounts`}
+                            icon={BadgeCheck}
+                            color="text-success"
+                        />
+                    </div>
+
+                    <div className="grid lg:grid-cols-2 gap-6">
+                        <Card className="gradient-card border-border/50">
+                            <CardHeader>
+                                <CardTitle>Growth</CardTitle>
+                                <CardDescription>New accounts and posts per {bucket}</CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <SeriesChart stats={stats} config={growthConfig} />
+                            </CardContent>
+                        </Card>
+                        <Card className="gradient-card border-border/50">
+                            <CardHeader>
+                                <CardTitle>Engagement</CardTitle>
+                                <CardDescription>
+                                    Comments and likes per {bucket}
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <SeriesChart stats={stats} config={engagementConfig} />
+                            </CardContent>
+                        </Card>
+                    </div>
+
+                    <div className="grid lg:grid-cols-2 gap-6">
+                        <Card className="gradient-card border-border/50">
+                            <CardHeader>
+                                <CardTitle>Top Tags</CardTitle>
+                                <CardDescription>Most used on posts created in the range</CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                {stats.topTags.length === 0 ? (
+                                    <div className="text-center py-8 text-muted-foreground">No tagged posts</div>
+                                ) : (
+                                    <ChartContainer config={tagsConfig} className="h-[280px] w-full">
+                                        <BarChart data={stats.topTags} layout="vertical" margin={{ left: 8, right: 8 }}>
+                                            <CartesianGrid horizontal={false} />
+                                            <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                                            <YAxis type="category" dataKey="tag" width={96} tickLine={false} axisLine={false} />
+                                            <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+                                            <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                                        </BarChart>
+                                    </ChartContainer>
+                                )}
+                            </CardContent>
+                        </Card>
+                        <Card className="gradient-card border-border/50">
+                            <CardHeader>
+                                <CardTitle>Most Engaged Posts</CardTitle>
+                                <CardDescription>Likes plus comments, among posts created in the range</CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                {stats.topPosts.length === 0 ? (
+                                    <div className="text-center py-8 text-muted-foreground">No posts in this range</div>
+                                ) : (
+                                    <ul className="space-y-3">
+                                        {stats.topPosts.map(post => (
+                                            <li key={post.id} className="flex items-center gap-3">
+                                                <Avatar className="h-8 w-8">
+                                                    <AvatarImage src={avatarFor(post.author)} />
+                                                    <AvatarFallback className="text-xs">
+                                                        {post.author?.name?.charAt(0) || '?'}
+                                                    </AvatarFallback>
+                                                </Avatar>
+                                                <div className="min-w-0 flex-1">
+                                                    <Link to={`/post/${post.id}`} className="font-medium truncate block hover:text-primary">
+                                                        {post.title}
+                                                    </Link>
+                                                    <p className="text-xs text-muted-foreground truncate">
+                                                        {post.author?.name || 'Deleted user'}
+                                                    </p>
+                                                </div>
+                                                <div className="flex items-center gap-2 shrink-0">
+                                                    {post.isHidden && <Badge variant="secondary">Hidden</Badge>}
+                                                    <Badge variant="outline" className="capitalize">{post.type}</Badge>
+                                                    <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                                                        <Heart className="h-3.5 w-3.5" />
+                                                        {post.likes}
+                                                    </span>
+                                                    <span className="flex items-center gap-1 text-sm text-muted-foreground">
+                                                        <MessageSquare className="h-3.5 w-3.5" />
+                                                        {post.comments}
+                                                    </span>
+                                                </div>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </CardContent>
+                        </Card>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
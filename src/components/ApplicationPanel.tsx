@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { applicationsApi } from '@/lib/api';
+import { STAGE_BADGE_CLASSES, STAGE_LABELS } from '@/lib/applications';
+import { useAuth } from '@/contexts/AuthContext';
+import { InternshipDetails, MyApplication, Post } from '@/types';
+import { ApplyDialog } from '@/components/ApplyDialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ClipboardList, Loader2, Send, Users } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface ApplicationPanelProps {
+    post: Post;
+}
+
+// Deadlines are calendar days and stay open until the day ends
+const isPastDeadline = (deadline?: string) => {
+    if (!deadline) return false;
+    const endOfDay = new Date(`${deadline.slice(0, 10)}T23:59:59`);
+    return endOfDay.getTime() < Date.now();
+};
+
+/**
+ * The apply button of an internship, or the applicant's current stage once
+ * they have applied. Posters and admins get a link to the applicant pipeline.
+ */
+export function ApplicationPanel({ post }: ApplicationPanelProps) {
+    const { user, isAuthenticated } = useAuth();
+    const queryClient = useQueryClient();
+    const [isApplyOpen, setIsApplyOpen] = useState(false);
+
+    const canManage = Boolean(user && (post.author?.id === user.id || user.role === 'admin'));
+    const isAuthor = Boolean(user && post.author?.id === user.id);
+    const queryKey = ['application', post.id];
+
+    const { data: application, isPending } = useQuery({
+        queryKey,
+        queryFn: async (): Promise<MyApplication | null> => {
+            const response = await applicationsApi.getMineForPost(post.id);
+            return response.data;
+        },
+        enabled: isAuthenticated && !isAuthor,
+    });
+
+    if (canManage) {
+        return (
+            <div className="flex items-center justify-between gap-4 rounded-lg border border-border p-4">
+                <p className="text-sm text-muted-foreground">Review applicants and move them through your pipeline.</p>
+                <Button asChild variant="outline" className="gap-2 shrink-0">
+                    <Link to={`/post/${post.id}/applicants`}>
+                        <Users className="h-4 w-4" />
+                        View Applicants
+                    </Link>
+                </Button>
+            </div>
+        );
+    }
+
+    if (!isAuthenticated) {
+        return (
+            <p className="text-sm text-muted-foreground">
+                <Link to="/login" className="text-primary hover:underline">Log in</Link> to apply to this internship
+            </p>
+        );
+    }
+
+    if (isPending) {
+        return (
+            <div className="flex justify-center py-2">
+                <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+        );
+    }
+
+    if (application) {
+        return (
+            <div className="flex items-center justify-between gap-4 rounded-lg border border-border p-4">
+                <div className="space-y-1">
+                    <div className="flex items-center gap-2 text-sm">
+                        <span className="text-muted-foreground">Your application:</span>
+                        <Badge variant="outline" className={STAGE_BADGE_CLASSES[application.stage]}>
+                            {STAGE_LABELS[application.stage]}
+                        </Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                        Applied {formatDistanceToNow(new Date(application.createdAt), { addSuffix: true })}
+                    </p>
+                </div>
+                <Button asChild variant="ghost" size="sm" className="gap-2 shrink-0">
+                    <Link to="/applications">
+                        <ClipboardList className="h-4 w-4" />
+                        My Applications
+                    </Link>
+                </Button>
+            </div>
+        );
+    }
+
+    if (isPastDeadline((post.details as InternshipDetails | undefined)?.applicationDeadline)) {
+        return <p className="text-sm text-muted-foreground">Applications for this internship have closed.</p>;
+    }
+
+    return (
+        <>
+            <Button onClick={() => setIsApplyOpen(true)} className="gap-2">
+                <Send className="h-4 w-4" />
+                Apply Now
+            </Button>
+            <ApplyDialog
+                postId={post.id}
+                postTitle={post.title}
+                open={isApplyOpen}
+                onOpenChange={setIsApplyOpen}
+                onApplied={(created) => queryClient.setQueryData(queryKey, created)}
+            />
+        </>
+    );
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { applicationsApi, isEmailNotVerifiedError } from '@/lib/api';
+import { MAX_COVER_NOTE_LENGTH } from '@/lib/applications';
+import { MyApplication } from '@/types';
+import { MarkdownEditor } from '@/components/MarkdownEditor';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+
+interface ApplyDialogProps {
+    postId: string;
+    postTitle: string;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onApplied: (application: MyApplication) => void;
+}
+
+export function ApplyDialog({ postId, postTitle, open, onOpenChange, onApplied }: ApplyDialogProps) {
+    const [coverNote, setCoverNote] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!coverNote.trim()) {
+            toast.error('Cover note is required');
+            return;
+        }
+
+        setIsLoading(true);
+        try {
+            const response = await applicationsApi.apply(postId, coverNote.trim());
+            if (response.success) {
+                onApplied(response.data);
+                toast.success('Application sent!');
+                setCoverNote('');
+                onOpenChange(false);
+            }
+        } catch (error) {
+            if (isEmailNotVerifiedError(error)) {
+                toast.error('Verify your email to apply', {
+                    description: 'Use the link we emailed you, or resend it from the banner above.',
+                });
+                return;
+            }
+            toast.error(error instanceof Error ? error.message : 'Failed to send application');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Apply to {postTitle}</DialogTitle>
+                    <DialogDescription>
+                        Your name, email and profile as they are now are shared with the poster along with
+                        your cover note.
+                    </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit}>
+                    <div className="space-y-2 py-4">
+                        <Label htmlFor="coverNote">Cover note</Label>
+                        <MarkdownEditor
+                            id="coverNote"
+                            value={coverNote}
+                            onChange={setCoverNote}
+                            placeholder="Why are you a good fit for this internship?"
+                            maxLength={MAX_COVER_NOTE_LENGTH}
+                            rows={6}
+                            required
+                            disabled={isLoading}
+                        />
+                    </div>
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={isLoading}>
+                            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Send Application
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
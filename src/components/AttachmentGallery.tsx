@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { formatFileSize } from '@/lib/attachments';
+import { PostAttachment } from '@/types';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { Download, FileText } from 'lucide-react';
+
+interface AttachmentGalleryProps {
+    attachments: PostAttachment[];
+    // Cards show a few thumbnails and a document count; the detail page shows everything
+    compact?: boolean;
+}
+
+const COMPACT_IMAGE_COUNT = 4;
+
+export function AttachmentGallery({ attachments, compact = false }: AttachmentGalleryProps) {
+    const [openImage, setOpenImage] = useState<PostAttachment | null>(null);
+
+    const images = attachments.filter(attachment => attachment.kind === 'image');
+    const documents = attachments.filter(attachment => attachment.kind === 'document');
+
+    if (attachments.length === 0) return null;
+
+    const shownImages = compact ? images.slice(0, COMPACT_IMAGE_COUNT) : images;
+    const hiddenImageCount = images.length - shownImages.length;
+
+    return (
+        <div className="space-y-3">
+            {shownImages.length > 0 && (
+                <div className={`grid gap-2 ${shownImages.length === 1 ? 'grid-cols-1' : 'grid-cols-2'}`}>
+                    {shownImages.map((image, index) => {
+                        const isLastWithMore = index === shownImages.length - 1 && hiddenImageCount > 0;
+
+                        return (
+                            <button
+                                key={image.id}
+                                type="button"
+                                onClick={(e) => {
+                                    // Cards link to the post; opening an image shouldn't navigate
+                                    e.preventDefault();
+                                    e.stopPropagation();
+                                    setOpenImage(image);
+                                }}
+                                className="relative overflow-hidden rounded-lg bg-muted"
+                            >
+                                <img
+                                    src={image.url}
+                                    alt={image.name}
+                                    loading="lazy"
+                                    className={`w-full object-cover ${shownImages.length === 1 ? 'max-h-96' : 'aspect-video'}`}
+                                />
+                                {isLastWithMore && (
+                                    <span className="absolute inset-0 flex items-center justify-center bg-background/60 text-lg font-semibold">
+                                        +{hiddenImageCount}
+                                    </span>
+                                )}
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
+            {documents.length > 0 && (compact ? (
+                <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                    <FileText className="h-3.5 w-3.5" />
+                    {documents.length} {documents.length === 1 ? 'document' : 'documents'} attached
+                </p>
+            ) : (
+                <ul className="space-y-2">
+                    {documents.map(document => (
+                        <li key={document.id}>
+                            <a
+                                href={document.url}
+                                download={document.name}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex items-center gap-3 rounded-lg border border-border p-3 hover:bg-muted/50 transition-colors"
+                            >
+                                <FileText className="h-5 w-5 text-primary shrink-0" />
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm font-medium truncate">{document.name}</p>
+                                    <p className="text-xs text-muted-foreground">{formatFileSize(document.size)}</p>
+                                </div>
+                                <Download className="h-4 w-4 text-muted-foreground" />
+                            </a>
+                        </li>
+                    ))}
+                </ul>
+            ))}
+
+            <Dialog open={openImage !== null} onOpenChange={(open) => !open && setOpenImage(null)}>
+                <DialogContent className="max-w-4xl p-2">
+                    <DialogTitle className="sr-only">{openImage?.name}</DialogTitle>
+                    {openImage && (
+                        <img
+                            src={openImage.url}
+                            alt={openImage.name}
+                            className="w-full max-h-[80vh] object-contain rounded"
+                        />
+                    )}
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -0,0 +1,177 @@
+import { useEffect, useRef, useState } from 'react';
+import { postsApi } from '@/lib/api';
+import {
+    ATTACHMENT_ACCEPT,
+    ATTACHMENT_MAX_BYTES,
+    MAX_POST_ATTACHMENTS,
+    formatFileSize,
+} from '@/lib/attachments';
+import { PostAttachment } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { toast } from 'sonner';
+import { FileText, ImagePlus, Upload, X } from 'lucide-react';
+
+interface PendingUpload {
+    id: string;
+    name: string;
+    progress: number;
+}
+
+interface AttachmentUploaderProps {
+    attachments: PostAttachment[];
+    onChange: React.Dispatch<React.SetStateAction<PostAttachment[]>>;
+    onUploadingChange?: (uploading: boolean) => void;
+    disabled?: boolean;
+}
+
+let pendingCounter = 0;
+
+export function AttachmentUploader({ attachments, onChange, onUploadingChange, disabled }: AttachmentUploaderProps) {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [pending, setPending] = useState<PendingUpload[]>([]);
+    const [isDragging, setIsDragging] = useState(false);
+
+    const remaining = MAX_POST_ATTACHMENTS - attachments.length - pending.length;
+    const isUploading = pending.length > 0;
+
+    // Lets the form hold off saving until every upload has an id
+    useEffect(() => {
+        onUploadingChange?.(isUploading);
+    }, [isUploading, onUploadingChange]);
+
+    const upload = async (file: File) => {
+        const id = `pending-${++pendingCounter}`;
+        setPending(prev => [...prev, { id, name: file.name, progress: 0 }]);
+
+        try {
+            const response = await postsApi.uploadAttachment(file, (progress) => {
+                setPending(prev => prev.map(item => (item.id === id ? { ...item, progress } : item)));
+            });
+            if (response.success) {
+                onChange(prev => [...prev, response.data]);
+            }
+        } catch (error) {
+            toast.error(`${file.name}: ${error instanceof Error ? error.message : 'Upload failed'}`);
+        } finally {
+            setPending(prev => prev.filter(item => item.id !== id));
+        }
+    };
+
+    const addFiles = (files: FileList | null) => {
+        if (!files || disabled) return;
+
+        const list = Array.from(files);
+        if (list.length > remaining) {
+            toast.error(`A post can have up to ${MAX_POST_ATTACHMENTS} attachments`);
+        }
+
+        for (const file of list.slice(0, Math.max(remaining, 0))) {
+            if (file.size > ATTACHMENT_MAX_BYTES) {
+                toast.error(`${file.name} is larger than ${formatFileSize(ATTACHMENT_MAX_BYTES)}`);
+                continue;
+            }
+            void upload(file);
+        }
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+        addFiles(e.dataTransfer.files);
+    };
+
+    const remove = (id: string) => {
+        onChange(prev => prev.filter(attachment => attachment.id !== id));
+    };
+
+    return (
+        <div className="space-y-3">
+            <div
+                role="button"
+                tabIndex={0}
+                onClick={() => !disabled && remaining > 0 && inputRef.current?.click()}
+                onKeyDown={(e) => {
+                    if ((e.key === 'Enter' || e.key === ' ') && !disabled && remaining > 0) {
+                        e.preventDefault();
+                        inputRef.current?.click();
+                    }
+                }}
+                onDragOver={(e) => {
+                    e.preventDefault();
+                    setIsDragging(true);
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                className={`flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-6 text-center transition-colors ${
+                    isDragging ? 'border-primary bg-primary/5' : 'border-border hover:border-muted-foreground/50'
+                } ${disabled || remaining <= 0 ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+            >
+                <Upload className="h-6 w-6 text-muted-foreground" />
+                <p className="text-sm font-medium">Drop files here or click to browse</p>
+                <p className="text-xs text-muted-foreground">
+                    Images, PDF, Word, PowerPoint, Excel or text · up to {formatFileSize(ATTACHMENT_MAX_BYTES)} each · {Math.max(remaining, 0)} of {MAX_POST_ATTACHMENTS} left
+                </p>
+                <input
+                    ref={inputRef}
+                    type="file"
+                    multiple
+                    accept={ATTACHMENT_ACCEPT}
+                    className="hidden"
+                    onChange={(e) => {
+                        addFiles(e.target.files);
+                        // Clear so picking the same file again still fires onChange
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+
+            {(attachments.length > 0 || pending.length > 0) && (
+                <ul className="space-y-2">
+                    {attachments.map(attachment => (
+                        <li key={attachment.id} className="flex items-center gap-3 rounded-lg border border-border p-2">
+                            {attachment.kind === 'image' ? (
+                                <img
+                                    src={attachment.url}
+                                    alt={attachment.name}
+                                    className="h-10 w-10 rounded object-cover"
+                                />
+                            ) : (
+                                <div className="h-10 w-10 rounded bg-muted flex items-center justify-center">
+                                    <FileText className="h-5 w-5 text-muted-foreground" />
+                                </div>
+                            )}
+                            <div className="flex-1 min-w-0">
+                                <p className="text-sm truncate">{attachment.name}</p>
+                                <p className="text-xs text-muted-foreground">{formatFileSize(attachment.size)}</p>
+                            </div>
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => remove(attachment.id)}
+                                disabled={disabled}
+                                aria-label={`Remove ${attachment.name}`}
+                            >
+                                <X className="h-4 w-4" />
+                            </Button>
+                        </li>
+                    ))}
+                    {pending.map(item => (
+                        <li key={item.id} className="flex items-center gap-3 rounded-lg border border-border p-2">
+                            <div className="h-10 w-10 rounded bg-muted flex items-center justify-center">
+                                <ImagePlus className="h-5 w-5 text-muted-foreground" />
+                            </div>
+                            <div className="flex-1 min-w-0 space-y-1">
+                                <p className="text-sm truncate">{item.name}</p>
+                                <Progress value={item.progress} className="h-1.5" />
+                            </div>
+                            <span className="text-xs text-muted-foreground w-10 text-right">{item.progress}%</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
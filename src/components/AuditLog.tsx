@@ -0,0 +1,280 @@
+import { useState } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { adminApi } from '@/lib/api';
+import { AUDIT_ACTION_LABELS, AUDIT_ACTION_OPTIONS } from '@/lib/audit';
+import { AuditAction, AuditLogEntry, AuditLogFilters, AuditUser } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import { toast } from 'sonner';
+import { Download, Loader2, X } from 'lucide-react';
+import { format } from 'date-fns';
+
+const PAGE_SIZE = 50;
+const ANY = 'any';
+
+const formatValue = (value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'string') return value;
+    return JSON.stringify(value);
+};
+
+function Changes({ changes }: { changes: AuditLogEntry['changes'] }) {
+    if (!changes) return null;
+
+    return (
+        <ul className="space-y-0.5 text-xs text-muted-foreground">
+            {Object.entries(changes).map(([field, { from, to }]) => (
+                <li key={field} className="break-words line-clamp-2">
+                    <span className="font-medium text-foreground">{field}</span>: {formatValue(from)} → {formatValue(to)}
+                </li>
+            ))}
+        </ul>
+    );
+}
+
+/**
+ * Admin view of the audit log: who did what to which post, comment or
+ * account, filterable by action, person and date, with a CSV export of
+ * whatever the filters select.
+ */
+export function AuditLog() {
+    const [action, setAction] = useState<AuditAction | typeof ANY>(ANY);
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+    // Set by clicking a name in the table
+    const [actor, setActor] = useState<AuditUser | null>(null);
+    const [target, setTarget] = useState<{ id: string; label: string } | null>(null);
+    const [isExporting, setIsExporting] = useState(false);
+
+    // Date inputs are whole local days
+    const filters: AuditLogFilters = {
+        action: action === ANY ? undefined : action,
+        actor: actor?.id,
+        target: target?.id,
+        from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+        to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+    };
+
+    const logQuery = useInfiniteQuery({
+        queryKey: ['admin', 'audit-log', filters],
+        queryFn: ({ pageParam }) => adminApi.getAuditLog(filters, { cursor: pageParam, limit: PAGE_SIZE }),
+        initialPageParam: null as string | null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+    });
+
+    const entries = logQuery.data?.pages.flatMap(page => page.data) ?? [];
+    const hasFilters = action !== ANY || from || to || actor || target;
+
+    const clearFilters = () => {
+        setAction(ANY);
+        setFrom('');
+        setTo('');
+        setActor(null);
+        setTarget(null);
+    };
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            const blob = await adminApi.exportAuditLog(filters);
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `audit-log-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to export audit log');
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <Card className="gradient-card border-border/50">
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div className="space-y-1.5">
+                    <CardTitle>Audit Log</CardTitle>
+                    <CardDescription>
+                        Admin overrides, deletions, account changes and sign-in security events. Entries can't be edited or removed.
+                    </CardDescription>
+                </div>
+                <Button variant="outline" size="sm" className="gap-2 shrink-0" onClick={handleExport} disabled={isExporting}>
+                    {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                    Export CSV
+                </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+                    <div className="space-y-1 sm:w-56">
+                        <Label htmlFor="auditAction" className="text-xs text-muted-foreground">Action</Label>
+                        <Select value={action} onValueChange={(value) => setAction(value as AuditAction | typeof ANY)}>
+                            <SelectTrigger id="auditAction">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ANY}>Any action</SelectItem>
+                                {AUDIT_ACTION_OPTIONS.map(([value, label]) => (
+                                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="auditFrom" className="text-xs text-muted-foreground">From</Label>
+                        <Input id="auditFrom" type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="auditTo" className="text-xs text-muted-foreground">To</Label>
+                        <Input id="auditTo" type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+                    </div>
+                    {hasFilters && (
+                        <Button variant="ghost" size="sm" onClick={clearFilters}>
+                            Clear filters
+                        </Button>
+                    )}
+                </div>
+
+                {(actor || target) && (
+                    <div className="flex flex-wrap gap-2">
+                        {actor && (
+                            <Badge variant="secondary" className="gap-1">
+                                By {actor.name}
+                                <button type="button" onClick={() => setActor(null)} aria-label="Clear person filter">
+                                    <X className="h-3 w-3" />
+                                </button>
+                            </Badge>
+                        )}
+                        {target && (
+                            <Badge variant="secondary" className="gap-1">
+                                About {target.label}
+                                <button type="button" onClick={() => setTarget(null)} aria-label="Clear target filter">
+                                    <X className="h-3 w-3" />
+                                </button>
+                            </Badge>
+                        )}
+                    </div>
+                )}
+
+                {logQuery.isPending ? (
+                    <div className="flex items-center justify-center py-8">
+                        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                    </div>
+                ) : logQuery.error ? (
+                    <p className="text-sm text-destructive">
+                        {logQuery.error instanceof Error ? logQuery.error.message : 'Failed to load the audit log'}
+                    </p>
+                ) : entries.length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground">
+                        No entries
+                    </div>
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>Time</TableHead>
+                                <TableHead>Action</TableHead>
+                                <TableHead>By</TableHead>
+                                <TableHead>Target</TableHead>
+                                <TableHead>Changes</TableHead>
+                                <TableHead>IP</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {entries.map(entry => {
+                                // Shown when someone other than the owner acted, e.g. an admin deleting a post
+                                const owner = entry.targetOwner;
+
+                                return (
+                                    <TableRow key={entry.id}>
+                                        <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                                            {format(new Date(entry.createdAt), 'MMM d, yyyy HH:mm')}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Badge variant="outline" className="whitespace-nowrap">
+                                                {AUDIT_ACTION_LABELS[entry.action]}
+                                            </Badge>
+                                        </TableCell>
+                                        <TableCell className="text-sm">
+                                            {entry.actor ? (
+                                                <button
+                                                    type="button"
+                                                    onClick={() => setActor(entry.actor)}
+                                                    className="hover:text-primary text-left"
+                                                    title={entry.actor.email}
+                                                >
+                                                    {entry.actor.name}
+                                                </button>
+                                            ) : (
+                                                <span className="text-muted-foreground">Signed out</span>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="text-sm max-w-[240px]">
+                                            <button
+                                                type="button"
+                                                onClick={() => setTarget({ id: entry.target, label: entry.targetLabel })}
+                                                className="hover:text-primary text-left truncate block max-w-full"
+                                            >
+                                                <span className="capitalize text-muted-foreground">{entry.targetType}</span>{' '}
+                                                {entry.targetLabel}
+                                            </button>
+                                            {owner && owner.id !== entry.actor?.id && (
+                                                <button
+                                                    type="button"
+                                                    onClick={() => setTarget({ id: owner.id, label: owner.name })}
+                                                    className="text-xs text-muted-foreground hover:text-primary"
+                                                >
+                                                    by {owner.name}
+                                                </button>
+                                            )}
+                                            {entry.details && (
+                                                <p className="text-xs text-muted-foreground break-words">{entry.details}</p>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className="max-w-[280px]">
+                                            <Changes changes={entry.changes} />
+                                        </TableCell>
+                                        <TableCell className="text-xs text-muted-foreground" title={entry.userAgent}>
+                                            {entry.ip}
+                                        </TableCell>
+                                    </TableRow>
+                                );
+                            })}
+                        </TableBody>
+                    </Table>
+                )}
+
+                {logQuery.hasNextPage && (
+                    <div className="flex justify-center">
+                        <Button
+                            variant="outline"
+                            onClick={() => logQuery.fetchNextPage()}
+                            disabled={logQuery.isFetchingNextPage}
+                        >
+                            {logQuery.isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Load more
+                        </Button>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,132 @@
+import { useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { usersApi } from '@/lib/api';
+import { isGeneratedAvatar } from '@/lib/profile';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from 'sonner';
+import { Camera, Loader2, Trash2, Upload } from 'lucide-react';
+
+// Matches the server's limits; the server re-checks the actual file contents
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+const ACCEPTED_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+export function AvatarUploader() {
+    const { user, updateUser } = useAuth();
+    const queryClient = useQueryClient();
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [progress, setProgress] = useState<number | null>(null);
+    const [isRemoving, setIsRemoving] = useState(false);
+
+    if (!user) return null;
+
+    const isBusy = progress !== null || isRemoving;
+
+    const applyAvatar = (avatar: string) => {
+        updateUser({ ...user, avatar });
+        queryClient.invalidateQueries({ queryKey: ['profile', user.id] });
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Clear so picking the same file again still fires onChange
+        e.target.value = '';
+        if (!file) return;
+
+        if (!ACCEPTED_TYPES.includes(file.type)) {
+            toast.error('Please choose a JPEG, PNG, WebP or GIF image');
+            return;
+        }
+        if (file.size > MAX_FILE_BYTES) {
+            toast.error('Image must be 5MB or smaller');
+            return;
+        }
+
+        setProgress(0);
+        try {
+            const response = await usersApi.uploadAvatar(file, setProgress);
+            if (response.success) {
+                applyAvatar(response.data.avatar);
+                toast.success('Profile photo updated');
+            }
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to upload photo');
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    const handleRemove = async () => {
+        setIsRemoving(true);
+        try {
+            const response = await usersApi.removeAvatar();
+            if (response.success) {
+                applyAvatar(response.data.avatar);
+                toast.success('Profile photo removed');
+            }
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Failed to remove photo');
+        } finally {
+            setIsRemoving(false);
+        }
+    };
+
+    return (
+        <div className="relative">
+            <Avatar className="h-24 w-24 border-4 border-background shadow-lg">
+                <AvatarImage src={user.avatar} alt={user.name} />
+                <AvatarFallback className="text-2xl bg-primary text-primary-foreground">
+                    {user.name.charAt(0)}
+                </AvatarFallback>
+            </Avatar>
+
+            {isBusy && (
+                <div className="absolute inset-1 rounded-full bg-background/70 flex flex-col items-center justify-center">
+                    <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                    {progress !== null && (
+                        <span className="text-xs font-medium mt-1">{progress}%</span>
+                    )}
+                </div>
+            )}
+
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <button
+                        type="button"
+                        disabled={isBusy}
+                        aria-label="Change profile photo"
+                        className="absolute bottom-0 right-0 h-8 w-8 rounded-full bg-primary text-primary-foreground shadow flex items-center justify-center hover:bg-primary/90 disabled:opacity-50"
+                    >
+                        <Camera className="h-4 w-4" />
+                    </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                    <DropdownMenuItem onClick={() => inputRef.current?.click()}>
+                        <Upload className="h-4 w-4 mr-2" />
+                        Upload photo
+                    </DropdownMenuItem>
+                    {!isGeneratedAvatar(user.avatar) && (
+                        <DropdownMenuItem onClick={handleRemove} className="text-destructive">
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Remove photo
+                        </DropdownMenuItem>
+                    )}
+                </DropdownMenuContent>
+            </DropdownMenu>
+
+            <input
+                ref={inputRef}
+                type="file"
+                accept={ACCEPTED_TYPES.join(',')}
+                className="hidden"
+                onChange={handleFile}
+            />
+        </div>
+    );
+}
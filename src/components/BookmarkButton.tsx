@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useBookmarks } from '@/hooks/use-bookmarks';
+import { Button } from '@/components/ui/button';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from 'sonner';
+import { Bookmark, BookmarkX, Check, FolderCog, Loader2 } from 'lucide-react';
+
+interface BookmarkButtonProps {
+    postId: string;
+    className?: string;
+}
+
+/**
+ * Saves a post, optionally into one of the user's collections. Bookmarks
+ * are private, so there is no public count.
+ */
+export function BookmarkButton({ postId, className = '' }: BookmarkButtonProps) {
+    const { isAuthenticated } = useAuth();
+    const navigate = useNavigate();
+    const { savedIn, collections, save, remove } = useBookmarks();
+    const [isSaving, setIsSaving] = useState(false);
+
+    const isSaved = savedIn.has(postId);
+    const currentCollection = savedIn.get(postId) ?? null;
+
+    const run = async (action: () => Promise<void>, success: string) => {
+        setIsSaving(true);
+        try {
+            await action();
+            toast.success(success);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to update saved posts');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSave = (collectionId: string | null, collectionName?: string) => run(
+        () => save(postId, collectionId),
+        collectionName ? `Saved to ${collectionName}` : 'Saved'
+    );
+
+    const triggerClass = `gap-1.5 ${isSaved
+        ? 'text-primary hover:text-primary hover:bg-primary/10'
+        : 'text-muted-foreground hover:text-primary hover:bg-primary/10'
+        } ${className}`;
+
+    if (!isAuthenticated) {
+        return (
+            <Button
+                variant="ghost"
+                size="sm"
+                className={triggerClass}
+                aria-label="Save post"
+                onClick={() => toast.error('Please log in to save posts')}
+            >
+                <Bookmark className="h-4 w-4" />
+            </Button>
+        );
+    }
+
+    return (
+        <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className={triggerClass}
+                    aria-label={isSaved ? 'Saved post options' : 'Save post'}
+                    title={isSaved ? 'Saved' : 'Save for later'}
+                    disabled={isSaving}
+                >
+                    {isSaving ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                        <Bookmark className={`h-4 w-4 ${isSaved ? 'fill-current' : ''}`} />
+                    )}
+                </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuLabel>Save to</DropdownMenuLabel>
+                <DropdownMenuItem onClick={() => handleSave(null)}>
+                    <Check className={`h-4 w-4 mr-2 ${isSaved && currentCollection === null ? '' : 'invisible'}`} />
+                    Saved posts
+                </DropdownMenuItem>
+                {collections.map(collection => (
+                    <DropdownMenuItem key={collection.id} onClick={() => handleSave(collection.id, collection.name)}>
+                        <Check className={`h-4 w-4 mr-2 ${currentCollection === collection.id ? '' : 'invisible'}`} />
+                        <span className="truncate">{collection.name}</span>
+                    </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => navigate('/saved')}>
+                    <FolderCog className="h-4 w-4 mr-2" />
+                    Manage collections
+                </DropdownMenuItem>
+                {isSaved && (
+                    <DropdownMenuItem
+                        onClick={() => run(() => remove(postId), 'Removed from saved posts')}
+                        className="text-destructive focus:text-destructive"
+                    >
+                        <BookmarkX className="h-4 w-4 mr-2" />
+                        Remove from saved
+                    </DropdownMenuItem>
+                )}
+            </DropdownMenuContent>
+        </DropdownMenu>
+    );
+}
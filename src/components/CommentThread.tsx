@@ -0,0 +1,427 @@
+import { useState } from 'react';
+import { InfiniteData, useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+import { postsApi, isEmailNotVerifiedError } from '@/lib/api';
+import { avatarFor } from '@/lib/profile';
+import { useAuth } from '@/contexts/AuthContext';
+import { Comment, PaginatedResponse } from '@/types';
+import { Markdown } from '@/components/Markdown';
+import { ReportDialog } from '@/components/ReportDialog';
+import { Card, CardContent } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { Loader2, MessageCircle, Reply, Pencil, Trash2, ChevronDown, ChevronUp, Flag } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+const COMMENTS_PAGE_SIZE = 10;
+// Deeper replies stay at this indent so threads remain readable on small screens
+const MAX_INDENT_DEPTH = 4;
+
+type CachedComments = InfiniteData<PaginatedResponse<Comment>>;
+
+// Top-level comments live under 'root'; PostDetail refreshes that key after posting
+const commentsQueryKey = (postId: string, parentId: string | null = null) =>
+    ['comments', postId, parentId ?? 'root'];
+
+interface CommentListProps {
+    postId: string;
+    parentId?: string | null;
+    depth?: number;
+    // Reports comments added (+1) or removed (-1) so the post's count stays in sync
+    onCountChange: (delta: number) => void;
+}
+
+/**
+ * Paginated list of a post's top-level comments, or of one comment's replies.
+ * Each reply thread is loaded only when it is expanded.
+ */
+export function CommentList({ postId, parentId = null, depth = 0, onCountChange }: CommentListProps) {
+    const queryClient = useQueryClient();
+    const queryKey = commentsQueryKey(postId, parentId);
+
+    const {
+        data,
+        error,
+        isPending,
+        fetchNextPage,
+        hasNextPage,
+        isFetchingNextPage,
+    } = useInfiniteQuery({
+        queryKey,
+        queryFn: ({ pageParam }) => postsApi.getComments(postId, { parentId, cursor: pageParam, limit: COMMENTS_PAGE_SIZE }),
+        initialPageParam: null as string | null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+    });
+
+    const comments = data?.pages.flatMap(page => page.data) ?? [];
+
+    // Swap an edited, deleted or re-counted comment into the cached pages
+    const replaceComment = (commentId: string, update: (comment: Comment) => Comment) => {
+        queryClient.setQueryData<CachedComments>(queryKey, (old) => old && {
+            ...old,
+            pages: old.pages.map(page => ({
+                ...page,
+                data: page.data.map(comment => (comment._id === commentId ? update(comment) : comment)),
+            })),
+        });
+    };
+
+    if (isPending) {
+        return (
+            <div className="flex items-center justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+        );
+    }
+
+    if (error) {
+        return (
+            <p className="text-sm text-destructive py-2">
+                {error instanceof Error ? error.message : 'Failed to load comments'}
+            </p>
+        );
+    }
+
+    if (comments.length === 0 && !parentId) {
+        return (
+            <Card className="gradient-card border-border/50">
+                <CardContent className="py-8 text-center">
+                    <MessageCircle className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
+                    <p className="text-muted-foreground">No comments yet. Be the first to comment!</p>
+                </CardContent>
+            </Card>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            {comments.map(comment => (
+                <CommentItem
+                    key={comment._id}
+                    postId={postId}
+                    comment={comment}
+                    depth={depth}
+                    onReplace={replaceComment}
+                    onCountChange={onCountChange}
+                />
+            ))}
+
+            {hasNextPage && (
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                    className="text-muted-foreground"
+                >
+                    {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {parentId ? 'Load more replies' : 'Load more comments'}
+                </Button>
+            )}
+        </div>
+    );
+}
+
+interface CommentItemProps {
+    postId: string;
+    comment: Comment;
+    depth: number;
+    onReplace: (commentId: string, update: (comment: Comment) => Comment) => void;
+    onCountChange: (delta: number) => void;
+}
+
+function CommentItem({ postId, comment, depth, onReplace, onCountChange }: CommentItemProps) {
+    const queryClient = useQueryClient();
+    const { user, isAuthenticated } = useAuth();
+
+    const [showReplies, setShowReplies] = useState(false);
+    const [isReplying, setIsReplying] = useState(false);
+    const [replyText, setReplyText] = useState('');
+    const [isEditing, setIsEditing] = useState(false);
+    const [editText, setEditText] = useState(comment.text);
+    const [isSaving, setIsSaving] = useState(false);
+    const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+    const [isDeleting, setIsDeleting] = useState(false);
+    const [showReportDialog, setShowReportDialog] = useState(false);
+
+    const isOwner = user && comment.user?._id === user.id;
+    const isAdmin = user?.role === 'admin';
+    const canModify = !comment.isDeleted && (isOwner || isAdmin);
+    const canReport = isAuthenticated && !isOwner && !comment.isHidden;
+    const authorName = comment.user?.name || 'Unknown';
+
+    const handleReply = async () => {
+        if (!replyText.trim()) return;
+
+        setIsSaving(true);
+        try {
+            const response = await postsApi.addComment(postId, replyText.trim(), comment._id);
+            if (response.success) {
+                onReplace(comment._id, c => ({ ...c, replyCount: c.replyCount + 1 }));
+                onCountChange(1);
+                await queryClient.invalidateQueries({ queryKey: commentsQueryKey(postId, comment._id) });
+                setReplyText('');
+                setIsReplying(false);
+                setShowReplies(true);
+                toast.success('Reply added!');
+            }
+        } catch (error) {
+            if (isEmailNotVerifiedError(error)) {
+                toast.error('Verify your email to join the discussion', {
+                    description: 'Use the link we emailed you, or resend it from the banner above.',
+                });
+                return;
+            }
+            toast.error(error instanceof Error ? error.message : 'Failed to add reply');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleEdit = async () => {
+        if (!editText.trim()) return;
+
+        setIsSaving(true);
+        try {
+            const response = await postsApi.updateComment(postId, comment._id, editText.trim());
+            if (response.success) {
+                onReplace(comment._id, () => response.data);
+                setIsEditing(false);
+                toast.success('Comment updated');
+            }
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to update comment');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        setIsDeleting(true);
+        try {
+            const response = await postsApi.deleteComment(postId, comment._id);
+            if (response.success) {
+                onReplace(comment._id, () => response.data);
+                onCountChange(-1);
+                toast.success('Comment deleted');
+            }
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to delete comment');
+        } finally {
+            setIsDeleting(false);
+            setShowDeleteDialog(false);
+        }
+    };
+
+    return (
+        <div>
+            <Card className="gradient-card border-border/50">
+                <CardContent className="py-4">
+                    {comment.isDeleted ? (
+                        <p className="text-sm italic text-muted-foreground">This comment was removed.</p>
+                    ) : (
+                        <div className="flex items-start gap-3">
+                            <Avatar className="h-8 w-8">
+                                <AvatarImage
+                                    src={avatarFor(comment.user)}
+                                    alt={authorName}
+                                />
+                                <AvatarFallback className="text-xs">
+                                    {authorName.charAt(0)}
+                                </AvatarFallback>
+                            </Avatar>
+                            <div className="flex-1 min-w-0">
+                                <div className="flex items-center gap-2 mb-1">
+                                    <span className="font-medium text-sm">{authorName}</span>
+                                    <span className="text-xs text-muted-foreground">
+                                        {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+                                        {comment.editedAt && ' · edited'}
+                                    </span>
+                                </div>
+
+                                {isEditing ? (
+                                    <div className="space-y-2">
+                                        <Textarea
+                                            value={editText}
+                                            onChange={(e) => setEditText(e.target.value)}
+                                            maxLength={500}
+                                            rows={2}
+                                            disabled={isSaving}
+                                            aria-label="Edit comment"
+                                        />
+                                        <div className="flex gap-2">
+                                            <Button size="sm" onClick={handleEdit} disabled={isSaving || !editText.trim()}>
+                                                {isSaving && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+                                                Save
+                                            </Button>
+                                            <Button
+                                                size="sm"
+                                                variant="ghost"
+                                                onClick={() => {
+                                                    setIsEditing(false);
+                                                    setEditText(comment.text);
+                                                }}
+                                                disabled={isSaving}
+                                            >
+                                                Cancel
+                                            </Button>
+                                        </div>
+                                    </div>
+                                ) : comment.isHidden ? (
+                                    <p className="text-sm italic text-muted-foreground">This comment was hidden by a moderator.</p>
+                                ) : (
+                                    <Markdown className="text-sm text-foreground break-words">{comment.text}</Markdown>
+                                )}
+
+                                {/* Actions */}
+                                {!isEditing && (
+                                    <div className="flex items-center gap-1 mt-2 -ml-2">
+                                        {isAuthenticated && (
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                className="h-7 px-2 text-xs text-muted-foreground"
+                                                onClick={() => setIsReplying(!isReplying)}
+                                            >
+                                                <Reply className="h-3 w-3 mr-1" />
+                                                Reply
+                                            </Button>
+                                        )}
+                                        {canModify && (
+                                            <>
+                                                {!comment.isHidden && (
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        className="h-7 px-2 text-xs text-muted-foreground"
+                                                        onClick={() => setIsEditing(true)}
+                                                    >
+                                                        <Pencil className="h-3 w-3 mr-1" />
+                                                        Edit
+                                                    </Button>
+                                                )}
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    className="h-7 px-2 text-xs text-muted-foreground hover:text-destructive"
+                                                    onClick={() => setShowDeleteDialog(true)}
+                                                >
+                                                    <Trash2 className="h-3 w-3 mr-1" />
+                                                    Delete
+                                                </Button>
+                                            </>
+                                        )}
+                                        {canReport && (
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                className="h-7 px-2 text-xs text-muted-foreground hover:text-destructive"
+                                                onClick={() => setShowReportDialog(true)}
+                                            >
+                                                <Flag className="h-3 w-3 mr-1" />
+                                                Report
+                                            </Button>
+                                        )}
+                                    </div>
+                                )}
+
+                                {/* Reply Input */}
+                                {isReplying && (
+                                    <div className="space-y-2 mt-2">
+                                        <Textarea
+                                            placeholder={`Reply to ${authorName}...`}
+                                            value={replyText}
+                                            onChange={(e) => setReplyText(e.target.value)}
+                                            maxLength={500}
+                                            rows={2}
+                                            disabled={isSaving}
+                                            aria-label="Write a reply"
+                                        />
+                                        <div className="flex gap-2">
+                                            <Button size="sm" onClick={handleReply} disabled={isSaving || !replyText.trim()}>
+                                                {isSaving && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+                                                Reply
+                                            </Button>
+                                            <Button size="sm" variant="ghost" onClick={() => setIsReplying(false)} disabled={isSaving}>
+                                                Cancel
+                                            </Button>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Replies */}
+            {comment.replyCount > 0 && (
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 mt-1 text-xs text-primary"
+                    onClick={() => setShowReplies(!showReplies)}
+                    aria-expanded={showReplies}
+                >
+                    {showReplies ? <ChevronUp className="h-3 w-3 mr-1" /> : <ChevronDown className="h-3 w-3 mr-1" />}
+                    {showReplies
+                        ? 'Hide replies'
+                        : `View ${comment.replyCount} ${comment.replyCount === 1 ? 'reply' : 'replies'}`}
+                </Button>
+            )}
+            {showReplies && (
+                <div className={depth < MAX_INDENT_DEPTH ? 'mt-2 ml-4 pl-4 border-l border-border' : 'mt-2'}>
+                    <CommentList
+                        postId={postId}
+                        parentId={comment._id}
+                        depth={depth + 1}
+                        onCountChange={onCountChange}
+                    />
+                </div>
+            )}
+
+            {canReport && (
+                <ReportDialog
+                    postId={postId}
+                    commentId={comment._id}
+                    open={showReportDialog}
+                    onOpenChange={setShowReportDialog}
+                />
+            )}
+
+            {/* Delete Confirmation Dialog */}
+            <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Delete Comment</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            Are you sure you want to delete this comment? Replies to it will stay visible.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={handleDelete}
+                            disabled={isDeleting}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                            {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Delete
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    );
+}
@@ -1,6 +1,10 @@
 import { useState } from 'react';
 import { postsApi } from '@/lib/api';
-import { Post, PostType } from '@/types';
+import { PostDetailsDraft, detailsFromDraft, draftFromDetails } from '@/lib/postDetails';
+import { Post, PostAttachment, PostType } from '@/types';
+import { AttachmentUploader } from '@/components/AttachmentUploader';
+import { MarkdownEditor } from '@/components/MarkdownEditor';
+import { PostDetailsFields } from '@/components/PostDetailsFields';
 import {
     Dialog,
     DialogContent,
@@ -18,7 +22,6 @@ import {
 } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
 import { Loader2 } from 'lucide-react';
@@ -34,7 +37,10 @@ export function EditPostDialog({ post, open, onOpenChange, onUpdate }: EditPostD
     const [type, setType] = useState<PostType>(post.type);
     const [title, setTitle] = useState(post.title);
     const [description, setDescription] = useState(post.description);
+    const [details, setDetails] = useState<PostDetailsDraft>(() => draftFromDetails(post.type, post.details));
     const [tagsInput, setTagsInput] = useState(post.tags?.join(', ') || '');
+    const [attachments, setAttachments] = useState<PostAttachment[]>(post.attachments || []);
+    const [isUploading, setIsUploading] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
 
     const handleSubmit = async (e: React.FormEvent) => {
@@ -63,6 +69,8 @@ export function EditPostDialog({ post, open, onOpenChange, onUpdate }: EditPostD
                 title: title.trim(),
                 description: description.trim(),
                 tags,
+                attachments: attachments.map(attachment => attachment.id),
+                details: detailsFromDraft(type, details),
             });
 
             if (response.success) {
@@ -83,14 +91,16 @@ export function EditPostDialog({ post, open, onOpenChange, onUpdate }: EditPostD
             setType(post.type);
             setTitle(post.title);
             setDescription(post.description);
+            setDetails(draftFromDetails(post.type, post.details));
             setTagsInput(post.tags?.join(', ') || '');
+            setAttachments(post.attachments || []);
         }
         onOpenChange(newOpen);
     };
 
     return (
         <Dialog open={open} onOpenChange={handleOpenChange}>
-            <DialogContent className="sm:max-w-[500px]">
+            <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
                     <DialogTitle>Edit Post</DialogTitle>
                     <DialogDescription>
@@ -125,19 +135,22 @@ export function EditPostDialog({ post, open, onOpenChange, onUpdate }: EditPostD
                         </div>
                         <div className="space-y-2">
                             <Label htmlFor="description">Description</Label>
-                            <Textarea
+                            <MarkdownEditor
                                 id="description"
                                 value={description}
-                                onChange={(e) => setDescription(e.target.value)}
+                                onChange={setDescription}
                                 placeholder="Describe your post..."
                                 maxLength={1000}
                                 rows={4}
                                 disabled={isLoading}
                             />
-                            <p className="text-xs text-muted-foreground">
-                                {description.length}/1000 characters
-                            </p>
                         </div>
+                        <PostDetailsFields
+                            type={type}
+                            draft={details}
+                            onChange={setDetails}
+                            disabled={isLoading}
+                        />
                         <div className="space-y-2">
                             <Label htmlFor="tags">Tags (comma separated)</Label>
                             <Input
@@ -151,6 +164,15 @@ export function EditPostDialog({ post, open, onOpenChange, onUpdate }: EditPostD
                                 Maximum 5 tags
                             </p>
                         </div>
+                        <div className="space-y-2">
+                            <Label>Attachments</Label>
+                            <AttachmentUploader
+                                attachments={attachments}
+                                onChange={setAttachments}
+                                onUploadingChange={setIsUploading}
+                                disabled={isLoading}
+                            />
+                        </div>
                     </div>
                     <DialogFooter>
                         <Button
@@ -161,7 +183,7 @@ export function EditPostDialog({ post, open, onOpenChange, onUpdate }: EditPostD
                         >
                             Cancel
                         </Button>
-                        <Button type="submit" disabled={isLoading}>
+                        <Button type="submit" disabled={isLoading || isUploading}>
                             {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                             Save Changes
                         </Button>
@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { usersApi } from '@/lib/api';
+import { AVAILABILITY_OPTIONS } from '@/lib/profile';
+import { Availability, ProfileLinks } from '@/types';
 import {
     Dialog,
     DialogContent,
@@ -13,9 +15,18 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { toast } from 'sonner';
-import { Loader2, User, FileText, AlertCircle, Check } from 'lucide-react';
+import { Loader2, User, FileText, AlertCircle, Check, GraduationCap, Sparkles, Link2, X } from 'lucide-react';
 
 interface EditProfileDialogProps {
     open: boolean;
@@ -25,11 +36,41 @@ interface EditProfileDialogProps {
 const NAME_MIN = 2;
 const NAME_MAX = 50;
 const BIO_MAX = 200;
+const SKILLS_MAX = 20;
+const SKILL_MAX_LENGTH = 30;
+const YEAR_MIN = 1950;
+const YEAR_MAX = 2100;
+
+// Select items can't have an empty value, so "not set" gets its own
+const NO_AVAILABILITY = 'none';
+
+const linkFields: { key: keyof ProfileLinks; label: string; placeholder: string }[] = [
+    { key: 'github', label: 'GitHub', placeholder: 'https://github.com/username' },
+    { key: 'linkedin', label: 'LinkedIn', placeholder: 'https://linkedin.com/in/username' },
+    { key: 'portfolio', label: 'Portfolio', placeholder: 'https://your-site.dev' },
+    { key: 'resume', label: 'Resume', placeholder: 'Link to your resume (PDF, Google Drive...)' },
+];
+
+const isHttpUrl = (value: string) => {
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+        return false;
+    }
+};
 
 export function EditProfileDialog({ open, onOpenChange }: EditProfileDialogProps) {
     const { user, updateUser, refreshUser } = useAuth();
     const [name, setName] = useState(user?.name || '');
     const [bio, setBio] = useState(user?.bio || '');
+    const [skills, setSkills] = useState<string[]>(user?.skills || []);
+    const [skillInput, setSkillInput] = useState('');
+    const [university, setUniversity] = useState(user?.university || '');
+    const [major, setMajor] = useState(user?.major || '');
+    const [graduationYear, setGraduationYear] = useState(user?.graduationYear?.toString() || '');
+    const [availability, setAvailability] = useState<Availability | ''>(user?.availability || '');
+    const [links, setLinks] = useState<ProfileLinks>(user?.links || {});
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState('');
 
@@ -38,13 +79,23 @@ export function EditProfileDialog({ open, onOpenChange }: EditProfileDialogProps
     const bioLength = bio.length;
     const isNameValid = nameLength >= NAME_MIN && nameLength <= NAME_MAX;
     const isBioValid = bioLength <= BIO_MAX;
-    const isFormValid = isNameValid && isBioValid;
+    const year = graduationYear ? Number(graduationYear) : null;
+    const isYearValid = year === null || (Number.isInteger(year) && year >= YEAR_MIN && year <= YEAR_MAX);
+    const invalidLink = linkFields.find(({ key }) => links[key] && !isHttpUrl(links[key] ?? ''));
+    const isFormValid = isNameValid && isBioValid && isYearValid && !invalidLink;
 
     // Reset form when dialog opens
     useEffect(() => {
         if (open && user) {
             setName(user.name);
             setBio(user.bio || '');
+            setSkills(user.skills || []);
+            setSkillInput('');
+            setUniversity(user.university || '');
+            setMajor(user.major || '');
+            setGraduationYear(user.graduationYear?.toString() || '');
+            setAvailability(user.availability || '');
+            setLinks(user.links || {});
             setError('');
         }
     }, [open, user]);
@@ -74,11 +125,27 @@ export function EditProfileDialog({ open, onOpenChange }: EditProfileDialogProps
             return;
         }
 
+        if (!isYearValid) {
+            setError(`Graduation year must be between ${YEAR_MIN} and ${YEAR_MAX}`);
+            return;
+        }
+
+        if (invalidLink) {
+            setError(`${invalidLink.label} must be a full http(s) URL`);
+            return;
+        }
+
         setIsLoading(true);
         try {
             const response = await usersApi.updateProfile({
                 name: name.trim(),
                 bio: bio.trim(),
+                skills,
+                university: university.trim(),
+                major: major.trim(),
+                graduationYear: year,
+                availability,
+                links: Object.fromEntries(linkFields.map(({ key }) => [key, links[key]?.trim() || ''])),
             });
 
             if (response.success) {
@@ -100,6 +167,14 @@ export function EditProfileDialog({ open, onOpenChange }: EditProfileDialogProps
         }
     };
 
+    const addSkill = () => {
+        const skill = skillInput.trim().slice(0, SKILL_MAX_LENGTH);
+        setSkillInput('');
+        if (!skill || skills.length >= SKILLS_MAX) return;
+        if (skills.some(existing => existing.toLowerCase() === skill.toLowerCase())) return;
+        setSkills(prev => [...prev, skill]);
+    };
+
     const getCharacterCountColor = (current: number, max: number, min: number = 0) => {
         if (current < min) return 'text-destructive';
         if (current > max) return 'text-destructive';
@@ -109,7 +184,7 @@ export function EditProfileDialog({ open, onOpenChange }: EditProfileDialogProps
 
     return (
         <Dialog open={open} onOpenChange={onOpenChange}>
-            <DialogContent className="sm:max-w-[480px]">
+            <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
                 <DialogHeader className="space-y-3">
                     <DialogTitle className="flex items-center gap-2 text-xl">
                         <div className="p-2 rounded-lg bg-primary/10">
@@ -182,6 +257,140 @@ export function EditProfileDialog({ open, onOpenChange }: EditProfileDialogProps
                         </p>
                     </div>
 
+                    <Separator />
+
+                    {/* Education Section */}
+                    <div className="space-y-3">
+                        <Label className="text-sm font-medium flex items-center gap-2">
+                            <GraduationCap className="h-4 w-4 text-muted-foreground" />
+                            Education
+                            <span className="text-xs text-muted-foreground font-normal">(optional)</span>
+                        </Label>
+                        <Input
+                            aria-label="University"
+                            value={university}
+                            onChange={(e) => setUniversity(e.target.value)}
+                            placeholder="University"
+                            maxLength={100}
+                            disabled={isLoading}
+                        />
+                        <div className="grid grid-cols-3 gap-3">
+                            <Input
+                                aria-label="Major"
+                                value={major}
+                                onChange={(e) => setMajor(e.target.value)}
+                                placeholder="Major"
+                                maxLength={100}
+                                disabled={isLoading}
+                                className="col-span-2"
+                            />
+                            <Input
+                                aria-label="Graduation year"
+                                type="number"
+                                value={graduationYear}
+                                onChange={(e) => setGraduationYear(e.target.value)}
+                                placeholder="Grad year"
+                                min={YEAR_MIN}
+                                max={YEAR_MAX}
+                                disabled={isLoading}
+                                className={!isYearValid ? 'border-destructive focus-visible:ring-destructive' : ''}
+                            />
+                        </div>
+                    </div>
+
+                    {/* Skills Section */}
+                    <div className="space-y-3">
+                        <div className="flex items-center justify-between">
+                            <Label htmlFor="skills" className="text-sm font-medium flex items-center gap-2">
+                                <Sparkles className="h-4 w-4 text-muted-foreground" />
+                                Skills
+                            </Label>
+                            <span className="text-xs text-muted-foreground">
+                                {skills.length}/{SKILLS_MAX}
+                            </span>
+                        </div>
+                        {skills.length > 0 && (
+                            <div className="flex flex-wrap gap-1.5">
+                                {skills.map(skill => (
+                                    <Badge key={skill} variant="secondary" className="gap-1 font-normal">
+                                        {skill}
+                                        <button
+                                            type="button"
+                                            onClick={() => setSkills(prev => prev.filter(s => s !== skill))}
+                                            aria-label={`Remove ${skill}`}
+                                            disabled={isLoading}
+                                        >
+                                            <X className="h-3 w-3" />
+                                        </button>
+                                    </Badge>
+                                ))}
+                            </div>
+                        )}
+                        <Input
+                            id="skills"
+                            value={skillInput}
+                            onChange={(e) => setSkillInput(e.target.value)}
+                            onKeyDown={(e) => {
+                                // Enter or comma adds the skill instead of submitting the form
+                                if (e.key === 'Enter' || e.key === ',') {
+                                    e.preventDefault();
+                                    addSkill();
+                                }
+                            }}
+                            onBlur={addSkill}
+                            placeholder={skills.length >= SKILLS_MAX ? 'Skill limit reached' : 'e.g. React, Python, UI design'}
+                            maxLength={SKILL_MAX_LENGTH}
+                            disabled={isLoading || skills.length >= SKILLS_MAX}
+                        />
+                    </div>
+
+                    {/* Availability Section */}
+                    <div className="space-y-3">
+                        <Label className="text-sm font-medium">Availability</Label>
+                        <Select
+                            value={availability || NO_AVAILABILITY}
+                            onValueChange={(value) => setAvailability(value === NO_AVAILABILITY ? '' : value as Availability)}
+                            disabled={isLoading}
+                        >
+                            <SelectTrigger aria-label="Availability">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={NO_AVAILABILITY}>Not specified</SelectItem>
+                                {AVAILABILITY_OPTIONS.map(([value, label]) => (
+                                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    {/* Links Section */}
+                    <div className="space-y-3">
+                        <Label className="text-sm font-medium flex items-center gap-2">
+                            <Link2 className="h-4 w-4 text-muted-foreground" />
+                            Links
+                            <span className="text-xs text-muted-foreground font-normal">(optional)</span>
+                        </Label>
+                        {linkFields.map(({ key, label, placeholder }) => {
+                            const value = links[key] || '';
+                            const isInvalid = Boolean(value) && !isHttpUrl(value);
+
+                            return (
+                                <Input
+                                    key={key}
+                                    aria-label={label}
+                                    type="url"
+                                    value={value}
+                                    onChange={(e) => setLinks(prev => ({ ...prev, [key]: e.target.value }))}
+                                    placeholder={placeholder}
+                                    maxLength={300}
+                                    disabled={isLoading}
+                                    className={isInvalid ? 'border-destructive focus-visible:ring-destructive' : ''}
+                                />
+                            );
+                        })}
+                    </div>
+
                     <DialogFooter className="gap-2 sm:gap-0">
                         <Button
                             type="button"
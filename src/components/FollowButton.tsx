@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { useFollows } from '@/hooks/use-follows';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { Loader2, UserCheck, UserPlus } from 'lucide-react';
+
+type FollowButtonProps = { className?: string } & (
+    | { userId: string; tag?: never }
+    | { tag: string; userId?: never }
+);
+
+/**
+ * Follows or unfollows a user or a tag. Posts from either show up on the
+ * Following tab of the feed.
+ */
+export function FollowButton({ userId, tag, className = '' }: FollowButtonProps) {
+    const { followedUsers, followedTags, followUser, unfollowUser, followTag, unfollowTag } = useFollows();
+    const [isLoading, setIsLoading] = useState(false);
+
+    const isFollowing = userId ? followedUsers.has(userId) : followedTags.has(tag ?? '');
+    const label = tag ? `#${tag}` : 'this user';
+
+    const handleClick = async () => {
+        setIsLoading(true);
+        try {
+            if (userId) {
+                await (isFollowing ? unfollowUser(userId) : followUser(userId));
+            } else if (tag) {
+                await (isFollowing ? unfollowTag(tag) : followTag(tag));
+            }
+            toast.success(isFollowing ? `Unfollowed ${label}` : `Following ${label}`);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to update follows');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <Button
+            variant={isFollowing ? 'outline' : 'default'}
+            size="sm"
+            className={`gap-2 ${className}`}
+            onClick={handleClick}
+            disabled={isLoading}
+        >
+            {isLoading ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+            ) : isFollowing ? (
+                <UserCheck className="h-4 w-4" />
+            ) : (
+                <UserPlus className="h-4 w-4" />
+            )}
+            {isFollowing ? 'Following' : 'Follow'}
+        </Button>
+    );
+}
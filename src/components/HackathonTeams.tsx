@@ -0,0 +1,445 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { teamsApi } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { HackathonDetails, MyTeamStatus, Post, Team } from '@/types';
+import { TeamFormDialog } from '@/components/TeamFormDialog';
+import { JoinTeamDialog } from '@/components/JoinTeamDialog';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { Check, Crown, Inbox, Loader2, Pencil, Plus, Trash2, UserPlus, Users, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface HackathonTeamsProps {
+    post: Post;
+}
+
+const NO_STATUS: MyTeamStatus = { team: null, requests: [] };
+
+// Hackathon dates are calendar days; teams can form until the last one ends
+const hasEnded = (endDate?: string) => {
+    if (!endDate) return false;
+    return new Date(`${endDate.slice(0, 10)}T23:59:59`).getTime() < Date.now();
+};
+
+/**
+ * The teams forming for a hackathon, with their open slots. Students can
+ * start a team or ask to join one; leads review requests inline.
+ */
+export function HackathonTeams({ post }: HackathonTeamsProps) {
+    const { isAuthenticated } = useAuth();
+    const queryClient = useQueryClient();
+    const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+    const { data: teams = [], isPending, error } = useQuery({
+        queryKey: ['teams', post.id],
+        queryFn: async (): Promise<Team[]> => (await teamsApi.getForPost(post.id)).data,
+    });
+
+    const { data: status = NO_STATUS } = useQuery({
+        queryKey: ['teams', post.id, 'mine'],
+        queryFn: async (): Promise<MyTeamStatus> => (await teamsApi.getMineForPost(post.id)).data,
+        enabled: isAuthenticated,
+    });
+
+    const refresh = () => queryClient.invalidateQueries({ queryKey: ['teams', post.id] });
+    const ended = hasEnded((post.details as HackathonDetails | undefined)?.endDate);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+                <h2 className="text-lg font-semibold">Teams ({teams.length})</h2>
+                {isAuthenticated && !status.team && !ended && (
+                    <Button size="sm" className="gap-2" onClick={() => setIsCreateOpen(true)}>
+                        <Plus className="h-4 w-4" />
+                        Start a Team
+                    </Button>
+                )}
+            </div>
+
+            {!isAuthenticated && (
+                <p className="text-sm text-muted-foreground">
+                    <Link to="/login" className="text-primary hover:underline">Log in</Link> to start or join a team
+                </p>
+            )}
+
+            {isPending ? (
+                <div className="flex items-center justify-center py-4">
+                    <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                </div>
+            ) : error ? (
+                <p className="text-sm text-destructive py-2">
+                    {error instanceof Error ? error.message : 'Failed to load teams'}
+                </p>
+            ) : teams.length === 0 ? (
+                <Card className="gradient-card border-border/50">
+                    <CardContent className="py-8 text-center">
+                        <Users className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
+                        <p className="text-muted-foreground">No teams yet. Start one and list the roles you need!</p>
+                    </CardContent>
+                </Card>
+            ) : (
+                <div className="space-y-3">
+                    {teams.map(team => (
+                        <TeamCard
+                            key={team.id}
+                            postId={post.id}
+                            team={team}
+                            status={status}
+                            ended={ended}
+                            onChange={refresh}
+                        />
+                    ))}
+                </div>
+            )}
+
+            <TeamFormDialog
+                postId={post.id}
+                open={isCreateOpen}
+                onOpenChange={setIsCreateOpen}
+                onSaved={refresh}
+            />
+        </div>
+    );
+}
+
+interface TeamCardProps {
+    postId: string;
+    team: Team;
+    status: MyTeamStatus;
+    ended: boolean;
+    onChange: () => void;
+}
+
+function TeamCard({ postId, team, status, ended, onChange }: TeamCardProps) {
+    const { user, isAuthenticated } = useAuth();
+    const [showRequests, setShowRequests] = useState(false);
+    const [isEditOpen, setIsEditOpen] = useState(false);
+    const [isJoinOpen, setIsJoinOpen] = useState(false);
+    const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const isLead = user?.id === team.lead;
+    const isAdmin = user?.role === 'admin';
+    const isOnTeam = status.team === team.id;
+    const pendingRequest = status.requests.find(request => request.team === team.id);
+    const canRequest = isAuthenticated && !status.team && !pendingRequest && !ended && team.spotsLeft > 0;
+    // Spots not tied to a named role
+    const flexibleSpots = Math.max(0, team.spotsLeft - team.openRoles.length);
+
+    const run = async (action: () => Promise<unknown>, success: string, failure: string) => {
+        setIsBusy(true);
+        try {
+            await action();
+            toast.success(success);
+            onChange();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : failure);
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleRemove = (userId: string, name: string) => run(
+        () => teamsApi.removeMember(team.id, userId),
+        userId === user?.id ? `You left ${team.name}` : `Removed ${name} from the team`,
+        'Failed to remove member'
+    );
+
+    const handleWithdraw = () => run(
+        () => teamsApi.withdrawRequest(team.id),
+        'Request withdrawn',
+        'Failed to withdraw request'
+    );
+
+    const handleDelete = async () => {
+        await run(() => teamsApi.delete(team.id), 'Team disbanded', 'Failed to disband team');
+        setShowDeleteDialog(false);
+    };
+
+    return (
+        <Card className="gradient-card border-border/50">
+            <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                        <h3 className="font-semibold text-foreground">{team.name}</h3>
+                        <p className="text-xs text-muted-foreground">
+                            {team.members.length}/{team.maxSize} members
+                            {team.spotsLeft === 0 && ' · Full'}
+                        </p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                        {isLead && (
+                            <>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="gap-1.5"
+                                    onClick={() => setShowRequests(!showRequests)}
+                                >
+                                    <Inbox className="h-4 w-4" />
+                                    Requests ({team.pendingRequests})
+                                </Button>
+                                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setIsEditOpen(true)}>
+                                    <Pencil className="h-4 w-4" />
+                                    <span className="sr-only">Edit team</span>
+                                </Button>
+                            </>
+                        )}
+                        {(isLead || isAdmin) && (
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                                onClick={() => setShowDeleteDialog(true)}
+                            >
+                                <Trash2 className="h-4 w-4" />
+                                <span className="sr-only">Disband team</span>
+                            </Button>
+                        )}
+                    </div>
+                </div>
+            </CardHeader>
+
+            <CardContent className="space-y-4">
+                {team.description && (
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words">{team.description}</p>
+                )}
+
+                <ul className="space-y-2">
+                    {team.members.map(member => member.user && (
+                        <li key={member.user.id} className="flex items-center justify-between gap-3">
+                            <Link to={`/u/${member.user.id}`} className="flex items-center gap-2 min-w-0 group">
+                                <Avatar className="h-7 w-7">
+                                    <AvatarImage src={member.user.avatar} alt={member.user.name} />
+                                    <AvatarFallback className="text-xs bg-primary text-primary-foreground">
+                                        {member.user.name.charAt(0)}
+                                    </AvatarFallback>
+                                </Avatar>
+                                <span className="text-sm font-medium truncate group-hover:text-primary">{member.user.name}</span>
+                                {member.role && (
+                                    <span className="text-xs text-muted-foreground truncate">{member.role}</span>
+                                )}
+                                {member.isLead && (
+                                    <Badge variant="outline" className="bg-warning/10 text-warning border-warning/20 text-[10px] px-1.5 py-0">
+                                        <Crown className="h-3 w-3 mr-1" />
+                                        Lead
+                                    </Badge>
+                                )}
+                            </Link>
+                            {!member.isLead && (isLead || isAdmin) && (
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                                    onClick={() => member.user && handleRemove(member.user.id, member.user.name)}
+                                    disabled={isBusy}
+                                >
+                                    <X className="h-4 w-4" />
+                                    <span className="sr-only">Remove {member.user.name}</span>
+                                </Button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+
+                {team.spotsLeft > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                        {team.openRoles.map((role, index) => (
+                            <span
+                                key={`${role}-${index}`}
+                                className="px-2.5 py-1 text-xs rounded-md border border-dashed border-primary/40 text-primary"
+                            >
+                                Open: {role}
+                            </span>
+                        ))}
+                        {flexibleSpots > 0 && (
+                            <span className="px-2.5 py-1 text-xs rounded-md border border-dashed border-border text-muted-foreground">
+                                {flexibleSpots} open {flexibleSpots === 1 ? 'spot' : 'spots'}
+                            </span>
+                        )}
+                    </div>
+                )}
+
+                {isOnTeam && !isLead && user && (
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRemove(user.id, user.name)}
+                        disabled={isBusy}
+                    >
+                        Leave Team
+                    </Button>
+                )}
+                {pendingRequest && (
+                    <div className="flex items-center gap-3">
+                        <span className="text-sm text-muted-foreground">
+                            Request sent{pendingRequest.role && ` for ${pendingRequest.role}`}
+                        </span>
+                        <Button variant="ghost" size="sm" onClick={handleWithdraw} disabled={isBusy}>
+                            Withdraw
+                        </Button>
+                    </div>
+                )}
+                {canRequest && (
+                    <Button size="sm" variant="outline" className="gap-2" onClick={() => setIsJoinOpen(true)}>
+                        <UserPlus className="h-4 w-4" />
+                        Request to Join
+                    </Button>
+                )}
+
+                {isLead && showRequests && <JoinRequestList team={team} onChange={onChange} />}
+            </CardContent>
+
+            {isLead && (
+                <TeamFormDialog
+                    postId={postId}
+                    team={team}
+                    open={isEditOpen}
+                    onOpenChange={setIsEditOpen}
+                    onSaved={onChange}
+                />
+            )}
+            {canRequest && (
+                <JoinTeamDialog
+                    team={team}
+                    open={isJoinOpen}
+                    onOpenChange={setIsJoinOpen}
+                    onRequested={onChange}
+                />
+            )}
+
+            <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Disband Team</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            Are you sure you want to disband {team.name}? Members and pending requests will be dropped.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel disabled={isBusy}>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={handleDelete}
+                            disabled={isBusy}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                            {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Disband
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </Card>
+    );
+}
+
+interface JoinRequestListProps {
+    team: Team;
+    onChange: () => void;
+}
+
+function JoinRequestList({ team, onChange }: JoinRequestListProps) {
+    const queryClient = useQueryClient();
+    const [decidingId, setDecidingId] = useState<string | null>(null);
+
+    const { data: requests = [], isPending, error } = useQuery({
+        queryKey: ['team-requests', team.id],
+        queryFn: async () => (await teamsApi.getRequests(team.id)).data,
+    });
+
+    const handleDecide = async (requestId: string, decision: 'approved' | 'declined') => {
+        setDecidingId(requestId);
+        try {
+            await teamsApi.decideRequest(team.id, requestId, decision);
+            toast.success(decision === 'approved' ? 'Added to the team' : 'Request declined');
+            queryClient.invalidateQueries({ queryKey: ['team-requests', team.id] });
+            onChange();
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to update request');
+        } finally {
+            setDecidingId(null);
+        }
+    };
+
+    if (isPending) {
+        return (
+            <div className="flex justify-center py-2">
+                <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+        );
+    }
+
+    if (error) {
+        return (
+            <p className="text-sm text-destructive">
+                {error instanceof Error ? error.message : 'Failed to load requests'}
+            </p>
+        );
+    }
+
+    if (requests.length === 0) {
+        return <p className="text-sm text-muted-foreground">No pending requests.</p>;
+    }
+
+    return (
+        <ul className="space-y-2 rounded-lg border border-border p-3">
+            {requests.map(request => (
+                <li key={request.id} className="space-y-1">
+                    <div className="flex items-center justify-between gap-3">
+                        <div className="min-w-0 text-sm">
+                            {request.user ? (
+                                <Link to={`/u/${request.user.id}`} className="font-medium hover:text-primary">
+                                    {request.user.name}
+                                </Link>
+                            ) : (
+                                <span className="font-medium text-muted-foreground">Deleted user</span>
+                            )}
+                            <span className="text-muted-foreground">
+                                {request.role ? ` · ${request.role}` : ' · any role'}
+                                {' · '}{formatDistanceToNow(new Date(request.createdAt), { addSuffix: true })}
+                            </span>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                            <Button
+                                size="sm"
+                                className="h-7 gap-1"
+                                onClick={() => handleDecide(request.id, 'approved')}
+                                disabled={decidingId !== null || team.spotsLeft === 0}
+                            >
+                                <Check className="h-3.5 w-3.5" />
+                                Approve
+                            </Button>
+                            <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-7"
+                                onClick={() => handleDecide(request.id, 'declined')}
+                                disabled={decidingId !== null}
+                            >
+                                Decline
+                            </Button>
+                        </div>
+                    </div>
+                    {request.message && (
+                        <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words">{request.message}</p>
+                    )}
+                </li>
+            ))}
+        </ul>
+    );
+}
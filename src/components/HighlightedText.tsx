@@ -0,0 +1,21 @@
+import { HighlightSegment } from '@/types';
+
+interface HighlightedTextProps {
+  segments: HighlightSegment[];
+}
+
+export function HighlightedText({ segments }: HighlightedTextProps) {
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="bg-warning/30 text-foreground rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { teamsApi, isEmailNotVerifiedError } from '@/lib/api';
+import { MAX_JOIN_MESSAGE_LENGTH } from '@/lib/teams';
+import { Team } from '@/types';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+
+interface JoinTeamDialogProps {
+    team: Team;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onRequested: () => void;
+}
+
+// Select items can't have an empty value
+const ANY_ROLE = 'any';
+
+export function JoinTeamDialog({ team, open, onOpenChange, onRequested }: JoinTeamDialogProps) {
+    const [role, setRole] = useState(ANY_ROLE);
+    const [message, setMessage] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const roles = [...new Set(team.openRoles)];
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        setIsLoading(true);
+        try {
+            const response = await teamsApi.requestToJoin(team.id, {
+                role: role === ANY_ROLE ? undefined : role,
+                message: message.trim() || undefined,
+            });
+            if (response.success) {
+                onRequested();
+                toast.success('Request sent to the team lead');
+                setRole(ANY_ROLE);
+                setMessage('');
+                onOpenChange(false);
+            }
+        } catch (error) {
+            if (isEmailNotVerifiedError(error)) {
+                toast.error('Verify your email to join a team', {
+                    description: 'Use the link we emailed you, or resend it from the banner above.',
+                });
+                return;
+            }
+            toast.error(error instanceof Error ? error.message : 'Failed to send request');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-[450px]">
+                <DialogHeader>
+                    <DialogTitle>Join {team.name}</DialogTitle>
+                    <DialogDescription>
+                        The team lead will approve or decline your request.
+                    </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit}>
+                    <div className="grid gap-4 py-4">
+                        {roles.length > 0 && (
+                            <div className="space-y-2">
+                                <Label>Role</Label>
+                                <Select value={role} onValueChange={setRole} disabled={isLoading}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value={ANY_ROLE}>Any role</SelectItem>
+                                        {roles.map(openRole => (
+                                            <SelectItem key={openRole} value={openRole}>
+                                                {openRole}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        )}
+                        <div className="space-y-2">
+                            <Label htmlFor="joinMessage">Message (optional)</Label>
+                            <Textarea
+                                id="joinMessage"
+                                value={message}
+                                onChange={(e) => setMessage(e.target.value)}
+                                placeholder="What would you bring to the team?"
+                                maxLength={MAX_JOIN_MESSAGE_LENGTH}
+                                rows={3}
+                                disabled={isLoading}
+                            />
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={isLoading}>
+                            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Send Request
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,42 @@
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeHighlight from 'rehype-highlight';
+import { MARKDOWN_SCHEMA } from '@/lib/markdown';
+
+interface MarkdownProps {
+    children: string;
+    className?: string;
+}
+
+const components: Components = {
+    // User content links always open in a new tab and pass no referrer or ranking
+    a: ({ node: _node, ...props }) => (
+        <a {...props} target="_blank" rel="noopener noreferrer nofollow" />
+    ),
+    // Wide tables scroll on their own instead of stretching the page
+    table: ({ node: _node, ...props }) => (
+        <div className="table-wrapper">
+            <table {...props} />
+        </div>
+    ),
+};
+
+/**
+ * Renders user-written Markdown. Raw HTML is dropped and the output is
+ * sanitized against MARKDOWN_SCHEMA before code blocks are highlighted.
+ */
+export function Markdown({ children, className }: MarkdownProps) {
+    return (
+        <div className={`markdown ${className ?? ''}`}>
+            <ReactMarkdown
+                remarkPlugins={[remarkGfm]}
+                rehypePlugins={[[rehypeSanitize, MARKDOWN_SCHEMA], [rehypeHighlight, { detect: false }]]}
+                components={components}
+                skipHtml
+            >
+                {children}
+            </ReactMarkdown>
+        </div>
+    );
+}
@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { Markdown } from '@/components/Markdown';
+import { Textarea } from '@/components/ui/textarea';
+import { Eye, Pencil } from 'lucide-react';
+
+interface MarkdownEditorProps {
+    id?: string;
+    value: string;
+    onChange: (value: string) => void;
+    placeholder?: string;
+    maxLength: number;
+    rows?: number;
+    required?: boolean;
+    disabled?: boolean;
+}
+
+type Mode = 'write' | 'preview';
+
+/**
+ * Textarea with a Write/Preview toggle that renders the text exactly as the
+ * post or comment will show it.
+ */
+export function MarkdownEditor({
+    id,
+    value,
+    onChange,
+    placeholder,
+    maxLength,
+    rows = 5,
+    required,
+    disabled,
+}: MarkdownEditorProps) {
+    const [mode, setMode] = useState<Mode>('write');
+
+    const tabClass = (tab: Mode) =>
+        `inline-flex items-center gap-1.5 rounded-md px-2.5 py-1 text-xs font-medium transition-colors ${
+            mode === tab ? 'bg-background text-foreground shadow-sm' : 'text-muted-foreground hover:text-foreground'
+        }`;
+
+    return (
+        <div className="space-y-2">
+            <div className="inline-flex rounded-lg bg-muted p-1" role="tablist">
+                <button
+                    type="button"
+                    role="tab"
+                    aria-selected={mode === 'write'}
+                    className={tabClass('write')}
+                    onClick={() => setMode('write')}
+                >
+                    <Pencil className="h-3 w-3" />
+                    Write
+                </button>
+                <button
+                    type="button"
+                    role="tab"
+                    aria-selected={mode === 'preview'}
+                    className={tabClass('preview')}
+                    onClick={() => setMode('preview')}
+                >
+                    <Eye className="h-3 w-3" />
+                    Preview
+                </button>
+            </div>
+
+            {mode === 'write' ? (
+                <Textarea
+                    id={id}
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    placeholder={placeholder}
+                    maxLength={maxLength}
+                    rows={rows}
+                    required={required}
+                    disabled={disabled}
+                />
+            ) : (
+                <div className="min-h-[80px] rounded-md border border-input px-3 py-2">
+                    {value.trim() ? (
+                        <Markdown className="text-sm">{value}</Markdown>
+                    ) : (
+                        <p className="text-sm text-muted-foreground">Nothing to preview</p>
+                    )}
+                </div>
+            )}
+
+            <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Markdown supported: **bold**, lists, links, `code`, tables</span>
+                <span>{value.length}/{maxLength}</span>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,338 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { InfiniteData, useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import { messagesApi, usersApi, isEmailNotVerifiedError } from '@/lib/api';
+import { conversationTitle, otherMembers } from '@/lib/conversations';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRealtimeStatus } from '@/hooks/use-realtime';
+import { ConversationDetail, Message, PaginatedResponse } from '@/types';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from 'sonner';
+import { ArrowLeft, Ban, Loader2, MoreVertical, Send, Users } from 'lucide-react';
+import { format, isToday } from 'date-fns';
+
+// Without realtime the open thread is polled; slow enough to stay inside the API rate limit
+const POLL_INTERVAL_MS = 30_000;
+const MESSAGE_MAX = 2000;
+
+type CachedMessages = InfiniteData<PaginatedResponse<Message>>;
+type CachedConversation = { success: boolean; data: ConversationDetail };
+
+interface MessageThreadProps {
+    conversationId: string;
+    // Shown on small screens, where the list and the thread don't fit side by side
+    onBack: () => void;
+}
+
+const formatTime = (date: string) =>
+    isToday(new Date(date)) ? format(new Date(date), 'p') : format(new Date(date), 'MMM d, p');
+
+/**
+ * One conversation: paginated history (older pages load on demand),
+ * read receipts under the latest own message, and the composer.
+ */
+export function MessageThread({ conversationId, onBack }: MessageThreadProps) {
+    const { user } = useAuth();
+    const queryClient = useQueryClient();
+    const realtimeReady = useRealtimeStatus();
+    const [text, setText] = useState('');
+    const [isSending, setIsSending] = useState(false);
+    const bottomRef = useRef<HTMLDivElement>(null);
+    const lastMarkedRef = useRef<string | null>(null);
+
+    const pollInterval = realtimeReady ? false : POLL_INTERVAL_MS;
+
+    const { data: conversationData, isPending: isConversationPending, error: conversationError } = useQuery({
+        queryKey: ['conversation', conversationId],
+        queryFn: () => messagesApi.getConversation(conversationId),
+        refetchInterval: pollInterval,
+    });
+
+    const {
+        data,
+        isPending,
+        fetchNextPage,
+        hasNextPage,
+        isFetchingNextPage,
+    } = useInfiniteQuery({
+        queryKey: ['messages', conversationId],
+        queryFn: ({ pageParam }) => messagesApi.getMessages(conversationId, pageParam),
+        initialPageParam: null as string | null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+        refetchInterval: pollInterval,
+    });
+
+    const conversation = conversationData?.data;
+
+    // Pages arrive newest first; the thread reads oldest to newest
+    const messages = useMemo(
+        () => (data?.pages.flatMap(page => page.data) ?? []).slice().reverse(),
+        [data]
+    );
+    const newest = messages[messages.length - 1];
+
+    // Keep the latest message in view as new ones arrive
+    useEffect(() => {
+        bottomRef.current?.scrollIntoView({ block: 'end' });
+    }, [newest?.id]);
+
+    // Mark the conversation read when someone else's message is the newest one shown
+    useEffect(() => {
+        if (!conversation || !newest || !user || newest.sender?.id === user.id) return;
+        if (lastMarkedRef.current === newest.id) return;
+
+        const self = conversation.members.find(member => member.id === user.id);
+        if (self?.lastReadAt && new Date(self.lastReadAt) >= new Date(newest.createdAt)) return;
+
+        lastMarkedRef.current = newest.id;
+        messagesApi.markRead(conversationId)
+            .then((response) => {
+                queryClient.setQueryData<CachedConversation>(['conversation', conversationId], (old) => old && {
+                    ...old,
+                    data: {
+                        ...old.data,
+                        unreadCount: 0,
+                        members: old.data.members.map(member =>
+                            member.id === user.id ? { ...member, lastReadAt: response.data.lastReadAt } : member
+                        ),
+                    },
+                });
+                queryClient.invalidateQueries({ queryKey: ['conversations'] });
+            })
+            .catch(() => {
+                // Retried with the next message
+                lastMarkedRef.current = null;
+            });
+    }, [conversation, newest, user, conversationId, queryClient]);
+
+    const handleSend = async () => {
+        const trimmed = text.trim();
+        if (!trimmed || isSending) return;
+
+        setIsSending(true);
+        try {
+            const response = await messagesApi.send(conversationId, trimmed);
+            if (response.success) {
+                setText('');
+                const message: Message = response.data;
+                // The realtime echo of this message is deduplicated by id
+                queryClient.setQueryData<CachedMessages>(['messages', conversationId], (old) => {
+                    if (!old || old.pages.length === 0) return old;
+                    if (old.pages.some(page => page.data.some(m => m.id === message.id))) return old;
+                    const [first, ...rest] = old.pages;
+                    return { ...old, pages: [{ ...first, data: [message, ...first.data], count: first.count + 1 }, ...rest] };
+                });
+                queryClient.invalidateQueries({ queryKey: ['conversations'] });
+            }
+        } catch (error) {
+            if (isEmailNotVerifiedError(error)) {
+                toast.error('Verify your email to send messages', {
+                    description: 'Check your inbox for the verification link.',
+                });
+                return;
+            }
+            toast.error(error instanceof Error ? error.message : 'Failed to send message');
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    const handleToggleBlock = async () => {
+        if (!conversation || conversation.isGroup) return;
+        const other = otherMembers(conversation, user?.id)[0];
+        if (!other) return;
+
+        try {
+            if (conversation.blockedByMe) {
+                await usersApi.unblock(other.id);
+                toast.success(`${other.name} unblocked`);
+            } else {
+                await usersApi.block(other.id);
+                toast.success(`${other.name} blocked`);
+            }
+            queryClient.invalidateQueries({ queryKey: ['conversation', conversationId] });
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to update block');
+        }
+    };
+
+    if (isConversationPending) {
+        return (
+            <div className="flex flex-1 items-center justify-center">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+        );
+    }
+
+    if (conversationError || !conversation) {
+        return (
+            <div className="flex flex-1 items-center justify-center p-6 text-sm text-muted-foreground">
+                This conversation could not be loaded.
+            </div>
+        );
+    }
+
+    const others = otherMembers(conversation, user?.id);
+    const title = conversationTitle(conversation, user?.id);
+
+    // Receipts go under the latest message the current user sent
+    const lastOwn = [...messages].reverse().find(message => message.sender?.id === user?.id);
+    const seenBy = lastOwn
+        ? others.filter(member => member.lastReadAt && new Date(member.lastReadAt) >= new Date(lastOwn.createdAt))
+        : [];
+
+    return (
+        <div className="flex flex-1 flex-col min-h-0">
+            {/* Header */}
+            <div className="flex items-center gap-3 px-4 py-3 border-b border-border">
+                <Button variant="ghost" size="icon" className="md:hidden" onClick={onBack} aria-label="Back to conversations">
+                    <ArrowLeft className="h-5 w-5" />
+                </Button>
+                {conversation.isGroup ? (
+                    <div className="h-9 w-9 rounded-full bg-primary/10 flex items-center justify-center">
+                        <Users className="h-4 w-4 text-primary" />
+                    </div>
+                ) : (
+                    <Avatar className="h-9 w-9">
+                        <AvatarImage src={others[0]?.avatar} alt={others[0]?.name} />
+                        <AvatarFallback>{others[0]?.name?.charAt(0) || '?'}</AvatarFallback>
+                    </Avatar>
+                )}
+                <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{title}</p>
+                    {conversation.isGroup && (
+                        <p className="text-xs text-muted-foreground">{conversation.members.length} members</p>
+                    )}
+                </div>
+                {!conversation.isGroup && others[0] && (
+                    <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon" aria-label="Conversation options">
+                                <MoreVertical className="h-4 w-4" />
+                            </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={handleToggleBlock} className={conversation.blockedByMe ? '' : 'text-destructive'}>
+                                <Ban className="h-4 w-4 mr-2" />
+                                {conversation.blockedByMe ? `Unblock ${others[0].name}` : `Block ${others[0].name}`}
+                            </DropdownMenuItem>
+                        </DropdownMenuContent>
+                    </DropdownMenu>
+                )}
+            </div>
+
+            {/* Messages */}
+            <div className="flex-1 overflow-y-auto px-4 py-4 space-y-3">
+                {hasNextPage && (
+                    <div className="flex justify-center">
+                        <Button variant="ghost" size="sm" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                            {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            Load earlier messages
+                        </Button>
+                    </div>
+                )}
+
+                {isPending ? (
+                    <div className="flex items-center justify-center py-8">
+                        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                    </div>
+                ) : messages.length === 0 ? (
+                    <p className="py-8 text-center text-sm text-muted-foreground">
+                        No messages yet. Say hello!
+                    </p>
+                ) : (
+                    messages.map(message => {
+                        const isOwn = message.sender?.id === user?.id;
+
+                        return (
+                            <div key={message.id} className={`flex gap-2 ${isOwn ? 'justify-end' : 'justify-start'}`}>
+                                {!isOwn && (
+                                    <Avatar className="h-7 w-7 mt-1">
+                                        <AvatarImage src={message.sender?.avatar} alt={message.sender?.name} />
+                                        <AvatarFallback className="text-xs">{message.sender?.name?.charAt(0) || '?'}</AvatarFallback>
+                                    </Avatar>
+                                )}
+                                <div className={`max-w-[75%] ${isOwn ? 'items-end' : 'items-start'} flex flex-col`}>
+                                    {!isOwn && conversation.isGroup && (
+                                        <span className="text-xs text-muted-foreground mb-0.5">{message.sender?.name || 'Unknown user'}</span>
+                                    )}
+                                    <div
+                                        className={`px-3 py-2 rounded-2xl text-sm whitespace-pre-wrap break-words ${isOwn
+                                            ? 'bg-primary text-primary-foreground rounded-br-sm'
+                                            : 'bg-muted rounded-bl-sm'
+                                            }`}
+                                    >
+                                        {message.text}
+                                    </div>
+                                    <span className="text-[11px] text-muted-foreground mt-0.5">
+                                        {formatTime(message.createdAt)}
+                                    </span>
+                                    {message.id === lastOwn?.id && seenBy.length > 0 && (
+                                        <span className="text-[11px] text-muted-foreground">
+                                            {conversation.isGroup
+                                                ? `Seen by ${seenBy.map(member => member.name).join(', ')}`
+                                                : 'Seen'}
+                                        </span>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })
+                )}
+                <div ref={bottomRef} />
+            </div>
+
+            {/* Composer */}
+            <div className="border-t border-border p-3">
+                {conversation.canMessage ? (
+                    <form
+                        onSubmit={(e) => {
+                            e.preventDefault();
+                            handleSend();
+                        }}
+                        className="flex items-end gap-2"
+                    >
+                        <Textarea
+                            value={text}
+                            onChange={(e) => setText(e.target.value)}
+                            onKeyDown={(e) => {
+                                // Enter sends, Shift+Enter adds a new line
+                                if (e.key === 'Enter' && !e.shiftKey) {
+                                    e.preventDefault();
+                                    handleSend();
+                                }
+                            }}
+                            placeholder="Write a message..."
+                            maxLength={MESSAGE_MAX}
+                            rows={1}
+                            className="min-h-[40px] max-h-32 resize-none"
+                            disabled={isSending}
+                        />
+                        <Button
+                            type="submit"
+                            size="icon"
+                            disabled={!text.trim() || isSending}
+                            className="gradient-primary text-primary-foreground shrink-0"
+                            aria-label="Send message"
+                        >
+                            {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                        </Button>
+                    </form>
+                ) : (
+                    <p className="text-sm text-center text-muted-foreground py-2">
+                        {conversation.blockedByMe
+                            ? 'You blocked this user. Unblock them to send messages.'
+                            : 'You can no longer send messages in this conversation.'}
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+}
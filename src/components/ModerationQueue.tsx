@@ -0,0 +1,334 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+import { adminApi } from '@/lib/api';
+import { avatarFor } from '@/lib/profile';
+import {
+    MAX_MODERATION_NOTE_LENGTH,
+    MODERATION_ACTION_LABELS,
+    REPORT_REASON_LABELS,
+} from '@/lib/moderation';
+import { ModerationActionType, ReportedItem, ReportReason } from '@/types';
+import { Markdown } from '@/components/Markdown';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { Check, EyeOff, Flag, History, Loader2, ShieldAlert, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+const QUEUE_PAGE_SIZE = 20;
+const LOG_PAGE_SIZE = 20;
+
+const REPORTS_KEY = ['admin', 'reports'];
+const MODERATION_LOG_KEY = ['admin', 'moderation-log'];
+
+const actionButtons: { action: ModerationActionType; label: string; icon: React.ElementType }[] = [
+    { action: 'dismiss', label: 'Dismiss', icon: Check },
+    { action: 'hide', label: 'Hide', icon: EyeOff },
+    { action: 'warn', label: 'Warn author', icon: ShieldAlert },
+    { action: 'delete', label: 'Delete', icon: Trash2 },
+];
+
+const confirmText: Record<ModerationActionType, string> = {
+    dismiss: 'The reports are closed and the content stays up.',
+    hide: 'The content is hidden from everyone but stays on record.',
+    warn: 'The author gets a moderation warning notification. The content stays up.',
+    delete: 'A post goes to the trash and can be restored until it is purged. A comment is deleted for good.',
+};
+
+const sortedReasons = (reasons: Partial<Record<ReportReason, number>>) =>
+    (Object.entries(reasons) as [ReportReason, number][]).sort((a, b) => b[1] - a[1]);
+
+/**
+ * Admin view of reported posts and comments, most reported first, with the
+ * actions a moderator can take and the log of actions already taken.
+ */
+export function ModerationQueue() {
+    const queryClient = useQueryClient();
+    const [pending, setPending] = useState<{ item: ReportedItem; action: ModerationActionType } | null>(null);
+    const [note, setNote] = useState('');
+    const [isActing, setIsActing] = useState(false);
+
+    const queueQuery = useInfiniteQuery({
+        queryKey: REPORTS_KEY,
+        queryFn: ({ pageParam }) => adminApi.getReports({ page: pageParam, limit: QUEUE_PAGE_SIZE }),
+        initialPageParam: 1,
+        getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.page + 1 : undefined),
+    });
+
+    const items = queueQuery.data?.pages.flatMap(page => page.data) ?? [];
+
+    const handleOpenChange = (open: boolean) => {
+        if (!open) {
+            setPending(null);
+            setNote('');
+        }
+    };
+
+    const handleConfirm = async () => {
+        if (!pending) return;
+
+        const { item, action } = pending;
+        const data = { action, note: note.trim() || undefined };
+
+        setIsActing(true);
+        try {
+            const response = item.comment
+                ? await adminApi.moderateComment(item.comment.id, data)
+                : await adminApi.moderatePost(item.post.id, data);
+            if (response.success) {
+                toast.success(response.message || 'Done');
+                queryClient.invalidateQueries({ queryKey: REPORTS_KEY });
+                queryClient.invalidateQueries({ queryKey: MODERATION_LOG_KEY });
+                queryClient.invalidateQueries({ queryKey: ['posts'] });
+                handleOpenChange(false);
+            }
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Moderation action failed');
+        } finally {
+            setIsActing(false);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <Card className="gradient-card border-border/50">
+                <CardHeader>
+                    <CardTitle>Moderation Queue</CardTitle>
+                    <CardDescription>Reported posts and comments, most reported first</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {queueQuery.isPending ? (
+                        <div className="flex items-center justify-center py-8">
+                            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                        </div>
+                    ) : queueQuery.error ? (
+                        <p className="text-sm text-destructive">
+                            {queueQuery.error instanceof Error ? queueQuery.error.message : 'Failed to load reports'}
+                        </p>
+                    ) : items.length === 0 ? (
+                        <div className="text-center py-8 text-muted-foreground">
+                            <Flag className="h-8 w-8 mx-auto mb-2" />
+                            No open reports
+                        </div>
+                    ) : (
+                        items.map(item => {
+                            const author = item.comment ? item.comment.author : item.post.author;
+                            const isHidden = item.comment ? item.comment.isHidden : item.post.isHidden;
+
+                            return (
+                                <div
+                                    key={item.comment?.id ?? item.post.id}
+                                    className="rounded-lg border border-border/50 p-4 space-y-3"
+                                >
+                                    <div className="flex flex-wrap items-start justify-between gap-2">
+                                        <div className="min-w-0 space-y-1">
+                                            <p className="text-xs text-muted-foreground">
+                                                {item.comment ? 'Comment on' : <span className="capitalize">{item.post.type}</span>}{' '}
+                                                <Link to={`/post/${item.post.id}`} className="font-medium text-foreground hover:text-primary">
+                                                    {item.post.title}
+                                                </Link>
+                                            </p>
+                                            <div className="flex items-center gap-2">
+                                                <Avatar className="h-6 w-6">
+                                                    <AvatarImage src={avatarFor(author)} />
+                                                    <AvatarFallback className="text-xs">{author?.name?.charAt(0) || '?'}</AvatarFallback>
+                                                </Avatar>
+                                                <span className="text-sm">{author?.name || 'Unknown'}</span>
+                                                {isHidden && <Badge variant="secondary">Hidden</Badge>}
+                                            </div>
+                                        </div>
+                                        <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/20">
+                                            <Flag className="h-3 w-3 mr-1" />
+                                            {item.reportCount} {item.reportCount === 1 ? 'report' : 'reports'}
+                                        </Badge>
+                                    </div>
+
+                                    {item.comment && (
+                                        <Markdown className="text-sm text-foreground/90 break-words rounded-md bg-muted/50 p-3">
+                                            {item.comment.text}
+                                        </Markdown>
+                                    )}
+
+                                    <div className="flex flex-wrap gap-1.5">
+                                        {sortedReasons(item.reasons).map(([reason, count]) => (
+                                            <Badge key={reason} variant="secondary">
+                                                {REPORT_REASON_LABELS[reason]} · {count}
+                                            </Badge>
+                                        ))}
+                                    </div>
+
+                                    {item.recent.some(report => report.details) && (
+                                        <ul className="space-y-1 text-sm text-muted-foreground">
+                                            {item.recent.filter(report => report.details).map(report => (
+                                                <li key={report.createdAt} className="break-words">
+                                                    "{report.details}"{' '}
+                                                    <span className="text-xs">
+                                                        · {formatDistanceToNow(new Date(report.createdAt), { addSuffix: true })}
+                                                    </span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+
+                                    <div className="flex flex-wrap gap-2">
+                                        {actionButtons
+                                            .filter(button => !(button.action === 'hide' && isHidden))
+                                            .map(button => (
+                                                <Button
+                                                    key={button.action}
+                                                    size="sm"
+                                                    variant={button.action === 'delete' ? 'destructive' : 'outline'}
+                                                    className="gap-1.5"
+                                                    onClick={() => setPending({ item, action: button.action })}
+                                                >
+                                                    <button.icon className="h-4 w-4" />
+                                                    {button.label}
+                                                </Button>
+                                            ))}
+                                    </div>
+                                </div>
+                            );
+                        })
+                    )}
+
+                    {queueQuery.hasNextPage && (
+                        <div className="flex justify-center">
+                            <Button
+                                variant="outline"
+                                onClick={() => queueQuery.fetchNextPage()}
+                                disabled={queueQuery.isFetchingNextPage}
+                            >
+                                {queueQuery.isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                Load more
+                            </Button>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            <ModerationLog />
+
+            <AlertDialog open={pending !== null} onOpenChange={handleOpenChange}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle className="capitalize">
+                            {pending && `${actionButtons.find(button => button.action === pending.action)?.label} ${pending.item.comment ? 'comment' : 'post'}`}
+                        </AlertDialogTitle>
+                        <AlertDialogDescription>
+                            {pending && confirmText[pending.action]}
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <div className="space-y-2">
+                        <Label htmlFor="moderationNote">Note for the log (optional)</Label>
+                        <Textarea
+                            id="moderationNote"
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                            maxLength={MAX_MODERATION_NOTE_LENGTH}
+                            rows={2}
+                            disabled={isActing}
+                        />
+                    </div>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel disabled={isActing}>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={(e) => {
+                                e.preventDefault();
+                                handleConfirm();
+                            }}
+                            disabled={isActing}
+                            className={pending?.action === 'delete'
+                                ? 'bg-destructive text-destructive-foreground hover:bg-destructive/90'
+                                : ''}
+                        >
+                            {isActing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Confirm
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    );
+}
+
+function ModerationLog() {
+    const logQuery = useInfiniteQuery({
+        queryKey: MODERATION_LOG_KEY,
+        queryFn: ({ pageParam }) => adminApi.getModerationLog({ cursor: pageParam, limit: LOG_PAGE_SIZE }),
+        initialPageParam: null as string | null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+    });
+
+    const entries = logQuery.data?.pages.flatMap(page => page.data) ?? [];
+
+    return (
+        <Card className="gradient-card border-border/50">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <History className="h-5 w-5" />
+                    Moderation Log
+                </CardTitle>
+                <CardDescription>Every action taken on reported content</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {logQuery.isPending ? (
+                    <div className="flex items-center justify-center py-6">
+                        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                    </div>
+                ) : entries.length === 0 ? (
+                    <p className="text-center py-6 text-muted-foreground">No actions yet</p>
+                ) : (
+                    entries.map(entry => (
+                        <div key={entry.id} className="text-sm border-b border-border/50 pb-3 last:border-0 last:pb-0">
+                            <p>
+                                <span className="font-medium">{entry.moderator?.name || 'Unknown'}</span>{' '}
+                                {MODERATION_ACTION_LABELS[entry.action].toLowerCase()}{' '}
+                                {entry.targetType === 'comment' ? 'a comment by' : 'a post by'}{' '}
+                                <span className="font-medium">{entry.targetAuthor?.name || 'Unknown'}</span>
+                                {entry.reportCount > 0 && (
+                                    <span className="text-muted-foreground">
+                                        {' '}({entry.reportCount} {entry.reportCount === 1 ? 'report' : 'reports'})
+                                    </span>
+                                )}
+                            </p>
+                            <p className="text-muted-foreground truncate">"{entry.excerpt}"</p>
+                            {entry.note && <p className="text-muted-foreground italic break-words">Note: {entry.note}</p>}
+                            <p className="text-xs text-muted-foreground">
+                                {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                            </p>
+                        </div>
+                    ))
+                )}
+
+                {logQuery.hasNextPage && (
+                    <div className="flex justify-center">
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => logQuery.fetchNextPage()}
+                            disabled={logQuery.isFetchingNextPage}
+                        >
+                            {logQuery.isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Load more
+                        </Button>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
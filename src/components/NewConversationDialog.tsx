@@ -0,0 +1,198 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { messagesApi, usersApi } from '@/lib/api';
+import { User } from '@/types';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { toast } from 'sonner';
+import { Loader2, Search, X, Check } from 'lucide-react';
+
+interface NewConversationDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onCreated: (conversationId: string) => void;
+}
+
+// Matches the server's cap, which counts the current user too
+const MAX_PARTICIPANTS = 9;
+const GROUP_NAME_MAX = 50;
+
+export function NewConversationDialog({ open, onOpenChange, onCreated }: NewConversationDialogProps) {
+    const { user } = useAuth();
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<User[]>([]);
+    const [selected, setSelected] = useState<User[]>([]);
+    const [groupName, setGroupName] = useState('');
+    const [isSearching, setIsSearching] = useState(false);
+    const [isCreating, setIsCreating] = useState(false);
+
+    // Reset the form when the dialog opens
+    useEffect(() => {
+        if (open) {
+            setQuery('');
+            setResults([]);
+            setSelected([]);
+            setGroupName('');
+        }
+    }, [open]);
+
+    // Search users with debounce
+    useEffect(() => {
+        if (!query.trim()) {
+            setResults([]);
+            return;
+        }
+
+        const timeoutId = setTimeout(async () => {
+            setIsSearching(true);
+            try {
+                const response = await usersApi.search(query.trim());
+                if (response.success) {
+                    setResults((response.data || []).filter((result: User) => result.id !== user?.id));
+                }
+            } catch {
+                setResults([]);
+            } finally {
+                setIsSearching(false);
+            }
+        }, 300);
+
+        return () => clearTimeout(timeoutId);
+    }, [query, user?.id]);
+
+    const isSelected = (candidate: User) => selected.some(s => s.id === candidate.id);
+
+    const toggle = (candidate: User) => {
+        if (isSelected(candidate)) {
+            setSelected(prev => prev.filter(s => s.id !== candidate.id));
+        } else if (selected.length < MAX_PARTICIPANTS) {
+            setSelected(prev => [...prev, candidate]);
+        } else {
+            toast.error(`A conversation can include up to ${MAX_PARTICIPANTS} other people`);
+        }
+    };
+
+    const handleCreate = async () => {
+        if (selected.length === 0) return;
+
+        setIsCreating(true);
+        try {
+            const name = selected.length > 1 ? groupName.trim() : '';
+            const response = await messagesApi.createConversation(selected.map(s => s.id), name || undefined);
+            if (response.success) {
+                onOpenChange(false);
+                onCreated(response.data.id);
+            }
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to start conversation');
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>New message</DialogTitle>
+                    <DialogDescription>
+                        Pick one person for a direct conversation, or several for a group.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4">
+                    {selected.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                            {selected.map(s => (
+                                <span
+                                    key={s.id}
+                                    className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-primary/10 text-primary text-sm"
+                                >
+                                    {s.name}
+                                    <button type="button" onClick={() => toggle(s)} aria-label={`Remove ${s.name}`}>
+                                        <X className="h-3 w-3" />
+                                    </button>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="relative">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                        <Input
+                            placeholder="Search users..."
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            className="pl-10"
+                            autoFocus
+                        />
+                    </div>
+
+                    <div className="max-h-60 overflow-y-auto space-y-1">
+                        {isSearching ? (
+                            <div className="flex items-center justify-center py-4">
+                                <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                            </div>
+                        ) : (
+                            results.map(result => (
+                                <button
+                                    key={result.id}
+                                    type="button"
+                                    onClick={() => toggle(result)}
+                                    className="w-full flex items-center gap-3 p-2 rounded-lg text-left hover:bg-muted/50"
+                                >
+                                    <Avatar className="h-8 w-8">
+                                        <AvatarImage src={result.avatar} alt={result.name} />
+                                        <AvatarFallback>{result.name.charAt(0)}</AvatarFallback>
+                                    </Avatar>
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-sm font-medium">{result.name}</p>
+                                        <p className="text-xs text-muted-foreground truncate">{result.email}</p>
+                                    </div>
+                                    {isSelected(result) && <Check className="h-4 w-4 text-primary" />}
+                                </button>
+                            ))
+                        )}
+                    </div>
+
+                    {selected.length > 1 && (
+                        <div className="space-y-2">
+                            <Label htmlFor="group-name">Group name (optional)</Label>
+                            <Input
+                                id="group-name"
+                                value={groupName}
+                                onChange={(e) => setGroupName(e.target.value)}
+                                maxLength={GROUP_NAME_MAX}
+                                placeholder="e.g. Hackathon team"
+                            />
+                        </div>
+                    )}
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isCreating}>
+                        Cancel
+                    </Button>
+                    <Button
+                        onClick={handleCreate}
+                        disabled={selected.length === 0 || isCreating}
+                        className="gradient-primary text-primary-foreground"
+                    >
+                        {isCreating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        {selected.length > 1 ? 'Start group' : 'Start conversation'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -1,8 +1,10 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { Link, useNavigate } from 'react-router-dom';
-import { Post } from '@/types';
+import { Post, PostSearchResult } from '@/types';
 import { postsApi } from '@/lib/api';
+import { avatarFor } from '@/lib/profile';
+import { markdownToPlainText } from '@/lib/markdown';
 import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardFooter, CardHeader } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -26,6 +28,10 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { EditPostDialog } from '@/components/EditPostDialog';
+import { HighlightedText } from '@/components/HighlightedText';
+import { AttachmentGallery } from '@/components/AttachmentGallery';
+import { PostDetailsSummary } from '@/components/PostDetailsSummary';
+import { BookmarkButton } from '@/components/BookmarkButton';
 import { toast } from 'sonner';
 import { Heart, MessageCircle, Rocket, Trophy, Briefcase, Send, Loader2, MoreVertical, Edit, Trash2 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
@@ -35,6 +41,8 @@ interface PostCardProps {
   index?: number;
   onUpdate?: (postId: string, updates: Partial<Post>) => void;
   onDelete?: (postId: string) => void;
+  onTagClick?: (tag: string) => void;
+  highlights?: PostSearchResult['highlights'];
 }
 
 const typeConfig = {
@@ -55,7 +63,7 @@ const typeConfig = {
   },
 };
 
-export function PostCard({ post, index = 0, onUpdate, onDelete }: PostCardProps) {
+export function PostCard({ post, index = 0, onUpdate, onDelete, onTagClick, highlights }: PostCardProps) {
   const { user, isAuthenticated } = useAuth();
   const navigate = useNavigate();
   const config = typeConfig[post.type];
@@ -76,6 +84,14 @@ export function PostCard({ post, index = 0, onUpdate, onDelete }: PostCardProps)
   const [isCommenting, setIsCommenting] = useState(false);
   const [commentsCount, setCommentsCount] = useState(post.comments);
 
+  // Pick up counts pushed into the cache by realtime updates
+  useEffect(() => {
+    setLikesCount(post.likes);
+  }, [post.likes]);
+  useEffect(() => {
+    setCommentsCount(post.comments);
+  }, [post.comments]);
+
   // Edit/Delete state
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
@@ -88,7 +104,7 @@ export function PostCard({ post, index = 0, onUpdate, onDelete }: PostCardProps)
 
   // Safely get author info
   const authorName = post.author?.name || 'Unknown';
-  const authorAvatar = post.author?.avatar || '';
+  const authorAvatar = avatarFor(post.author);
 
   const handleLike = async () => {
     if (!isAuthenticated) {
@@ -128,6 +144,9 @@ export function PostCard({ post, index = 0, onUpdate, onDelete }: PostCardProps)
       const response = await postsApi.addComment(post.id, commentText.trim());
       if (response.success) {
         setCommentsCount(prev => prev + 1);
+        if (onUpdate) {
+          onUpdate(post.id, { comments: commentsCount + 1 });
+        }
         setCommentText('');
         setShowCommentInput(false);
         toast.success('Comment added!');
@@ -152,7 +171,7 @@ export function PostCard({ post, index = 0, onUpdate, onDelete }: PostCardProps)
     try {
       const response = await postsApi.delete(post.id);
       if (response.success) {
-        toast.success('Post deleted successfully!');
+        toast.success('Post moved to trash');
         if (onDelete) {
           onDelete(post.id);
         }
@@ -229,22 +248,32 @@ export function PostCard({ post, index = 0, onUpdate, onDelete }: PostCardProps)
           <CardContent className="pb-3 flex-1">
             <Link to={`/post/${post.id}`}>
               <h3 className="font-semibold text-lg text-foreground mb-2 group-hover:text-primary transition-colors line-clamp-2 cursor-pointer hover:underline">
-                {post.title}
+                {highlights ? <HighlightedText segments={highlights.title} /> : post.title}
               </h3>
             </Link>
+            <PostDetailsSummary post={post} compact className="mb-2" />
             <p className="text-muted-foreground text-sm line-clamp-3">
-              {post.description}
+              {highlights ? <HighlightedText segments={highlights.description} /> : markdownToPlainText(post.description)}
             </p>
 
+            {post.attachments && post.attachments.length > 0 && (
+              <div className="mt-4">
+                <AttachmentGallery attachments={post.attachments} compact />
+              </div>
+            )}
+
             {post.tags && post.tags.length > 0 && (
               <div className="flex flex-wrap gap-2 mt-4">
                 {post.tags.map(tag => (
-                  <span
+                  <button
                     key={tag}
-                    className="px-2.5 py-1 text-xs rounded-full bg-secondary/80 text-secondary-foreground font-medium hover:bg-secondary transition-colors"
+                    type="button"
+                    onClick={() => onTagClick?.(tag)}
+                    disabled={!onTagClick}
+                    className="px-2.5 py-1 text-xs rounded-full bg-secondary/80 text-secondary-foreground font-medium hover:bg-secondary transition-colors disabled:cursor-default"
                   >
                     #{tag}
-                  </span>
+                  </button>
                 ))}
               </div>
             )}
@@ -282,6 +311,7 @@ export function PostCard({ post, index = 0, onUpdate, onDelete }: PostCardProps)
                 <MessageCircle className="h-4 w-4" />
                 <span className="text-sm font-medium">{commentsCount}</span>
               </Button>
+              <BookmarkButton postId={post.id} />
               <Button
                 variant="ghost"
                 size="sm"
@@ -346,7 +376,7 @@ export function PostCard({ post, index = 0, onUpdate, onDelete }: PostCardProps)
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Post</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this post? This action cannot be undone.
+              Are you sure you want to delete this post? It moves to the trash, where it can be restored until it is deleted permanently.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
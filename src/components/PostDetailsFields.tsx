@@ -0,0 +1,289 @@
+import {
+    MAX_TEAM_SIZE,
+    MAX_TECH_STACK,
+    PROJECT_STATUS_LABELS,
+    PostDetailsDraft,
+    STIPEND_PERIOD_LABELS,
+    WORK_MODE_LABELS,
+} from '@/lib/postDetails';
+import { PostType, ProjectStatus, StipendPeriod, WorkMode } from '@/types';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+
+interface PostDetailsFieldsProps {
+    type: PostType;
+    draft: PostDetailsDraft;
+    onChange: React.Dispatch<React.SetStateAction<PostDetailsDraft>>;
+    disabled?: boolean;
+}
+
+/**
+ * The inputs for a post type's own fields: repo and tech stack for projects,
+ * dates and venue for hackathons, company and stipend for internships.
+ */
+export function PostDetailsFields({ type, draft, onChange, disabled }: PostDetailsFieldsProps) {
+    const update = (changes: Partial<PostDetailsDraft>) => {
+        onChange(prev => ({ ...prev, ...changes }));
+    };
+
+    if (type === 'project') {
+        return (
+            <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor="repoUrl">Repository URL (optional)</Label>
+                    <Input
+                        id="repoUrl"
+                        type="url"
+                        placeholder="https://github.com/you/project"
+                        value={draft.repoUrl}
+                        onChange={(e) => update({ repoUrl: e.target.value })}
+                        maxLength={300}
+                        disabled={disabled}
+                    />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="techStack">Tech stack (comma separated)</Label>
+                    <Input
+                        id="techStack"
+                        placeholder="React, Node.js, MongoDB"
+                        value={draft.techStack}
+                        onChange={(e) => update({ techStack: e.target.value })}
+                        disabled={disabled}
+                    />
+                    <p className="text-xs text-muted-foreground">Up to {MAX_TECH_STACK} technologies</p>
+                </div>
+                <div className="space-y-2">
+                    <Label>Status</Label>
+                    <Select
+                        value={draft.status}
+                        onValueChange={(value) => update({ status: value as ProjectStatus })}
+                        disabled={disabled}
+                    >
+                        <SelectTrigger>
+                            <SelectValue placeholder="Select status" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {(Object.keys(PROJECT_STATUS_LABELS) as ProjectStatus[]).map(status => (
+                                <SelectItem key={status} value={status}>
+                                    {PROJECT_STATUS_LABELS[status]}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            </div>
+        );
+    }
+
+    if (type === 'hackathon') {
+        return (
+            <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                    <Label htmlFor="startDate">Start date</Label>
+                    <Input
+                        id="startDate"
+                        type="date"
+                        value={draft.startDate}
+                        onChange={(e) => update({ startDate: e.target.value })}
+                        required
+                        disabled={disabled}
+                    />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="endDate">End date</Label>
+                    <Input
+                        id="endDate"
+                        type="date"
+                        value={draft.endDate}
+                        min={draft.startDate || undefined}
+                        onChange={(e) => update({ endDate: e.target.value })}
+                        required
+                        disabled={disabled}
+                    />
+                </div>
+                <div className="flex items-center justify-between rounded-lg border border-border p-3 sm:col-span-2">
+                    <Label htmlFor="isOnline" className="cursor-pointer">Held online</Label>
+                    <Switch
+                        id="isOnline"
+                        checked={draft.isOnline}
+                        onCheckedChange={(checked) => update({ isOnline: checked })}
+                        disabled={disabled}
+                    />
+                </div>
+                <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor="location">Location{draft.isOnline && ' (optional)'}</Label>
+                    <Input
+                        id="location"
+                        placeholder={draft.isOnline ? 'e.g. Discord' : 'City or venue'}
+                        value={draft.location}
+                        onChange={(e) => update({ location: e.target.value })}
+                        required={!draft.isOnline}
+                        maxLength={100}
+                        disabled={disabled}
+                    />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="teamSizeMin">Min team size</Label>
+                    <Input
+                        id="teamSizeMin"
+                        type="number"
+                        min={1}
+                        max={MAX_TEAM_SIZE}
+                        value={draft.teamSizeMin}
+                        onChange={(e) => update({ teamSizeMin: e.target.value })}
+                        disabled={disabled}
+                    />
+                </div>
+                <div className="space-y-2">
+                    <Label htmlFor="teamSizeMax">Max team size</Label>
+                    <Input
+                        id="teamSizeMax"
+                        type="number"
+                        min={draft.teamSizeMin || 1}
+                        max={MAX_TEAM_SIZE}
+                        value={draft.teamSizeMax}
+                        onChange={(e) => update({ teamSizeMax: e.target.value })}
+                        disabled={disabled}
+                    />
+                </div>
+                <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor="registrationUrl">Registration URL (optional)</Label>
+                    <Input
+                        id="registrationUrl"
+                        type="url"
+                        placeholder="https://..."
+                        value={draft.registrationUrl}
+                        onChange={(e) => update({ registrationUrl: e.target.value })}
+                        maxLength={300}
+                        disabled={disabled}
+                    />
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+                <Label htmlFor="company">Company</Label>
+                <Input
+                    id="company"
+                    placeholder="Company name"
+                    value={draft.company}
+                    onChange={(e) => update({ company: e.target.value })}
+                    required
+                    maxLength={100}
+                    disabled={disabled}
+                />
+            </div>
+            <div className="space-y-2">
+                <Label>Work mode</Label>
+                <Select
+                    value={draft.workMode}
+                    onValueChange={(value) => update({ workMode: value as WorkMode })}
+                    disabled={disabled}
+                >
+                    <SelectTrigger>
+                        <SelectValue placeholder="Select work mode" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {(Object.keys(WORK_MODE_LABELS) as WorkMode[]).map(mode => (
+                            <SelectItem key={mode} value={mode}>
+                                {WORK_MODE_LABELS[mode]}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="location">Location{draft.workMode === 'remote' && ' (optional)'}</Label>
+                <Input
+                    id="location"
+                    placeholder="City"
+                    value={draft.location}
+                    onChange={(e) => update({ location: e.target.value })}
+                    required={draft.workMode !== 'remote'}
+                    maxLength={100}
+                    disabled={disabled}
+                />
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+                <Label>Stipend (optional)</Label>
+                <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+                    <Input
+                        type="number"
+                        min={0}
+                        placeholder="Min"
+                        aria-label="Minimum stipend"
+                        value={draft.stipendMin}
+                        onChange={(e) => update({ stipendMin: e.target.value })}
+                        disabled={disabled}
+                    />
+                    <Input
+                        type="number"
+                        min={draft.stipendMin || 0}
+                        placeholder="Max"
+                        aria-label="Maximum stipend"
+                        value={draft.stipendMax}
+                        onChange={(e) => update({ stipendMax: e.target.value })}
+                        disabled={disabled}
+                    />
+                    <Input
+                        placeholder="INR"
+                        aria-label="Currency"
+                        value={draft.stipendCurrency}
+                        onChange={(e) => update({ stipendCurrency: e.target.value.toUpperCase() })}
+                        maxLength={3}
+                        disabled={disabled}
+                    />
+                    <Select
+                        value={draft.stipendPeriod}
+                        onValueChange={(value) => update({ stipendPeriod: value as StipendPeriod })}
+                        disabled={disabled}
+                    >
+                        <SelectTrigger aria-label="Stipend period">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {(Object.keys(STIPEND_PERIOD_LABELS) as StipendPeriod[]).map(period => (
+                                <SelectItem key={period} value={period}>
+                                    {STIPEND_PERIOD_LABELS[period]}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor="durationMonths">Duration (months)</Label>
+                <Input
+                    id="durationMonths"
+                    type="number"
+                    min={1}
+                    max={24}
+                    value={draft.durationMonths}
+                    onChange={(e) => update({ durationMonths: e.target.value })}
+                    disabled={disabled}
+                />
+            </div>
+            <div className="space-y-2">
+                <Label htmlFor="applicationDeadline">Application deadline</Label>
+                <Input
+                    id="applicationDeadline"
+                    type="date"
+                    value={draft.applicationDeadline}
+                    onChange={(e) => update({ applicationDeadline: e.target.value })}
+                    disabled={disabled}
+                />
+            </div>
+        </div>
+    );
+}
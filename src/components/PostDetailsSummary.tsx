@@ -0,0 +1,167 @@
+import {
+    PROJECT_STATUS_LABELS,
+    WORK_MODE_LABELS,
+    formatDateRange,
+    formatDay,
+    formatRange,
+    formatStipend,
+} from '@/lib/postDetails';
+import { HackathonDetails, InternshipDetails, Post, ProjectDetails } from '@/types';
+import {
+    Building2,
+    CalendarDays,
+    CalendarClock,
+    Clock,
+    ExternalLink,
+    Github,
+    Globe,
+    Layers,
+    MapPin,
+    Users,
+    Wallet,
+} from 'lucide-react';
+
+interface PostDetailsSummaryProps {
+    post: Post;
+    // Cards show a single line of key facts without links
+    compact?: boolean;
+    className?: string;
+}
+
+interface Fact {
+    icon: React.ElementType;
+    label: string;
+}
+
+interface DetailLink {
+    icon: React.ElementType;
+    label: string;
+    href: string;
+}
+
+const COMPACT_FACT_COUNT = 3;
+
+const describe = (post: Post): { facts: Fact[]; links: DetailLink[]; techStack: string[] } => {
+    const facts: Fact[] = [];
+    const links: DetailLink[] = [];
+    let techStack: string[] = [];
+
+    if (post.type === 'hackathon') {
+        const details = post.details as HackathonDetails;
+        const dates = formatDateRange(details.startDate, details.endDate);
+        const teamSize = formatRange(details.teamSize?.min, details.teamSize?.max);
+        if (dates) facts.push({ icon: CalendarDays, label: dates });
+        if (details.isOnline) {
+            facts.push({ icon: Globe, label: details.location ? `Online · ${details.location}` : 'Online' });
+        } else if (details.location) {
+            facts.push({ icon: MapPin, label: details.location });
+        }
+        if (teamSize) facts.push({ icon: Users, label: `Teams of ${teamSize}` });
+        if (details.registrationUrl) {
+            links.push({ icon: ExternalLink, label: 'Register', href: details.registrationUrl });
+        }
+    } else if (post.type === 'internship') {
+        const details = post.details as InternshipDetails;
+        const stipend = formatStipend(details.stipend);
+        if (details.company) facts.push({ icon: Building2, label: details.company });
+        if (details.location || details.workMode) {
+            const place = [details.location, details.workMode && WORK_MODE_LABELS[details.workMode]]
+                .filter(Boolean)
+                .join(' · ');
+            facts.push({ icon: details.workMode === 'remote' ? Globe : MapPin, label: place });
+        }
+        if (stipend) facts.push({ icon: Wallet, label: stipend });
+        if (details.durationMonths) {
+            facts.push({
+                icon: Clock,
+                label: `${details.durationMonths} ${details.durationMonths === 1 ? 'month' : 'months'}`,
+            });
+        }
+        if (details.applicationDeadline) {
+            facts.push({ icon: CalendarClock, label: `Apply by ${formatDay(details.applicationDeadline)}` });
+        }
+    } else {
+        const details = post.details as ProjectDetails;
+        if (details.status) facts.push({ icon: Layers, label: PROJECT_STATUS_LABELS[details.status] });
+        if (details.repoUrl) links.push({ icon: Github, label: 'Repository', href: details.repoUrl });
+        techStack = details.techStack || [];
+    }
+
+    return { facts, links, techStack };
+};
+
+/**
+ * The type-specific fields of a post (dates, company, stipend, tech
+ * stack...). Renders nothing for posts without details.
+ */
+export function PostDetailsSummary({ post, compact = false, className = '' }: PostDetailsSummaryProps) {
+    if (!post.details) return null;
+
+    const { facts, links, techStack } = describe(post);
+    if (facts.length === 0 && links.length === 0 && techStack.length === 0) return null;
+
+    if (compact) {
+        const shownFacts = facts.slice(0, COMPACT_FACT_COUNT);
+        return (
+            <div className={`flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground ${className}`}>
+                {shownFacts.map(fact => (
+                    <span key={fact.label} className="inline-flex items-center gap-1.5">
+                        <fact.icon className="h-3.5 w-3.5" />
+                        {fact.label}
+                    </span>
+                ))}
+                {shownFacts.length === 0 && techStack.length > 0 && (
+                    <span className="inline-flex items-center gap-1.5">
+                        <Layers className="h-3.5 w-3.5" />
+                        {techStack.slice(0, COMPACT_FACT_COUNT).join(' · ')}
+                    </span>
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <div className={`space-y-3 rounded-lg border border-border bg-muted/30 p-4 ${className}`}>
+            {facts.length > 0 && (
+                <ul className="grid gap-2 sm:grid-cols-2">
+                    {facts.map(fact => (
+                        <li key={fact.label} className="flex items-center gap-2 text-sm text-foreground">
+                            <fact.icon className="h-4 w-4 text-primary shrink-0" />
+                            {fact.label}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {techStack.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {techStack.map(tech => (
+                        <span
+                            key={tech}
+                            className="px-2.5 py-1 text-xs rounded-md bg-primary/10 text-primary font-medium"
+                        >
+                            {tech}
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            {links.length > 0 && (
+                <div className="flex flex-wrap gap-3">
+                    {links.map(link => (
+                        <a
+                            key={link.href}
+                            href={link.href}
+                            target="_blank"
+                            rel="noopener noreferrer nofollow"
+                            className="inline-flex items-center gap-1.5 text-sm font-medium text-primary hover:underline"
+                        >
+                            <link.icon className="h-4 w-4" />
+                            {link.label}
+                        </a>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+import { adminApi, postsApi } from '@/lib/api';
+import { avatarFor } from '@/lib/profile';
+import { TrashedPost } from '@/types';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { toast } from 'sonner';
+import { Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+
+const PAGE_SIZE = 20;
+
+interface PostTrashProps {
+    // 'mine' lists the current user's deleted posts; 'all' everyone's, for admins
+    scope: 'mine' | 'all';
+}
+
+/**
+ * Deleted posts waiting to be purged, most recently deleted first, each with
+ * the date it will be deleted for good and a restore button when the viewer
+ * may restore it.
+ */
+export function PostTrash({ scope }: PostTrashProps) {
+    const queryClient = useQueryClient();
+    const [restoring, setRestoring] = useState<string | null>(null);
+
+    const trashQuery = useInfiniteQuery({
+        queryKey: ['trash', scope],
+        queryFn: ({ pageParam }) => {
+            const page = { cursor: pageParam, limit: PAGE_SIZE };
+            return scope === 'all' ? adminApi.getTrash(page) : postsApi.getTrash(page);
+        },
+        initialPageParam: null as string | null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+    });
+
+    const posts = trashQuery.data?.pages.flatMap(page => page.data) ?? [];
+
+    const handleRestore = async (post: TrashedPost) => {
+        setRestoring(post.id);
+        try {
+            const response = await postsApi.restore(post.id);
+            if (response.success) {
+                queryClient.invalidateQueries({ queryKey: ['trash'] });
+                queryClient.invalidateQueries({ queryKey: ['posts'] });
+                toast.success('Post restored');
+            }
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to restore post');
+        } finally {
+            setRestoring(null);
+        }
+    };
+
+    if (trashQuery.isPending) {
+        return (
+            <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+        );
+    }
+
+    if (trashQuery.error) {
+        return (
+            <p className="text-sm text-destructive">
+                {trashQuery.error instanceof Error ? trashQuery.error.message : 'Failed to load the trash'}
+            </p>
+        );
+    }
+
+    if (posts.length === 0) {
+        return (
+            <div className="text-center py-12 text-muted-foreground">
+                <Trash2 className="h-10 w-10 mx-auto mb-3 opacity-50" />
+                The trash is empty
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            {posts.map(post => (
+                <Card key={post.id} className="gradient-card border-border/50">
+                    <CardContent className="pt-6">
+                        <div className="flex items-start justify-between gap-4">
+                            <div className="min-w-0 space-y-1">
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <Badge variant="outline" className="capitalize">{post.type}</Badge>
+                                    {post.isHidden && <Badge variant="secondary">Hidden</Badge>}
+                                </div>
+                                <p className="font-medium text-foreground truncate">{post.title}</p>
+                                {scope === 'all' && (
+                                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                                        <Avatar className="h-5 w-5">
+                                            <AvatarImage src={avatarFor(post.author)} />
+                                            <AvatarFallback className="text-xs">
+                                                {post.author?.name?.charAt(0) || '?'}
+                                            </AvatarFallback>
+                                        </Avatar>
+                                        {post.author?.name || 'Unknown'}
+                                    </div>
+                                )}
+                                <p className="text-xs text-muted-foreground">
+                                    Deleted {formatDistanceToNow(new Date(post.deletedAt), { addSuffix: true })}
+                                    {post.deletedBy && ` by ${post.deletedBy.name}`}
+                                    {' · '}
+                                    Deleted permanently on {format(new Date(post.purgeAt), 'MMM d, yyyy')}
+                                </p>
+                                {!post.canRestore && (
+                                    <p className="text-xs text-muted-foreground">
+                                        Removed by an admin; only an admin can restore it
+                                    </p>
+                                )}
+                            </div>
+                            {post.canRestore && (
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="gap-2 shrink-0"
+                                    onClick={() => handleRestore(post)}
+                                    disabled={restoring === post.id}
+                                >
+                                    {restoring === post.id
+                                        ? <Loader2 className="h-4 w-4 animate-spin" />
+                                        : <RotateCcw className="h-4 w-4" />}
+                                    Restore
+                                </Button>
+                            )}
+                        </div>
+                    </CardContent>
+                </Card>
+            ))}
+
+            {trashQuery.hasNextPage && (
+                <div className="flex justify-center">
+                    <Button
+                        variant="outline"
+                        onClick={() => trashQuery.fetchNextPage()}
+                        disabled={trashQuery.isFetchingNextPage}
+                    >
+                        {trashQuery.isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Load more
+                    </Button>
+                </div>
+            )}
+        </div>
+    );
+}
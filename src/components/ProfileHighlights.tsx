@@ -0,0 +1,78 @@
+import { ProfileDetails } from '@/types';
+import { AVAILABILITY_LABELS } from '@/lib/profile';
+import { Badge } from '@/components/ui/badge';
+import { Github, Linkedin, Globe, FileText, GraduationCap, Sparkles } from 'lucide-react';
+
+interface ProfileHighlightsProps {
+    profile: ProfileDetails;
+}
+
+/**
+ * Education, availability, skills and links - renders nothing for the
+ * parts a student hasn't filled in.
+ */
+export function ProfileHighlights({ profile }: ProfileHighlightsProps) {
+    const education = [
+        profile.major,
+        profile.university,
+        profile.graduationYear ? `Class of ${profile.graduationYear}` : null,
+    ].filter(Boolean);
+
+    const links = [
+        { href: profile.links?.github, label: 'GitHub', icon: Github },
+        { href: profile.links?.linkedin, label: 'LinkedIn', icon: Linkedin },
+        { href: profile.links?.portfolio, label: 'Portfolio', icon: Globe },
+        { href: profile.links?.resume, label: 'Resume', icon: FileText },
+    ].filter(link => link.href);
+
+    const skills = profile.skills ?? [];
+
+    if (!profile.availability && education.length === 0 && skills.length === 0 && links.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="space-y-3">
+            {profile.availability && profile.availability !== 'not-looking' && (
+                <Badge className="bg-success/10 text-success border-success/20" variant="outline">
+                    <Sparkles className="h-3 w-3 mr-1" />
+                    {AVAILABILITY_LABELS[profile.availability]}
+                </Badge>
+            )}
+
+            {education.length > 0 && (
+                <div className="flex items-start gap-3 text-muted-foreground">
+                    <GraduationCap className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    <p className="text-sm">{education.join(' · ')}</p>
+                </div>
+            )}
+
+            {skills.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                    {skills.map(skill => (
+                        <Badge key={skill} variant="secondary" className="font-normal">
+                            {skill}
+                        </Badge>
+                    ))}
+                </div>
+            )}
+
+            {links.length > 0 && (
+                <div className="flex flex-wrap gap-4">
+                    {links.map(link => (
+                        <a
+                            key={link.label}
+                            href={link.href}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center gap-1.5 text-sm text-primary hover:underline"
+                        >
+                            <link.icon className="h-4 w-4" />
+                            {link.label}
+                        </a>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
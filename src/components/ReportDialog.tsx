@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { reportsApi } from '@/lib/api';
+import { MAX_REPORT_DETAILS_LENGTH, REPORT_REASON_OPTIONS } from '@/lib/moderation';
+import { ReportReason } from '@/types';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+
+interface ReportDialogProps {
+    postId: string;
+    // Reports this comment on the post instead of the post itself
+    commentId?: string;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+export function ReportDialog({ postId, commentId, open, onOpenChange }: ReportDialogProps) {
+    const [reason, setReason] = useState<ReportReason | ''>('');
+    const [details, setDetails] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+    const target = commentId ? 'comment' : 'post';
+
+    const handleOpenChange = (isOpen: boolean) => {
+        if (!isOpen) {
+            setReason('');
+            setDetails('');
+        }
+        onOpenChange(isOpen);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!reason) {
+            return;
+        }
+
+        const data = { reason, details: details.trim() || undefined };
+
+        setIsLoading(true);
+        try {
+            const response = commentId
+                ? await reportsApi.reportComment(postId, commentId, data)
+                : await reportsApi.reportPost(postId, data);
+            if (response.success) {
+                toast.success('Report sent', {
+                    description: 'Thanks for letting us know. A moderator will review it.',
+                });
+                handleOpenChange(false);
+            }
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to send report');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent className="sm:max-w-[450px]">
+                <DialogHeader>
+                    <DialogTitle>Report {target}</DialogTitle>
+                    <DialogDescription>
+                        Reports are private. Moderators will check this {target} against the community rules.
+                    </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit}>
+                    <div className="grid gap-4 py-4">
+                        <RadioGroup
+                            value={reason}
+                            onValueChange={(value) => setReason(value as ReportReason)}
+                            disabled={isLoading}
+                            aria-label="Reason"
+                        >
+                            {REPORT_REASON_OPTIONS.map(([value, label]) => (
+                                <div key={value} className="flex items-center gap-2">
+                                    <RadioGroupItem value={value} id={`report-${value}`} />
+                                    <Label htmlFor={`report-${value}`} className="font-normal">{label}</Label>
+                                </div>
+                            ))}
+                        </RadioGroup>
+                        <div className="space-y-2">
+                            <Label htmlFor="reportDetails">Details (optional)</Label>
+                            <Textarea
+                                id="reportDetails"
+                                value={details}
+                                onChange={(e) => setDetails(e.target.value)}
+                                placeholder="Anything that would help a moderator"
+                                maxLength={MAX_REPORT_DETAILS_LENGTH}
+                                rows={3}
+                                disabled={isLoading}
+                            />
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={isLoading}>
+                            Cancel
+                        </Button>
+                        <Button type="submit" variant="destructive" disabled={isLoading || !reason}>
+                            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Send Report
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { format, addDays } from 'date-fns';
+import { adminApi } from '@/lib/api';
+import { MAX_RESTRICTION_REASON_LENGTH, MAX_SUSPENSION_DAYS } from '@/lib/moderation';
+import { AdminUser } from '@/types';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+
+interface RestrictUserDialogProps {
+    user: AdminUser | null;
+    // 'suspend' locks the user out until a date; 'ban' until an admin reinstates them
+    mode: 'suspend' | 'ban';
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onRestricted: (user: AdminUser) => void;
+}
+
+const DEFAULT_SUSPENSION_DAYS = 7;
+
+const dateInput = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export function RestrictUserDialog({ user, mode, open, onOpenChange, onRestricted }: RestrictUserDialogProps) {
+    const [until, setUntil] = useState(() => dateInput(addDays(new Date(), DEFAULT_SUSPENSION_DAYS)));
+    const [reason, setReason] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+
+    const handleOpenChange = (isOpen: boolean) => {
+        if (!isOpen) {
+            setUntil(dateInput(addDays(new Date(), DEFAULT_SUSPENSION_DAYS)));
+            setReason('');
+        }
+        onOpenChange(isOpen);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!user) return;
+
+        const data = { reason: reason.trim() || undefined };
+
+        setIsLoading(true);
+        try {
+            // The suspension runs to the end of the chosen day, local time
+            const response = mode === 'suspend'
+                ? await adminApi.suspendUser(user.id, { ...data, until: new Date(`${until}T23:59:59`).toISOString() })
+                : await adminApi.banUser(user.id, data);
+            if (response.success) {
+                toast.success(response.message || (mode === 'suspend' ? 'User suspended' : 'User banned'));
+                onRestricted(response.data);
+                handleOpenChange(false);
+            }
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : `Failed to ${mode} user`);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent className="sm:max-w-[450px]">
+                <DialogHeader>
+                    <DialogTitle>{mode === 'suspend' ? 'Suspend' : 'Ban'} {user?.name}</DialogTitle>
+                    <DialogDescription>
+                        {mode === 'suspend'
+                            ? 'They are signed out everywhere and cannot sign in until the suspension ends.'
+                            : 'They are signed out everywhere and cannot sign in until an admin reinstates them.'}
+                    </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit}>
+                    <div className="grid gap-4 py-4">
+                        {mode === 'suspend' && (
+                            <div className="space-y-2">
+                                <Label htmlFor="suspendUntil">Suspended until</Label>
+                                <Input
+                                    id="suspendUntil"
+                                    type="date"
+                                    value={until}
+                                    onChange={(e) => setUntil(e.target.value)}
+                                    min={dateInput(new Date())}
+                                    max={dateInput(addDays(new Date(), MAX_SUSPENSION_DAYS - 1))}
+                                    required
+                                    disabled={isLoading}
+                                />
+                            </div>
+                        )}
+                        <div className="space-y-2">
+                            <Label htmlFor="restrictionReason">Reason (shown to the user)</Label>
+                            <Textarea
+                                id="restrictionReason"
+                                value={reason}
+                                onChange={(e) => setReason(e.target.value)}
+                                placeholder="Repeated spam in comments"
+                                maxLength={MAX_RESTRICTION_REASON_LENGTH}
+                                rows={3}
+                                disabled={isLoading}
+                            />
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={isLoading}>
+                            Cancel
+                        </Button>
+                        <Button type="submit" variant="destructive" disabled={isLoading || (mode === 'suspend' && !until)}>
+                            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            {mode === 'suspend' ? 'Suspend User' : 'Ban User'}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { teamsApi, isEmailNotVerifiedError } from '@/lib/api';
+import {
+    MAX_TEAM_DESCRIPTION_LENGTH,
+    MAX_TEAM_NAME_LENGTH,
+    MAX_TEAM_ROLE_LENGTH,
+    parseRoles,
+} from '@/lib/teams';
+import { Team } from '@/types';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+
+interface TeamFormDialogProps {
+    postId: string;
+    // Edits this team when given; starts a new one otherwise
+    team?: Team;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onSaved: (team: Team) => void;
+}
+
+export function TeamFormDialog({ postId, team, open, onOpenChange, onSaved }: TeamFormDialogProps) {
+    const [name, setName] = useState(team?.name || '');
+    const [description, setDescription] = useState(team?.description || '');
+    const [role, setRole] = useState('');
+    const [openRolesInput, setOpenRolesInput] = useState(team?.openRoles.join(', ') || '');
+    const [isLoading, setIsLoading] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!name.trim()) {
+            toast.error('Team name is required');
+            return;
+        }
+
+        setIsLoading(true);
+        try {
+            const openRoles = parseRoles(openRolesInput);
+            const response = team
+                ? await teamsApi.update(team.id, { name: name.trim(), description: description.trim(), openRoles })
+                : await teamsApi.create(postId, {
+                    name: name.trim(),
+                    description: description.trim() || undefined,
+                    role: role.trim() || undefined,
+                    openRoles,
+                });
+
+            if (response.success) {
+                onSaved(response.data);
+                toast.success(team ? 'Team updated' : 'Team created!');
+                onOpenChange(false);
+            }
+        } catch (error) {
+            if (isEmailNotVerifiedError(error)) {
+                toast.error('Verify your email to start a team', {
+                    description: 'Use the link we emailed you, or resend it from the banner above.',
+                });
+                return;
+            }
+            toast.error(error instanceof Error ? error.message : 'Failed to save team');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Reset form when dialog opens
+    const handleOpenChange = (newOpen: boolean) => {
+        if (newOpen) {
+            setName(team?.name || '');
+            setDescription(team?.description || '');
+            setRole('');
+            setOpenRolesInput(team?.openRoles.join(', ') || '');
+        }
+        onOpenChange(newOpen);
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{team ? 'Edit Team' : 'Start a Team'}</DialogTitle>
+                    <DialogDescription>
+                        {team
+                            ? 'Update your team and the roles you are still looking for.'
+                            : 'You will lead the team and decide who joins it.'}
+                    </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit}>
+                    <div className="grid gap-4 py-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="teamName">Team name</Label>
+                            <Input
+                                id="teamName"
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                placeholder="e.g. Null Pointers"
+                                maxLength={MAX_TEAM_NAME_LENGTH}
+                                required
+                                disabled={isLoading}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="teamDescription">What are you building? (optional)</Label>
+                            <Textarea
+                                id="teamDescription"
+                                value={description}
+                                onChange={(e) => setDescription(e.target.value)}
+                                placeholder="Your idea, stack or what you're hoping to learn"
+                                maxLength={MAX_TEAM_DESCRIPTION_LENGTH}
+                                rows={3}
+                                disabled={isLoading}
+                            />
+                        </div>
+                        {!team && (
+                            <div className="space-y-2">
+                                <Label htmlFor="teamRole">Your role (optional)</Label>
+                                <Input
+                                    id="teamRole"
+                                    value={role}
+                                    onChange={(e) => setRole(e.target.value)}
+                                    placeholder="e.g. Backend developer"
+                                    maxLength={MAX_TEAM_ROLE_LENGTH}
+                                    disabled={isLoading}
+                                />
+                            </div>
+                        )}
+                        <div className="space-y-2">
+                            <Label htmlFor="openRoles">Open roles (comma separated)</Label>
+                            <Input
+                                id="openRoles"
+                                value={openRolesInput}
+                                onChange={(e) => setOpenRolesInput(e.target.value)}
+                                placeholder="Designer, Frontend developer"
+                                disabled={isLoading}
+                            />
+                            <p className="text-xs text-muted-foreground">
+                                The slots you still need to fill; each is closed when someone joins for it
+                            </p>
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={isLoading}>
+                            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            {team ? 'Save Changes' : 'Create Team'}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,506 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import { adminApi } from '@/lib/api';
+import { ACCOUNT_STATUS_LABELS, ACCOUNT_STATUS_OPTIONS } from '@/lib/moderation';
+import { useAuth } from '@/contexts/AuthContext';
+import { AccountStatus, AdminUser, AdminUserFilters, UserRole } from '@/types';
+import { RestrictUserDialog } from '@/components/RestrictUserDialog';
+import { Markdown } from '@/components/Markdown';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+    Sheet,
+    SheetContent,
+    SheetDescription,
+    SheetHeader,
+    SheetTitle,
+} from '@/components/ui/sheet';
+import { toast } from 'sonner';
+import {
+    Ban,
+    CheckCircle2,
+    Clock,
+    Eye,
+    Loader2,
+    MoreHorizontal,
+    Search,
+    ShieldCheck,
+    ShieldOff,
+    UserCheck,
+} from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+
+const PAGE_SIZE = 25;
+const ANY = 'any';
+
+const USERS_KEY = ['admin', 'users'];
+
+const statusBadgeClass: Record<AccountStatus, string> = {
+    active: 'bg-success/10 text-success border-success/20',
+    suspended: 'bg-warning/10 text-warning border-warning/20',
+    banned: 'bg-destructive/10 text-destructive border-destructive/20',
+};
+
+function StatusBadge({ user }: { user: AdminUser }) {
+    return (
+        <Badge variant="outline" className={statusBadgeClass[user.status]}>
+            {ACCOUNT_STATUS_LABELS[user.status]}
+            {user.suspendedUntil && ` until ${format(new Date(user.suspendedUntil), 'MMM d, yyyy')}`}
+        </Badge>
+    );
+}
+
+/**
+ * Admin view of every account: search and filter, open a user's content,
+ * suspend, ban or reinstate them, and grant or remove admin access.
+ */
+export function UserManagement() {
+    const { user: currentUser } = useAuth();
+    const queryClient = useQueryClient();
+
+    const [search, setSearch] = useState('');
+    const [debouncedSearch, setDebouncedSearch] = useState('');
+    const [role, setRole] = useState<UserRole | typeof ANY>(ANY);
+    const [verified, setVerified] = useState<'true' | 'false' | typeof ANY>(ANY);
+    const [status, setStatus] = useState<AccountStatus | typeof ANY>(ANY);
+
+    const [viewing, setViewing] = useState<string | null>(null);
+    const [restricting, setRestricting] = useState<{ user: AdminUser; mode: 'suspend' | 'ban' } | null>(null);
+    const [roleChange, setRoleChange] = useState<{ user: AdminUser; role: UserRole } | null>(null);
+    const [isUpdating, setIsUpdating] = useState<string | null>(null);
+
+    useEffect(() => {
+        const timeoutId = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+        return () => clearTimeout(timeoutId);
+    }, [search]);
+
+    const filters: AdminUserFilters = {
+        q: debouncedSearch || undefined,
+        role: role === ANY ? undefined : role,
+        verified: verified === ANY ? undefined : verified === 'true',
+        status: status === ANY ? undefined : status,
+    };
+
+    const usersQuery = useInfiniteQuery({
+        queryKey: [...USERS_KEY, filters],
+        queryFn: ({ pageParam }) => adminApi.getUsers(filters, { cursor: pageParam, limit: PAGE_SIZE }),
+        initialPageParam: null as string | null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+    });
+
+    const users = usersQuery.data?.pages.flatMap(page => page.data) ?? [];
+
+    const handleUpdated = () => {
+        queryClient.invalidateQueries({ queryKey: USERS_KEY });
+        queryClient.invalidateQueries({ queryKey: ['admin', 'user'] });
+    };
+
+    const handleReinstate = async (target: AdminUser) => {
+        setIsUpdating(target.id);
+        try {
+            const response = await adminApi.reinstateUser(target.id);
+            if (response.success) {
+                toast.success(response.message || 'User reinstated');
+                handleUpdated();
+            }
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to reinstate user');
+        } finally {
+            setIsUpdating(null);
+        }
+    };
+
+    const handleRoleChange = async () => {
+        if (!roleChange) return;
+
+        const { user: target, role: newRole } = roleChange;
+        setRoleChange(null);
+        setIsUpdating(target.id);
+        try {
+            const response = await adminApi.updateUserRole(target.id, newRole);
+            if (response.success) {
+                toast.success(response.message || 'Role updated');
+                handleUpdated();
+            }
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to change role');
+        } finally {
+            setIsUpdating(null);
+        }
+    };
+
+    return (
+        <Card className="gradient-card border-border/50">
+            <CardHeader>
+                <CardTitle>Users</CardTitle>
+                <CardDescription>Every account, newest first</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex flex-col sm:flex-row gap-2">
+                    <div className="relative flex-1">
+                        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                        <Input
+                            placeholder="Search by name or email..."
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            className="pl-10"
+                        />
+                    </div>
+                    <Select value={role} onValueChange={(value) => setRole(value as UserRole | typeof ANY)}>
+                        <SelectTrigger className="sm:w-36" aria-label="Filter by role">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ANY}>Any role</SelectItem>
+                            <SelectItem value="student">Students</SelectItem>
+                            <SelectItem value="admin">Admins</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <Select value={verified} onValueChange={(value) => setVerified(value as 'true' | 'false' | typeof ANY)}>
+                        <SelectTrigger className="sm:w-40" aria-label="Filter by email verification">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ANY}>Any email</SelectItem>
+                            <SelectItem value="true">Verified</SelectItem>
+                            <SelectItem value="false">Not verified</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <Select value={status} onValueChange={(value) => setStatus(value as AccountStatus | typeof ANY)}>
+                        <SelectTrigger className="sm:w-36" aria-label="Filter by status">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ANY}>Any status</SelectItem>
+                            {ACCOUNT_STATUS_OPTIONS.map(([value, label]) => (
+                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+
+                {usersQuery.isPending ? (
+                    <div className="flex items-center justify-center py-8">
+                        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                    </div>
+                ) : usersQuery.error ? (
+                    <p className="text-sm text-destructive">
+                        {usersQuery.error instanceof Error ? usersQuery.error.message : 'Failed to load users'}
+                    </p>
+                ) : users.length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground">
+                        No users found
+                    </div>
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>User</TableHead>
+                                <TableHead>Role</TableHead>
+                                <TableHead>Status</TableHead>
+                                <TableHead>Joined</TableHead>
+                                <TableHead className="text-right">Actions</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {users.map(account => {
+                                const isSelf = account.id === currentUser?.id;
+
+                                return (
+                                    <TableRow key={account.id}>
+                                        <TableCell>
+                                            <div className="flex items-center gap-2 min-w-0">
+                                                <Avatar className="h-8 w-8">
+                                                    <AvatarImage src={account.avatar} />
+                                                    <AvatarFallback className="text-xs">{account.name.charAt(0)}</AvatarFallback>
+                                                </Avatar>
+                                                <div className="min-w-0">
+                                                    <p className="text-sm font-medium truncate">
+                                                        {account.name}
+                                                        {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                                                    </p>
+                                                    <p className="text-xs text-muted-foreground truncate flex items-center gap-1">
+                                                        {account.email}
+                                                        {account.isEmailVerified && (
+                                                            <CheckCircle2 className="h-3 w-3 text-success shrink-0" aria-label="Email verified" />
+                                                        )}
+                                                    </p>
+                                                </div>
+                                            </div>
+                                        </TableCell>
+                                        <TableCell>
+                                            <Badge variant={account.role === 'admin' ? 'default' : 'outline'} className="capitalize">
+                                                {account.role}
+                                            </Badge>
+                                        </TableCell>
+                                        <TableCell>
+                                            <StatusBadge user={account} />
+                                        </TableCell>
+                                        <TableCell className="text-muted-foreground text-sm">
+                                            {formatDistanceToNow(new Date(account.createdAt), { addSuffix: true })}
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            <DropdownMenu>
+                                                <DropdownMenuTrigger asChild>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        disabled={isUpdating === account.id}
+                                                        aria-label={`Actions for ${account.name}`}
+                                                    >
+                                                        {isUpdating === account.id ? (
+                                                            <Loader2 className="h-4 w-4 animate-spin" />
+                                                        ) : (
+                                                            <MoreHorizontal className="h-4 w-4" />
+                                                        )}
+                                                    </Button>
+                                                </DropdownMenuTrigger>
+                                                <DropdownMenuContent align="end">
+                                                    <DropdownMenuItem onClick={() => setViewing(account.id)}>
+                                                        <Eye className="h-4 w-4 mr-2" />
+                                                        View content
+                                                    </DropdownMenuItem>
+                                                    {!isSelf && (
+                                                        <>
+                                                            <DropdownMenuSeparator />
+                                                            {account.status === 'active' ? (
+                                                                account.role === 'admin' ? (
+                                                                    <DropdownMenuItem onClick={() => setRoleChange({ user: account, role: 'student' })}>
+                                                                        <ShieldOff className="h-4 w-4 mr-2" />
+                                                                        Remove admin access
+                                                                    </DropdownMenuItem>
+                                                                ) : (
+                                                                    <>
+                                                                        <DropdownMenuItem onClick={() => setRoleChange({ user: account, role: 'admin' })}>
+                                                                            <ShieldCheck className="h-4 w-4 mr-2" />
+                                                                            Make admin
+                                                                        </DropdownMenuItem>
+                                                                        <DropdownMenuItem onClick={() => setRestricting({ user: account, mode: 'suspend' })}>
+                                                                            <Clock className="h-4 w-4 mr-2" />
+                                                                            Suspend...
+                                                                        </DropdownMenuItem>
+                                                                        <DropdownMenuItem
+                                                                            onClick={() => setRestricting({ user: account, mode: 'ban' })}
+                                                                            className="text-destructive"
+                                                                        >
+                                                                            <Ban className="h-4 w-4 mr-2" />
+                                                                            Ban...
+                                                                        </DropdownMenuItem>
+                                                                    </>
+                                                                )
+                                                            ) : (
+                                                                <>
+                                                                    <DropdownMenuItem onClick={() => handleReinstate(account)}>
+                                                                        <UserCheck className="h-4 w-4 mr-2" />
+                                                                        Reinstate
+                                                                    </DropdownMenuItem>
+                                                                    {account.status === 'suspended' && (
+                                                                        <DropdownMenuItem
+                                                                            onClick={() => setRestricting({ user: account, mode: 'ban' })}
+                                                                            className="text-destructive"
+                                                                        >
+                                                                            <Ban className="h-4 w-4 mr-2" />
+                                                                            Ban...
+                                                                        </DropdownMenuItem>
+                                                                    )}
+                                                                </>
+                                                            )}
+                                                        </>
+                                                    )}
+                                                </DropdownMenuContent>
+                                            </DropdownMenu>
+                                        </TableCell>
+                                    </TableRow>
+                                );
+                            })}
+                        </TableBody>
+                    </Table>
+                )}
+
+                {usersQuery.hasNextPage && (
+                    <div className="flex justify-center">
+                        <Button
+                            variant="outline"
+                            onClick={() => usersQuery.fetchNextPage()}
+                            disabled={usersQuery.isFetchingNextPage}
+                        >
+                            {usersQuery.isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Load more
+                        </Button>
+                    </div>
+                )}
+            </CardContent>
+
+            <UserDetailSheet userId={viewing} onClose={() => setViewing(null)} />
+
+            <RestrictUserDialog
+                user={restricting?.user ?? null}
+                mode={restricting?.mode ?? 'suspend'}
+                open={restricting !== null}
+                onOpenChange={(open) => !open && setRestricting(null)}
+                onRestricted={handleUpdated}
+            />
+
+            <AlertDialog open={roleChange !== null} onOpenChange={(open) => !open && setRoleChange(null)}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>
+                            {roleChange?.role === 'admin'
+                                ? `Make ${roleChange.user.name} an admin?`
+                                : `Remove admin access from ${roleChange?.user.name}?`}
+                        </AlertDialogTitle>
+                        <AlertDialogDescription>
+                            {roleChange?.role === 'admin'
+                                ? 'Admins can moderate all content and manage every account, including yours.'
+                                : 'They go back to being a student and lose access to this dashboard.'}
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleRoleChange}>
+                            {roleChange?.role === 'admin' ? 'Make Admin' : 'Remove Access'}
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </Card>
+    );
+}
+
+function UserDetailSheet({ userId, onClose }: { userId: string | null; onClose: () => void }) {
+    const { data, isPending, error } = useQuery({
+        queryKey: ['admin', 'user', userId],
+        queryFn: () => adminApi.getUser(userId as string),
+        enabled: userId !== null,
+    });
+
+    const detail = data?.data;
+
+    return (
+        <Sheet open={userId !== null} onOpenChange={(open) => !open && onClose()}>
+            <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+                {isPending ? (
+                    <div className="flex items-center justify-center py-12">
+                        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                    </div>
+                ) : error || !detail ? (
+                    <p className="text-sm text-destructive py-12 text-center">
+                        {error instanceof Error ? error.message : 'Failed to load user'}
+                    </p>
+                ) : (
+                    <div className="space-y-6">
+                        <SheetHeader>
+                            <div className="flex items-center gap-3">
+                                <Avatar className="h-12 w-12">
+                                    <AvatarImage src={detail.user.avatar} />
+                                    <AvatarFallback>{detail.user.name.charAt(0)}</AvatarFallback>
+                                </Avatar>
+                                <div className="min-w-0 text-left">
+                                    <SheetTitle className="truncate">{detail.user.name}</SheetTitle>
+                                    <SheetDescription className="truncate">{detail.user.email}</SheetDescription>
+                                </div>
+                            </div>
+                        </SheetHeader>
+
+                        <div className="space-y-2 text-sm">
+                            <div className="flex flex-wrap items-center gap-2">
+                                <Badge variant={detail.user.role === 'admin' ? 'default' : 'outline'} className="capitalize">
+                                    {detail.user.role}
+                                </Badge>
+                                <StatusBadge user={detail.user} />
+                                <Link to={`/u/${detail.user.id}`} className="text-primary hover:underline ml-auto">
+                                    Public profile
+                                </Link>
+                            </div>
+                            {detail.user.restrictionReason && (
+                                <p className="text-muted-foreground break-words">Reason: {detail.user.restrictionReason}</p>
+                            )}
+                            <p className="text-muted-foreground">
+                                {detail.stats.posts} posts · {detail.stats.comments} comments · {detail.stats.moderationActions} moderation actions
+                            </p>
+                        </div>
+
+                        <section className="space-y-2">
+                            <h3 className="font-semibold">Recent posts</h3>
+                            {detail.posts.length === 0 ? (
+                                <p className="text-sm text-muted-foreground">No posts</p>
+                            ) : (
+                                detail.posts.map(post => (
+                                    <div key={post.id} className="flex items-center justify-between gap-2 text-sm">
+                                        <Link to={`/post/${post.id}`} className="truncate hover:text-primary">
+                                            {post.title}
+                                        </Link>
+                                        <div className="flex items-center gap-2 shrink-0">
+                                            {post.isHidden && <Badge variant="secondary">Hidden</Badge>}
+                                            <span className="text-xs text-muted-foreground">
+                                                {formatDistanceToNow(new Date(post.createdAt), { addSuffix: true })}
+                                            </span>
+                                        </div>
+                                    </div>
+                                ))
+                            )}
+                        </section>
+
+                        <section className="space-y-3">
+                            <h3 className="font-semibold">Recent comments</h3>
+                            {detail.comments.length === 0 ? (
+                                <p className="text-sm text-muted-foreground">No comments</p>
+                            ) : (
+                                detail.comments.map(comment => (
+                                    <div key={comment.id} className="text-sm space-y-1 border-b border-border/50 pb-3 last:border-0">
+                                        <p className="text-xs text-muted-foreground">
+                                            On{' '}
+                                            <Link to={`/post/${comment.post.id}`} className="hover:text-primary">
+                                                {comment.post.title}
+                                            </Link>
+                                            {' · '}
+                                            {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+                                            {comment.isHidden && <Badge variant="secondary" className="ml-2">Hidden</Badge>}
+                                        </p>
+                                        <Markdown className="text-foreground/90 break-words">{comment.text}</Markdown>
+                                    </div>
+                                ))
+                            )}
+                        </section>
+                    </div>
+                )}
+            </SheetContent>
+        </Sheet>
+    );
+}
@@ -1,14 +1,19 @@
 import { ReactNode } from 'react';
 import { Navbar } from './Navbar';
+import { VerificationBanner } from './VerificationBanner';
+import { useRealtimeSync } from '@/hooks/use-realtime';
 
 interface LayoutProps {
   children: ReactNode;
 }
 
 export function Layout({ children }: LayoutProps) {
+  useRealtimeSync();
+
   return (
     <div className="min-h-screen bg-background">
       <Navbar />
+      <VerificationBanner />
       <main>{children}</main>
     </div>
   );
@@ -0,0 +1,39 @@
+import { useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { messagesApi } from '@/lib/api';
+import { useRealtimeStatus } from '@/hooks/use-realtime';
+import { Button } from '@/components/ui/button';
+import { MessageSquare } from 'lucide-react';
+
+const POLL_INTERVAL_MS = 60_000;
+
+export function MessagesButton() {
+  const navigate = useNavigate();
+  const realtimeReady = useRealtimeStatus();
+
+  // Realtime events invalidate ['conversations']; poll only without them
+  const { data } = useQuery({
+    queryKey: ['conversations', 'unread'],
+    queryFn: () => messagesApi.getConversations({ limit: 1 }),
+    refetchInterval: realtimeReady ? false : POLL_INTERVAL_MS,
+  });
+
+  const unreadTotal = data?.unreadTotal ?? 0;
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="relative"
+      onClick={() => navigate('/messages')}
+      aria-label={unreadTotal > 0 ? `Messages (${unreadTotal} unread)` : 'Messages'}
+    >
+      <MessageSquare className="h-5 w-5" />
+      {unreadTotal > 0 && (
+        <span className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold flex items-center justify-center">
+          {unreadTotal > 99 ? '99+' : unreadTotal}
+        </span>
+      )}
+    </Button>
+  );
+}
@@ -10,8 +10,10 @@ import {
   DropdownMenuTrigger
 } from '@/components/ui/dropdown-menu';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Rocket, Menu, X, LogOut, User, Shield, PlusCircle } from 'lucide-react';
+import { Rocket, Menu, X, LogOut, User, Shield, PlusCircle, ClipboardList, Bookmark, Trash2 } from 'lucide-react';
 import { useState } from 'react';
+import { NotificationBell } from './NotificationBell';
+import { MessagesButton } from './MessagesButton';
 
 export function Navbar() {
   const { user, isAuthenticated, logout } = useAuth();
@@ -66,6 +68,9 @@ export function Navbar() {
                   Create Post
                 </Button>
 
+                <MessagesButton />
+                <NotificationBell />
+
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
                     <button aria-label="Open user menu" className="flex items-center gap-2 p-1 rounded-full hover:bg-secondary transition-colors">
@@ -90,6 +95,18 @@ export function Navbar() {
                       <User className="h-4 w-4 mr-2" />
                       Profile
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => navigate('/saved')}>
+                      <Bookmark className="h-4 w-4 mr-2" />
+                      Saved Posts
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => navigate('/trash')}>
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Trash
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => navigate('/applications')}>
+                      <ClipboardList className="h-4 w-4 mr-2" />
+                      My Applications
+                    </DropdownMenuItem>
                     {user?.role === 'admin' && (
                       <DropdownMenuItem onClick={() => navigate('/admin')}>
                         <Shield className="h-4 w-4 mr-2" />
@@ -120,14 +137,22 @@ export function Navbar() {
           </div>
 
           {/* Mobile Menu Button */}
-          <button
-            aria-label={mobileMenuOpen ? "Close menu" : "Open menu"}
-            aria-expanded={mobileMenuOpen}
-            className="md:hidden p-2 rounded-lg hover:bg-secondary transition-colors"
-            onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
-          >
-            {mobileMenuOpen ? <X className="h-6 w-6" /> : <Menu className="h-6 w-6" />}
-          </button>
+          <div className="md:hidden flex items-center gap-1">
+            {isAuthenticated && (
+              <>
+                <MessagesButton />
+                <NotificationBell />
+              </>
+            )}
+            <button
+              aria-label={mobileMenuOpen ? "Close menu" : "Open menu"}
+              aria-expanded={mobileMenuOpen}
+              className="p-2 rounded-lg hover:bg-secondary transition-colors"
+              onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
+            >
+              {mobileMenuOpen ? <X className="h-6 w-6" /> : <Menu className="h-6 w-6" />}
+            </button>
+          </div>
         </div>
 
         {/* Mobile Menu */}
@@ -159,6 +184,27 @@ export function Navbar() {
                   >
                     Create Post
                   </Link>
+                  <Link
+                    to="/saved"
+                    onClick={() => setMobileMenuOpen(false)}
+                    className="px-4 py-2 rounded-lg text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+                  >
+                    Saved Posts
+                  </Link>
+                  <Link
+                    to="/trash"
+                    onClick={() => setMobileMenuOpen(false)}
+                    className="px-4 py-2 rounded-lg text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+                  >
+                    Trash
+                  </Link>
+                  <Link
+                    to="/applications"
+                    onClick={() => setMobileMenuOpen(false)}
+                    className="px-4 py-2 rounded-lg text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+                  >
+                    My Applications
+                  </Link>
                   {user?.role === 'admin' && (
                     <Link
                       to="/admin"
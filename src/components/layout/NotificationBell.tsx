@@ -0,0 +1,195 @@
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { notificationsApi } from '@/lib/api';
+import { NotificationGroup, NotificationType } from '@/types';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  Bell,
+  Heart,
+  MessageCircle,
+  Reply,
+  AtSign,
+  Briefcase,
+  ClipboardCheck,
+  UserPlus,
+  Users,
+  ShieldAlert,
+  Loader2,
+} from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+const POLL_INTERVAL_MS = 60_000;
+
+const typeIcons = {
+  like: Heart,
+  comment: MessageCircle,
+  reply: Reply,
+  mention: AtSign,
+  application: Briefcase,
+  'application-update': ClipboardCheck,
+  'team-request': UserPlus,
+  'team-update': Users,
+  'moderation-warning': ShieldAlert,
+};
+
+// "Alex", "Alex and Sam", "Alex and 4 others"
+const describeActors = (group: NotificationGroup) => {
+  const [first, second] = group.actors;
+  const firstName = first?.name || 'Someone';
+  const others = group.actorCount - 1;
+
+  if (others <= 0) return firstName;
+  if (others === 1 && second) return `${firstName} and ${second.name}`;
+  return `${firstName} and ${others} others`;
+};
+
+const describeAction = (group: NotificationGroup) => {
+  switch (group.type) {
+    case 'like':
+      return `liked your ${group.post.type}`;
+    case 'comment':
+      return `commented on your ${group.post.type}`;
+    case 'reply':
+      return 'replied to your comment on';
+    case 'mention':
+      return 'mentioned you in';
+    case 'application':
+      return 'applied to your internship';
+    case 'application-update':
+      return 'updated your application for';
+    case 'team-request':
+      return 'asked to join your team for';
+    case 'team-update':
+      return 'answered your team request for';
+    case 'moderation-warning':
+      return 'sent you a moderation warning about';
+  }
+};
+
+// Application notifications open the pipeline or the applicant's list instead of the post
+const targetFor = (group: NotificationGroup) => {
+  switch (group.type) {
+    case 'application':
+      return `/post/${group.post.id}/applicants`;
+    case 'application-update':
+      return '/applications';
+    default:
+      return `/post/${group.post.id}`;
+  }
+};
+
+export function NotificationBell() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data, isPending } = useQuery({
+    queryKey: ['notifications'],
+    queryFn: () => notificationsApi.getAll({ limit: 20 }),
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+
+  const markRead = useMutation({
+    mutationFn: (group?: { post: string; type: NotificationType }) => notificationsApi.markRead(group),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['notifications'] }),
+  });
+
+  const groups = data?.data ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const handleOpen = (group: NotificationGroup) => {
+    if (group.unread > 0) {
+      markRead.mutate({ post: group.post.id, type: group.type });
+    }
+    navigate(targetFor(group));
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : 'Notifications'}
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between px-2 py-1.5">
+          <p className="font-medium">Notifications</p>
+          {unreadCount > 0 && (
+            <button
+              type="button"
+              onClick={() => markRead.mutate(undefined)}
+              disabled={markRead.isPending}
+              className="text-xs text-primary hover:underline disabled:opacity-50"
+            >
+              Mark all as read
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+
+        {isPending ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : groups.length === 0 ? (
+          <p className="px-2 py-6 text-sm text-center text-muted-foreground">
+            You're all caught up.
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {groups.map(group => {
+              const Icon = typeIcons[group.type];
+              const actor = group.actors[0];
+
+              return (
+                <DropdownMenuItem
+                  key={group.id}
+                  onClick={() => handleOpen(group)}
+                  className={`flex items-start gap-3 py-2 cursor-pointer ${group.read ? '' : 'bg-primary/5'}`}
+                >
+                  <div className="relative shrink-0">
+                    <Avatar className="h-8 w-8">
+                      <AvatarImage src={actor?.avatar} alt={actor?.name} />
+                      <AvatarFallback className="text-xs">{actor?.name?.charAt(0) || '?'}</AvatarFallback>
+                    </Avatar>
+                    <span className="absolute -bottom-1 -right-1 p-0.5 rounded-full bg-background">
+                      <Icon className="h-3 w-3 text-primary" />
+                    </span>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm leading-snug">
+                      <span className="font-medium">{describeActors(group)}</span>{' '}
+                      {describeAction(group)}{' '}
+                      <span className="font-medium">{group.post.title}</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      {formatDistanceToNow(new Date(group.latestAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {!group.read && <span className="mt-1.5 h-2 w-2 rounded-full bg-primary shrink-0" aria-label="Unread" />}
+                </DropdownMenuItem>
+              );
+            })}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,45 @@
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { authApi } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { MailWarning, Loader2 } from 'lucide-react';
+
+// Shown on every page until the signed-in user verifies their email
+export function VerificationBanner() {
+  const { user, isAuthenticated } = useAuth();
+  const [isSending, setIsSending] = useState(false);
+
+  if (!isAuthenticated || !user || user.isEmailVerified) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    setIsSending(true);
+    try {
+      const response = await authApi.resendVerification();
+      toast.success(response.message || 'Verification email sent');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to resend verification email');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="border-b border-warning/30 bg-warning/10">
+      <div className="container mx-auto px-4 py-2 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2 text-sm">
+        <div className="flex items-center gap-2 text-foreground">
+          <MailWarning className="h-4 w-4 text-warning shrink-0" />
+          <span>
+            Please verify your email address. We sent a link to <strong>{user.email}</strong>.
+          </span>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleResend} disabled={isSending}>
+          {isSending && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+          Resend email
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
 import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
 import { User, AuthState } from '@/types';
-import { authApi, setToken, getToken, removeToken } from '@/lib/api';
+import { authApi, setToken, removeToken, onSessionExpired } from '@/lib/api';
 
 interface AuthContextType extends AuthState {
   login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
   register: (name: string, email: string, password: string, role?: 'student') => Promise<{ success: boolean; error?: string }>;
-  logout: () => void;
+  logout: () => Promise<void>;
+  logoutAll: () => Promise<void>;
   updateUser: (user: User) => void;
   refreshUser: () => Promise<void>;
 }
@@ -16,27 +17,25 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [authState, setAuthState] = useState<AuthState>({
     user: null,
     isAuthenticated: false,
-    isLoading: true, // Start with loading to check for existing token
+    isLoading: true, // Start with loading to restore an existing session
   });
 
-  // Check for existing token on mount
+  // Restore the session from the refresh cookie on mount
   useEffect(() => {
     const checkAuth = async () => {
-      const token = getToken();
-      if (token) {
-        try {
-          const response = await authApi.getMe();
-          if (response.success && response.user) {
-            setAuthState({
-              user: response.user,
-              isAuthenticated: true,
-              isLoading: false,
-            });
-            return;
-          }
-        } catch {
-          removeToken();
+      try {
+        const response = await authApi.refresh();
+        if (response.success && response.token && response.user) {
+          setToken(response.token);
+          setAuthState({
+            user: response.user,
+            isAuthenticated: true,
+            isLoading: false,
+          });
+          return;
         }
+      } catch {
+        removeToken();
       }
       setAuthState({
         user: null,
@@ -47,6 +46,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     checkAuth();
   }, []);
 
+  // Drop to logged-out state when the API reports the session is gone
+  useEffect(() => {
+    onSessionExpired(() => {
+      setAuthState({
+        user: null,
+        isAuthenticated: false,
+        isLoading: false,
+      });
+    });
+    return () => onSessionExpired(null);
+  }, []);
+
   const login = useCallback(async (email: string, password: string) => {
     setAuthState(prev => ({ ...prev, isLoading: true }));
 
@@ -100,7 +111,23 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
-  const logout = useCallback(() => {
+  const logout = useCallback(async () => {
+    try {
+      // Revoke the session server-side so the refresh token stops working
+      await authApi.logout();
+    } catch {
+      // Still sign out locally if the server can't be reached
+    }
+    removeToken();
+    setAuthState({
+      user: null,
+      isAuthenticated: false,
+      isLoading: false,
+    });
+  }, []);
+
+  const logoutAll = useCallback(async () => {
+    await authApi.logoutAll();
     removeToken();
     setAuthState({
       user: null,
@@ -131,7 +158,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }, []);
 
   return (
-    <AuthContext.Provider value={{ ...authState, login, register, logout, updateUser, refreshUser }}>
+    <AuthContext.Provider value={{ ...authState, login, register, logout, logoutAll, updateUser, refreshUser }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,64 @@
+import { useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { bookmarksApi } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { BookmarkRef } from '@/types';
+
+export const BOOKMARK_IDS_KEY = ['bookmarks', 'ids'];
+export const BOOKMARK_COLLECTIONS_KEY = ['bookmarks', 'collections'];
+
+/**
+ * The current user's saved posts and collections, shared by every bookmark
+ * button on the page. Saving or removing updates the cache in place and
+ * refreshes the counts and the /saved lists.
+ */
+export function useBookmarks() {
+  const { isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: refs } = useQuery({
+    queryKey: BOOKMARK_IDS_KEY,
+    queryFn: async () => (await bookmarksApi.getIds()).data,
+    enabled: isAuthenticated,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const { data: collections } = useQuery({
+    queryKey: BOOKMARK_COLLECTIONS_KEY,
+    queryFn: () => bookmarksApi.getCollections(),
+    enabled: isAuthenticated,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // post id -> collection id (null when saved outside any collection)
+  const savedIn = useMemo(
+    () => new Map((refs ?? []).map(ref => [ref.post, ref.collection])),
+    [refs]
+  );
+
+  const setRef = (postId: string, collection: string | null | undefined) => {
+    queryClient.setQueryData<BookmarkRef[]>(BOOKMARK_IDS_KEY, (old = []) => {
+      const others = old.filter(ref => ref.post !== postId);
+      return collection === undefined ? others : [...others, { post: postId, collection }];
+    });
+    queryClient.invalidateQueries({ queryKey: BOOKMARK_COLLECTIONS_KEY });
+    queryClient.invalidateQueries({ queryKey: ['bookmarks', 'list'] });
+  };
+
+  const save = async (postId: string, collection: string | null = null) => {
+    const response = await bookmarksApi.save(postId, collection);
+    setRef(postId, response.data.collection);
+  };
+
+  const remove = async (postId: string) => {
+    await bookmarksApi.remove(postId);
+    setRef(postId, undefined);
+  };
+
+  return {
+    savedIn,
+    collections: collections?.data ?? [],
+    save,
+    remove,
+  };
+}
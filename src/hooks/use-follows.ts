@@ -0,0 +1,63 @@
+import { useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { followsApi } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+
+export const MY_FOLLOWS_KEY = ['follows', 'mine'];
+
+/**
+ * The people and tags the current user follows, shared by every follow
+ * button on the page. Following or unfollowing refreshes the list, the
+ * Following feed and the affected profile's counts.
+ */
+export function useFollows() {
+  const { isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: MY_FOLLOWS_KEY,
+    queryFn: async () => (await followsApi.getMine()).data,
+    enabled: isAuthenticated,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const followedUsers = useMemo(() => new Set((data?.users ?? []).map(user => user.id)), [data]);
+  const followedTags = useMemo(() => new Set(data?.tags ?? []), [data]);
+
+  const refresh = (userId?: string) => {
+    queryClient.invalidateQueries({ queryKey: MY_FOLLOWS_KEY });
+    queryClient.invalidateQueries({ queryKey: ['posts', 'following'] });
+    if (userId) {
+      queryClient.invalidateQueries({ queryKey: ['profile', userId] });
+    }
+  };
+
+  const followUser = async (userId: string) => {
+    await followsApi.followUser(userId);
+    refresh(userId);
+  };
+
+  const unfollowUser = async (userId: string) => {
+    await followsApi.unfollowUser(userId);
+    refresh(userId);
+  };
+
+  const followTag = async (tag: string) => {
+    await followsApi.followTag(tag);
+    refresh();
+  };
+
+  const unfollowTag = async (tag: string) => {
+    await followsApi.unfollowTag(tag);
+    refresh();
+  };
+
+  return {
+    followedUsers,
+    followedTags,
+    followUser,
+    unfollowUser,
+    followTag,
+    unfollowTag,
+  };
+}
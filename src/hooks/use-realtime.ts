@@ -0,0 +1,170 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { InfiniteData, QueryClient, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  isRealtimeReady,
+  onRealtimeEvent,
+  onRealtimeStatus,
+  RealtimeMessage,
+  startRealtime,
+  stopRealtime,
+  subscribeRoom
+} from '@/lib/realtime';
+import { Comment, ConversationDetail, Message, PaginatedResponse, Post, PostFilters } from '@/types';
+
+type CachedPostPages = InfiniteData<{ data: Post[] }>;
+type CachedComments = InfiniteData<PaginatedResponse<Comment>>;
+type CachedMessages = InfiniteData<PaginatedResponse<Message>>;
+
+interface CommentAddedEvent {
+  postId: string;
+  comment: Comment;
+  commentCount: number;
+  parentReplyCount: number | null;
+}
+
+// Applies a change to one post wherever it is cached: feed pages, search pages and the detail view
+const updatePost = (queryClient: QueryClient, postId: string, updates: Partial<Post>) => {
+  queryClient.setQueriesData<CachedPostPages>({ queryKey: ['posts'] }, (old) => old && {
+    ...old,
+    pages: old.pages.map(page => ({
+      ...page,
+      data: page.data.map(post => (post.id === postId ? { ...post, ...updates } : post)),
+    })),
+  });
+  queryClient.setQueryData<Post>(['post', postId], (old) => old && { ...old, ...updates });
+};
+
+// New posts only belong in unfiltered-by-author/date feeds whose type and tags they match
+const matchesFeed = (post: Post, filters: PostFilters) =>
+  (!filters.type || filters.type === 'all' || filters.type === post.type) &&
+  (!filters.tags?.length || filters.tags.some(tag => post.tags?.includes(tag))) &&
+  !filters.author && !filters.from && !filters.to;
+
+const handlePostCreated = (queryClient: QueryClient, post: Post) => {
+  queryClient.getQueriesData<CachedPostPages>({ queryKey: ['posts', 'feed'] }).forEach(([queryKey, data]) => {
+    const filters = (queryKey[2] ?? {}) as PostFilters;
+    if (!data || data.pages.length === 0 || !matchesFeed(post, filters)) return;
+    if (data.pages.some(page => page.data.some(existing => existing.id === post.id))) return;
+
+    queryClient.setQueryData<CachedPostPages>(queryKey, {
+      ...data,
+      pages: [{ ...data.pages[0], data: [post, ...data.pages[0].data] }, ...data.pages.slice(1)],
+    });
+  });
+};
+
+const handleCommentAdded = (queryClient: QueryClient, { postId, comment, commentCount, parentReplyCount }: CommentAddedEvent) => {
+  updatePost(queryClient, postId, { comments: commentCount });
+
+  // Append to the thread it belongs to - only once every earlier page is loaded
+  queryClient.setQueryData<CachedComments>(['comments', postId, comment.parentId ?? 'root'], (old) => {
+    if (!old || old.pages.length === 0) return old;
+    const lastPage = old.pages[old.pages.length - 1];
+    if (lastPage.nextCursor || old.pages.some(page => page.data.some(c => c._id === comment._id))) return old;
+
+    return {
+      ...old,
+      pages: [...old.pages.slice(0, -1), { ...lastPage, data: [...lastPage.data, comment], count: lastPage.count + 1 }],
+    };
+  });
+
+  if (comment.parentId && parentReplyCount !== null) {
+    queryClient.setQueriesData<CachedComments>({ queryKey: ['comments', postId] }, (old) => old && {
+      ...old,
+      pages: old.pages.map(page => ({
+        ...page,
+        data: page.data.map(c => (c._id === comment.parentId ? { ...c, replyCount: parentReplyCount } : c)),
+      })),
+    });
+  }
+};
+
+const handleMessageCreated = (queryClient: QueryClient, { conversationId, message }: { conversationId: string; message: Message }) => {
+  // History is newest first, so new messages go to the front of the first page
+  queryClient.setQueryData<CachedMessages>(['messages', conversationId], (old) => {
+    if (!old || old.pages.length === 0) return old;
+    if (old.pages.some(page => page.data.some(m => m.id === message.id))) return old;
+
+    const [first, ...rest] = old.pages;
+    return { ...old, pages: [{ ...first, data: [message, ...first.data], count: first.count + 1 }, ...rest] };
+  });
+  queryClient.invalidateQueries({ queryKey: ['conversations'] });
+};
+
+const handleConversationRead = (
+  queryClient: QueryClient,
+  { conversationId, userId, lastReadAt }: { conversationId: string; userId: string; lastReadAt: string }
+) => {
+  queryClient.setQueryData<{ success: boolean; data: ConversationDetail }>(['conversation', conversationId], (old) => old && {
+    ...old,
+    data: {
+      ...old.data,
+      members: old.data.members.map(member => (member.id === userId ? { ...member, lastReadAt } : member)),
+    },
+  });
+  queryClient.invalidateQueries({ queryKey: ['conversations'] });
+};
+
+/**
+ * Keeps the realtime connection open while signed in and merges its events
+ * into the react-query cache. Mount once, inside the router and providers.
+ */
+export function useRealtimeSync() {
+  const queryClient = useQueryClient();
+  const { isAuthenticated } = useAuth();
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    startRealtime();
+    const unsubscribe = onRealtimeEvent(({ event, data }: RealtimeMessage) => {
+      switch (event) {
+        case 'post-created':
+          handlePostCreated(queryClient, data as Post);
+          break;
+        case 'like-changed': {
+          const { postId, likes } = data as { postId: string; likes: number };
+          updatePost(queryClient, postId, { likes });
+          break;
+        }
+        case 'comment-added':
+          handleCommentAdded(queryClient, data as CommentAddedEvent);
+          break;
+        // Delivered to the signed-in user's own room, no subscription needed
+        case 'message-created':
+          handleMessageCreated(queryClient, data as { conversationId: string; message: Message });
+          break;
+        case 'conversation-read':
+          handleConversationRead(queryClient, data as { conversationId: string; userId: string; lastReadAt: string });
+          break;
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      stopRealtime();
+    };
+  }, [isAuthenticated, queryClient]);
+}
+
+/**
+ * Subscribes to realtime rooms for as long as the calling component is mounted.
+ */
+export function useRealtimeRooms(rooms: string[]) {
+  // Joined into a string so a new array with the same rooms doesn't resubscribe
+  const roomKey = rooms.join(',');
+
+  useEffect(() => {
+    if (!roomKey) return;
+    const unsubscribers = roomKey.split(',').map(subscribeRoom);
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [roomKey]);
+}
+
+/**
+ * Whether realtime events are arriving - use it to fall back to polling.
+ */
+export function useRealtimeStatus() {
+  return useSyncExternalStore(onRealtimeStatus, isRealtimeReady);
+}
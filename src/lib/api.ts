@@ -1,7 +1,53 @@
 import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import {
+    AdminStats,
+    AdminStatsFilters,
+    AdminUser,
+    AdminUserDetail,
+    AdminUserFilters,
+    Application,
+    ApplicationStage,
+    ApplicationsResponse,
+    AuditLogEntry,
+    AuditLogFilters,
+    Availability,
+    BookmarkCollection,
+    BookmarkCollectionsResponse,
+    BookmarkRef,
+    Comment,
+    ConversationDetail,
+    ConversationsResponse,
+    JoinRequest,
+    Message,
+    ModerationActionType,
+    ModerationLogEntry,
+    MyApplication,
+    MyFollows,
+    MyTeamStatus,
+    NotificationsResponse,
+    NotificationType,
+    PaginatedResponse,
+    Post,
+    PostAttachment,
+    PostDetails,
+    PostFilters,
+    PostSearchResponse,
+    PostType,
+    ProfileLinks,
+    PublicProfile,
+    ReportQueueResponse,
+    ReportReason,
+    SavedPost,
+    Team,
+    TeamInput,
+    TrashedPost,
+    UserComment,
+    UserRole,
+    UserSearchFilters,
+} from '@/types';
 
 // API base URL - use environment variable in production
-const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api/v1';
+export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api/v1';
 
 // Log the API URL in development for debugging
 if (import.meta.env.DEV) {
@@ -9,30 +55,86 @@ if (import.meta.env.DEV) {
 }
 
 // Create axios instance
+// withCredentials sends the httpOnly refresh cookie to /auth/refresh and /auth/logout
 const api = axios.create({
     baseURL: API_BASE_URL,
     headers: {
         'Content-Type': 'application/json',
     },
     timeout: 10000,
+    withCredentials: true,
 });
 
-// Token storage key
-const TOKEN_KEY = 'minihub_token';
+// SECURITY: The short-lived access token lives in memory only. The session
+// survives reloads through the refresh cookie, which scripts cannot read.
+let accessToken: string | null = null;
 
-// Get token from storage
+// Tokens from older versions were persisted; make sure none linger
+localStorage.removeItem('minihub_token');
+
+// Get current access token
 export const getToken = (): string | null => {
-    return localStorage.getItem(TOKEN_KEY);
+    return accessToken;
 };
 
-// Set token in storage
+// Set access token
 export const setToken = (token: string): void => {
-    localStorage.setItem(TOKEN_KEY, token);
+    accessToken = token;
 };
 
-// Remove token from storage
+// Forget access token
 export const removeToken = (): void => {
-    localStorage.removeItem(TOKEN_KEY);
+    accessToken = null;
+};
+
+// Notified when the session can no longer be refreshed (revoked or expired)
+let sessionExpiredHandler: (() => void) | null = null;
+
+export const onSessionExpired = (handler: (() => void) | null): void => {
+    sessionExpiredHandler = handler;
+};
+
+// Auth endpoints that must never trigger a refresh-and-retry
+const NO_REFRESH_URLS = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/logout'];
+
+// Error code the API returns when an unverified account tries a gated action
+export const EMAIL_NOT_VERIFIED = 'EMAIL_NOT_VERIFIED';
+
+// Error carrying the API's machine-readable code so the UI can react to it
+export class ApiError extends Error {
+    status?: number;
+    code?: string;
+
+    constructor(message: string, status?: number, code?: string) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = status;
+        this.code = code;
+    }
+}
+
+export const isEmailNotVerifiedError = (error: unknown): boolean =>
+    error instanceof ApiError && error.code === EMAIL_NOT_VERIFIED;
+
+// Error codes the API returns once an admin has locked the account out
+const ACCOUNT_RESTRICTED_CODES = ['ACCOUNT_SUSPENDED', 'ACCOUNT_BANNED'];
+
+// Single in-flight refresh shared by every request that hit a 401
+let refreshPromise: Promise<string> | null = null;
+
+export const refreshAccessToken = (): Promise<string> => {
+    if (!refreshPromise) {
+        refreshPromise = api
+            .post('/auth/refresh')
+            .then((response) => {
+                setToken(response.data.token);
+                return response.data.token as string;
+            })
+            .finally(() => {
+                refreshPromise = null;
+            });
+    }
+    return refreshPromise;
 };
 
 // Request interceptor - add auth token
@@ -60,7 +162,7 @@ api.interceptors.response.use(
         }
         return response;
     },
-    (error: AxiosError<{ error?: string; message?: string }>) => {
+    async (error: AxiosError<{ error?: string; message?: string; code?: string }>) => {
         // Log errors in development for debugging
         if (import.meta.env.DEV) {
             console.error('❌ API Error:', {
@@ -74,22 +176,42 @@ api.interceptors.response.use(
         const status = error.response?.status;
         const message = error.response?.data?.error || error.response?.data?.message;
 
-        // Handle token expiration
-        if (status === 401 && message === 'Token expired') {
-            removeToken();
-            window.location.href = '/login';
-            return Promise.reject(new Error('Session expired. Please log in again.'));
+        // Handle expired access token - refresh once, then replay the request
+        const original = error.config as (InternalAxiosRequestConfig & { _retry?: boolean }) | undefined;
+        if (
+            status === 401 &&
+            original &&
+            !original._retry &&
+            !NO_REFRESH_URLS.some(url => original.url?.startsWith(url))
+        ) {
+            original._retry = true;
+            try {
+                const token = await refreshAccessToken();
+                original.headers.Authorization = `Bearer ${token}`;
+                return api(original);
+            } catch {
+                removeToken();
+                sessionExpiredHandler?.();
+                return Promise.reject(new Error('Session expired. Please log in again.'));
+            }
         }
 
         // Handle unauthorized
         if (status === 401) {
-            removeToken();
             return Promise.reject(new Error(message || 'Authentication required'));
         }
 
         // Handle forbidden
         if (status === 403) {
-            return Promise.reject(new Error(message || 'Access denied'));
+            // A suspension or ban ends the session; login shows the message itself
+            if (
+                ACCOUNT_RESTRICTED_CODES.includes(error.response?.data?.code ?? '') &&
+                !original?.url?.startsWith('/auth/login')
+            ) {
+                removeToken();
+                sessionExpiredHandler?.();
+            }
+            return Promise.reject(new ApiError(message || 'Access denied', status, error.response?.data?.code));
         }
 
         // Handle validation errors
@@ -132,6 +254,18 @@ export const authApi = {
         const response = await api.get('/auth/me');
         return response.data;
     },
+    refresh: async () => {
+        const response = await api.post('/auth/refresh');
+        return response.data;
+    },
+    logout: async () => {
+        const response = await api.post('/auth/logout');
+        return response.data;
+    },
+    logoutAll: async () => {
+        const response = await api.post('/auth/logout-all');
+        return response.data;
+    },
     forgotPassword: async (email: string) => {
         const response = await api.post('/auth/forgot-password', { email });
         return response.data;
@@ -144,47 +278,504 @@ export const authApi = {
         const response = await api.get(`/auth/verify-email/${token}`);
         return response.data;
     },
+    resendVerification: async () => {
+        const response = await api.post('/auth/resend-verification');
+        return response.data;
+    },
 };
 
 export const postsApi = {
-    getAll: async (type?: string) => {
-        const params = type && type !== 'all' ? { type } : {};
+    getAll: async (
+        filters: PostFilters = {},
+        page: { cursor?: string | null; limit?: number } = {}
+    ): Promise<PaginatedResponse<Post>> => {
+        const params: Record<string, string | number> = {};
+        if (filters.type && filters.type !== 'all') params.type = filters.type;
+        if (filters.tags && filters.tags.length > 0) params.tags = filters.tags.join(',');
+        if (filters.author) params.author = filters.author;
+        if (filters.from) params.from = filters.from;
+        if (filters.to) params.to = filters.to;
+        if (page.cursor) params.cursor = page.cursor;
+        if (page.limit) params.limit = page.limit;
         const response = await api.get('/posts', { params });
         return response.data;
     },
+    search: async (
+        q: string,
+        options: { type?: string; page?: number; limit?: number } = {}
+    ): Promise<PostSearchResponse> => {
+        const params: Record<string, string | number> = { q };
+        if (options.type && options.type !== 'all') params.type = options.type;
+        if (options.page) params.page = options.page;
+        if (options.limit) params.limit = options.limit;
+        const response = await api.get('/posts/search', { params });
+        return response.data;
+    },
     getById: async (id: string) => {
         const response = await api.get(`/posts/${id}`);
         return response.data;
     },
-    create: async (data: { type: string; title: string; description: string; tags?: string[] }) => {
+    // attachments are ids returned by uploadAttachment, in display order;
+    // details are the fields of the given type (see PostDetailsByType)
+    create: async (data: { type: string; title: string; description: string; tags?: string[]; attachments?: string[]; details?: PostDetails }) => {
         const response = await api.post('/posts', data);
         return response.data;
     },
-    update: async (id: string, data: { type?: string; title?: string; description?: string; tags?: string[] }) => {
+    // details replace the current ones and must be sent with type
+    update: async (id: string, data: { type?: string; title?: string; description?: string; tags?: string[]; attachments?: string[]; details?: PostDetails }) => {
         const response = await api.put(`/posts/${id}`, data);
         return response.data;
     },
+    uploadAttachment: async (
+        file: File,
+        onProgress?: (percent: number) => void
+    ): Promise<{ success: boolean; data: PostAttachment }> => {
+        const formData = new FormData();
+        formData.append('file', file);
+        const response = await api.post('/posts/attachments', formData, {
+            headers: { 'Content-Type': 'multipart/form-data' },
+            onUploadProgress: (event) => {
+                if (onProgress && event.total) {
+                    onProgress(Math.round((event.loaded / event.total) * 100));
+                }
+            },
+        });
+        return response.data;
+    },
+    // Moves the post to the trash
     delete: async (id: string) => {
         const response = await api.delete(`/posts/${id}`);
         return response.data;
     },
+    getTrash: async (page: { cursor?: string | null; limit?: number } = {}): Promise<PaginatedResponse<TrashedPost>> => {
+        const params: Record<string, string | number> = {};
+        if (page.cursor) params.cursor = page.cursor;
+        if (page.limit) params.limit = page.limit;
+        const response = await api.get('/posts/trash', { params });
+        return response.data;
+    },
+    restore: async (id: string) => {
+        const response = await api.post(`/posts/${id}/restore`);
+        return response.data;
+    },
     like: async (id: string) => {
         const response = await api.post(`/posts/${id}/like`);
         return response.data;
     },
-    addComment: async (id: string, text: string) => {
-        const response = await api.post(`/posts/${id}/comments`, { text });
+    getComments: async (
+        id: string,
+        options: { parentId?: string | null; cursor?: string | null; limit?: number } = {}
+    ): Promise<PaginatedResponse<Comment>> => {
+        const params: Record<string, string | number> = {};
+        if (options.parentId) params.parentId = options.parentId;
+        if (options.cursor) params.cursor = options.cursor;
+        if (options.limit) params.limit = options.limit;
+        const response = await api.get(`/posts/${id}/comments`, { params });
+        return response.data;
+    },
+    addComment: async (id: string, text: string, parentId?: string) => {
+        const response = await api.post(`/posts/${id}/comments`, parentId ? { text, parentId } : { text });
+        return response.data;
+    },
+    updateComment: async (id: string, commentId: string, text: string) => {
+        const response = await api.put(`/posts/${id}/comments/${commentId}`, { text });
+        return response.data;
+    },
+    deleteComment: async (id: string, commentId: string) => {
+        const response = await api.delete(`/posts/${id}/comments/${commentId}`);
         return response.data;
     },
 };
 
 export const usersApi = {
-    updateProfile: async (data: { name?: string; bio?: string }) => {
+    // Empty strings (or a null year) clear optional profile fields
+    updateProfile: async (data: {
+        name?: string;
+        bio?: string;
+        skills?: string[];
+        university?: string;
+        major?: string;
+        graduationYear?: number | null;
+        links?: ProfileLinks;
+        availability?: Availability | '';
+    }) => {
         const response = await api.put('/users/me', data);
         return response.data;
     },
-    search: async (query: string) => {
-        const response = await api.get('/users', { params: { search: query } });
+    uploadAvatar: async (
+        file: File,
+        onProgress?: (percent: number) => void
+    ): Promise<{ success: boolean; data: { avatar: string } }> => {
+        const formData = new FormData();
+        formData.append('avatar', file);
+        const response = await api.post('/users/me/avatar', formData, {
+            headers: { 'Content-Type': 'multipart/form-data' },
+            onUploadProgress: (event) => {
+                if (onProgress && event.total) {
+                    onProgress(Math.round((event.loaded / event.total) * 100));
+                }
+            },
+        });
+        return response.data;
+    },
+    removeAvatar: async (): Promise<{ success: boolean; data: { avatar: string } }> => {
+        const response = await api.delete('/users/me/avatar');
+        return response.data;
+    },
+    search: async (query: string, filters: UserSearchFilters = {}) => {
+        const params: Record<string, string | number> = {};
+        if (query) params.search = query;
+        if (filters.skills && filters.skills.length > 0) params.skills = filters.skills.join(',');
+        if (filters.university) params.university = filters.university;
+        if (filters.graduationYear) params.graduationYear = filters.graduationYear;
+        if (filters.availability) params.availability = filters.availability;
+        const response = await api.get('/users', { params });
+        return response.data;
+    },
+    getProfile: async (id: string): Promise<{ success: boolean; data: PublicProfile }> => {
+        const response = await api.get(`/users/${id}`);
+        return response.data;
+    },
+    getComments: async (
+        id: string,
+        page: { cursor?: string | null; limit?: number } = {}
+    ): Promise<PaginatedResponse<UserComment>> => {
+        const params: Record<string, string | number> = {};
+        if (page.cursor) params.cursor = page.cursor;
+        if (page.limit) params.limit = page.limit;
+        const response = await api.get(`/users/${id}/comments`, { params });
+        return response.data;
+    },
+    getSessions: async () => {
+        const response = await api.get('/users/me/sessions');
+        return response.data;
+    },
+    revokeSession: async (id: string) => {
+        const response = await api.delete(`/users/me/sessions/${id}`);
+        return response.data;
+    },
+    revokeOtherSessions: async () => {
+        const response = await api.delete('/users/me/sessions');
+        return response.data;
+    },
+    getBlocked: async () => {
+        const response = await api.get('/users/me/blocked');
+        return response.data;
+    },
+    block: async (id: string) => {
+        const response = await api.post(`/users/${id}/block`);
+        return response.data;
+    },
+    unblock: async (id: string) => {
+        const response = await api.delete(`/users/${id}/block`);
+        return response.data;
+    },
+};
+
+export const followsApi = {
+    getMine: async (): Promise<{ success: boolean; data: MyFollows }> => {
+        const response = await api.get('/users/me/following');
+        return response.data;
+    },
+    // Posts by followed users or carrying a followed tag, newest first
+    getFeed: async (
+        filters: { type?: PostType | 'all' } = {},
+        page: { cursor?: string | null; limit?: number } = {}
+    ): Promise<PaginatedResponse<Post>> => {
+        const params: Record<string, string | number> = {};
+        if (filters.type && filters.type !== 'all') params.type = filters.type;
+        if (page.cursor) params.cursor = page.cursor;
+        if (page.limit) params.limit = page.limit;
+        const response = await api.get('/posts/following', { params });
+        return response.data;
+    },
+    followUser: async (id: string): Promise<{ success: boolean; data: { following: boolean; followers: number } }> => {
+        const response = await api.post(`/users/${id}/follow`);
+        return response.data;
+    },
+    unfollowUser: async (id: string): Promise<{ success: boolean; data: { following: boolean; followers: number } }> => {
+        const response = await api.delete(`/users/${id}/follow`);
+        return response.data;
+    },
+    followTag: async (tag: string) => {
+        const response = await api.post('/users/me/following/tags', { tag });
+        return response.data;
+    },
+    unfollowTag: async (tag: string) => {
+        const response = await api.delete(`/users/me/following/tags/${encodeURIComponent(tag)}`);
+        return response.data;
+    },
+};
+
+export const notificationsApi = {
+    getAll: async (options: { before?: string | null; limit?: number } = {}): Promise<NotificationsResponse> => {
+        const params: Record<string, string | number> = {};
+        if (options.before) params.before = options.before;
+        if (options.limit) params.limit = options.limit;
+        const response = await api.get('/notifications', { params });
+        return response.data;
+    },
+    // Marks one group's notifications as read, or all of them when group is omitted
+    markRead: async (group?: { post: string; type: NotificationType }) => {
+        const response = await api.post('/notifications/read', group ?? {});
+        return response.data;
+    },
+};
+
+export const messagesApi = {
+    getConversations: async (options: { before?: string | null; limit?: number } = {}): Promise<ConversationsResponse> => {
+        const params: Record<string, string | number> = {};
+        if (options.before) params.before = options.before;
+        if (options.limit) params.limit = options.limit;
+        const response = await api.get('/conversations', { params });
+        return response.data;
+    },
+    // One participant reuses the existing one-to-one conversation; more start a group
+    createConversation: async (participantIds: string[], name?: string) => {
+        const response = await api.post('/conversations', name ? { participantIds, name } : { participantIds });
+        return response.data;
+    },
+    getConversation: async (id: string): Promise<{ success: boolean; data: ConversationDetail }> => {
+        const response = await api.get(`/conversations/${id}`);
+        return response.data;
+    },
+    getMessages: async (id: string, cursor?: string | null): Promise<PaginatedResponse<Message>> => {
+        const response = await api.get(`/conversations/${id}/messages`, { params: cursor ? { cursor } : {} });
+        return response.data;
+    },
+    send: async (id: string, text: string) => {
+        const response = await api.post(`/conversations/${id}/messages`, { text });
+        return response.data;
+    },
+    markRead: async (id: string) => {
+        const response = await api.post(`/conversations/${id}/read`);
+        return response.data;
+    },
+};
+
+export const applicationsApi = {
+    apply: async (postId: string, coverNote: string): Promise<{ success: boolean; data: MyApplication }> => {
+        const response = await api.post(`/posts/${postId}/applications`, { coverNote });
+        return response.data;
+    },
+    // null when the current user hasn't applied to the post
+    getMineForPost: async (postId: string): Promise<{ success: boolean; data: MyApplication | null }> => {
+        const response = await api.get(`/posts/${postId}/applications/mine`);
+        return response.data;
+    },
+    // Post author and admins only
+    getForPost: async (
+        postId: string,
+        options: { stage?: ApplicationStage; cursor?: string | null; limit?: number } = {}
+    ): Promise<ApplicationsResponse> => {
+        const params: Record<string, string | number> = {};
+        if (options.stage) params.stage = options.stage;
+        if (options.cursor) params.cursor = options.cursor;
+        if (options.limit) params.limit = options.limit;
+        const response = await api.get(`/posts/${postId}/applications`, { params });
+        return response.data;
+    },
+    getMine: async (cursor?: string | null): Promise<PaginatedResponse<MyApplication>> => {
+        const response = await api.get('/applications/mine', { params: cursor ? { cursor } : {} });
+        return response.data;
+    },
+    updateStage: async (id: string, stage: ApplicationStage): Promise<{ success: boolean; data: Application }> => {
+        const response = await api.patch(`/applications/${id}`, { stage });
+        return response.data;
+    },
+    addNote: async (id: string, text: string): Promise<{ success: boolean; data: Application }> => {
+        const response = await api.post(`/applications/${id}/notes`, { text });
+        return response.data;
+    },
+};
+
+export const teamsApi = {
+    getForPost: async (postId: string): Promise<{ success: boolean; data: Team[] }> => {
+        const response = await api.get(`/posts/${postId}/teams`);
+        return response.data;
+    },
+    getMineForPost: async (postId: string): Promise<{ success: boolean; data: MyTeamStatus }> => {
+        const response = await api.get(`/posts/${postId}/teams/mine`);
+        return response.data;
+    },
+    create: async (postId: string, data: TeamInput): Promise<{ success: boolean; data: Team }> => {
+        const response = await api.post(`/posts/${postId}/teams`, data);
+        return response.data;
+    },
+    // Team lead only
+    update: async (id: string, data: Partial<Omit<TeamInput, 'role'>>): Promise<{ success: boolean; data: Team }> => {
+        const response = await api.patch(`/teams/${id}`, data);
+        return response.data;
+    },
+    delete: async (id: string) => {
+        const response = await api.delete(`/teams/${id}`);
+        return response.data;
+    },
+    requestToJoin: async (id: string, data: { role?: string; message?: string }): Promise<{ success: boolean; data: JoinRequest }> => {
+        const response = await api.post(`/teams/${id}/requests`, data);
+        return response.data;
+    },
+    withdrawRequest: async (id: string) => {
+        const response = await api.delete(`/teams/${id}/requests/mine`);
+        return response.data;
+    },
+    // Team lead only
+    getRequests: async (id: string): Promise<{ success: boolean; data: JoinRequest[] }> => {
+        const response = await api.get(`/teams/${id}/requests`);
+        return response.data;
+    },
+    decideRequest: async (id: string, requestId: string, status: 'approved' | 'declined'): Promise<{ success: boolean; data: Team }> => {
+        const response = await api.patch(`/teams/${id}/requests/${requestId}`, { status });
+        return response.data;
+    },
+    // Leaving a team is removing yourself
+    removeMember: async (id: string, userId: string): Promise<{ success: boolean; data: Team }> => {
+        const response = await api.delete(`/teams/${id}/members/${userId}`);
+        return response.data;
+    },
+};
+
+export const bookmarksApi = {
+    // Every saved post id, so post cards can show their bookmark state
+    getIds: async (): Promise<{ success: boolean; data: BookmarkRef[] }> => {
+        const response = await api.get('/users/me/bookmarks/ids');
+        return response.data;
+    },
+    // collection: an id, 'none' for posts outside any collection, or omitted for everything
+    getAll: async (
+        options: { collection?: string; cursor?: string | null; limit?: number } = {}
+    ): Promise<PaginatedResponse<SavedPost>> => {
+        const params: Record<string, string | number> = {};
+        if (options.collection) params.collection = options.collection;
+        if (options.cursor) params.cursor = options.cursor;
+        if (options.limit) params.limit = options.limit;
+        const response = await api.get('/users/me/bookmarks', { params });
+        return response.data;
+    },
+    // Saving an already saved post moves it to the given collection
+    save: async (postId: string, collection: string | null = null): Promise<{ success: boolean; data: { bookmarked: boolean; collection: string | null } }> => {
+        const response = await api.post(`/posts/${postId}/bookmark`, { collection });
+        return response.data;
+    },
+    remove: async (postId: string): Promise<{ success: boolean; data: { bookmarked: boolean; collection: null } }> => {
+        const response = await api.delete(`/posts/${postId}/bookmark`);
+        return response.data;
+    },
+    getCollections: async (): Promise<BookmarkCollectionsResponse> => {
+        const response = await api.get('/users/me/bookmark-collections');
+        return response.data;
+    },
+    createCollection: async (name: string): Promise<{ success: boolean; data: BookmarkCollection }> => {
+        const response = await api.post('/users/me/bookmark-collections', { name });
+        return response.data;
+    },
+    renameCollection: async (id: string, name: string): Promise<{ success: boolean; data: BookmarkCollection }> => {
+        const response = await api.patch(`/users/me/bookmark-collections/${id}`, { name });
+        return response.data;
+    },
+    deleteCollection: async (id: string) => {
+        const response = await api.delete(`/users/me/bookmark-collections/${id}`);
+        return response.data;
+    },
+};
+
+export const reportsApi = {
+    reportPost: async (postId: string, data: { reason: ReportReason; details?: string }) => {
+        const response = await api.post(`/posts/${postId}/report`, data);
+        return response.data;
+    },
+    reportComment: async (postId: string, commentId: string, data: { reason: ReportReason; details?: string }) => {
+        const response = await api.post(`/posts/${postId}/comments/${commentId}/report`, data);
+        return response.data;
+    },
+};
+
+// Admin only
+export const adminApi = {
+    getStats: async (filters: AdminStatsFilters = {}): Promise<{ success: boolean; data: AdminStats }> => {
+        const response = await api.get('/admin/stats', { params: filters });
+        return response.data;
+    },
+    getReports: async (options: { page?: number; limit?: number } = {}): Promise<ReportQueueResponse> => {
+        const params: Record<string, string | number> = {};
+        if (options.page) params.page = options.page;
+        if (options.limit) params.limit = options.limit;
+        const response = await api.get('/admin/reports', { params });
+        return response.data;
+    },
+    moderatePost: async (id: string, data: { action: ModerationActionType; note?: string }) => {
+        const response = await api.post(`/admin/posts/${id}/moderate`, data);
+        return response.data;
+    },
+    moderateComment: async (id: string, data: { action: ModerationActionType; note?: string }) => {
+        const response = await api.post(`/admin/comments/${id}/moderate`, data);
+        return response.data;
+    },
+    getModerationLog: async (
+        page: { cursor?: string | null; limit?: number } = {}
+    ): Promise<PaginatedResponse<ModerationLogEntry>> => {
+        const params: Record<string, string | number> = {};
+        if (page.cursor) params.cursor = page.cursor;
+        if (page.limit) params.limit = page.limit;
+        const response = await api.get('/admin/moderation-log', { params });
+        return response.data;
+    },
+    // Everyone's trashed posts; restore with postsApi.restore
+    getTrash: async (page: { cursor?: string | null; limit?: number } = {}): Promise<PaginatedResponse<TrashedPost>> => {
+        const params: Record<string, string | number> = {};
+        if (page.cursor) params.cursor = page.cursor;
+        if (page.limit) params.limit = page.limit;
+        const response = await api.get('/admin/trash', { params });
+        return response.data;
+    },
+    getUsers: async (
+        filters: AdminUserFilters = {},
+        page: { cursor?: string | null; limit?: number } = {}
+    ): Promise<PaginatedResponse<AdminUser>> => {
+        const params: Record<string, string | number> = {};
+        if (filters.q) params.q = filters.q;
+        if (filters.role) params.role = filters.role;
+        if (filters.verified !== undefined) params.verified = String(filters.verified);
+        if (filters.status) params.status = filters.status;
+        if (page.cursor) params.cursor = page.cursor;
+        if (page.limit) params.limit = page.limit;
+        const response = await api.get('/admin/users', { params });
+        return response.data;
+    },
+    getUser: async (id: string): Promise<{ success: boolean; data: AdminUserDetail }> => {
+        const response = await api.get(`/admin/users/${id}`);
+        return response.data;
+    },
+    // until is an ISO date
+    suspendUser: async (id: string, data: { until: string; reason?: string }) => {
+        const response = await api.post(`/admin/users/${id}/suspend`, data);
+        return response.data;
+    },
+    banUser: async (id: string, data: { reason?: string }) => {
+        const response = await api.post(`/admin/users/${id}/ban`, data);
+        return response.data;
+    },
+    reinstateUser: async (id: string) => {
+        const response = await api.post(`/admin/users/${id}/reinstate`);
+        return response.data;
+    },
+    updateUserRole: async (id: string, role: UserRole) => {
+        const response = await api.patch(`/admin/users/${id}/role`, { role });
+        return response.data;
+    },
+    getAuditLog: async (
+        filters: AuditLogFilters = {},
+        page: { cursor?: string | null; limit?: number } = {}
+    ): Promise<PaginatedResponse<AuditLogEntry>> => {
+        const params: Record<string, string | number> = { ...filters };
+        if (page.cursor) params.cursor = page.cursor;
+        if (page.limit) params.limit = page.limit;
+        const response = await api.get('/admin/audit-log', { params });
+        return response.data;
+    },
+    // The filtered log as a CSV file
+    exportAuditLog: async (filters: AuditLogFilters = {}): Promise<Blob> => {
+        const response = await api.get('/admin/audit-log/export', { params: filters, responseType: 'blob' });
         return response.data;
     },
 };
@@ -0,0 +1,23 @@
+import { ApplicationStage } from '@/types';
+
+export const APPLICATION_STAGES: ApplicationStage[] = ['applied', 'shortlisted', 'interviewing', 'offered', 'rejected'];
+
+// Mirror the server's limits
+export const MAX_COVER_NOTE_LENGTH = 2000;
+export const MAX_APPLICATION_NOTE_LENGTH = 1000;
+
+export const STAGE_LABELS: Record<ApplicationStage, string> = {
+    applied: 'Applied',
+    shortlisted: 'Shortlisted',
+    interviewing: 'Interviewing',
+    offered: 'Offered',
+    rejected: 'Not selected',
+};
+
+export const STAGE_BADGE_CLASSES: Record<ApplicationStage, string> = {
+    applied: 'bg-secondary text-secondary-foreground border-border',
+    shortlisted: 'bg-blue-500/10 text-blue-600 border-blue-500/20',
+    interviewing: 'bg-amber-500/10 text-amber-600 border-amber-500/20',
+    offered: 'bg-green-500/10 text-green-600 border-green-500/20',
+    rejected: 'bg-destructive/10 text-destructive border-destructive/20',
+};
@@ -0,0 +1,23 @@
+// Mirror the server's limits so obvious mistakes are caught before uploading;
+// the server still decides the real file type from the contents
+export const MAX_POST_ATTACHMENTS = 6;
+export const ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+
+export const ATTACHMENT_ACCEPT = [
+    'image/jpeg',
+    'image/png',
+    'image/gif',
+    'image/webp',
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'text/plain',
+    '.md',
+].join(',');
+
+export const formatFileSize = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,19 @@
+import { AuditAction } from '@/types';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+    'post.update': 'Post edited',
+    'post.hide': 'Post hidden',
+    'post.delete': 'Post deleted',
+    'post.restore': 'Post restored',
+    'comment.update': 'Comment edited',
+    'comment.hide': 'Comment hidden',
+    'comment.delete': 'Comment deleted',
+    'user.role-change': 'Role changed',
+    'user.suspend': 'User suspended',
+    'user.ban': 'User banned',
+    'user.reinstate': 'User reinstated',
+    'auth.password-reset': 'Password reset',
+    'auth.new-device-login': 'Sign-in from new device',
+};
+
+export const AUDIT_ACTION_OPTIONS = Object.entries(AUDIT_ACTION_LABELS) as [AuditAction, string][];
@@ -0,0 +1,3 @@
+// Mirror the server's limits
+export const MAX_BOOKMARK_COLLECTIONS = 20;
+export const MAX_COLLECTION_NAME_LENGTH = 50;
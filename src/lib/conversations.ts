@@ -0,0 +1,13 @@
+import { Conversation, ConversationMember } from '@/types';
+
+export const otherMembers = (conversation: Conversation, userId?: string): ConversationMember[] =>
+    conversation.members.filter(member => member.id !== userId);
+
+/**
+ * Group name if one was given, otherwise the other members' names.
+ */
+export const conversationTitle = (conversation: Conversation, userId?: string): string => {
+    if (conversation.name) return conversation.name;
+    const names = otherMembers(conversation, userId).map(member => member.name);
+    return names.length > 0 ? names.join(', ') : 'Conversation';
+};
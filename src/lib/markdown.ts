@@ -0,0 +1,55 @@
+import { defaultSchema } from 'rehype-sanitize';
+import type { Options as SanitizeSchema } from 'rehype-sanitize';
+
+/**
+ * Allow-list for rendered Markdown. Anything not listed is dropped, raw HTML
+ * in the source is never rendered, and links may only use http(s)/mailto.
+ * Images are deliberately left out - they would let any post load remote
+ * content (and track readers); pictures belong in attachments.
+ */
+export const MARKDOWN_SCHEMA: SanitizeSchema = {
+    ...defaultSchema,
+    tagNames: [
+        'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+        'p', 'br', 'hr', 'blockquote',
+        'strong', 'em', 'del', 'code', 'pre',
+        'ul', 'ol', 'li', 'input',
+        'a',
+        'table', 'thead', 'tbody', 'tr', 'th', 'td',
+    ],
+    attributes: {
+        a: ['href', 'title'],
+        // Language hint for syntax highlighting, e.g. ```ts
+        code: [['className', /^language-[\w-]+$/]],
+        // GFM task list checkboxes only
+        input: [['type', 'checkbox'], ['disabled', true], 'checked'],
+        li: [['className', 'task-list-item']],
+        ul: [['className', 'contains-task-list']],
+        ol: [['className', 'contains-task-list']],
+        th: [['align', 'left', 'center', 'right']],
+        td: [['align', 'left', 'center', 'right']],
+    },
+    protocols: {
+        href: ['http', 'https', 'mailto'],
+    },
+};
+
+/**
+ * Flattens Markdown into plain text for places that show a short excerpt,
+ * like feed cards.
+ */
+export const markdownToPlainText = (markdown: string): string =>
+    markdown
+        .replace(/```[\w-]*\n?/g, '') // code fence markers (the code itself is kept)
+        .replace(/`([^`]*)`/g, '$1')
+        .replace(/^\s{0,3}#{1,6}\s+/gm, '') // headings
+        .replace(/^\s{0,3}>\s?/gm, '') // blockquotes
+        .replace(/^\s*[-*+]\s+\[[ xX]\]\s+/gm, '') // task list markers
+        .replace(/^\s*(?:[-*+]|\d+[.)])\s+/gm, '') // list markers
+        .replace(/^[\s|:-]*-{3,}[\s|:-]*$/gm, '') // table separator rows and horizontal rules
+        .replace(/\|/g, ' ')
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1') // links
+        .replace(/(\*\*|__|\*|_|~~)(\S(?:.*?\S)?)\1/g, '$2') // emphasis
+        .replace(/^\s*(?:\*{3,}|_{3,})\s*$/gm, '') // other horizontal rules
+        .replace(/\n{2,}/g, '\n')
+        .trim();
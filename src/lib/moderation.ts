@@ -0,0 +1,34 @@
+import { AccountStatus, ModerationActionType, ReportReason } from '@/types';
+
+// Mirror the server's limits
+export const MAX_REPORT_DETAILS_LENGTH = 500;
+export const MAX_MODERATION_NOTE_LENGTH = 500;
+export const MAX_RESTRICTION_REASON_LENGTH = 500;
+export const MAX_SUSPENSION_DAYS = 365;
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+    spam: 'Spam or advertising',
+    harassment: 'Harassment or bullying',
+    hate: 'Hate speech',
+    inappropriate: 'Inappropriate content',
+    misinformation: 'False or misleading',
+    other: 'Something else',
+};
+
+export const REPORT_REASON_OPTIONS = Object.entries(REPORT_REASON_LABELS) as [ReportReason, string][];
+
+// How each action reads in the moderation log
+export const MODERATION_ACTION_LABELS: Record<ModerationActionType, string> = {
+    dismiss: 'Dismissed reports on',
+    hide: 'Hid',
+    delete: 'Deleted',
+    warn: 'Warned the author of',
+};
+
+export const ACCOUNT_STATUS_LABELS: Record<AccountStatus, string> = {
+    active: 'Active',
+    suspended: 'Suspended',
+    banned: 'Banned',
+};
+
+export const ACCOUNT_STATUS_OPTIONS = Object.entries(ACCOUNT_STATUS_LABELS) as [AccountStatus, string][];
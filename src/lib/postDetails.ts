@@ -0,0 +1,206 @@
+import { format, parseISO } from 'date-fns';
+import {
+    HackathonDetails,
+    InternshipDetails,
+    PostDetails,
+    PostType,
+    ProjectDetails,
+    ProjectStatus,
+    StipendPeriod,
+    WorkMode,
+} from '@/types';
+
+// Mirror the server's limits
+export const MAX_TECH_STACK = 10;
+export const MAX_TEAM_SIZE = 20;
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+    idea: 'Idea',
+    'in-progress': 'In progress',
+    completed: 'Completed',
+};
+
+export const WORK_MODE_LABELS: Record<WorkMode, string> = {
+    'on-site': 'On-site',
+    remote: 'Remote',
+    hybrid: 'Hybrid',
+};
+
+export const STIPEND_PERIOD_LABELS: Record<StipendPeriod, string> = {
+    month: 'per month',
+    total: 'total',
+};
+
+/**
+ * Form state for every type's details at once, kept as strings the way the
+ * inputs hold them. Switching the post type keeps what was typed, and
+ * `location` is shared by hackathons and internships.
+ */
+export interface PostDetailsDraft {
+    repoUrl: string;
+    techStack: string;
+    status: ProjectStatus | '';
+    startDate: string;
+    endDate: string;
+    isOnline: boolean;
+    location: string;
+    teamSizeMin: string;
+    teamSizeMax: string;
+    registrationUrl: string;
+    company: string;
+    workMode: WorkMode | '';
+    stipendMin: string;
+    stipendMax: string;
+    stipendCurrency: string;
+    stipendPeriod: StipendPeriod;
+    durationMonths: string;
+    applicationDeadline: string;
+}
+
+export const emptyDetailsDraft: PostDetailsDraft = {
+    repoUrl: '',
+    techStack: '',
+    status: '',
+    startDate: '',
+    endDate: '',
+    isOnline: false,
+    location: '',
+    teamSizeMin: '',
+    teamSizeMax: '',
+    registrationUrl: '',
+    company: '',
+    workMode: '',
+    stipendMin: '',
+    stipendMax: '',
+    stipendCurrency: 'INR',
+    stipendPeriod: 'month',
+    durationMonths: '',
+    applicationDeadline: '',
+};
+
+// Date inputs want yyyy-MM-dd; the API returns full ISO timestamps
+const toDateInput = (value?: string) => (value ? value.slice(0, 10) : '');
+const toNumberInput = (value?: number) => (value === undefined ? '' : String(value));
+
+const optionalText = (value: string) => value.trim() || undefined;
+const optionalNumber = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+export const draftFromDetails = (type: PostType, details?: PostDetails): PostDetailsDraft => {
+    if (!details) return emptyDetailsDraft;
+
+    if (type === 'project') {
+        const project = details as ProjectDetails;
+        return {
+            ...emptyDetailsDraft,
+            repoUrl: project.repoUrl || '',
+            techStack: project.techStack?.join(', ') || '',
+            status: project.status || '',
+        };
+    }
+
+    if (type === 'hackathon') {
+        const hackathon = details as HackathonDetails;
+        return {
+            ...emptyDetailsDraft,
+            startDate: toDateInput(hackathon.startDate),
+            endDate: toDateInput(hackathon.endDate),
+            isOnline: hackathon.isOnline ?? false,
+            location: hackathon.location || '',
+            teamSizeMin: toNumberInput(hackathon.teamSize?.min),
+            teamSizeMax: toNumberInput(hackathon.teamSize?.max),
+            registrationUrl: hackathon.registrationUrl || '',
+        };
+    }
+
+    const internship = details as InternshipDetails;
+    return {
+        ...emptyDetailsDraft,
+        company: internship.company || '',
+        location: internship.location || '',
+        workMode: internship.workMode || '',
+        stipendMin: toNumberInput(internship.stipend?.min),
+        stipendMax: toNumberInput(internship.stipend?.max),
+        stipendCurrency: internship.stipend?.currency || emptyDetailsDraft.stipendCurrency,
+        stipendPeriod: internship.stipend?.period || emptyDetailsDraft.stipendPeriod,
+        durationMonths: toNumberInput(internship.durationMonths),
+        applicationDeadline: toDateInput(internship.applicationDeadline),
+    };
+};
+
+/**
+ * The details payload for the given type, with empty inputs left out.
+ */
+export const detailsFromDraft = (type: PostType, draft: PostDetailsDraft): PostDetails => {
+    if (type === 'project') {
+        return {
+            repoUrl: optionalText(draft.repoUrl),
+            techStack: draft.techStack
+                .split(',')
+                .map(tech => tech.trim())
+                .filter(tech => tech.length > 0)
+                .slice(0, MAX_TECH_STACK),
+            status: draft.status || undefined,
+        };
+    }
+
+    if (type === 'hackathon') {
+        const hasTeamSize = draft.teamSizeMin.trim() !== '' || draft.teamSizeMax.trim() !== '';
+        return {
+            startDate: draft.startDate,
+            endDate: draft.endDate,
+            isOnline: draft.isOnline,
+            location: optionalText(draft.location),
+            teamSize: hasTeamSize
+                ? { min: optionalNumber(draft.teamSizeMin), max: optionalNumber(draft.teamSizeMax) }
+                : undefined,
+            registrationUrl: optionalText(draft.registrationUrl),
+        };
+    }
+
+    const hasStipend = draft.stipendMin.trim() !== '' || draft.stipendMax.trim() !== '';
+    return {
+        company: draft.company.trim(),
+        location: optionalText(draft.location),
+        workMode: draft.workMode || undefined,
+        stipend: hasStipend
+            ? {
+                min: optionalNumber(draft.stipendMin),
+                max: optionalNumber(draft.stipendMax),
+                currency: optionalText(draft.stipendCurrency),
+                period: draft.stipendPeriod,
+            }
+            : undefined,
+        durationMonths: optionalNumber(draft.durationMonths),
+        applicationDeadline: optionalText(draft.applicationDeadline),
+    };
+};
+
+// Dates are calendar days; read the day part so time zones can't shift it
+export const formatDay = (value: string): string => format(parseISO(value.slice(0, 10)), 'MMM d, yyyy');
+
+export const formatDateRange = (start?: string, end?: string): string | null => {
+    if (!start) return null;
+    if (!end || end.slice(0, 10) === start.slice(0, 10)) return formatDay(start);
+    return `${formatDay(start)} – ${formatDay(end)}`;
+};
+
+export const formatRange = (
+    min?: number,
+    max?: number,
+    formatValue: (value: number) => string = String
+): string | null => {
+    if (min === undefined && max === undefined) return null;
+    if (min === undefined) return `up to ${formatValue(max as number)}`;
+    if (max === undefined) return `${formatValue(min)}+`;
+    if (max === min) return formatValue(min);
+    return `${formatValue(min)}–${formatValue(max)}`;
+};
+
+export const formatStipend = (stipend?: InternshipDetails['stipend']): string | null => {
+    const range = formatRange(stipend?.min, stipend?.max, value => value.toLocaleString());
+    if (!stipend || !range) return null;
+
+    const currency = stipend.currency ? `${stipend.currency} ` : '';
+    const period = stipend.period ? ` ${STIPEND_PERIOD_LABELS[stipend.period]}` : '';
+    return `${currency}${range}${period}`;
+};
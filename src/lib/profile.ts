@@ -0,0 +1,18 @@
+import { Availability } from '@/types';
+
+export const AVAILABILITY_LABELS: Record<Availability, string> = {
+    'open-to-internships': 'Open to internships',
+    'looking-for-team': 'Looking for a team',
+    'not-looking': 'Not looking right now',
+};
+
+export const AVAILABILITY_OPTIONS = Object.entries(AVAILABILITY_LABELS) as [Availability, string][];
+
+const GENERATED_AVATAR_BASE = 'https://api.dicebear.com/7.x/avataaars/svg';
+
+// Matches the server's fallback for users who haven't uploaded an avatar
+export const avatarFor = (person?: { name?: string; avatar?: string } | null): string =>
+    person?.avatar || `${GENERATED_AVATAR_BASE}?seed=${encodeURIComponent(person?.name || 'Unknown')}`;
+
+export const isGeneratedAvatar = (url?: string): boolean =>
+    !url || url.startsWith(GENERATED_AVATAR_BASE);
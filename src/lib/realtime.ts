@@ -0,0 +1,174 @@
+import { API_BASE_URL, getToken, refreshAccessToken } from '@/lib/api';
+
+// Same host and path prefix as the REST API, over ws:// or wss://
+const REALTIME_URL = `${API_BASE_URL.replace(/^http/, 'ws')}/realtime`;
+
+// Server close code for a missing, invalid or revoked access token
+const CLOSE_UNAUTHORIZED = 4001;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+export const FEED_ROOM = 'feed';
+export const postRoom = (postId: string) => `post:${postId}`;
+
+export type RealtimeEventName =
+    | 'post-created'
+    | 'like-changed'
+    | 'comment-added'
+    | 'message-created'
+    | 'conversation-read';
+
+export interface RealtimeMessage {
+    room: string;
+    event: RealtimeEventName;
+    data: unknown;
+}
+
+type Listener = (message: RealtimeMessage) => void;
+type StatusListener = () => void;
+
+let socket: WebSocket | null = null;
+let isReady = false;
+let shouldConnect = false;
+let reconnectAttempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Reference counts so several components can share one room subscription
+const roomCounts = new Map<string, number>();
+const listeners = new Set<Listener>();
+const statusListeners = new Set<StatusListener>();
+
+const setReady = (ready: boolean) => {
+    if (isReady === ready) return;
+    isReady = ready;
+    statusListeners.forEach(listener => listener());
+};
+
+const send = (message: object) => {
+    if (socket && isReady && socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+    }
+};
+
+const scheduleReconnect = () => {
+    if (!shouldConnect || reconnectTimer) return;
+    // Exponential backoff with jitter so a server restart isn't stampeded
+    const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** reconnectAttempts) * (0.5 + Math.random() / 2);
+    reconnectAttempts += 1;
+    reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        connect();
+    }, delay);
+};
+
+const connect = () => {
+    const token = getToken();
+    if (!shouldConnect || !token || socket) return;
+
+    const ws = new WebSocket(REALTIME_URL);
+    socket = ws;
+
+    ws.onopen = () => {
+        ws.send(JSON.stringify({ type: 'auth', token }));
+    };
+
+    ws.onmessage = (event) => {
+        let message: { type?: string } & Partial<RealtimeMessage>;
+        try {
+            message = JSON.parse(event.data);
+        } catch {
+            return;
+        }
+
+        if (message.type === 'ready') {
+            setReady(true);
+            reconnectAttempts = 0;
+            // Re-join everything after a (re)connect
+            roomCounts.forEach((_count, room) => send({ type: 'subscribe', room }));
+            return;
+        }
+
+        if (message.type === 'event' && message.room && message.event) {
+            const payload: RealtimeMessage = { room: message.room, event: message.event, data: message.data };
+            listeners.forEach(listener => listener(payload));
+        }
+    };
+
+    ws.onclose = async (event) => {
+        // Ignore sockets that were already replaced or stopped
+        if (socket !== ws) return;
+        socket = null;
+        setReady(false);
+        if (!shouldConnect) return;
+
+        // The access token expired or was revoked - refresh it before retrying
+        if (event.code === CLOSE_UNAUTHORIZED) {
+            try {
+                await refreshAccessToken();
+            } catch {
+                // Signed out; the auth context will stop the connection
+                return;
+            }
+        }
+        scheduleReconnect();
+    };
+};
+
+/**
+ * Opens the realtime connection (no-op without an access token).
+ */
+export const startRealtime = () => {
+    shouldConnect = true;
+    connect();
+};
+
+export const stopRealtime = () => {
+    shouldConnect = false;
+    if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+    }
+    socket?.close();
+    socket = null;
+    setReady(false);
+};
+
+/**
+ * Joins a room until the returned function is called.
+ */
+export const subscribeRoom = (room: string) => {
+    const count = roomCounts.get(room) ?? 0;
+    roomCounts.set(room, count + 1);
+    if (count === 0) {
+        send({ type: 'subscribe', room });
+    }
+
+    return () => {
+        const remaining = (roomCounts.get(room) ?? 1) - 1;
+        if (remaining > 0) {
+            roomCounts.set(room, remaining);
+            return;
+        }
+        roomCounts.delete(room);
+        send({ type: 'unsubscribe', room });
+    };
+};
+
+export const onRealtimeEvent = (listener: Listener) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+/**
+ * Whether the connection is authenticated and delivering events. Callers
+ * poll instead while this is false.
+ */
+export const isRealtimeReady = () => isReady;
+
+export const onRealtimeStatus = (listener: StatusListener) => {
+    statusListeners.add(listener);
+    return () => {
+        statusListeners.delete(listener);
+    };
+};
@@ -0,0 +1,13 @@
+// Mirror the server's limits
+export const MAX_TEAM_NAME_LENGTH = 60;
+export const MAX_TEAM_DESCRIPTION_LENGTH = 500;
+export const MAX_TEAM_ROLE_LENGTH = 40;
+export const MAX_JOIN_MESSAGE_LENGTH = 500;
+
+// "Designer, Backend dev" -> ['Designer', 'Backend dev']; repeats are kept,
+// since a team can look for two of the same role
+export const parseRoles = (input: string): string[] =>
+    input
+        .split(',')
+        .map(role => role.trim().slice(0, MAX_TEAM_ROLE_LENGTH))
+        .filter(role => role.length > 0);
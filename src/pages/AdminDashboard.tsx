@@ -1,8 +1,14 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { postsApi } from '@/lib/api';
+import { avatarFor } from '@/lib/profile';
 import { useAuth } from '@/contexts/AuthContext';
 import { Post } from '@/types';
+import { AdminAnalytics } from '@/components/AdminAnalytics';
+import { ModerationQueue } from '@/components/ModerationQueue';
+import { UserManagement } from '@/components/UserManagement';
+import { AuditLog } from '@/components/AuditLog';
+import { PostTrash } from '@/components/PostTrash';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -18,10 +24,7 @@ import {
 } from '@/components/ui/table';
 import { toast } from 'sonner';
 import {
-  Users,
-  FileText,
   Shield,
-  TrendingUp,
   Eye,
   Trash2,
   MoreHorizontal,
@@ -40,14 +43,17 @@ export default function AdminDashboard() {
   const [posts, setPosts] = useState<Post[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
 
   // Fetch posts from API
   useEffect(() => {
     const fetchPosts = async () => {
       try {
-        const response = await postsApi.getAll();
+        const response = await postsApi.getAll({}, { limit: 50 });
         if (response.success) {
           setPosts(response.data || []);
+          setNextCursor(response.nextCursor);
         }
       } catch (error) {
         toast.error('Failed to load posts');
@@ -58,13 +64,29 @@ export default function AdminDashboard() {
     fetchPosts();
   }, []);
 
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const response = await postsApi.getAll({}, { cursor: nextCursor, limit: 50 });
+      if (response.success) {
+        setPosts(prev => [...prev, ...(response.data || [])]);
+        setNextCursor(response.nextCursor);
+      }
+    } catch (error) {
+      toast.error('Failed to load posts');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
   const handleDeletePost = async (postId: string) => {
     setIsDeleting(postId);
     try {
       const response = await postsApi.delete(postId);
       if (response.success) {
         setPosts(posts.filter(p => p.id !== postId));
-        toast.success('Post deleted successfully');
+        toast.success('Post moved to trash');
       }
     } catch (error) {
       toast.error(error instanceof Error ? error.message : 'Failed to delete post');
@@ -73,13 +95,6 @@ export default function AdminDashboard() {
     }
   };
 
-  const stats = [
-    { label: 'Total Posts', value: posts.length, icon: FileText, color: 'text-success' },
-    { label: 'Projects', value: posts.filter(p => p.type === 'project').length, icon: TrendingUp, color: 'text-primary' },
-    { label: 'Hackathons', value: posts.filter(p => p.type === 'hackathon').length, icon: Users, color: 'text-warning' },
-    { label: 'Internships', value: posts.filter(p => p.type === 'internship').length, icon: Shield, color: 'text-destructive' },
-  ];
-
   return (
     <div className="min-h-screen bg-background py-8">
       <div className="container mx-auto px-4">
@@ -96,120 +111,147 @@ export default function AdminDashboard() {
               <h1 className="text-3xl font-bold text-foreground">Admin Dashboard</h1>
             </div>
             <p className="text-muted-foreground">
-              Manage posts and platform content
+              Platform activity, posts, reports and user accounts
             </p>
           </div>
 
-          {/* Stats Grid */}
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
-            {stats.map((stat, i) => (
-              <motion.div
-                key={stat.label}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: i * 0.1 }}
-              >
-                <Card className="gradient-card border-border/50">
-                  <CardContent className="pt-6">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="text-sm text-muted-foreground">{stat.label}</p>
-                        <p className="text-3xl font-bold text-foreground">{stat.value}</p>
-                      </div>
-                      <stat.icon className={`h-8 w-8 ${stat.color} opacity-80`} />
+          <Tabs defaultValue="overview">
+            <TabsList className="mb-4">
+              <TabsTrigger value="overview">Overview</TabsTrigger>
+              <TabsTrigger value="posts">Posts</TabsTrigger>
+              <TabsTrigger value="moderation">Moderation</TabsTrigger>
+              <TabsTrigger value="users">Users</TabsTrigger>
+              <TabsTrigger value="trash">Trash</TabsTrigger>
+              <TabsTrigger value="audit">Audit Log</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="overview">
+              <AdminAnalytics />
+            </TabsContent>
+
+            {/* Posts Management */}
+            <TabsContent value="posts">
+              <Card className="gradient-card border-border/50">
+                <CardHeader>
+                  <CardTitle>All Posts</CardTitle>
+                  <CardDescription>
+                    Manage and moderate community posts
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {isLoading ? (
+                    <div className="flex items-center justify-center py-8">
+                      <Loader2 className="h-8 w-8 animate-spin text-primary" />
                     </div>
-                  </CardContent>
-                </Card>
-              </motion.div>
-            ))}
-          </div>
+                  ) : posts.length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground">
+                      No posts found
+                    </div>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Title</TableHead>
+                          <TableHead>Type</TableHead>
+                          <TableHead>Author</TableHead>
+                          <TableHead>Created</TableHead>
+                          <TableHead className="text-right">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {posts.map(post => (
+                          <TableRow key={post.id}>
+                            <TableCell className="font-medium max-w-[200px] truncate">
+                              {post.title}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="outline" className="capitalize">
+                                {post.type}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <Avatar className="h-6 w-6">
+                                  <AvatarImage src={avatarFor(post.author)} />
+                                  <AvatarFallback className="text-xs">
+                                    {post.author?.name?.charAt(0) || '?'}
+                                  </AvatarFallback>
+                                </Avatar>
+                                <span className="text-sm">{post.author?.name || 'Unknown'}</span>
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-muted-foreground text-sm">
+                              {formatDistanceToNow(new Date(post.createdAt), { addSuffix: true })}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button variant="ghost" size="icon" disabled={isDeleting === post.id}>
+                                    {isDeleting === post.id ? (
+                                      <Loader2 className="h-4 w-4 animate-spin" />
+                                    ) : (
+                                      <MoreHorizontal className="h-4 w-4" />
+                                    )}
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  <DropdownMenuItem>
+                                    <Eye className="h-4 w-4 mr-2" />
+                                    View
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onClick={() => handleDeletePost(post.id)}
+                                    className="text-destructive"
+                                  >
+                                    <Trash2 className="h-4 w-4 mr-2" />
+                                    Delete
+                                  </DropdownMenuItem>
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                  {!isLoading && nextCursor && (
+                    <div className="flex justify-center pt-4">
+                      <Button variant="outline" onClick={handleLoadMore} disabled={isLoadingMore}>
+                        {isLoadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Load more
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="moderation">
+              <ModerationQueue />
+            </TabsContent>
+
+            <TabsContent value="users">
+              <UserManagement />
+            </TabsContent>
+
+            <TabsContent value="trash">
+              <Card className="gradient-card border-border/50">
+                <CardHeader>
+                  <CardTitle>Trash</CardTitle>
+                  <CardDescription>
+                    Deleted posts from everyone, restorable until they are purged
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <PostTrash scope="all" />
+                </CardContent>
+              </Card>
+            </TabsContent>
 
-          {/* Posts Management */}
-          <Card className="gradient-card border-border/50">
-            <CardHeader>
-              <CardTitle>All Posts</CardTitle>
-              <CardDescription>
-                Manage and moderate community posts
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              {isLoading ? (
-                <div className="flex items-center justify-center py-8">
-                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
-                </div>
-              ) : posts.length === 0 ? (
-                <div className="text-center py-8 text-muted-foreground">
-                  No posts found
-                </div>
-              ) : (
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Title</TableHead>
-                      <TableHead>Type</TableHead>
-                      <TableHead>Author</TableHead>
-                      <TableHead>Created</TableHead>
-                      <TableHead className="text-right">Actions</TableHead>
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {posts.map(post => (
-                      <TableRow key={post.id}>
-                        <TableCell className="font-medium max-w-[200px] truncate">
-                          {post.title}
-                        </TableCell>
-                        <TableCell>
-                          <Badge variant="outline" className="capitalize">
-                            {post.type}
-                          </Badge>
-                        </TableCell>
-                        <TableCell>
-                          <div className="flex items-center gap-2">
-                            <Avatar className="h-6 w-6">
-                              <AvatarImage src={post.author?.avatar} />
-                              <AvatarFallback className="text-xs">
-                                {post.author?.name?.charAt(0) || '?'}
-                              </AvatarFallback>
-                            </Avatar>
-                            <span className="text-sm">{post.author?.name || 'Unknown'}</span>
-                          </div>
-                        </TableCell>
-                        <TableCell className="text-muted-foreground text-sm">
-                          {formatDistanceToNow(new Date(post.createdAt), { addSuffix: true })}
-                        </TableCell>
-                        <TableCell className="text-right">
-                          <DropdownMenu>
-                            <DropdownMenuTrigger asChild>
-                              <Button variant="ghost" size="icon" disabled={isDeleting === post.id}>
-                                {isDeleting === post.id ? (
-                                  <Loader2 className="h-4 w-4 animate-spin" />
-                                ) : (
-                                  <MoreHorizontal className="h-4 w-4" />
-                                )}
-                              </Button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent align="end">
-                              <DropdownMenuItem>
-                                <Eye className="h-4 w-4 mr-2" />
-                                View
-                              </DropdownMenuItem>
-                              <DropdownMenuItem
-                                onClick={() => handleDeletePost(post.id)}
-                                className="text-destructive"
-                              >
-                                <Trash2 className="h-4 w-4 mr-2" />
-                                Delete
-                              </DropdownMenuItem>
-                            </DropdownMenuContent>
-                          </DropdownMenu>
-                        </TableCell>
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              )}
-            </CardContent>
-          </Card>
+            <TabsContent value="audit">
+              <AuditLog />
+            </TabsContent>
+          </Tabs>
         </motion.div>
       </div>
     </div>
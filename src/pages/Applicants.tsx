@@ -0,0 +1,337 @@
+import { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { InfiniteData, useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+import { ApiError, applicationsApi } from '@/lib/api';
+import {
+    APPLICATION_STAGES,
+    MAX_APPLICATION_NOTE_LENGTH,
+    STAGE_BADGE_CLASSES,
+    STAGE_LABELS,
+} from '@/lib/applications';
+import { Application, ApplicationStage, ApplicationsResponse } from '@/types';
+import { Markdown } from '@/components/Markdown';
+import { ProfileHighlights } from '@/components/ProfileHighlights';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { ArrowLeft, Loader2, Mail, StickyNote, Users } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+type StageFilter = 'all' | ApplicationStage;
+
+const PAGE_SIZE = 20;
+
+type CachedApplications = InfiniteData<ApplicationsResponse>;
+
+export default function Applicants() {
+    const { id = '' } = useParams<{ id: string }>();
+    const navigate = useNavigate();
+    const queryClient = useQueryClient();
+    const [stageFilter, setStageFilter] = useState<StageFilter>('all');
+
+    const queryKey = ['applications', id, stageFilter];
+    const {
+        data,
+        error,
+        isPending,
+        fetchNextPage,
+        hasNextPage,
+        isFetchingNextPage,
+    } = useInfiniteQuery({
+        queryKey,
+        queryFn: ({ pageParam }) => applicationsApi.getForPost(id, {
+            stage: stageFilter === 'all' ? undefined : stageFilter,
+            cursor: pageParam,
+            limit: PAGE_SIZE,
+        }),
+        initialPageParam: null as string | null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+        enabled: Boolean(id),
+    });
+
+    // Swap an updated application into the cached pages
+    const replaceApplication = (updated: Application) => {
+        queryClient.setQueryData<CachedApplications>(queryKey, (old) => old && {
+            ...old,
+            pages: old.pages.map(page => ({
+                ...page,
+                data: page.data.map(application => (application.id === updated.id ? updated : application)),
+            })),
+        });
+    };
+
+    // A stage change moves the application between tabs and changes the counts
+    const handleStageChange = (updated: Application) => {
+        replaceApplication(updated);
+        queryClient.invalidateQueries({ queryKey: ['applications', id] });
+    };
+
+    if (isPending) {
+        return (
+            <div className="min-h-screen flex items-center justify-center">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+        );
+    }
+
+    if (error) {
+        const status = error instanceof ApiError ? error.status : undefined;
+        return (
+            <div className="min-h-screen flex items-center justify-center">
+                <div className="text-center">
+                    <h2 className="text-xl font-semibold mb-2">
+                        {status === 403 ? 'Not Authorized' : 'Applicants Unavailable'}
+                    </h2>
+                    <p className="text-muted-foreground mb-4">
+                        {status === 403
+                            ? 'Only the poster can review applicants to this internship.'
+                            : error.message || 'Failed to load applicants'}
+                    </p>
+                    <Button onClick={() => navigate(`/post/${id}`)}>Back to Post</Button>
+                </div>
+            </div>
+        );
+    }
+
+    const firstPage = data.pages[0];
+    const applications = data.pages.flatMap(page => page.data);
+    const total = APPLICATION_STAGES.reduce((sum, stage) => sum + firstPage.stageCounts[stage], 0);
+
+    return (
+        <div className="min-h-screen bg-background py-8">
+            <div className="container mx-auto px-4 max-w-3xl">
+                <motion.div
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="mb-6"
+                >
+                    <Button
+                        variant="ghost"
+                        onClick={() => navigate(`/post/${id}`)}
+                        className="gap-2"
+                    >
+                        <ArrowLeft className="h-4 w-4" />
+                        Back to Post
+                    </Button>
+                </motion.div>
+
+                <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="space-y-6"
+                >
+                    <div>
+                        <h1 className="text-2xl font-bold text-foreground">Applicants</h1>
+                        <Link to={`/post/${id}`} className="text-muted-foreground hover:text-primary">
+                            {firstPage.post.title}
+                        </Link>
+                    </div>
+
+                    <Tabs value={stageFilter} onValueChange={(value) => setStageFilter(value as StageFilter)}>
+                        <TabsList className="flex-wrap h-auto">
+                            <TabsTrigger value="all">All ({total})</TabsTrigger>
+                            {APPLICATION_STAGES.map(stage => (
+                                <TabsTrigger key={stage} value={stage}>
+                                    {STAGE_LABELS[stage]} ({firstPage.stageCounts[stage]})
+                                </TabsTrigger>
+                            ))}
+                        </TabsList>
+                    </Tabs>
+
+                    {applications.length === 0 ? (
+                        <Card className="gradient-card border-border/50">
+                            <CardContent className="py-12 text-center">
+                                <Users className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
+                                <p className="text-muted-foreground">
+                                    {stageFilter === 'all'
+                                        ? 'No one has applied yet.'
+                                        : `No applicants are ${STAGE_LABELS[stageFilter].toLowerCase()}.`}
+                                </p>
+                            </CardContent>
+                        </Card>
+                    ) : (
+                        <div className="space-y-4">
+                            {applications.map(application => (
+                                <ApplicationCard
+                                    key={application.id}
+                                    application={application}
+                                    onStageChange={handleStageChange}
+                                    onUpdate={replaceApplication}
+                                />
+                            ))}
+                        </div>
+                    )}
+
+                    {hasNextPage && (
+                        <div className="flex justify-center">
+                            <Button
+                                variant="outline"
+                                onClick={() => fetchNextPage()}
+                                disabled={isFetchingNextPage}
+                            >
+                                {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                Load more applicants
+                            </Button>
+                        </div>
+                    )}
+                </motion.div>
+            </div>
+        </div>
+    );
+}
+
+interface ApplicationCardProps {
+    application: Application;
+    onStageChange: (application: Application) => void;
+    onUpdate: (application: Application) => void;
+}
+
+function ApplicationCard({ application, onStageChange, onUpdate }: ApplicationCardProps) {
+    const [isUpdatingStage, setIsUpdatingStage] = useState(false);
+    const [noteText, setNoteText] = useState('');
+    const [isAddingNote, setIsAddingNote] = useState(false);
+    const { profile } = application;
+
+    const handleStageChange = async (stage: ApplicationStage) => {
+        setIsUpdatingStage(true);
+        try {
+            const response = await applicationsApi.updateStage(application.id, stage);
+            if (response.success) {
+                onStageChange(response.data);
+                toast.success(`Moved ${profile.name} to ${STAGE_LABELS[stage]}`);
+            }
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to update stage');
+        } finally {
+            setIsUpdatingStage(false);
+        }
+    };
+
+    const handleAddNote = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!noteText.trim()) {
+            return;
+        }
+
+        setIsAddingNote(true);
+        try {
+            const response = await applicationsApi.addNote(application.id, noteText.trim());
+            if (response.success) {
+                onUpdate(response.data);
+                setNoteText('');
+            }
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to add note');
+        } finally {
+            setIsAddingNote(false);
+        }
+    };
+
+    return (
+        <Card className="gradient-card border-border/50">
+            <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                    <Link to={`/u/${application.applicant}`} className="flex items-center gap-3 group">
+                        <Avatar className="h-11 w-11 border-2 border-primary/20">
+                            <AvatarImage src={profile.avatar} alt={profile.name} />
+                            <AvatarFallback className="bg-primary text-primary-foreground font-semibold">
+                                {profile.name.charAt(0)}
+                            </AvatarFallback>
+                        </Avatar>
+                        <div>
+                            <p className="font-medium text-foreground group-hover:text-primary">{profile.name}</p>
+                            <p className="text-xs text-muted-foreground">
+                                Applied {formatDistanceToNow(new Date(application.createdAt), { addSuffix: true })}
+                            </p>
+                        </div>
+                    </Link>
+                    <Select
+                        value={application.stage}
+                        onValueChange={(value) => handleStageChange(value as ApplicationStage)}
+                        disabled={isUpdatingStage}
+                    >
+                        <SelectTrigger className={`w-[150px] ${STAGE_BADGE_CLASSES[application.stage]}`}>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {APPLICATION_STAGES.map(stage => (
+                                <SelectItem key={stage} value={stage}>
+                                    {STAGE_LABELS[stage]}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            </CardHeader>
+
+            <CardContent className="space-y-4">
+                <a
+                    href={`mailto:${profile.email}`}
+                    className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-primary"
+                >
+                    <Mail className="h-4 w-4" />
+                    {profile.email}
+                </a>
+
+                {profile.bio && <p className="text-sm text-muted-foreground">{profile.bio}</p>}
+
+                <ProfileHighlights profile={profile} />
+
+                <div className="space-y-2">
+                    <h3 className="text-sm font-semibold">Cover note</h3>
+                    <Markdown className="text-sm text-muted-foreground">{application.coverNote}</Markdown>
+                </div>
+
+                <Separator />
+
+                <div className="space-y-3">
+                    <h3 className="flex items-center gap-2 text-sm font-semibold">
+                        <StickyNote className="h-4 w-4" />
+                        Notes
+                        <Badge variant="outline" className="font-normal">Only visible to you</Badge>
+                    </h3>
+
+                    {application.notes.map(note => (
+                        <div key={note.id} className="rounded-lg bg-muted/50 p-3 text-sm">
+                            <p className="whitespace-pre-wrap break-words">{note.text}</p>
+                            <p className="mt-1 text-xs text-muted-foreground">
+                                {note.author?.name || 'Unknown'} · {formatDistanceToNow(new Date(note.createdAt), { addSuffix: true })}
+                            </p>
+                        </div>
+                    ))}
+
+                    <form onSubmit={handleAddNote} className="space-y-2">
+                        <Textarea
+                            value={noteText}
+                            onChange={(e) => setNoteText(e.target.value)}
+                            placeholder="Add a private note..."
+                            maxLength={MAX_APPLICATION_NOTE_LENGTH}
+                            rows={2}
+                            disabled={isAddingNote}
+                        />
+                        <div className="flex justify-end">
+                            <Button type="submit" size="sm" disabled={isAddingNote || !noteText.trim()}>
+                                {isAddingNote && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                Add Note
+                            </Button>
+                        </div>
+                    </form>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
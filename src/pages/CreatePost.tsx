@@ -2,12 +2,15 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { useAuth } from '@/contexts/AuthContext';
-import { postsApi } from '@/lib/api';
-import { PostType } from '@/types';
+import { postsApi, isEmailNotVerifiedError } from '@/lib/api';
+import { PostDetailsDraft, detailsFromDraft, emptyDetailsDraft } from '@/lib/postDetails';
+import { PostAttachment, PostType } from '@/types';
+import { AttachmentUploader } from '@/components/AttachmentUploader';
+import { MarkdownEditor } from '@/components/MarkdownEditor';
+import { PostDetailsFields } from '@/components/PostDetailsFields';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { toast } from 'sonner';
@@ -41,8 +44,11 @@ export default function CreatePost() {
   const [type, setType] = useState<PostType>('project');
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  const [details, setDetails] = useState<PostDetailsDraft>(emptyDetailsDraft);
   const [tags, setTags] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState('');
+  const [attachments, setAttachments] = useState<PostAttachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const handleAddTag = () => {
@@ -66,6 +72,8 @@ export default function CreatePost() {
         title,
         description,
         tags,
+        attachments: attachments.map(attachment => attachment.id),
+        details: detailsFromDraft(type, details),
       });
 
       if (response.success) {
@@ -77,6 +85,12 @@ export default function CreatePost() {
         toast.error(response.error || 'Failed to create post');
       }
     } catch (error) {
+      if (isEmailNotVerifiedError(error)) {
+        toast.error('Verify your email to start posting', {
+          description: 'Use the link we emailed you, or resend it from the banner above.',
+        });
+        return;
+      }
       toast.error(error instanceof Error ? error.message : 'Failed to create post');
     } finally {
       setIsSubmitting(false);
@@ -160,18 +174,26 @@ export default function CreatePost() {
                 {/* Description */}
                 <div className="space-y-2">
                   <Label htmlFor="description">Description</Label>
-                  <Textarea
+                  <MarkdownEditor
                     id="description"
                     placeholder="Describe your post in detail..."
                     value={description}
-                    onChange={(e) => setDescription(e.target.value)}
+                    onChange={setDescription}
                     required
                     rows={5}
                     maxLength={1000}
                   />
-                  <p className="text-xs text-muted-foreground text-right">
-                    {description.length}/1000
-                  </p>
+                </div>
+
+                {/* Type-specific details */}
+                <div className="space-y-3">
+                  <Label>{postTypes.find(postType => postType.value === type)?.label} Details</Label>
+                  <PostDetailsFields
+                    type={type}
+                    draft={details}
+                    onChange={setDetails}
+                    disabled={isSubmitting}
+                  />
                 </div>
 
                 {/* Tags */}
@@ -224,6 +246,17 @@ export default function CreatePost() {
                   </p>
                 </div>
 
+                {/* Attachments */}
+                <div className="space-y-2">
+                  <Label>Attachments (optional)</Label>
+                  <AttachmentUploader
+                    attachments={attachments}
+                    onChange={setAttachments}
+                    onUploadingChange={setIsUploading}
+                    disabled={isSubmitting}
+                  />
+                </div>
+
                 {/* Submit */}
                 <div className="flex gap-3 pt-4">
                   <Button
@@ -237,7 +270,7 @@ export default function CreatePost() {
                   <Button
                     type="submit"
                     className="flex-1 gradient-primary text-primary-foreground shadow-glow hover:opacity-90"
-                    disabled={isSubmitting || !title || !description}
+                    disabled={isSubmitting || isUploading || !title || !description}
                   >
                     {isSubmitting ? (
                       <>
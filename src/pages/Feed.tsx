@@ -1,16 +1,28 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { postsApi, usersApi } from '@/lib/api';
+import { InfiniteData, useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+import { followsApi, postsApi, usersApi } from '@/lib/api';
+import { FEED_ROOM, postRoom } from '@/lib/realtime';
+import { useRealtimeRooms } from '@/hooks/use-realtime';
+import { useAuth } from '@/contexts/AuthContext';
 import { PostCard } from '@/components/PostCard';
-import { Post, PostType, User } from '@/types';
+import { FollowButton } from '@/components/FollowButton';
+import { Availability, Post, PostFilters, PostSearchResult, PostType, User } from '@/types';
+import { AVAILABILITY_OPTIONS } from '@/lib/profile';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Input } from '@/components/ui/input';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Card, CardContent } from '@/components/ui/card';
-import { Search, Rocket, Trophy, Briefcase, LayoutGrid, Loader2, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Search, Rocket, Trophy, Briefcase, LayoutGrid, Loader2, Users, X, MessageSquare, Globe, UserCheck } from 'lucide-react';
 
 type FilterType = 'all' | PostType;
 
+// Everything, or only posts by followed users and with followed tags
+type FeedScope = 'everyone' | 'following';
+
 const filters: { value: FilterType; label: string; icon: React.ElementType }[] = [
   { value: 'all', label: 'All', icon: LayoutGrid },
   { value: 'project', label: 'Projects', icon: Rocket },
@@ -18,43 +30,103 @@ const filters: { value: FilterType; label: string; icon: React.ElementType }[] =
   { value: 'internship', label: 'Internships', icon: Briefcase },
 ];
 
+const PAGE_SIZE = 12;
+
+type CachedPostPages = InfiniteData<{ data: Post[]; count: number }>;
+
 export default function Feed() {
+  const queryClient = useQueryClient();
+  const { user: currentUser, isAuthenticated } = useAuth();
+  const [feedScope, setFeedScope] = useState<FeedScope>('everyone');
   const [activeFilter, setActiveFilter] = useState<FilterType>('all');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-  const [posts, setPosts] = useState<Post[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [debouncedSearch, setDebouncedSearch] = useState('');
 
   // User search state
   const [userSearchQuery, setUserSearchQuery] = useState('');
+  const [userSkillsFilter, setUserSkillsFilter] = useState('');
+  const [userAvailability, setUserAvailability] = useState<Availability | 'any'>('any');
   const [searchedUsers, setSearchedUsers] = useState<User[]>([]);
   const [isSearchingUsers, setIsSearchingUsers] = useState(false);
 
-  // Fetch posts from API
-  const fetchPosts = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
-    try {
-      const response = await postsApi.getAll(activeFilter);
-      if (response.success) {
-        setPosts(response.data || []);
-      } else {
-        setError('Failed to load posts');
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load posts');
-    } finally {
-      setIsLoading(false);
-    }
-  }, [activeFilter]);
+  // Debounce post search so we don't hit the API on every keystroke
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeoutId);
+  }, [searchQuery]);
+
+  const isSearching = debouncedSearch.length > 0;
+  const isFollowingFeed = isAuthenticated && feedScope === 'following';
 
+  const postFilters = useMemo<PostFilters>(() => ({
+    type: activeFilter,
+    tags: activeTag ? [activeTag] : undefined,
+  }), [activeFilter, activeTag]);
+
+  // Fetch the feed page by page from the API. The Following feed is kept
+  // out of ['posts', 'feed'] so live new posts aren't added to it unfiltered.
+  const feedQuery = useInfiniteQuery({
+    queryKey: isFollowingFeed ? ['posts', 'following', activeFilter] : ['posts', 'feed', postFilters],
+    queryFn: ({ pageParam }) => isFollowingFeed
+      ? followsApi.getFeed({ type: activeFilter }, { cursor: pageParam, limit: PAGE_SIZE })
+      : postsApi.getAll(postFilters, { cursor: pageParam, limit: PAGE_SIZE }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !isSearching,
+  });
+
+  // Server-side full-text search, ranked by relevance
+  const searchText = activeTag ? `${debouncedSearch} tag:"${activeTag}"` : debouncedSearch;
+  const searchResultsQuery = useInfiniteQuery({
+    queryKey: ['posts', 'search', searchText, activeFilter],
+    queryFn: ({ pageParam }) => postsApi.search(searchText, { type: activeFilter, page: pageParam, limit: PAGE_SIZE }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.page + 1 : undefined),
+    enabled: isSearching,
+  });
+
+  const {
+    error: queryError,
+    isPending: isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = isSearching ? searchResultsQuery : feedQuery;
+
+  const feedPosts = useMemo(() => feedQuery.data?.pages.flatMap(page => page.data) ?? [], [feedQuery.data]);
+  const searchResults = useMemo(
+    () => searchResultsQuery.data?.pages.flatMap(page => page.data) ?? [],
+    [searchResultsQuery.data]
+  );
+  const posts: (Post | PostSearchResult)[] = isSearching ? searchResults : feedPosts;
+  const error = queryError ? (queryError instanceof Error ? queryError.message : 'Failed to load posts') : null;
+
+  // Live new posts for the feed, plus like and comment counts for every visible post
+  useRealtimeRooms(useMemo(() => [FEED_ROOM, ...posts.map(post => postRoom(post.id))], [posts]));
+
+  // Load the next page when the sentinel below the grid scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
   useEffect(() => {
-    fetchPosts();
-  }, [fetchPosts]);
+    const node = loadMoreRef.current;
+    if (!node || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   // Search users with debounce
   useEffect(() => {
-    if (!userSearchQuery.trim()) {
+    const skills = userSkillsFilter.split(',').map(skill => skill.trim()).filter(Boolean);
+    const availability = userAvailability === 'any' ? undefined : userAvailability;
+
+    if (!userSearchQuery.trim() && skills.length === 0 && !availability) {
       setSearchedUsers([]);
       return;
     }
@@ -62,7 +134,7 @@ export default function Feed() {
     const timeoutId = setTimeout(async () => {
       setIsSearchingUsers(true);
       try {
-        const response = await usersApi.search(userSearchQuery.trim());
+        const response = await usersApi.search(userSearchQuery.trim(), { skills, availability });
         if (response.success) {
           setSearchedUsers(response.data || []);
         }
@@ -74,29 +146,36 @@ export default function Feed() {
     }, 300);
 
     return () => clearTimeout(timeoutId);
-  }, [userSearchQuery]);
+  }, [userSearchQuery, userSkillsFilter, userAvailability]);
 
-  // Filter posts by search query (client-side)
-  const filteredPosts = posts.filter(post => {
-    const matchesSearch =
-      post.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      post.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      post.tags?.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase()));
+  // Apply a change to every cached feed and search page
+  const updateCachedPosts = useCallback((update: (posts: Post[]) => Post[]) => {
+    queryClient.setQueriesData<CachedPostPages>({ queryKey: ['posts'] }, (old) => old && {
+      ...old,
+      pages: old.pages.map(page => {
+        const data = update(page.data);
+        return { ...page, data, count: data.length };
+      }),
+    });
+  }, [queryClient]);
 
-    return matchesSearch;
-  });
+  // Tags narrow the everyone feed; the Following feed has no tag filter
+  const handleTagClick = useCallback((tag: string) => {
+    setActiveTag(tag);
+    setFeedScope('everyone');
+  }, []);
 
   // Handle post deletion
   const handlePostDelete = useCallback((postId: string) => {
-    setPosts(prev => prev.filter(post => post.id !== postId));
-  }, []);
+    updateCachedPosts(prev => prev.filter(post => post.id !== postId));
+  }, [updateCachedPosts]);
 
   // Handle post update
   const handlePostUpdate = useCallback((postId: string, updates: Partial<Post>) => {
-    setPosts(prev => prev.map(post =>
+    updateCachedPosts(prev => prev.map(post =>
       post.id === postId ? { ...post, ...updates } : post
     ));
-  }, []);
+  }, [updateCachedPosts]);
 
   return (
     <div className="min-h-screen bg-background py-8">
@@ -111,6 +190,28 @@ export default function Feed() {
           <p className="text-muted-foreground">
             Discover projects, hackathons, and internship opportunities
           </p>
+
+          {isAuthenticated && (
+            <Tabs
+              value={feedScope}
+              onValueChange={(v) => {
+                setFeedScope(v as FeedScope);
+                setActiveTag(null);
+              }}
+              className="mt-4"
+            >
+              <TabsList>
+                <TabsTrigger value="everyone" className="gap-2">
+                  <Globe className="h-4 w-4" />
+                  Everyone
+                </TabsTrigger>
+                <TabsTrigger value="following" className="gap-2">
+                  <UserCheck className="h-4 w-4" />
+                  Following
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
         </motion.div>
 
         {/* User Search */}
@@ -120,14 +221,34 @@ export default function Feed() {
           transition={{ delay: 0.05 }}
           className="mb-6"
         >
-          <div className="relative max-w-md">
-            <Users className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <div className="flex flex-col sm:flex-row gap-2">
+            <div className="relative flex-1 max-w-md">
+              <Users className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search users..."
+                value={userSearchQuery}
+                onChange={(e) => setUserSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
             <Input
-              placeholder="Search users..."
-              value={userSearchQuery}
-              onChange={(e) => setUserSearchQuery(e.target.value)}
-              className="pl-10"
+              placeholder="Skills, e.g. react, python"
+              value={userSkillsFilter}
+              onChange={(e) => setUserSkillsFilter(e.target.value)}
+              className="sm:w-56"
+              aria-label="Filter users by skills"
             />
+            <Select value={userAvailability} onValueChange={(value) => setUserAvailability(value as Availability | 'any')}>
+              <SelectTrigger className="sm:w-52" aria-label="Filter users by availability">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any availability</SelectItem>
+                {AVAILABILITY_OPTIONS.map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
 
           {/* User Search Results */}
@@ -146,10 +267,21 @@ export default function Feed() {
                           <AvatarImage src={user.avatar} alt={user.name} />
                           <AvatarFallback>{user.name.charAt(0)}</AvatarFallback>
                         </Avatar>
-                        <div>
-                          <p className="text-sm font-medium">{user.name}</p>
+                        <Link to={`/u/${user.id}`} className="flex-1 min-w-0 group">
+                          <p className="text-sm font-medium group-hover:text-primary">{user.name}</p>
                           <p className="text-xs text-muted-foreground">{user.email}</p>
-                        </div>
+                          {user.skills && user.skills.length > 0 && (
+                            <p className="text-xs text-muted-foreground truncate">{user.skills.join(' · ')}</p>
+                          )}
+                        </Link>
+                        {user.id !== currentUser?.id && (
+                          <Button asChild variant="ghost" size="sm">
+                            <Link to={`/messages?to=${user.id}`}>
+                              <MessageSquare className="h-4 w-4 mr-1" />
+                              Message
+                            </Link>
+                          </Button>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -169,7 +301,7 @@ export default function Feed() {
           <div className="relative flex-1 max-w-md">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input
-              placeholder="Search posts..."
+              placeholder='Search posts... e.g. "machine learning" tag:react'
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="pl-10"
@@ -192,6 +324,25 @@ export default function Feed() {
           </Tabs>
         </motion.div>
 
+        {/* Active Tag Filter */}
+        {activeTag && (
+          <div className="flex items-center gap-2 -mt-4 mb-6 text-sm text-muted-foreground">
+            Showing posts tagged
+            <span className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full bg-secondary text-secondary-foreground font-medium">
+              #{activeTag}
+              <button
+                type="button"
+                onClick={() => setActiveTag(null)}
+                className="ml-1 hover:text-destructive transition-colors"
+                aria-label="Clear tag filter"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+            {isAuthenticated && <FollowButton tag={activeTag} className="h-7" />}
+          </div>
+        )}
+
         {/* Loading State */}
         {isLoading && (
           <div className="flex items-center justify-center py-16">
@@ -215,22 +366,31 @@ export default function Feed() {
         )}
 
         {/* Posts Grid */}
-        {!isLoading && !error && filteredPosts.length > 0 && (
+        {!isLoading && !error && posts.length > 0 && (
           <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {filteredPosts.map((post, index) => (
+            {posts.map((post, index) => (
               <PostCard
                 key={post.id}
                 post={post}
                 index={index}
                 onUpdate={handlePostUpdate}
                 onDelete={handlePostDelete}
+                onTagClick={handleTagClick}
+                highlights={'highlights' in post ? post.highlights : undefined}
               />
             ))}
           </div>
         )}
 
+        {/* Infinite Scroll Sentinel */}
+        {!isLoading && !error && hasNextPage && (
+          <div ref={loadMoreRef} className="flex items-center justify-center py-8">
+            {isFetchingNextPage && <Loader2 className="h-6 w-6 animate-spin text-primary" />}
+          </div>
+        )}
+
         {/* Empty State */}
-        {!isLoading && !error && filteredPosts.length === 0 && (
+        {!isLoading && !error && posts.length === 0 && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -241,7 +401,9 @@ export default function Feed() {
             </div>
             <h3 className="text-lg font-medium text-foreground mb-2">No posts found</h3>
             <p className="text-muted-foreground">
-              {searchQuery ? 'Try adjusting your search' : 'Be the first to create a post!'}
+              {isFollowingFeed && !isSearching
+                ? 'Follow people from their profiles, or tags from the tag filter, to fill this feed'
+                : searchQuery || activeTag ? 'Try adjusting your search' : 'Be the first to create a post!'}
             </p>
           </motion.div>
         )}
@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+import { messagesApi } from '@/lib/api';
+import { conversationTitle, otherMembers } from '@/lib/conversations';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRealtimeStatus } from '@/hooks/use-realtime';
+import { MessageThread } from '@/components/MessageThread';
+import { NewConversationDialog } from '@/components/NewConversationDialog';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { toast } from 'sonner';
+import { Loader2, MessageSquare, PenSquare, Users } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+const PAGE_SIZE = 20;
+const POLL_INTERVAL_MS = 60_000;
+
+export default function Messages() {
+  const { conversationId } = useParams<{ conversationId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const realtimeReady = useRealtimeStatus();
+  const [newDialogOpen, setNewDialogOpen] = useState(false);
+  const startedWithRef = useRef<string | null>(null);
+
+  const {
+    data,
+    isPending,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['conversations', 'list'],
+    queryFn: ({ pageParam }) => messagesApi.getConversations({ before: pageParam, limit: PAGE_SIZE }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextBefore,
+    refetchInterval: realtimeReady ? false : POLL_INTERVAL_MS,
+  });
+
+  const conversations = data?.pages.flatMap(page => page.data) ?? [];
+
+  const openConversation = (id: string) => {
+    queryClient.invalidateQueries({ queryKey: ['conversations'] });
+    navigate(`/messages/${id}`);
+  };
+
+  // "Message" buttons link here with ?to=<userId>; open (or reuse) that conversation
+  const startWith = searchParams.get('to');
+  useEffect(() => {
+    if (!startWith || startedWithRef.current === startWith) return;
+    startedWithRef.current = startWith;
+
+    messagesApi.createConversation([startWith])
+      .then((response) => {
+        if (response.success) {
+          queryClient.invalidateQueries({ queryKey: ['conversations'] });
+          navigate(`/messages/${response.data.id}`, { replace: true });
+        }
+      })
+      .catch((error) => {
+        toast.error(error instanceof Error ? error.message : 'Failed to start conversation');
+        setSearchParams({}, { replace: true });
+      });
+  }, [startWith, navigate, setSearchParams, queryClient]);
+
+  return (
+    <div className="min-h-screen py-8">
+      <div className="container mx-auto px-4 max-w-5xl">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <Card className="flex h-[calc(100vh-10rem)] min-h-[28rem] overflow-hidden">
+            {/* Conversation list */}
+            <div className={`w-full md:w-80 md:border-r border-border flex-col ${conversationId ? 'hidden md:flex' : 'flex'}`}>
+              <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+                <h1 className="font-semibold text-lg">Messages</h1>
+                <Button variant="ghost" size="icon" onClick={() => setNewDialogOpen(true)} aria-label="New message">
+                  <PenSquare className="h-5 w-5" />
+                </Button>
+              </div>
+
+              <div className="flex-1 overflow-y-auto">
+                {isPending ? (
+                  <div className="flex items-center justify-center py-8">
+                    <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                  </div>
+                ) : conversations.length === 0 ? (
+                  <div className="px-4 py-8 text-center text-sm text-muted-foreground">
+                    <p>No conversations yet.</p>
+                    <Button variant="link" onClick={() => setNewDialogOpen(true)}>
+                      Start one
+                    </Button>
+                  </div>
+                ) : (
+                  <>
+                    {conversations.map(conversation => {
+                      const others = otherMembers(conversation, user?.id);
+                      const isActive = conversation.id === conversationId;
+                      const isUnread = conversation.unreadCount > 0;
+
+                      return (
+                        <button
+                          key={conversation.id}
+                          type="button"
+                          onClick={() => navigate(`/messages/${conversation.id}`)}
+                          className={`w-full flex items-center gap-3 px-4 py-3 text-left transition-colors hover:bg-muted/50 ${isActive ? 'bg-muted' : ''}`}
+                        >
+                          {conversation.isGroup ? (
+                            <div className="h-10 w-10 shrink-0 rounded-full bg-primary/10 flex items-center justify-center">
+                              <Users className="h-5 w-5 text-primary" />
+                            </div>
+                          ) : (
+                            <Avatar className="h-10 w-10 shrink-0">
+                              <AvatarImage src={others[0]?.avatar} alt={others[0]?.name} />
+                              <AvatarFallback>{others[0]?.name?.charAt(0) || '?'}</AvatarFallback>
+                            </Avatar>
+                          )}
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-baseline justify-between gap-2">
+                              <p className={`truncate ${isUnread ? 'font-semibold' : 'font-medium'}`}>
+                                {conversationTitle(conversation, user?.id)}
+                              </p>
+                              {conversation.lastMessage && (
+                                <span className="text-[11px] text-muted-foreground shrink-0">
+                                  {formatDistanceToNow(new Date(conversation.lastMessage.createdAt), { addSuffix: true })}
+                                </span>
+                              )}
+                            </div>
+                            <div className="flex items-center justify-between gap-2">
+                              <p className={`text-sm truncate ${isUnread ? 'text-foreground' : 'text-muted-foreground'}`}>
+                                {conversation.lastMessage
+                                  ? `${conversation.lastMessage.sender === user?.id ? 'You: ' : ''}${conversation.lastMessage.text}`
+                                  : 'No messages yet'}
+                              </p>
+                              {isUnread && (
+                                <span className="min-w-[1.25rem] h-5 px-1.5 rounded-full bg-primary text-primary-foreground text-[11px] font-semibold flex items-center justify-center shrink-0">
+                                  {conversation.unreadCount > 99 ? '99+' : conversation.unreadCount}
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                        </button>
+                      );
+                    })}
+                    {hasNextPage && (
+                      <div className="flex justify-center py-2">
+                        <Button variant="ghost" size="sm" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                          {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                          Load more
+                        </Button>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+
+            {/* Thread */}
+            <div className={`flex-1 flex-col min-w-0 ${conversationId ? 'flex' : 'hidden md:flex'}`}>
+              {conversationId ? (
+                <MessageThread
+                  key={conversationId}
+                  conversationId={conversationId}
+                  onBack={() => navigate('/messages')}
+                />
+              ) : (
+                <div className="flex flex-1 flex-col items-center justify-center gap-3 p-6 text-center text-muted-foreground">
+                  <MessageSquare className="h-10 w-10" />
+                  <p>Select a conversation or start a new one.</p>
+                  <Button onClick={() => setNewDialogOpen(true)} className="gradient-primary text-primary-foreground">
+                    New message
+                  </Button>
+                </div>
+              )}
+            </div>
+          </Card>
+        </motion.div>
+      </div>
+
+      <NewConversationDialog
+        open={newDialogOpen}
+        onOpenChange={setNewDialogOpen}
+        onCreated={(id) => openConversation(id)}
+      />
+    </div>
+  );
+}
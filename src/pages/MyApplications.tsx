@@ -0,0 +1,114 @@
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { applicationsApi } from '@/lib/api';
+import { STAGE_BADGE_CLASSES, STAGE_LABELS } from '@/lib/applications';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Briefcase, ClipboardList, Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+export default function MyApplications() {
+    const {
+        data,
+        error,
+        isPending,
+        fetchNextPage,
+        hasNextPage,
+        isFetchingNextPage,
+    } = useInfiniteQuery({
+        queryKey: ['applications', 'mine'],
+        queryFn: ({ pageParam }) => applicationsApi.getMine(pageParam),
+        initialPageParam: null as string | null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+    });
+
+    const applications = data?.pages.flatMap(page => page.data) ?? [];
+
+    return (
+        <div className="min-h-screen bg-background py-8">
+            <div className="container mx-auto px-4 max-w-2xl">
+                <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="space-y-6"
+                >
+                    <div>
+                        <h1 className="text-2xl font-bold text-foreground">My Applications</h1>
+                        <p className="text-muted-foreground">Track where each internship application stands</p>
+                    </div>
+
+                    {isPending ? (
+                        <div className="flex justify-center py-12">
+                            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                        </div>
+                    ) : error ? (
+                        <p className="text-sm text-destructive">
+                            {error instanceof Error ? error.message : 'Failed to load applications'}
+                        </p>
+                    ) : applications.length === 0 ? (
+                        <Card className="gradient-card border-border/50">
+                            <CardContent className="py-12 text-center">
+                                <ClipboardList className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
+                                <p className="text-muted-foreground mb-4">You haven't applied to any internships yet.</p>
+                                <Button asChild variant="outline">
+                                    <Link to="/feed">Browse internships</Link>
+                                </Button>
+                            </CardContent>
+                        </Card>
+                    ) : (
+                        <div className="space-y-3">
+                            {applications.map(application => (
+                                <Card key={application.id} className="gradient-card border-border/50">
+                                    <CardContent className="flex items-center justify-between gap-4 py-4">
+                                        <div className="min-w-0 space-y-1">
+                                            {application.post ? (
+                                                <Link
+                                                    to={`/post/${application.post.id}`}
+                                                    className="block font-medium text-foreground hover:text-primary truncate"
+                                                >
+                                                    {application.post.title}
+                                                </Link>
+                                            ) : (
+                                                <p className="font-medium text-muted-foreground">Post no longer available</p>
+                                            )}
+                                            {application.post?.company && (
+                                                <p className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                                                    <Briefcase className="h-3.5 w-3.5" />
+                                                    {application.post.company}
+                                                </p>
+                                            )}
+                                            <p className="text-xs text-muted-foreground">
+                                                Applied {formatDistanceToNow(new Date(application.createdAt), { addSuffix: true })}
+                                                {application.stage !== 'applied' && (
+                                                    <> · updated {formatDistanceToNow(new Date(application.stageChangedAt), { addSuffix: true })}</>
+                                                )}
+                                            </p>
+                                        </div>
+                                        <Badge variant="outline" className={`${STAGE_BADGE_CLASSES[application.stage]} shrink-0`}>
+                                            {STAGE_LABELS[application.stage]}
+                                        </Badge>
+                                    </CardContent>
+                                </Card>
+                            ))}
+                        </div>
+                    )}
+
+                    {hasNextPage && (
+                        <div className="flex justify-center">
+                            <Button
+                                variant="outline"
+                                onClick={() => fetchNextPage()}
+                                disabled={isFetchingNextPage}
+                            >
+                                {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                Load more
+                            </Button>
+                        </div>
+                    )}
+                </motion.div>
+            </div>
+        </div>
+    );
+}
@@ -1,9 +1,21 @@
 import { useState, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { postsApi } from '@/lib/api';
+import { postsApi, isEmailNotVerifiedError } from '@/lib/api';
+import { avatarFor } from '@/lib/profile';
+import { postRoom } from '@/lib/realtime';
+import { useRealtimeRooms } from '@/hooks/use-realtime';
 import { useAuth } from '@/contexts/AuthContext';
-import { Post, Comment } from '@/types';
+import { Post } from '@/types';
+import { CommentList } from '@/components/CommentThread';
+import { AttachmentGallery } from '@/components/AttachmentGallery';
+import { Markdown } from '@/components/Markdown';
+import { PostDetailsSummary } from '@/components/PostDetailsSummary';
+import { ApplicationPanel } from '@/components/ApplicationPanel';
+import { HackathonTeams } from '@/components/HackathonTeams';
+import { BookmarkButton } from '@/components/BookmarkButton';
+import { ReportDialog } from '@/components/ReportDialog';
 import { Card, CardContent, CardFooter, CardHeader } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
@@ -21,6 +33,7 @@ import {
     Loader2,
     ArrowLeft,
     Clock,
+    Flag,
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 
@@ -46,50 +59,49 @@ export default function PostDetail() {
     const { id } = useParams<{ id: string }>();
     const navigate = useNavigate();
     const { user, isAuthenticated } = useAuth();
+    const queryClient = useQueryClient();
 
-    const [post, setPost] = useState<(Post & { commentsList?: Comment[] }) | null>(null);
-    const [isLoading, setIsLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
+    // Cached under ['post', id] so realtime like and comment events update it in place
+    const { data: post, isPending: isLoading, error: queryError } = useQuery({
+        queryKey: ['post', id],
+        queryFn: async (): Promise<Post | null> => {
+            const response = await postsApi.getById(id!);
+            return response.success && response.data ? response.data : null;
+        },
+        enabled: Boolean(id),
+    });
+    const error = queryError
+        ? (queryError instanceof Error ? queryError.message : 'Failed to load post')
+        : post === null ? 'Post not found' : null;
+
+    useRealtimeRooms(id ? [postRoom(id)] : []);
+
+    const updatePost = (updates: Partial<Post>) => {
+        queryClient.setQueryData<Post | null>(['post', id], (old) => old && { ...old, ...updates });
+    };
+
+    const adjustCommentsCount = (delta: number) => {
+        queryClient.setQueryData<Post | null>(['post', id], (old) => old && {
+            ...old,
+            comments: Math.max(0, old.comments + delta),
+        });
+    };
 
     // Like state
     const [isLiked, setIsLiked] = useState(false);
-    const [likesCount, setLikesCount] = useState(0);
     const [isLiking, setIsLiking] = useState(false);
+    const likesCount = post?.likes ?? 0;
 
     // Comment state
     const [commentText, setCommentText] = useState('');
     const [isCommenting, setIsCommenting] = useState(false);
-    const [comments, setComments] = useState<Comment[]>([]);
+    const [showReportDialog, setShowReportDialog] = useState(false);
+    const commentsCount = post?.comments ?? 0;
 
+    // Check if current user liked
     useEffect(() => {
-        const fetchPost = async () => {
-            if (!id) return;
-
-            setIsLoading(true);
-            setError(null);
-            try {
-                const response = await postsApi.getById(id);
-                if (response.success && response.data) {
-                    setPost(response.data);
-                    setLikesCount(response.data.likes || 0);
-                    setComments(response.data.commentsList || []);
-
-                    // Check if current user liked
-                    if (user && response.data.likedBy) {
-                        setIsLiked(response.data.likedBy.includes(user.id));
-                    }
-                } else {
-                    setError('Post not found');
-                }
-            } catch (err) {
-                setError(err instanceof Error ? err.message : 'Failed to load post');
-            } finally {
-                setIsLoading(false);
-            }
-        };
-
-        fetchPost();
-    }, [id, user]);
+        setIsLiked(Boolean(user && post?.likedBy?.includes(user.id)));
+    }, [user, post?.likedBy]);
 
     const handleLike = async () => {
         if (!isAuthenticated) {
@@ -102,7 +114,7 @@ export default function PostDetail() {
             const response = await postsApi.like(id!);
             if (response.success) {
                 setIsLiked(response.data.liked);
-                setLikesCount(response.data.likes);
+                updatePost({ likes: response.data.likes });
             }
         } catch (error) {
             toast.error(error instanceof Error ? error.message : 'Failed to like post');
@@ -125,11 +137,18 @@ export default function PostDetail() {
         try {
             const response = await postsApi.addComment(id!, commentText.trim());
             if (response.success) {
-                setComments(prev => [...prev, response.data]);
+                adjustCommentsCount(1);
+                await queryClient.invalidateQueries({ queryKey: ['comments', id, 'root'] });
                 setCommentText('');
                 toast.success('Comment added!');
             }
         } catch (error) {
+            if (isEmailNotVerifiedError(error)) {
+                toast.error('Verify your email to join the discussion', {
+                    description: 'Use the link we emailed you, or resend it from the banner above.',
+                });
+                return;
+            }
             toast.error(error instanceof Error ? error.message : 'Failed to add comment');
         } finally {
             setIsCommenting(false);
@@ -158,8 +177,9 @@ export default function PostDetail() {
 
     const config = typeConfig[post.type];
     const Icon = config.icon;
+    const canReport = isAuthenticated && post.author?.id !== user?.id;
     const authorName = post.author?.name || 'Unknown';
-    const authorAvatar = post.author?.avatar || '';
+    const authorAvatar = avatarFor(post.author);
 
     return (
         <div className="min-h-screen bg-background py-8">
@@ -212,7 +232,14 @@ export default function PostDetail() {
 
                         <CardContent className="space-y-4">
                             <h1 className="text-2xl font-bold text-foreground">{post.title}</h1>
-                            <p className="text-muted-foreground whitespace-pre-wrap">{post.description}</p>
+                            <PostDetailsSummary post={post} />
+                            <Markdown className="text-muted-foreground">{post.description}</Markdown>
+
+                            {post.attachments && post.attachments.length > 0 && (
+                                <AttachmentGallery attachments={post.attachments} />
+                            )}
+
+                            {post.type === 'internship' && <ApplicationPanel post={post} />}
 
                             {post.tags && post.tags.length > 0 && (
                                 <div className="flex flex-wrap gap-2">
@@ -250,8 +277,21 @@ export default function PostDetail() {
                                 </Button>
                                 <div className="flex items-center gap-1.5 text-muted-foreground">
                                     <MessageCircle className="h-4 w-4" />
-                                    <span className="font-medium">{comments.length} comments</span>
+                                    <span className="font-medium">{commentsCount} comments</span>
                                 </div>
+                                <BookmarkButton postId={post.id} className="ml-auto" />
+                                {canReport && (
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                                        onClick={() => setShowReportDialog(true)}
+                                        aria-label="Report post"
+                                        title="Report post"
+                                    >
+                                        <Flag className="h-4 w-4" />
+                                    </Button>
+                                )}
                             </div>
 
                             <Separator />
@@ -290,6 +330,18 @@ export default function PostDetail() {
                     </Card>
                 </motion.div>
 
+                {/* Teams Section */}
+                {post.type === 'hackathon' && (
+                    <motion.div
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ delay: 0.05 }}
+                        className="mt-6"
+                    >
+                        <HackathonTeams post={post} />
+                    </motion.div>
+                )}
+
                 {/* Comments Section */}
                 <motion.div
                     initial={{ opacity: 0, y: 20 }}
@@ -297,47 +349,22 @@ export default function PostDetail() {
                     transition={{ delay: 0.1 }}
                     className="mt-6 space-y-4"
                 >
-                    <h2 className="text-lg font-semibold">Comments ({comments.length})</h2>
+                    <h2 className="text-lg font-semibold">Comments ({commentsCount})</h2>
 
-                    {comments.length === 0 ? (
-                        <Card className="gradient-card border-border/50">
-                            <CardContent className="py-8 text-center">
-                                <MessageCircle className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
-                                <p className="text-muted-foreground">No comments yet. Be the first to comment!</p>
-                            </CardContent>
-                        </Card>
-                    ) : (
-                        <div className="space-y-3">
-                            {comments.map((comment) => (
-                                <Card key={comment._id} className="gradient-card border-border/50">
-                                    <CardContent className="py-4">
-                                        <div className="flex items-start gap-3">
-                                            <Avatar className="h-8 w-8">
-                                                <AvatarImage
-                                                    src={comment.user?.avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${comment.user?.name}`}
-                                                    alt={comment.user?.name || 'User'}
-                                                />
-                                                <AvatarFallback className="text-xs">
-                                                    {(comment.user?.name || 'U').charAt(0)}
-                                                </AvatarFallback>
-                                            </Avatar>
-                                            <div className="flex-1">
-                                                <div className="flex items-center gap-2 mb-1">
-                                                    <span className="font-medium text-sm">{comment.user?.name || 'Unknown'}</span>
-                                                    <span className="text-xs text-muted-foreground">
-                                                        {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
-                                                    </span>
-                                                </div>
-                                                <p className="text-sm text-foreground">{comment.text}</p>
-                                            </div>
-                                        </div>
-                                    </CardContent>
-                                </Card>
-                            ))}
-                        </div>
-                    )}
+                    <CommentList
+                        postId={post.id}
+                        onCountChange={adjustCommentsCount}
+                    />
                 </motion.div>
             </div>
+
+            {canReport && (
+                <ReportDialog
+                    postId={post.id}
+                    open={showReportDialog}
+                    onOpenChange={setShowReportDialog}
+                />
+            )}
         </div>
     );
 }
@@ -2,11 +2,14 @@ import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { EditProfileDialog } from '@/components/EditProfileDialog';
+import { ActiveSessions } from '@/components/ActiveSessions';
+import { ProfileHighlights } from '@/components/ProfileHighlights';
+import { AvatarUploader } from '@/components/AvatarUploader';
 import {
     Mail,
     Calendar,
@@ -14,6 +17,7 @@ import {
     LogOut,
     Settings,
     Edit,
+    Lock,
     User as UserIcon
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
@@ -63,12 +67,7 @@ export default function Profile() {
                         <CardHeader className="relative pb-0">
                             {/* Avatar */}
                             <div className="absolute -top-12 left-6">
-                                <Avatar className="h-24 w-24 border-4 border-background shadow-lg">
-                                    <AvatarImage src={user.avatar} alt={user.name} />
-                                    <AvatarFallback className="text-2xl bg-primary text-primary-foreground">
-                                        {user.name.charAt(0)}
-                                    </AvatarFallback>
-                                </Avatar>
+                                <AvatarUploader />
                             </div>
 
                             {/* Edit Button */}
@@ -107,6 +106,8 @@ export default function Profile() {
                                     </div>
                                 )}
 
+                                <ProfileHighlights profile={user} />
+
                                 <Separator />
 
                                 {/* User Info */}
@@ -124,46 +125,65 @@ export default function Profile() {
                         </CardContent>
                     </Card>
 
-                    {/* Actions Card */}
-                    <Card className="gradient-card border-border/50">
-                        <CardHeader>
-                            <CardTitle className="text-lg">Account</CardTitle>
-                            <CardDescription>Manage your account settings</CardDescription>
-                        </CardHeader>
-                        <CardContent className="space-y-3">
-                            <Button
-                                variant="outline"
-                                className="w-full justify-start gap-3"
-                                aria-label="Edit profile"
-                                onClick={() => setIsEditDialogOpen(true)}
-                            >
+                    <Tabs defaultValue="account" className="space-y-4">
+                        <TabsList className="grid w-full grid-cols-2">
+                            <TabsTrigger value="account" className="gap-2">
                                 <Settings className="h-4 w-4" />
-                                Edit Profile
-                            </Button>
-
-                            {user.role === 'admin' && (
-                                <Button
-                                    variant="outline"
-                                    className="w-full justify-start gap-3"
-                                    onClick={() => navigate('/admin')}
-                                    aria-label="Go to admin dashboard"
-                                >
-                                    <Shield className="h-4 w-4" />
-                                    Admin Dashboard
-                                </Button>
-                            )}
-
-                            <Button
-                                variant="destructive"
-                                className="w-full justify-start gap-3"
-                                onClick={handleLogout}
-                                aria-label="Log out of your account"
-                            >
-                                <LogOut className="h-4 w-4" />
-                                Log Out
-                            </Button>
-                        </CardContent>
-                    </Card>
+                                Account
+                            </TabsTrigger>
+                            <TabsTrigger value="security" className="gap-2">
+                                <Lock className="h-4 w-4" />
+                                Security
+                            </TabsTrigger>
+                        </TabsList>
+
+                        <TabsContent value="account">
+                            {/* Actions Card */}
+                            <Card className="gradient-card border-border/50">
+                                <CardHeader>
+                                    <CardTitle className="text-lg">Account</CardTitle>
+                                    <CardDescription>Manage your account settings</CardDescription>
+                                </CardHeader>
+                                <CardContent className="space-y-3">
+                                    <Button
+                                        variant="outline"
+                                        className="w-full justify-start gap-3"
+                                        aria-label="Edit profile"
+                                        onClick={() => setIsEditDialogOpen(true)}
+                                    >
+                                        <Settings className="h-4 w-4" />
+                                        Edit Profile
+                                    </Button>
+
+                                    {user.role === 'admin' && (
+                                        <Button
+                                            variant="outline"
+                                            className="w-full justify-start gap-3"
+                                            onClick={() => navigate('/admin')}
+                                            aria-label="Go to admin dashboard"
+                                        >
+                                            <Shield className="h-4 w-4" />
+                                            Admin Dashboard
+                                        </Button>
+                                    )}
+
+                                    <Button
+                                        variant="destructive"
+                                        className="w-full justify-start gap-3"
+                                        onClick={handleLogout}
+                                        aria-label="Log out of your account"
+                                    >
+                                        <LogOut className="h-4 w-4" />
+                                        Log Out
+                                    </Button>
+                                </CardContent>
+                            </Card>
+                        </TabsContent>
+
+                        <TabsContent value="security">
+                            <ActiveSessions />
+                        </TabsContent>
+                    </Tabs>
                 </motion.div>
             </div>
 
@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import { bookmarksApi } from '@/lib/api';
+import { MAX_BOOKMARK_COLLECTIONS, MAX_COLLECTION_NAME_LENGTH } from '@/lib/bookmarks';
+import { BOOKMARK_COLLECTIONS_KEY } from '@/hooks/use-bookmarks';
+import { PostCard } from '@/components/PostCard';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { Bookmark, FolderPlus, Loader2, Pencil, Trash2 } from 'lucide-react';
+
+const PAGE_SIZE = 10;
+
+// 'all' shows everything; 'none' the posts outside any collection
+type CollectionFilter = 'all' | 'none' | string;
+
+export default function Saved() {
+    const queryClient = useQueryClient();
+    const [filter, setFilter] = useState<CollectionFilter>('all');
+    const [newName, setNewName] = useState('');
+    const [isCreating, setIsCreating] = useState(false);
+    const [renaming, setRenaming] = useState<string | null>(null);
+    const [isSavingName, setIsSavingName] = useState(false);
+    const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+    const [isDeleting, setIsDeleting] = useState(false);
+
+    const { data: collectionsData } = useQuery({
+        queryKey: BOOKMARK_COLLECTIONS_KEY,
+        queryFn: () => bookmarksApi.getCollections(),
+    });
+
+    const savedQuery = useInfiniteQuery({
+        queryKey: ['bookmarks', 'list', filter],
+        queryFn: ({ pageParam }) => bookmarksApi.getAll({
+            collection: filter === 'all' ? undefined : filter,
+            cursor: pageParam,
+            limit: PAGE_SIZE,
+        }),
+        initialPageParam: null as string | null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+    });
+
+    const collections = collectionsData?.data ?? [];
+    const selected = collections.find(collection => collection.id === filter);
+    const posts = savedQuery.data?.pages.flatMap(page => page.data) ?? [];
+
+    const atCollectionLimit = collections.length >= MAX_BOOKMARK_COLLECTIONS;
+
+    // Saved posts, their collections and the counts all live under ['bookmarks']
+    const refresh = () => {
+        queryClient.invalidateQueries({ queryKey: ['bookmarks'] });
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!newName.trim()) {
+            return;
+        }
+
+        setIsCreating(true);
+        try {
+            const response = await bookmarksApi.createCollection(newName.trim());
+            if (response.success) {
+                setNewName('');
+                refresh();
+                setFilter(response.data.id);
+                toast.success('Collection created');
+            }
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to create collection');
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const handleRename = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (!selected || renaming === null || !renaming.trim()) {
+            return;
+        }
+
+        setIsSavingName(true);
+        try {
+            const response = await bookmarksApi.renameCollection(selected.id, renaming.trim());
+            if (response.success) {
+                setRenaming(null);
+                refresh();
+                toast.success('Collection renamed');
+            }
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to rename collection');
+        } finally {
+            setIsSavingName(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!selected) return;
+
+        setIsDeleting(true);
+        try {
+            await bookmarksApi.deleteCollection(selected.id);
+            setFilter('all');
+            refresh();
+            toast.success('Collection deleted');
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to delete collection');
+        } finally {
+            setIsDeleting(false);
+            setShowDeleteDialog(false);
+        }
+    };
+
+    const filters: { value: CollectionFilter; label: string; count: number }[] = [
+        { value: 'all', label: 'All', count: collectionsData?.total ?? 0 },
+        { value: 'none', label: 'Unsorted', count: collectionsData?.unsorted ?? 0 },
+        ...collections.map(collection => ({ value: collection.id, label: collection.name, count: collection.count })),
+    ];
+
+    return (
+        <div className="min-h-screen bg-background py-8">
+            <div className="container mx-auto px-4 max-w-2xl">
+                <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="space-y-6"
+                >
+                    <div>
+                        <h1 className="text-2xl font-bold text-foreground">Saved Posts</h1>
+                        <p className="text-muted-foreground">Only you can see what you've saved</p>
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                        {filters.map(option => (
+                            <Button
+                                key={option.value}
+                                size="sm"
+                                variant={filter === option.value ? 'default' : 'outline'}
+                                onClick={() => {
+                                    setFilter(option.value);
+                                    setRenaming(null);
+                                }}
+                            >
+                                {option.label} ({option.count})
+                            </Button>
+                        ))}
+                    </div>
+
+                    <form onSubmit={handleCreate} className="flex items-center gap-2">
+                        <Input
+                            value={newName}
+                            onChange={(e) => setNewName(e.target.value)}
+                            placeholder={atCollectionLimit
+                                ? `You can have up to ${MAX_BOOKMARK_COLLECTIONS} collections`
+                                : 'New collection, e.g. "Summer internships"'}
+                            maxLength={MAX_COLLECTION_NAME_LENGTH}
+                            disabled={isCreating || atCollectionLimit}
+                        />
+                        <Button type="submit" variant="outline" className="gap-2 shrink-0" disabled={isCreating || !newName.trim()}>
+                            {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : <FolderPlus className="h-4 w-4" />}
+                            Create
+                        </Button>
+                    </form>
+
+                    {selected && (
+                        renaming !== null ? (
+                            <form onSubmit={handleRename} className="flex items-center gap-2">
+                                <Input
+                                    value={renaming}
+                                    onChange={(e) => setRenaming(e.target.value)}
+                                    maxLength={MAX_COLLECTION_NAME_LENGTH}
+                                    autoFocus
+                                    disabled={isSavingName}
+                                />
+                                <Button type="submit" size="sm" disabled={isSavingName || !renaming.trim()}>
+                                    {isSavingName && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                    Save
+                                </Button>
+                                <Button type="button" size="sm" variant="ghost" onClick={() => setRenaming(null)}>
+                                    Cancel
+                                </Button>
+                            </form>
+                        ) : (
+                            <div className="flex items-center justify-between gap-2">
+                                <h2 className="text-lg font-semibold truncate">{selected.name}</h2>
+                                <div className="flex items-center gap-1 shrink-0">
+                                    <Button variant="ghost" size="sm" className="gap-1.5" onClick={() => setRenaming(selected.name)}>
+                                        <Pencil className="h-4 w-4" />
+                                        Rename
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="gap-1.5 text-muted-foreground hover:text-destructive"
+                                        onClick={() => setShowDeleteDialog(true)}
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                        Delete
+                                    </Button>
+                                </div>
+                            </div>
+                        )
+                    )}
+
+                    {savedQuery.isPending ? (
+                        <div className="flex justify-center py-8">
+                            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                        </div>
+                    ) : savedQuery.error ? (
+                        <p className="text-sm text-destructive">
+                            {savedQuery.error instanceof Error ? savedQuery.error.message : 'Failed to load saved posts'}
+                        </p>
+                    ) : posts.length === 0 ? (
+                        <Card className="gradient-card border-border/50">
+                            <CardContent className="py-12 text-center">
+                                <Bookmark className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
+                                <p className="text-muted-foreground mb-4">
+                                    {filter === 'all'
+                                        ? 'Nothing saved yet. Use the bookmark button on a post to keep it here.'
+                                        : 'No saved posts here yet.'}
+                                </p>
+                                {filter === 'all' && (
+                                    <Button asChild variant="outline">
+                                        <Link to="/feed">Browse the feed</Link>
+                                    </Button>
+                                )}
+                            </CardContent>
+                        </Card>
+                    ) : (
+                        <div className="space-y-4">
+                            {posts.map((post, index) => (
+                                <PostCard
+                                    key={post.id}
+                                    post={post}
+                                    index={index}
+                                    onUpdate={refresh}
+                                    onDelete={refresh}
+                                />
+                            ))}
+                        </div>
+                    )}
+
+                    {savedQuery.hasNextPage && (
+                        <div className="flex justify-center">
+                            <Button
+                                variant="outline"
+                                onClick={() => savedQuery.fetchNextPage()}
+                                disabled={savedQuery.isFetchingNextPage}
+                            >
+                                {savedQuery.isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                Load more
+                            </Button>
+                        </div>
+                    )}
+                </motion.div>
+            </div>
+
+            <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Delete Collection</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            Delete "{selected?.name}"? Its posts stay in your saved posts, under Unsorted.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={handleDelete}
+                            disabled={isDeleting}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                            {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            Delete
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    );
+}
@@ -0,0 +1,25 @@
+import { motion } from 'framer-motion';
+import { PostTrash } from '@/components/PostTrash';
+
+export default function Trash() {
+    return (
+        <div className="min-h-screen bg-background py-8">
+            <div className="container mx-auto px-4 max-w-2xl">
+                <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="space-y-6"
+                >
+                    <div>
+                        <h1 className="text-2xl font-bold text-foreground">Trash</h1>
+                        <p className="text-muted-foreground">
+                            Posts you've deleted can be restored until they are deleted permanently
+                        </p>
+                    </div>
+
+                    <PostTrash scope="mine" />
+                </motion.div>
+            </div>
+        </div>
+    );
+}
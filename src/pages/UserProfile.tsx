@@ -0,0 +1,322 @@
+import { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
+import { postsApi, usersApi } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { PostCard } from '@/components/PostCard';
+import { ProfileHighlights } from '@/components/ProfileHighlights';
+import { FollowButton } from '@/components/FollowButton';
+import { Markdown } from '@/components/Markdown';
+import { PostType } from '@/types';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+    Mail,
+    Calendar,
+    Shield,
+    Heart,
+    FileText,
+    MessageCircle,
+    MessageSquare,
+    Settings,
+    Loader2,
+    User as UserIcon
+} from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+
+type PostFilter = 'all' | PostType;
+
+const POSTS_PAGE_SIZE = 10;
+const COMMENTS_PAGE_SIZE = 20;
+
+const postFilters: { value: PostFilter; label: string }[] = [
+    { value: 'all', label: 'All' },
+    { value: 'project', label: 'Projects' },
+    { value: 'hackathon', label: 'Hackathons' },
+    { value: 'internship', label: 'Internships' },
+];
+
+const roleColors = {
+    student: 'bg-primary/10 text-primary border-primary/20',
+    admin: 'bg-destructive/10 text-destructive border-destructive/20',
+};
+
+export default function UserProfile() {
+    const { id = '' } = useParams<{ id: string }>();
+    const { user: currentUser } = useAuth();
+    const navigate = useNavigate();
+    const queryClient = useQueryClient();
+    const [postFilter, setPostFilter] = useState<PostFilter>('all');
+
+    const { data: profileData, isPending, error } = useQuery({
+        queryKey: ['profile', id],
+        queryFn: () => usersApi.getProfile(id),
+        enabled: Boolean(id),
+    });
+
+    const authorFilters = { author: id, type: postFilter };
+    const postsQuery = useInfiniteQuery({
+        // Under ['posts'] so realtime like and comment counts reach these cards too
+        queryKey: ['posts', 'feed', authorFilters],
+        queryFn: ({ pageParam }) => postsApi.getAll(authorFilters, { cursor: pageParam, limit: POSTS_PAGE_SIZE }),
+        initialPageParam: null as string | null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+        enabled: Boolean(id),
+    });
+
+    const commentsQuery = useInfiniteQuery({
+        queryKey: ['user-comments', id],
+        queryFn: ({ pageParam }) => usersApi.getComments(id, { cursor: pageParam, limit: COMMENTS_PAGE_SIZE }),
+        initialPageParam: null as string | null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+        enabled: Boolean(id),
+    });
+
+    const refreshPosts = () => {
+        queryClient.invalidateQueries({ queryKey: ['posts', 'feed', authorFilters] });
+        queryClient.invalidateQueries({ queryKey: ['profile', id] });
+    };
+
+    if (isPending) {
+        return (
+            <div className="min-h-screen flex items-center justify-center">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+        );
+    }
+
+    if (error || !profileData?.data) {
+        return (
+            <div className="min-h-screen flex items-center justify-center">
+                <div className="text-center">
+                    <h2 className="text-xl font-semibold mb-2">User not found</h2>
+                    <p className="text-muted-foreground mb-4">This profile doesn't exist or is no longer available</p>
+                    <Button onClick={() => navigate('/feed')}>Back to Feed</Button>
+                </div>
+            </div>
+        );
+    }
+
+    const profile = profileData.data;
+    const isSelf = currentUser?.id === profile.id;
+    const posts = postsQuery.data?.pages.flatMap(page => page.data) ?? [];
+    const comments = commentsQuery.data?.pages.flatMap(page => page.data) ?? [];
+
+    const stats = [
+        { label: 'Posts', value: profile.stats.posts, icon: FileText },
+        { label: 'Likes received', value: profile.stats.likesReceived, icon: Heart },
+        { label: 'Comments', value: profile.stats.comments, icon: MessageCircle },
+    ];
+
+    return (
+        <div className="min-h-screen bg-background py-8">
+            <div className="container mx-auto px-4 max-w-2xl">
+                <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="space-y-6"
+                >
+                    {/* Profile Header Card */}
+                    <Card className="gradient-card border-border/50 overflow-hidden">
+                        <div className="h-24 gradient-primary" />
+
+                        <CardHeader className="relative pb-0">
+                            <div className="absolute -top-12 left-6">
+                                <Avatar className="h-24 w-24 border-4 border-background shadow-lg">
+                                    <AvatarImage src={profile.avatar} alt={profile.name} />
+                                    <AvatarFallback className="text-2xl bg-primary text-primary-foreground">
+                                        {profile.name.charAt(0)}
+                                    </AvatarFallback>
+                                </Avatar>
+                            </div>
+
+                            <div className="flex justify-end">
+                                {isSelf ? (
+                                    <Button variant="outline" size="sm" className="gap-2" onClick={() => navigate('/profile')}>
+                                        <Settings className="h-4 w-4" />
+                                        Account settings
+                                    </Button>
+                                ) : (
+                                    <div className="flex items-center gap-2">
+                                        <FollowButton userId={profile.id} />
+                                        <Button asChild variant="outline" size="sm" className="gap-2">
+                                            <Link to={`/messages?to=${profile.id}`}>
+                                                <MessageSquare className="h-4 w-4" />
+                                                Message
+                                            </Link>
+                                        </Button>
+                                    </div>
+                                )}
+                            </div>
+                        </CardHeader>
+
+                        <CardContent className="pt-4">
+                            <div className="space-y-4">
+                                <div>
+                                    <h1 className="text-2xl font-bold text-foreground">{profile.name}</h1>
+                                    <div className="flex flex-wrap items-center gap-x-3 gap-y-2 mt-2">
+                                        <Badge variant="outline" className={roleColors[profile.role]}>
+                                            <Shield className="h-3 w-3 mr-1" />
+                                            {profile.role.charAt(0).toUpperCase() + profile.role.slice(1)}
+                                        </Badge>
+                                        <span className="text-sm text-muted-foreground">
+                                            <span className="font-semibold text-foreground">{profile.stats.followers}</span>
+                                            {profile.stats.followers === 1 ? ' follower' : ' followers'}
+                                            {' · '}
+                                            <span className="font-semibold text-foreground">{profile.stats.following}</span>
+                                            {' following'}
+                                        </span>
+                                    </div>
+                                </div>
+
+                                {profile.bio && (
+                                    <div className="flex items-start gap-3 text-muted-foreground">
+                                        <UserIcon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                                        <p className="text-sm">{profile.bio}</p>
+                                    </div>
+                                )}
+
+                                <ProfileHighlights profile={profile} />
+
+                                <Separator />
+
+                                <div className="space-y-3">
+                                    {profile.email && (
+                                        <div className="flex items-center gap-3 text-muted-foreground">
+                                            <Mail className="h-4 w-4" />
+                                            <span>{profile.email}</span>
+                                        </div>
+                                    )}
+                                    <div className="flex items-center gap-3 text-muted-foreground">
+                                        <Calendar className="h-4 w-4" />
+                                        <span>Joined {format(new Date(profile.createdAt), 'MMMM yyyy')}</span>
+                                    </div>
+                                </div>
+
+                                <div className="grid grid-cols-3 gap-3">
+                                    {stats.map(stat => (
+                                        <div key={stat.label} className="rounded-lg bg-muted/50 p-3 text-center">
+                                            <stat.icon className="h-4 w-4 mx-auto mb-1 text-primary" />
+                                            <p className="text-lg font-semibold">{stat.value}</p>
+                                            <p className="text-xs text-muted-foreground">{stat.label}</p>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        </CardContent>
+                    </Card>
+
+                    <Tabs defaultValue="posts" className="space-y-4">
+                        <TabsList className="grid w-full grid-cols-2">
+                            <TabsTrigger value="posts" className="gap-2">
+                                <FileText className="h-4 w-4" />
+                                Posts
+                            </TabsTrigger>
+                            <TabsTrigger value="activity" className="gap-2">
+                                <MessageCircle className="h-4 w-4" />
+                                Activity
+                            </TabsTrigger>
+                        </TabsList>
+
+                        <TabsContent value="posts" className="space-y-4">
+                            <div className="flex flex-wrap gap-2">
+                                {postFilters.map(filter => {
+                                    const count = filter.value === 'all'
+                                        ? profile.stats.posts
+                                        : profile.stats.postsByType[filter.value];
+
+                                    return (
+                                        <Button
+                                            key={filter.value}
+                                            size="sm"
+                                            variant={postFilter === filter.value ? 'default' : 'outline'}
+                                            onClick={() => setPostFilter(filter.value)}
+                                        >
+                                            {filter.label} ({count})
+                                        </Button>
+                                    );
+                                })}
+                            </div>
+
+                            {postsQuery.isPending ? (
+                                <div className="flex justify-center py-8">
+                                    <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                                </div>
+                            ) : posts.length === 0 ? (
+                                <p className="py-8 text-center text-muted-foreground">No posts yet.</p>
+                            ) : (
+                                <div className="space-y-4">
+                                    {posts.map((post, index) => (
+                                        <PostCard
+                                            key={post.id}
+                                            post={post}
+                                            index={index}
+                                            onUpdate={refreshPosts}
+                                            onDelete={refreshPosts}
+                                        />
+                                    ))}
+                                </div>
+                            )}
+
+                            {postsQuery.hasNextPage && (
+                                <div className="flex justify-center">
+                                    <Button
+                                        variant="outline"
+                                        onClick={() => postsQuery.fetchNextPage()}
+                                        disabled={postsQuery.isFetchingNextPage}
+                                    >
+                                        {postsQuery.isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                        Load more posts
+                                    </Button>
+                                </div>
+                            )}
+                        </TabsContent>
+
+                        <TabsContent value="activity" className="space-y-3">
+                            {commentsQuery.isPending ? (
+                                <div className="flex justify-center py-8">
+                                    <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                                </div>
+                            ) : comments.length === 0 ? (
+                                <p className="py-8 text-center text-muted-foreground">No comments yet.</p>
+                            ) : (
+                                comments.map(comment => (
+                                    <Card key={comment._id} className="gradient-card border-border/50">
+                                        <CardContent className="py-4 space-y-1">
+                                            <p className="text-xs text-muted-foreground">
+                                                {comment.parentId ? 'Replied on' : 'Commented on'}{' '}
+                                                <Link to={`/post/${comment.post.id}`} className="font-medium text-foreground hover:text-primary">
+                                                    {comment.post.title}
+                                                </Link>{' '}
+                                                · {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+                                            </p>
+                                            <Markdown className="text-sm text-foreground/90 break-words">{comment.text}</Markdown>
+                                        </CardContent>
+                                    </Card>
+                                ))
+                            )}
+
+                            {commentsQuery.hasNextPage && (
+                                <div className="flex justify-center">
+                                    <Button
+                                        variant="outline"
+                                        onClick={() => commentsQuery.fetchNextPage()}
+                                        disabled={commentsQuery.isFetchingNextPage}
+                                    >
+                                        {commentsQuery.isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                        Load more activity
+                                    </Button>
+                                </div>
+                            )}
+                        </TabsContent>
+                    </Tabs>
+                </motion.div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link, useParams } from 'react-router-dom';
+import { authApi } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Loader2, CheckCircle, XCircle } from 'lucide-react';
+
+type VerifyStatus = 'verifying' | 'success' | 'error';
+
+export default function VerifyEmail() {
+    const { token } = useParams<{ token: string }>();
+    const { isAuthenticated, refreshUser } = useAuth();
+    const [status, setStatus] = useState<VerifyStatus>(token ? 'verifying' : 'error');
+    const [errorMessage, setErrorMessage] = useState('This verification link is invalid or has already been used.');
+    // Tokens are single-use, so never submit the same one twice (e.g. StrictMode re-mounts)
+    const submittedToken = useRef<string | null>(null);
+
+    useEffect(() => {
+        if (!token || submittedToken.current === token) return;
+        submittedToken.current = token;
+
+        const verify = async () => {
+            try {
+                const response = await authApi.verifyEmail(token);
+                if (response.success) {
+                    setStatus('success');
+                    return;
+                }
+                setStatus('error');
+            } catch (error) {
+                if (error instanceof Error) {
+                    setErrorMessage(error.message);
+                }
+                setStatus('error');
+            }
+        };
+        verify();
+    }, [token]);
+
+    // Pick up the new verified flag so the banner disappears
+    useEffect(() => {
+        if (status === 'success' && isAuthenticated) {
+            refreshUser();
+        }
+    }, [status, isAuthenticated, refreshUser]);
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-background py-12 px-4">
+            <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="w-full max-w-md"
+            >
+                <Card className="gradient-card border-border/50">
+                    {status === 'verifying' && (
+                        <CardHeader className="text-center space-y-4">
+                            <Loader2 className="h-10 w-10 animate-spin text-primary mx-auto" />
+                            <CardTitle className="text-2xl">Verifying your email...</CardTitle>
+                            <CardDescription>This will only take a moment.</CardDescription>
+                        </CardHeader>
+                    )}
+
+                    {status === 'success' && (
+                        <>
+                            <CardHeader className="text-center space-y-4">
+                                <div className="w-16 h-16 rounded-full bg-success/10 flex items-center justify-center mx-auto">
+                                    <CheckCircle className="h-8 w-8 text-success" />
+                                </div>
+                                <CardTitle className="text-2xl">Email Verified!</CardTitle>
+                                <CardDescription>
+                                    Your email address has been confirmed. You have full access to MiniHub.
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <Link to={isAuthenticated ? '/feed' : '/login'}>
+                                    <Button className="w-full">
+                                        {isAuthenticated ? 'Go to Feed' : 'Go to Login'}
+                                    </Button>
+                                </Link>
+                            </CardContent>
+                        </>
+                    )}
+
+                    {status === 'error' && (
+                        <>
+                            <CardHeader className="text-center space-y-4">
+                                <div className="w-16 h-16 rounded-full bg-destructive/10 flex items-center justify-center mx-auto">
+                                    <XCircle className="h-8 w-8 text-destructive" />
+                                </div>
+                                <CardTitle className="text-2xl text-destructive">Verification Failed</CardTitle>
+                                <CardDescription>
+                                    {errorMessage}
+                                    {isAuthenticated && ' You can request a new link from the banner above.'}
+                                </CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <Link to={isAuthenticated ? '/feed' : '/login'}>
+                                    <Button variant="outline" className="w-full">
+                                        {isAuthenticated ? 'Back to Feed' : 'Log in to request a new link'}
+                                    </Button>
+                                </Link>
+                            </CardContent>
+                        </>
+                    )}
+                </Card>
+            </motion.div>
+        </div>
+    );
+}
@@ -2,7 +2,26 @@ export type UserRole = 'student' | 'admin';
 
 export type PostType = 'project' | 'hackathon' | 'internship';
 
-export interface User {
+export type Availability = 'open-to-internships' | 'looking-for-team' | 'not-looking';
+
+export interface ProfileLinks {
+  github?: string;
+  linkedin?: string;
+  portfolio?: string;
+  resume?: string;
+}
+
+// Optional details students add to their profile
+export interface ProfileDetails {
+  skills?: string[];
+  university?: string;
+  major?: string;
+  graduationYear?: number;
+  links?: ProfileLinks;
+  availability?: Availability;
+}
+
+export interface User extends ProfileDetails {
   id: string;
   name: string;
   email: string;
@@ -15,15 +34,76 @@ export interface User {
 
 export interface Comment {
   _id: string;
+  post: string;
+  parentId: string | null;
+  // null once the comment has been deleted
   user: {
     _id: string;
     name: string;
     avatar?: string;
-  };
+  } | null;
   text: string;
+  replyCount: number;
+  isDeleted: boolean;
+  // Hidden by a moderator; the text is withheld
+  isHidden?: boolean;
+  editedAt: Date | null;
   createdAt: Date;
 }
 
+export type AttachmentKind = 'image' | 'document';
+
+export interface PostAttachment {
+  id: string;
+  url: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  kind: AttachmentKind;
+  width?: number;
+  height?: number;
+}
+
+export type ProjectStatus = 'idea' | 'in-progress' | 'completed';
+
+export type WorkMode = 'on-site' | 'remote' | 'hybrid';
+
+export type StipendPeriod = 'month' | 'total';
+
+export interface ProjectDetails {
+  repoUrl?: string;
+  techStack?: string[];
+  status?: ProjectStatus;
+}
+
+// Dates are ISO strings
+export interface HackathonDetails {
+  startDate?: string;
+  endDate?: string;
+  isOnline?: boolean;
+  location?: string;
+  teamSize?: { min?: number; max?: number };
+  registrationUrl?: string;
+}
+
+export interface InternshipDetails {
+  company?: string;
+  location?: string;
+  workMode?: WorkMode;
+  stipend?: { min?: number; max?: number; currency?: string; period?: StipendPeriod };
+  durationMonths?: number;
+  applicationDeadline?: string;
+}
+
+export interface PostDetailsByType {
+  project: ProjectDetails;
+  hackathon: HackathonDetails;
+  internship: InternshipDetails;
+}
+
+// Type-specific fields; which shape applies follows the post's type
+export type PostDetails = PostDetailsByType[PostType];
+
 export interface Post {
   id: string;
   type: PostType;
@@ -32,10 +112,65 @@ export interface Post {
   author: User;
   createdAt: Date;
   tags?: string[];
+  attachments?: PostAttachment[];
+  details?: PostDetails;
   likes: number;
   comments: number;
   likedBy?: string[];
-  commentsList?: Comment[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface PostSearchResult extends Post {
+  score: number | null;
+  highlights: {
+    title: HighlightSegment[];
+    description: HighlightSegment[];
+  };
+}
+
+export interface PostSearchResponse {
+  success: boolean;
+  count: number;
+  data: PostSearchResult[];
+  page: number;
+  hasMore: boolean;
+}
+
+export interface PostFilters {
+  type?: PostType | 'all';
+  tags?: string[];
+  author?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface UserSearchFilters {
+  skills?: string[];
+  university?: string;
+  graduationYear?: number;
+  availability?: Availability;
+}
+
+export interface PaginatedResponse<T> {
+  success: boolean;
+  count: number;
+  data: T[];
+  nextCursor: string | null;
+}
+
+export interface UserSession {
+  id: string;
+  device: string;
+  userAgent: string;
+  ip: string;
+  location: string;
+  lastUsedAt: string;
+  createdAt: string;
+  current: boolean;
 }
 
 export interface AuthState {
@@ -44,3 +179,481 @@ export interface AuthState {
   isLoading: boolean;
 }
 
+export type NotificationType =
+  | 'like'
+  | 'comment'
+  | 'reply'
+  | 'mention'
+  | 'application'
+  | 'application-update'
+  | 'team-request'
+  | 'team-update'
+  | 'moderation-warning';
+
+// Notifications of one type on one post, collapsed into a single entry
+export interface NotificationGroup {
+  id: string;
+  type: NotificationType;
+  post: {
+    id: string;
+    title: string;
+    type: PostType;
+  };
+  // The most recent actors, for "Alex and 4 others"
+  actors: {
+    id: string;
+    name: string;
+    avatar?: string;
+  }[];
+  actorCount: number;
+  count: number;
+  unread: number;
+  read: boolean;
+  latestAt: Date;
+}
+
+export interface NotificationsResponse {
+  success: boolean;
+  count: number;
+  unreadCount: number;
+  data: NotificationGroup[];
+  nextBefore: string | null;
+}
+
+export interface ConversationMember {
+  id: string;
+  name: string;
+  avatar?: string;
+  // Everything sent up to this moment has been read by this member
+  lastReadAt: string | null;
+}
+
+export interface Conversation {
+  id: string;
+  isGroup: boolean;
+  name: string | null;
+  members: ConversationMember[];
+  lastMessage: {
+    text: string;
+    sender: string;
+    createdAt: string;
+  } | null;
+  lastMessageAt: string;
+  unreadCount: number;
+  createdAt: string;
+}
+
+export interface ConversationDetail extends Conversation {
+  // False once either side of a one-to-one conversation has blocked the other
+  canMessage: boolean;
+  blockedByMe: boolean;
+}
+
+export interface ConversationsResponse {
+  success: boolean;
+  count: number;
+  unreadTotal: number;
+  data: Conversation[];
+  nextBefore: string | null;
+}
+
+export interface Message {
+  id: string;
+  conversation: string;
+  sender: {
+    id: string;
+    name: string;
+    avatar?: string;
+  } | null;
+  text: string;
+  createdAt: string;
+}
+
+export interface PublicProfile extends ProfileDetails {
+  id: string;
+  name: string;
+  // Only present on the viewer's own profile
+  email?: string;
+  role: UserRole;
+  bio?: string;
+  avatar?: string;
+  createdAt: string;
+  // Absent on the viewer's own profile
+  isFollowing?: boolean;
+  stats: {
+    posts: number;
+    postsByType: Record<PostType, number>;
+    likesReceived: number;
+    comments: number;
+    followers: number;
+    following: number;
+  };
+}
+
+// The people and tags the current user follows
+export interface MyFollows {
+  users: {
+    id: string;
+    name: string;
+    avatar?: string;
+  }[];
+  tags: string[];
+}
+
+// A comment shown in a user's activity, with the post it was left on
+export interface UserComment {
+  _id: string;
+  text: string;
+  parentId: string | null;
+  post: {
+    id: string;
+    title: string;
+    type: PostType;
+  };
+  createdAt: string;
+}
+
+export type ApplicationStage = 'applied' | 'shortlisted' | 'interviewing' | 'offered' | 'rejected';
+
+// The applicant's profile as it was when they applied
+export interface ApplicantSnapshot extends ProfileDetails {
+  name: string;
+  email: string;
+  avatar: string;
+  bio?: string;
+}
+
+export interface ApplicationNote {
+  id: string;
+  author: { id: string; name: string } | null;
+  text: string;
+  createdAt: string;
+}
+
+// The poster's view of an application
+export interface Application {
+  id: string;
+  post: string;
+  applicant: string;
+  profile: ApplicantSnapshot;
+  coverNote: string;
+  stage: ApplicationStage;
+  stageChangedAt: string;
+  stageHistory: { stage: ApplicationStage; changedBy: string; changedAt: string }[];
+  notes: ApplicationNote[];
+  createdAt: string;
+}
+
+export interface ApplicationsResponse extends PaginatedResponse<Application> {
+  stageCounts: Record<ApplicationStage, number>;
+  post: { id: string; title: string; type: PostType };
+}
+
+// The applicant's view of their own application
+export interface MyApplication {
+  id: string;
+  post: { id: string; title: string; company?: string } | null;
+  coverNote: string;
+  stage: ApplicationStage;
+  stageChangedAt: string;
+  createdAt: string;
+}
+
+export interface TeamUser {
+  id: string;
+  name: string;
+  avatar: string;
+}
+
+export interface TeamMember {
+  user: TeamUser | null;
+  role?: string;
+  isLead: boolean;
+  joinedAt: string;
+}
+
+// A team forming for a hackathon; openRoles are the slots still looking for someone
+export interface Team {
+  id: string;
+  post: string;
+  name: string;
+  description?: string;
+  lead: string;
+  members: TeamMember[];
+  maxSize: number;
+  spotsLeft: number;
+  openRoles: string[];
+  pendingRequests: number;
+  createdAt: string;
+}
+
+export interface TeamInput {
+  name: string;
+  description?: string;
+  // The creator's own role on the team
+  role?: string;
+  openRoles?: string[];
+}
+
+export type JoinRequestStatus = 'pending' | 'approved' | 'declined' | 'withdrawn';
+
+// Only the team lead sees these
+export interface JoinRequest {
+  id: string;
+  user: TeamUser | null;
+  role?: string;
+  message?: string;
+  status: JoinRequestStatus;
+  createdAt: string;
+}
+
+// The current user's place in a hackathon's teams
+export interface MyTeamStatus {
+  team: string | null;
+  requests: { id: string; team: string; role?: string; createdAt: string }[];
+}
+
+// A user's named group of saved posts
+export interface BookmarkCollection {
+  id: string;
+  name: string;
+  count: number;
+  createdAt: string;
+}
+
+export interface BookmarkCollectionsResponse {
+  success: boolean;
+  data: BookmarkCollection[];
+  total: number;
+  // Saved posts outside any collection
+  unsorted: number;
+}
+
+// Which collection a saved post is in; null when it isn't in one
+export interface BookmarkRef {
+  post: string;
+  collection: string | null;
+}
+
+export interface SavedPost extends Post {
+  bookmark: {
+    collection: string | null;
+    savedAt: string;
+  };
+}
+
+// A deleted post waiting in the trash until purgeAt
+export interface TrashedPost {
+  id: string;
+  type: PostType;
+  title: string;
+  author: User | null;
+  isHidden: boolean;
+  createdAt: string;
+  deletedAt: string;
+  deletedBy: { id: string; name: string } | null;
+  purgeAt: string;
+  // False for an author whose post was removed by an admin
+  canRestore: boolean;
+}
+
+export type ReportReason = 'spam' | 'harassment' | 'hate' | 'inappropriate' | 'misinformation' | 'other';
+
+export type ModerationActionType = 'dismiss' | 'hide' | 'delete' | 'warn';
+
+export interface ModerationUser {
+  id: string;
+  name: string;
+  avatar?: string;
+}
+
+// A reported post, or a comment on it, with its open reports
+export interface ReportedItem {
+  post: {
+    id: string;
+    title: string;
+    type: PostType;
+    author: ModerationUser | null;
+    isHidden: boolean;
+  };
+  // null when the post itself was reported
+  comment: {
+    id: string;
+    text: string;
+    author: ModerationUser | null;
+    isHidden: boolean;
+    createdAt: string;
+  } | null;
+  reportCount: number;
+  reasons: Partial<Record<ReportReason, number>>;
+  latestAt: string;
+  recent: { reason: ReportReason; details?: string; createdAt: string }[];
+}
+
+export interface ReportQueueResponse {
+  success: boolean;
+  count: number;
+  data: ReportedItem[];
+  page: number;
+  hasMore: boolean;
+}
+
+export interface ModerationLogEntry {
+  id: string;
+  action: ModerationActionType;
+  targetType: 'post' | 'comment';
+  post: string;
+  comment: string | null;
+  // Post title or comment text when the action was taken
+  excerpt: string;
+  reports: Partial<Record<ReportReason, number>>;
+  reportCount: number;
+  note?: string;
+  moderator: ModerationUser | null;
+  targetAuthor: ModerationUser | null;
+  createdAt: string;
+}
+
+export type AccountStatus = 'active' | 'suspended' | 'banned';
+
+// A user as admins see them in user management
+export interface AdminUser {
+  id: string;
+  name: string;
+  email: string;
+  avatar: string;
+  role: UserRole;
+  isEmailVerified: boolean;
+  status: AccountStatus;
+  suspendedUntil: string | null;
+  bannedAt: string | null;
+  restrictionReason: string | null;
+  createdAt: string;
+}
+
+export interface AdminUserFilters {
+  q?: string;
+  role?: UserRole;
+  verified?: boolean;
+  status?: AccountStatus;
+}
+
+// Hidden posts and comments are included
+export interface AdminUserDetail {
+  user: AdminUser;
+  stats: {
+    posts: number;
+    comments: number;
+    // Hides, deletions and warnings; dismissed reports don't count
+    moderationActions: number;
+  };
+  posts: {
+    id: string;
+    title: string;
+    type: PostType;
+    likes: number;
+    comments: number;
+    isHidden: boolean;
+    createdAt: string;
+  }[];
+  comments: {
+    id: string;
+    text: string;
+    post: { id: string; title: string };
+    isHidden: boolean;
+    createdAt: string;
+  }[];
+}
+
+export type AuditAction =
+  | 'post.update'
+  | 'post.hide'
+  | 'post.delete'
+  | 'post.restore'
+  | 'comment.update'
+  | 'comment.hide'
+  | 'comment.delete'
+  | 'user.role-change'
+  | 'user.suspend'
+  | 'user.ban'
+  | 'user.reinstate'
+  | 'auth.password-reset'
+  | 'auth.new-device-login';
+
+export interface AuditUser {
+  id: string;
+  name: string;
+  email: string;
+  avatar?: string;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  action: AuditAction;
+  // null when nobody was signed in, e.g. a password reset by emailed link
+  actor: AuditUser | null;
+  targetType: 'post' | 'comment' | 'user';
+  target: string;
+  // Title, comment text or email when the action was taken
+  targetLabel: string;
+  targetOwner: AuditUser | null;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  details: string | null;
+  ip: string;
+  userAgent: string;
+  createdAt: string;
+}
+
+// from and to are ISO dates; target also matches entries about content the target owns
+export interface AuditLogFilters {
+  action?: AuditAction;
+  actor?: string;
+  target?: string;
+  from?: string;
+  to?: string;
+}
+
+export type StatsBucket = 'day' | 'week';
+
+// from and to are ISO dates; the server defaults to the last 30 days by day
+export interface AdminStatsFilters {
+  from?: string;
+  to?: string;
+  bucket?: StatsBucket;
+}
+
+export interface AdminStatsPoint {
+  // Start of the day or week (Monday), UTC
+  date: string;
+  signups: number;
+  posts: number;
+  comments: number;
+  likes: number;
+}
+
+export interface AdminStats {
+  range: { from: string; to: string; bucket: StatsBucket };
+  // All-time counts, independent of the range
+  totals: {
+    users: number;
+    posts: number;
+    postsByType: Record<PostType, number>;
+    comments: number;
+    likes: number;
+  };
+  series: AdminStatsPoint[];
+  // Distinct signed-in users over the last 24 hours and 7 days
+  activeUsers: { daily: number; weekly: number };
+  verification: { verified: number; total: number; rate: number };
+  // Tags and posts from posts created in the range
+  topTags: { tag: string; count: number }[];
+  topPosts: {
+    id: string;
+    title: string;
+    type: PostType;
+    likes: number;
+    comments: number;
+    isHidden: boolean;
+    author: { id: string; name: string; avatar?: string } | null;
+  }[];
+}